@@ -7,10 +7,11 @@
 
 import 'react-native-gesture-handler';
 import React, { useEffect, useState } from 'react';
-import { StatusBar } from 'react-native';
+import { Alert, AppState, StatusBar, View, Text, StyleSheet } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import AppNavigator from './src/navigation/AppNavigator';
+import { UndoSnackbar } from './src/components/common';
 import { ThemeProvider, useTheme } from './src/contexts/ThemeContext';
 import {
   setupNotificationChannels,
@@ -21,15 +22,93 @@ import {
 } from './src/services/notificationService';
 import { useTimerStore } from './src/store/timerStore';
 import { getSetting } from './src/database/repositories/settingsRepository';
+import { getFavoriteActivities } from './src/database/repositories/activityRepository';
+import { getDatabase } from './src/database/database';
+import {
+  calculateDurationMinutes,
+  formatDuration,
+  parseDayStartTime,
+  setDayStartMinutes,
+} from './src/utils/dateUtils';
+import { setHomeTimeZone, setTimeZoneView } from './src/utils/timeZoneUtils';
+import { runAutoBackupIfDue } from './src/services/autoBackupService';
+import { purgeExpiredTrash } from './src/services/trashService';
+import { detectIdleTime, markAppInactive } from './src/services/idleService';
+import { ActivityWithCategory, IdleTime } from './src/types';
+
+const resolveIdleTime = (idle: IdleTime, assignTo: ActivityWithCategory | null) => {
+  useTimerStore
+    .getState()
+    .discardIdleTime(idle, assignTo)
+    .catch(error => {
+      Alert.alert('Idle time', (error as Error).message);
+    });
+};
+
+const chooseIdleActivity = async (idle: IdleTime) => {
+  const running = idle.timers.map(timer => timer.activityName.toLowerCase());
+  const targets = (await getFavoriteActivities()).filter(a => !running.includes(a.name.toLowerCase()));
+  if (targets.length === 0) {
+    Alert.alert('Assign idle time', 'Add favorites to assign idle time to them.');
+    return;
+  }
+  Alert.alert('Assign idle time to', undefined, [
+    ...targets.map(activity => ({ text: activity.name, onPress: () => resolveIdleTime(idle, activity) })),
+    { text: 'Cancel', style: 'cancel' as const },
+  ]);
+};
+
+// Ask what to do with time spent away from the app while timers kept running
+const checkIdleTime = async () => {
+  const idle = await detectIdleTime(useTimerStore.getState().runningTimers);
+  if (!idle) {
+    return;
+  }
+  const names = idle.timers.map(timer => timer.activityName).join(', ');
+  Alert.alert(
+    'Were you away?',
+    `You were away for ${formatDuration(calculateDurationMinutes(idle.since, idle.until))} while ${names} kept running.`,
+    [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Discard', onPress: () => resolveIdleTime(idle, null) },
+      { text: 'Assign...', onPress: () => chooseIdleActivity(idle).catch(console.error) },
+    ]
+  );
+};
 
 function AppContent() {
   const { theme } = useTheme();
   const { loadRunningTimers, runningTimers } = useTimerStore();
   const [noTimerReminderEnabled, setNoTimerReminderEnabled] = useState(true);
+  const [startupError, setStartupError] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
 
   useEffect(() => {
     // Initialize app
     const initialize = async () => {
+      // Open and migrate the database first; nothing else may touch it if this fails
+      try {
+        await getDatabase();
+      } catch (error) {
+        setStartupError((error as Error).message);
+        return;
+      }
+
+      // Apply the day start time and time zone view before any screen loads a day
+      try {
+        setDayStartMinutes(parseDayStartTime(await getSetting('dayStartTime')));
+        setTimeZoneView((await getSetting('timeZoneView')) === 'home' ? 'home' : 'local');
+        setHomeTimeZone(await getSetting('homeTimeZone'));
+      } catch (error) {
+        console.error('Error loading day settings:', error);
+      }
+      setIsReady(true);
+
+      // Permanently remove items that outlived the trash retention period
+      purgeExpiredTrash().catch(error => {
+        console.error('Failed to purge the trash:', error);
+      });
+
       // Setup notification channels
       await setupNotificationChannels();
       
@@ -38,6 +117,11 @@ function AppContent() {
       
       // Load running timers
       await loadRunningTimers();
+
+      // The system may have closed the app while it was away
+      checkIdleTime().catch(error => {
+        console.error('Idle detection failed:', error);
+      });
       
       // Schedule routine start reminders
       await scheduleRoutineStartReminders();
@@ -57,6 +141,47 @@ function AppContent() {
     initialize();
   }, [loadRunningTimers]);
 
+  // Write a scheduled backup on launch and whenever the app comes back to the foreground
+  useEffect(() => {
+    if (startupError) {
+      return;
+    }
+
+    const backupIfDue = () => {
+      runAutoBackupIfDue().catch(error => {
+        console.error('Automatic backup failed:', error);
+      });
+    };
+
+    getDatabase().then(backupIfDue, () => undefined);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        backupIfDue();
+      }
+    });
+    return () => subscription.remove();
+  }, [startupError]);
+
+  // Remember when the app leaves, and ask about idle time when it comes back
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'background') {
+        markAppInactive().catch(error => {
+          console.error('Failed to save when the app left:', error);
+        });
+      } else if (state === 'active') {
+        checkIdleTime().catch(error => {
+          console.error('Idle detection failed:', error);
+        });
+      }
+    });
+    return () => subscription.remove();
+  }, [isReady]);
+
   // Start/stop inactivity monitor based on timers and settings
   useEffect(() => {
     const updateMonitor = async () => {
@@ -69,10 +194,29 @@ function AppContent() {
     updateMonitor();
   }, [runningTimers.length, noTimerReminderEnabled]);
 
+  if (startupError) {
+    return (
+      <SafeAreaProvider>
+        <StatusBar barStyle={theme.statusBarStyle} backgroundColor={theme.primary} />
+        <View style={[styles.errorContainer, { backgroundColor: theme.background }]}>
+          <Text style={[styles.errorTitle, { color: theme.error }]}>Unable to open your data</Text>
+          <Text style={[styles.errorMessage, { color: theme.textSecondary }]}>
+            The database could not be upgraded, so the app stopped to protect your data.
+            Please update the app or contact support.
+          </Text>
+          <Text style={[styles.errorDetails, { color: theme.textTertiary }]}>{startupError}</Text>
+        </View>
+      </SafeAreaProvider>
+    );
+  }
+
   return (
     <SafeAreaProvider>
       <StatusBar barStyle={theme.statusBarStyle} backgroundColor={theme.primary} />
-      <AppNavigator />
+      <View style={styles.appContainer}>
+        {isReady && <AppNavigator />}
+        <UndoSnackbar />
+      </View>
     </SafeAreaProvider>
   );
 }
@@ -85,4 +229,28 @@ function App() {
   );
 }
 
+const styles = StyleSheet.create({
+  appContainer: {
+    flex: 1,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  errorMessage: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  errorDetails: {
+    fontSize: 12,
+    marginTop: 16,
+  },
+});
+
 export default App;
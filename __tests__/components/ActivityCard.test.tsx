@@ -17,6 +17,7 @@ const mockActivity: ActivityWithCategory = {
   isFavorite: false,
   displayOrder: 0,
   idlePromptEnabled: true,
+  isBackground: false,
   isArchived: false,
   usageCount: 5,
   lastUsedAt: null,
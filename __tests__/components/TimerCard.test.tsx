@@ -16,6 +16,9 @@ describe('TimerCard', () => {
     startTime: new Date(),
     isPlanned: true,
     expectedDurationMinutes: 60,
+    isBackground: false,
+    pausedAt: null,
+    pausedSeconds: 0,
   };
 
   const defaultProps = {
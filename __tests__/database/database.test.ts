@@ -0,0 +1,83 @@
+// Database Service Tests
+
+const mockStatements: string[] = [];
+
+jest.mock('react-native-sqlite-storage', () => ({
+  enablePromise: jest.fn(),
+  openDatabase: jest.fn(() =>
+    Promise.resolve({
+      executeSql: jest.fn(async (sql: string) => {
+        mockStatements.push(sql);
+        // Let other callers run between statements, like the native bridge does
+        await new Promise<void>(resolve => setTimeout(resolve, 0));
+        const rows = sql.startsWith('SELECT COUNT(*)') ? [{ count: 1 }] : [];
+        return [{ rows: { length: rows.length, item: (i: number) => rows[i] }, rowsAffected: 0, insertId: 0 }];
+      }),
+      close: jest.fn(),
+    })
+  ),
+}));
+
+jest.mock('../../src/database/migrations', () => ({
+  runMigrations: jest.fn(() => Promise.resolve()),
+}));
+
+import { executeSql, executeTransaction, getDatabase } from '../../src/database/database';
+
+describe('executeTransaction', () => {
+  beforeEach(async () => {
+    await getDatabase();
+    mockStatements.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs concurrent transactions one after another', async () => {
+    await Promise.all([
+      executeTransaction(async () => {
+        await executeSql('INSERT a1');
+        await executeSql('INSERT a2');
+      }),
+      executeTransaction(async () => {
+        await executeSql('INSERT b1');
+      }),
+    ]);
+
+    expect(mockStatements).toEqual([
+      'BEGIN TRANSACTION;', 'INSERT a1', 'INSERT a2', 'COMMIT;',
+      'BEGIN TRANSACTION;', 'INSERT b1', 'COMMIT;',
+    ]);
+  });
+
+  it('keeps statements issued before a queued transaction out of it', async () => {
+    await Promise.all([
+      executeTransaction(async () => {
+        await executeSql('INSERT a1');
+      }),
+      executeSql('SELECT outside'),
+    ]);
+
+    expect(mockStatements).toEqual(['BEGIN TRANSACTION;', 'INSERT a1', 'COMMIT;', 'SELECT outside']);
+  });
+
+  it('runs the next transaction after one rolls back', async () => {
+    const failed = executeTransaction(async () => {
+      await executeSql('INSERT a1');
+      throw new Error('boom');
+    });
+    const next = executeTransaction(async () => {
+      await executeSql('INSERT b1');
+      return 'done';
+    });
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('done');
+    expect(mockStatements).toEqual([
+      'BEGIN TRANSACTION;', 'INSERT a1', 'ROLLBACK;',
+      'BEGIN TRANSACTION;', 'INSERT b1', 'COMMIT;',
+    ]);
+  });
+});
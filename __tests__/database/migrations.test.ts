@@ -0,0 +1,372 @@
+// Migration Runner Tests
+
+import {
+  MIGRATIONS,
+  MigrationError,
+  getSchemaVersion,
+  runMigrations,
+  Migration,
+} from '../../src/database/migrations';
+import { DATABASE_VERSION } from '../../src/database/schema';
+
+// Minimal in-memory stand-in for SQLiteDatabase that understands the
+// statements the migration runner issues (DDL, PRAGMA, settings upserts,
+// table rebuilds).
+type Row = Record<string, any>;
+type Tables = Record<string, { columns: string[]; rows: Row[]; sql?: string }>;
+
+function resultSet(rows: Row[]) {
+  return [
+    {
+      rows: { length: rows.length, item: (i: number) => rows[i], raw: () => rows },
+      rowsAffected: 0,
+      insertId: 0,
+    },
+  ];
+}
+
+function parseCreateTable(sql: string): { name: string; columns: string[] } {
+  const name = /CREATE TABLE IF NOT EXISTS (\w+)/i.exec(sql)![1];
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const columns = body
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => line.split(/\s+/)[0])
+    .filter(token => !['FOREIGN', 'PRIMARY', 'UNIQUE', 'CHECK'].includes(token.toUpperCase()));
+  return { name, columns };
+}
+
+function createFakeDatabase(initial: Tables = {}) {
+  let tables: Tables = JSON.parse(JSON.stringify(initial));
+  let snapshot: Tables | null = null;
+  const statements: string[] = [];
+
+  const executeSql = jest.fn(async (rawSql: string, params: any[] = []) => {
+    const sql = rawSql.trim();
+    statements.push(sql);
+
+    if (/^BEGIN/i.test(sql)) {
+      snapshot = JSON.parse(JSON.stringify(tables));
+      return resultSet([]);
+    }
+    if (/^COMMIT/i.test(sql)) {
+      snapshot = null;
+      return resultSet([]);
+    }
+    if (/^ROLLBACK/i.test(sql)) {
+      tables = snapshot ?? tables;
+      snapshot = null;
+      return resultSet([]);
+    }
+    if (/^CREATE TABLE/i.test(sql)) {
+      const { name, columns } = parseCreateTable(sql);
+      if (!tables[name]) {
+        tables[name] = { columns, rows: [], sql };
+      }
+      return resultSet([]);
+    }
+    const rename = /^ALTER TABLE (\w+) RENAME TO (\w+)/i.exec(sql);
+    if (rename) {
+      tables[rename[2]] = tables[rename[1]];
+      delete tables[rename[1]];
+      return resultSet([]);
+    }
+    const copy = /^INSERT INTO (\w+) \(([\w, ]+)\) SELECT [\w, ]+ FROM (\w+)/i.exec(sql);
+    if (copy) {
+      const columns = copy[2].split(', ');
+      tables[copy[1]].rows = tables[copy[3]].rows.map(row =>
+        Object.fromEntries(columns.map(column => [column, row[column]]))
+      );
+      return resultSet([]);
+    }
+    const drop = /^DROP TABLE (\w+)/i.exec(sql);
+    if (drop) {
+      delete tables[drop[1]];
+      return resultSet([]);
+    }
+    if (/^CREATE INDEX/i.test(sql)) {
+      return resultSet([]);
+    }
+    if (/^SELECT name FROM sqlite_master/i.test(sql)) {
+      return resultSet(tables[params[0]] ? [{ name: params[0] }] : []);
+    }
+    if (/^SELECT sql FROM sqlite_master/i.test(sql)) {
+      const table = tables[params[0]];
+      return resultSet(table ? [{ sql: table.sql ?? null }] : []);
+    }
+    const pragma = /^PRAGMA table_info\((\w+)\)/i.exec(sql);
+    if (pragma) {
+      const table = tables[pragma[1]];
+      return resultSet(table ? table.columns.map(name => ({ name })) : []);
+    }
+    const alter = /^ALTER TABLE (\w+) ADD COLUMN (\w+)/i.exec(sql);
+    if (alter) {
+      const table = tables[alter[1]];
+      if (table.columns.includes(alter[2])) {
+        throw new Error(`duplicate column name: ${alter[2]}`);
+      }
+      table.columns.push(alter[2]);
+      return resultSet([]);
+    }
+    if (/^UPDATE time_sessions\s+SET time_zone = \?/i.test(sql)) {
+      // Stands in for SQLite's localtime, using the test time zone
+      for (const row of tables.time_sessions.rows.filter(r => r.utc_offset_minutes == null)) {
+        row.time_zone = params[0];
+        row.utc_offset_minutes = -new Date(row.start_time).getTimezoneOffset();
+      }
+      return resultSet([]);
+    }
+    if (/^UPDATE time_sessions\s+SET actual_duration_seconds = /i.test(sql)) {
+      // Stands in for the julianday arithmetic
+      for (const row of tables.time_sessions.rows) {
+        if (row.actual_duration_seconds != null || row.actual_duration_minutes == null) {
+          continue;
+        }
+        const spanSeconds = row.end_time
+          ? Math.round((Date.parse(row.end_time) - Date.parse(row.start_time)) / 1000)
+          : null;
+        row.actual_duration_seconds =
+          spanSeconds !== null && Math.trunc(spanSeconds / 60) === row.actual_duration_minutes
+            ? spanSeconds
+            : row.actual_duration_minutes * 60;
+      }
+      return resultSet([]);
+    }
+    if (/^SELECT value FROM settings WHERE key = 'db_version'/i.test(sql)) {
+      return resultSet(tables.settings.rows.filter(row => row.key === 'db_version'));
+    }
+    if (/^INSERT OR REPLACE INTO settings/i.test(sql)) {
+      const rows = tables.settings.rows.filter(row => row.key !== params[0]);
+      rows.push({ key: params[0], value: params[1], updated_at: params[2] });
+      tables.settings.rows = rows;
+      return resultSet([]);
+    }
+    throw new Error(`Unsupported statement in fake database: ${sql}`);
+  });
+
+  return {
+    db: { executeSql } as any,
+    getTables: () => tables,
+    statements,
+  };
+}
+
+// Schema as it shipped in version 1, before routine scheduling and routine
+// sessions were added.
+const V1_FIXTURE: Tables = {
+  categories: {
+    columns: ['id', 'name', 'color', 'icon', 'is_default', 'display_order', 'created_at', 'updated_at'],
+    rows: [{ id: 'cat-1', name: 'Health' }],
+  },
+  activities: {
+    columns: [
+      'id', 'name', 'category_id', 'default_expected_minutes', 'is_planned_default', 'is_favorite',
+      'display_order', 'idle_prompt_enabled', 'is_archived', 'usage_count', 'last_used_at',
+      'created_at', 'updated_at',
+    ],
+    rows: [{ id: 'act-1', name: 'Running', category_id: 'cat-1' }],
+  },
+  time_sessions: {
+    columns: [
+      'id', 'activity_id', 'activity_name_snapshot', 'category_id', 'category_name_snapshot',
+      'start_time', 'end_time', 'actual_duration_minutes', 'expected_duration_minutes', 'is_planned',
+      'source', 'is_running', 'idle_prompt_enabled', 'created_at', 'updated_at',
+    ],
+    rows: [{ id: 'sess-1', activity_id: 'act-1', start_time: '2026-01-02T10:00:00.000Z' }],
+  },
+  goals: {
+    columns: ['id', 'activity_id', 'goal_type', 'scope', 'target_minutes', 'is_active', 'created_at', 'updated_at'],
+    rows: [],
+  },
+  routines: {
+    columns: ['id', 'name', 'routine_type', 'is_active', 'created_at', 'updated_at'],
+    rows: [],
+  },
+  routine_items: {
+    columns: [
+      'id', 'routine_id', 'activity_id', 'scheduled_time', 'expected_duration_minutes',
+      'day_of_week', 'display_order',
+    ],
+    rows: [],
+  },
+  settings: {
+    columns: ['key', 'value', 'updated_at'],
+    rows: [{ key: 'db_version', value: '1', updated_at: '2026-01-01T00:00:00.000Z' }],
+  },
+};
+
+describe('migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps DATABASE_VERSION in sync with the last migration', () => {
+    expect(MIGRATIONS[MIGRATIONS.length - 1].version).toBe(DATABASE_VERSION);
+  });
+
+  it('uses strictly increasing migration versions', () => {
+    MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+  });
+
+  it('creates the latest schema on a fresh database', async () => {
+    const { db, getTables } = createFakeDatabase();
+
+    const version = await runMigrations(db);
+
+    expect(version).toBe(DATABASE_VERSION);
+    expect(await getSchemaVersion(db)).toBe(DATABASE_VERSION);
+    expect(getTables().time_sessions.columns).toEqual(expect.arrayContaining(['routine_id', 'notes']));
+    expect(getTables().routines.columns).toEqual(expect.arrayContaining(['start_time', 'day_filter']));
+    expect(getTables().tags.columns).toEqual(['id', 'name', 'color', 'created_at', 'updated_at']);
+  });
+
+  it('upgrades a v1 database to the latest schema without touching data', async () => {
+    const { db, getTables } = createFakeDatabase(V1_FIXTURE);
+
+    const version = await runMigrations(db);
+
+    const tables = getTables();
+    expect(version).toBe(DATABASE_VERSION);
+    expect(tables.time_sessions.columns).toEqual(expect.arrayContaining(['routine_id', 'notes']));
+    expect(tables.routines.columns).toEqual(expect.arrayContaining(['start_time', 'day_filter']));
+    expect(tables.session_tags.columns).toEqual(['id', 'session_id', 'tag_id', 'created_at']);
+    expect(tables.activity_tags.columns).toEqual(['id', 'activity_id', 'tag_id', 'created_at']);
+    for (const table of ['activities', 'time_sessions', 'routines']) {
+      expect(tables[table].columns).toContain('deleted_at');
+    }
+    expect(tables.session_revisions.columns).toEqual(
+      expect.arrayContaining(['session_id', 'source', 'before_json', 'after_json'])
+    );
+    expect(tables.time_sessions.rows).toEqual(
+      V1_FIXTURE.time_sessions.rows.map(row => expect.objectContaining(row))
+    );
+    expect(tables.settings.rows.find(row => row.key === 'db_version')?.value).toBe(
+      String(DATABASE_VERSION)
+    );
+  });
+
+  it('records the device time zone on existing sessions', async () => {
+    const fixture: Tables = JSON.parse(JSON.stringify(V1_FIXTURE));
+    fixture.time_sessions.rows.push({ id: 'sess-2', start_time: '2026-07-02T10:00:00.000Z' });
+    const { db, getTables } = createFakeDatabase(fixture);
+
+    await runMigrations(db);
+
+    const sessions = getTables().time_sessions;
+    expect(sessions.columns).toEqual(expect.arrayContaining(['time_zone', 'utc_offset_minutes']));
+    // America/New_York is UTC-5 in winter and UTC-4 in summer
+    expect(sessions.rows.map(row => [row.time_zone, row.utc_offset_minutes])).toEqual([
+      ['America/New_York', -300],
+      ['America/New_York', -240],
+    ]);
+  });
+
+  it('backfills second durations from the session times', async () => {
+    const fixture: Tables = JSON.parse(JSON.stringify(V1_FIXTURE));
+    fixture.time_sessions.rows = [
+      // Stored as 1 minute, lasted 1m 50s
+      { id: 'sess-1', start_time: '2026-01-02T10:00:00.000Z', end_time: '2026-01-02T10:01:50.000Z', actual_duration_minutes: 1 },
+      // Trimmed to 20 of its 60 minutes
+      { id: 'sess-2', start_time: '2026-01-02T11:00:00.000Z', end_time: '2026-01-02T12:00:00.000Z', actual_duration_minutes: 20 },
+      { id: 'sess-3', start_time: '2026-01-02T13:00:00.000Z', end_time: null, actual_duration_minutes: null },
+    ];
+    const { db, getTables } = createFakeDatabase(fixture);
+
+    await runMigrations(db);
+
+    expect(getTables().time_sessions.rows.map(row => row.actual_duration_seconds)).toEqual([
+      110,
+      1200,
+      undefined,
+    ]);
+  });
+
+  it('rebuilds time_sessions so imported sessions pass the source check', async () => {
+    const { db, getTables, statements } = createFakeDatabase(V1_FIXTURE);
+
+    await runMigrations(db);
+
+    const sessions = getTables().time_sessions;
+    expect(sessions.sql).toContain(`'import'`);
+    expect(sessions.columns).toContain('routine_id');
+    expect(sessions.rows).toEqual(V1_FIXTURE.time_sessions.rows.map(row => expect.objectContaining(row)));
+    expect(getTables().time_sessions_previous).toBeUndefined();
+    expect(statements).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON time_sessions(start_time);'
+    );
+  });
+
+  it('skips the rebuild when time_sessions already allows imports', async () => {
+    const { db, statements } = createFakeDatabase();
+
+    await runMigrations(db);
+
+    expect(statements.some(sql => /RENAME TO/i.test(sql))).toBe(false);
+  });
+
+  it('upgrades v1 databases that were already patched ad hoc', async () => {
+    const patched: Tables = JSON.parse(JSON.stringify(V1_FIXTURE));
+    patched.routines.columns.push('start_time', 'day_filter');
+    patched.time_sessions.columns.push('routine_id');
+    const { db } = createFakeDatabase(patched);
+
+    await expect(runMigrations(db)).resolves.toBe(DATABASE_VERSION);
+  });
+
+  it('treats legacy installs without a version row as v1', async () => {
+    const legacy: Tables = JSON.parse(JSON.stringify(V1_FIXTURE));
+    legacy.settings.rows = [];
+    const { db } = createFakeDatabase(legacy);
+
+    expect(await getSchemaVersion(db)).toBe(1);
+  });
+
+  it('does nothing when the database is already up to date', async () => {
+    const { db, statements } = createFakeDatabase();
+    await runMigrations(db);
+    statements.length = 0;
+
+    await runMigrations(db);
+
+    expect(statements.some(sql => /^BEGIN/i.test(sql))).toBe(false);
+  });
+
+  it('rolls back a failing migration and stops with a MigrationError', async () => {
+    const { db, getTables } = createFakeDatabase(V1_FIXTURE);
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: DATABASE_VERSION + 1,
+        name: 'broken',
+        up: async database => {
+          await database.executeSql('ALTER TABLE goals ADD COLUMN note TEXT;');
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    await expect(runMigrations(db, migrations)).rejects.toBeInstanceOf(MigrationError);
+
+    const tables = getTables();
+    expect(tables.goals.columns).not.toContain('note');
+    expect(tables.settings.rows.find(row => row.key === 'db_version')?.value).toBe(
+      String(DATABASE_VERSION)
+    );
+  });
+
+  it('refuses to open a database written by a newer app version', async () => {
+    const newer: Tables = JSON.parse(JSON.stringify(V1_FIXTURE));
+    newer.settings.rows[0].value = String(DATABASE_VERSION + 5);
+    const { db } = createFakeDatabase(newer);
+
+    await expect(runMigrations(db)).rejects.toThrow(/newer than this app supports/);
+  });
+});
@@ -1,4 +1,25 @@
-// Session Repository Tests - Module Export Verification
+// Session Repository Tests - Module Export Verification and Composable Queries
+
+const mockExecuteQuery = jest.fn();
+const mockExecuteQuerySingle = jest.fn();
+const mockExecuteSql = jest.fn();
+
+jest.mock('../../src/database/database', () => ({
+  executeQuery: (...args: any[]) => mockExecuteQuery(...args),
+  executeQuerySingle: (...args: any[]) => mockExecuteQuerySingle(...args),
+  executeSql: (...args: any[]) => mockExecuteSql(...args),
+  executeTransaction: (callback: () => Promise<unknown>) => callback(),
+}));
+
+import {
+  getSessionsForDay,
+  queryDayTotalsBetween,
+  querySessions,
+  querySessionTotals,
+  splitSession,
+  stopSessionWithSlices,
+} from '../../src/database/repositories/sessionRepository';
+import { setTimeZoneView } from '../../src/utils/timeZoneUtils';
 
 describe('sessionRepository', () => {
   it('should export required functions', () => {
@@ -10,6 +31,349 @@ describe('sessionRepository', () => {
     expect(typeof sessionRepository.deleteSession).toBe('function');
     expect(typeof sessionRepository.getSessionsForDay).toBe('function');
     expect(typeof sessionRepository.getSessionsInRange).toBe('function');
+    expect(typeof sessionRepository.getAllSessions).toBe('function');
     expect(typeof sessionRepository.getRecentSessions).toBe('function');
+    expect(typeof sessionRepository.searchSessions).toBe('function');
+    expect(typeof sessionRepository.querySessions).toBe('function');
+    expect(typeof sessionRepository.querySessionTotals).toBe('function');
+  });
+});
+
+const row = (id: string, startTime: string) => ({
+  id,
+  activity_id: 'act-1',
+  activity_name_snapshot: 'Reading',
+  category_id: 'cat-1',
+  category_name_snapshot: 'Education',
+  routine_id: null,
+  start_time: startTime,
+  end_time: null,
+  actual_duration_minutes: 30,
+  actual_duration_seconds: 1800,
+  expected_duration_minutes: null,
+  is_planned: 1,
+  source: 'timer',
+  is_running: 0,
+  idle_prompt_enabled: 0,
+  notes: null,
+  time_zone: null,
+  utc_offset_minutes: null,
+  deleted_at: null,
+  created_at: startTime,
+  updated_at: startTime,
+});
+
+describe('querySessions', () => {
+  beforeEach(() => {
+    mockExecuteQuery.mockReset();
+  });
+
+  it('combines filter criteria into parameterized conditions', async () => {
+    mockExecuteQuery.mockResolvedValue([]);
+
+    await querySessions({
+      from: '2026-03-01T00:00:00.000Z',
+      activityIds: ['act-1', 'act-2'],
+      categoryIds: [],
+      isPlanned: false,
+      routineId: null,
+      minDurationMinutes: 10,
+      notesContain: '50%',
+    });
+
+    const [sql, params] = mockExecuteQuery.mock.calls[0];
+    expect(sql).toContain('s.deleted_at IS NULL');
+    expect(sql).toContain('s.activity_id IN (?, ?)');
+    expect(sql).not.toContain('s.category_id IN');
+    expect(sql).toContain('s.routine_id IS NULL');
+    expect(params).toEqual([
+      '2026-03-01T00:00:00.000Z',
+      'act-1',
+      'act-2',
+      0,
+      600,
+      '%50\\%%',
+      51,
+    ]);
+  });
+
+  it('returns a cursor only when another page follows', async () => {
+    mockExecuteQuery.mockResolvedValueOnce([
+      row('b', '2026-03-02T09:00:00.000Z'),
+      row('a', '2026-03-01T09:00:00.000Z'),
+    ]);
+
+    const page = await querySessions({}, { limit: 1 });
+    expect(page.sessions.map(session => session.id)).toEqual(['b']);
+    expect(page.nextCursor).not.toBeNull();
+
+    mockExecuteQuery.mockResolvedValueOnce([row('a', '2026-03-01T09:00:00.000Z')]);
+    const next = await querySessions({}, { limit: 1, cursor: page.nextCursor });
+    const [sql, params] = mockExecuteQuery.mock.calls[1];
+    expect(sql).toContain('(s.start_time < ? OR (s.start_time = ? AND s.id < ?))');
+    expect(params).toEqual(['2026-03-02T09:00:00.000Z', '2026-03-02T09:00:00.000Z', 'b', 2]);
+    expect(next.nextCursor).toBeNull();
+  });
+
+  it('rejects malformed cursors', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(querySessions({}, { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid session cursor');
+    expect(mockExecuteQuery).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('querySessionTotals', () => {
+  it('maps grouped rows to totals', async () => {
+    mockExecuteQuery.mockResolvedValueOnce([
+      { group_key: 'planned', group_label: 'Planned', total_minutes: 90, sessions_count: 3 },
+      { group_key: 'unplanned', group_label: 'Unplanned', total_minutes: null, sessions_count: 1 },
+    ]);
+
+    const totals = await querySessionTotals({ sources: ['timer'] }, 'planned');
+
+    expect(mockExecuteQuery.mock.calls[0][1]).toEqual(['timer']);
+    expect(totals).toEqual([
+      { key: 'planned', label: 'Planned', totalMinutes: 90, sessionsCount: 3 },
+      { key: 'unplanned', label: 'Unplanned', totalMinutes: 0, sessionsCount: 1 },
+    ]);
+  });
+});
+
+describe('queryDayTotalsBetween', () => {
+  beforeEach(() => {
+    mockExecuteQuery.mockReset();
+  });
+
+  it('reads only sessions near the days and keeps their totals', async () => {
+    const newYork = (start: string, end: string, minutes: number) => ({
+      start_time: start,
+      end_time: end,
+      actual_duration_minutes: minutes,
+      actual_duration_seconds: minutes * 60,
+      utc_offset_minutes: -300,
+    });
+    // 22:00 on Jan 1 to 02:00 on Jan 2, and 10:00 to 11:00 on Jan 3
+    mockExecuteQuery.mockResolvedValueOnce([
+      newYork('2026-01-02T03:00:00.000Z', '2026-01-02T07:00:00.000Z', 240),
+      newYork('2026-01-03T15:00:00.000Z', '2026-01-03T16:00:00.000Z', 60),
+    ]);
+
+    const totals = await queryDayTotalsBetween({ sources: ['timer'] }, new Date(2026, 0, 2, 9), new Date(2026, 0, 2, 18));
+
+    const [sql, params] = mockExecuteQuery.mock.calls[0];
+    expect(sql).toContain('s.start_time < ? AND (s.end_time IS NULL OR s.end_time > ?)');
+    expect(params).toEqual(['timer', '2026-01-04T07:00:00.000Z', '2026-01-01T03:00:00.000Z']);
+    expect(totals.map(total => [total.key, total.totalMinutes])).toEqual([['2026-01-02', 120]]);
+  });
+});
+
+describe('time zone views', () => {
+  // 23:30 to 00:30 in Tokyo (UTC+9), 09:30 to 10:30 on the New York test clock
+  const tokyoSession = {
+    start_time: '2026-01-02T14:30:00.000Z',
+    end_time: '2026-01-02T15:30:00.000Z',
+    actual_duration_minutes: 60,
+    actual_duration_seconds: 3600,
+    utc_offset_minutes: 540,
+  };
+
+  beforeEach(() => {
+    mockExecuteQuery.mockReset();
+  });
+
+  afterEach(() => {
+    setTimeZoneView('local');
+  });
+
+  it('splits days at the midnight the session was experienced in', async () => {
+    setTimeZoneView('local');
+    mockExecuteQuery.mockResolvedValueOnce([tokyoSession]);
+
+    const totals = await querySessionTotals({}, 'day');
+
+    expect(totals.map(total => [total.key, total.totalMinutes])).toEqual([
+      ['2026-01-02', 30],
+      ['2026-01-03', 30],
+    ]);
+  });
+
+  it('uses the home time zone when asked to', async () => {
+    setTimeZoneView('home');
+    mockExecuteQuery.mockResolvedValueOnce([tokyoSession]);
+
+    const totals = await querySessionTotals({}, 'day');
+
+    expect(totals.map(total => [total.key, total.totalMinutes])).toEqual([['2026-01-02', 60]]);
+  });
+
+  it('compares day queries by wall-clock time in the local view', async () => {
+    mockExecuteQuery.mockResolvedValue([]);
+
+    setTimeZoneView('local');
+    await getSessionsForDay(new Date('2026-01-02T12:00:00'));
+    setTimeZoneView('home');
+    await getSessionsForDay(new Date('2026-01-02T12:00:00'));
+
+    expect(mockExecuteQuery.mock.calls[0][1].slice(0, 3)).toEqual(['2026-01-02T00:00:00.000Z', '2026-01-03T00:00:00.000Z', 1]);
+    expect(mockExecuteQuery.mock.calls[1][1].slice(0, 3)).toEqual(['2026-01-02T05:00:00.000Z', '2026-01-03T05:00:00.000Z', 0]);
+  });
+
+  it('prefilters on the raw start time with bounds covering every offset', async () => {
+    mockExecuteQuery.mockResolvedValue([]);
+
+    setTimeZoneView('local');
+    await getSessionsForDay(new Date('2026-01-02T12:00:00'));
+    setTimeZoneView('home');
+
+    const [sql, params] = mockExecuteQuery.mock.calls[0];
+    expect(sql).toContain('s.start_time >= b.scan_start AND s.start_time < b.scan_end');
+    expect(params.slice(3)).toEqual(['2026-01-01T10:00:00.000Z', '2026-01-03T14:00:00.000Z']);
+  });
+});
+
+describe('second durations', () => {
+  beforeEach(() => {
+    mockExecuteQuery.mockReset();
+    mockExecuteQuerySingle.mockReset();
+    mockExecuteSql.mockReset();
+  });
+
+  it('sums day totals from seconds so short sessions are not lost', async () => {
+    const short = (start: string, end: string) => ({
+      start_time: start,
+      end_time: end,
+      actual_duration_minutes: 1,
+      actual_duration_seconds: 100,
+      utc_offset_minutes: -300,
+    });
+    mockExecuteQuery.mockResolvedValueOnce([
+      short('2026-01-02T14:00:00.000Z', '2026-01-02T14:01:40.000Z'),
+      short('2026-01-02T15:00:00.000Z', '2026-01-02T15:01:40.000Z'),
+      short('2026-01-02T16:00:00.000Z', '2026-01-02T16:01:40.000Z'),
+    ]);
+
+    const totals = await querySessionTotals({}, 'day');
+
+    expect(totals).toEqual([{ key: '2026-01-02', label: '2026-01-02', totalMinutes: 5, sessionsCount: 3 }]);
+  });
+
+  it('keeps both halves of a split short session', async () => {
+    const original = {
+      ...row('sess-1', '2026-01-02T14:00:00.000Z'),
+      end_time: '2026-01-02T14:01:30.000Z',
+      actual_duration_minutes: 2,
+      actual_duration_seconds: 90,
+    };
+    mockExecuteQuerySingle.mockResolvedValue(original);
+    mockExecuteQuery.mockResolvedValue([]);
+
+    await splitSession('sess-1', '2026-01-02T14:00:45.000Z', 'act-2', 'Writing', 'cat-1', 'Education');
+
+    const update = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('UPDATE time_sessions'));
+    const insert = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('INSERT INTO time_sessions'));
+    expect(update![1].slice(0, 3)).toEqual(['2026-01-02T14:00:45.000Z', 1, 45]);
+    expect(insert![1].slice(7, 10)).toEqual(['2026-01-02T14:01:30.000Z', 1, 45]);
+  });
+
+  it('keeps the notes and time zone on the second half of a split', async () => {
+    mockExecuteQuerySingle.mockResolvedValue({
+      ...row('sess-1', '2026-01-02T14:00:00.000Z'),
+      end_time: '2026-01-02T15:00:00.000Z',
+      notes: 'Chapter 3',
+      time_zone: 'Europe/Berlin',
+    });
+    mockExecuteQuery.mockResolvedValue([]);
+
+    await splitSession('sess-1', '2026-01-02T14:30:00.000Z', 'act-2', 'Writing', 'cat-1', 'Education');
+
+    const insert = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('INSERT INTO time_sessions'));
+    expect(insert![1].slice(15, 18)).toEqual(['Chapter 3', 'Europe/Berlin', 60]);
+  });
+
+  it('copies the tags of a split session to the second half', async () => {
+    mockExecuteQuerySingle.mockImplementation(async (sql: string, params: string[]) => ({
+      ...row(params[0], '2026-01-02T14:00:00.000Z'),
+      end_time: '2026-01-02T15:00:00.000Z',
+    }));
+    mockExecuteQuery.mockImplementation(async (sql: string) =>
+      sql.includes('FROM session_tags') ? [{ tag_id: 'tag-1' }, { tag_id: 'tag-2' }] : []
+    );
+
+    const { second } = await splitSession('sess-1', '2026-01-02T14:30:00.000Z', 'act-2', 'Writing', 'cat-1', 'Education');
+
+    const tagged = mockExecuteSql.mock.calls
+      .filter(([sql]) => sql.includes('INTO session_tags'))
+      .map(([, params]) => params.slice(1, 3));
+    expect(tagged).toEqual([[second.id, 'tag-1'], [second.id, 'tag-2']]);
+  });
+});
+
+describe('paused sessions', () => {
+  beforeEach(() => {
+    mockExecuteQuery.mockReset();
+    mockExecuteQuerySingle.mockReset();
+    mockExecuteSql.mockReset();
+    jest.useFakeTimers().setSystemTime(new Date('2026-01-02T14:30:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('leaves paused time out of the duration when stopping', async () => {
+    const running = { ...row('sess-1', '2026-01-02T14:00:00.000Z'), is_running: 1, actual_duration_seconds: null };
+    mockExecuteQuerySingle.mockImplementation(async (sql: string) =>
+      sql.includes('session_pauses') ? null : running
+    );
+    mockExecuteQuery.mockImplementation(async (sql: string) =>
+      sql.includes('session_pauses')
+        ? [
+            { id: 'p1', session_id: 'sess-1', paused_at: '2026-01-02T14:05:00.000Z', resumed_at: '2026-01-02T14:15:00.000Z' },
+            { id: 'p2', session_id: 'sess-1', paused_at: '2026-01-02T14:25:00.000Z', resumed_at: '2026-01-02T14:30:00.000Z' },
+          ]
+        : []
+    );
+    mockExecuteSql.mockResolvedValue({ rowsAffected: 1 });
+
+    await stopSessionWithSlices('sess-1');
+
+    const update = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('SET is_running = 0'));
+    expect(update![1].slice(0, 3)).toEqual(['2026-01-02T14:30:00.000Z', 15, 900]);
+  });
+
+  it('leaves paused time out of both halves of a split and moves later pauses', async () => {
+    const finished = { ...row('sess-1', '2026-01-02T14:00:00.000Z'), end_time: '2026-01-02T15:00:00.000Z' };
+    mockExecuteQuerySingle.mockImplementation(async (sql: string, params: string[]) =>
+      sql.includes('session_pauses') ? null : { ...finished, id: params[0] }
+    );
+    mockExecuteQuery.mockImplementation(async (sql: string) =>
+      sql.includes('session_pauses')
+        ? [
+            { id: 'p1', session_id: 'sess-1', paused_at: '2026-01-02T14:05:00.000Z', resumed_at: '2026-01-02T14:15:00.000Z' },
+            { id: 'p2', session_id: 'sess-1', paused_at: '2026-01-02T14:25:00.000Z', resumed_at: '2026-01-02T14:35:00.000Z' },
+            { id: 'p3', session_id: 'sess-1', paused_at: '2026-01-02T14:40:00.000Z', resumed_at: '2026-01-02T14:50:00.000Z' },
+          ]
+        : []
+    );
+    mockExecuteSql.mockResolvedValue({ rowsAffected: 1 });
+
+    await splitSession('sess-1', '2026-01-02T14:30:00.000Z', 'act-2', 'Writing', 'cat-1', 'Education');
+
+    const update = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('UPDATE time_sessions'));
+    const insert = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('INSERT INTO time_sessions'));
+    const secondId = insert![1][0];
+    expect(update![1].slice(0, 3)).toEqual(['2026-01-02T14:30:00.000Z', 15, 900]);
+    expect(insert![1].slice(7, 10)).toEqual(['2026-01-02T15:00:00.000Z', 15, 900]);
+    expect(mockExecuteSql).toHaveBeenCalledWith(
+      'UPDATE session_pauses SET resumed_at = ? WHERE id = ?',
+      ['2026-01-02T14:30:00.000Z', 'p2']
+    );
+    const added = mockExecuteSql.mock.calls.find(([sql]) => sql.includes('INSERT INTO session_pauses'));
+    expect(added![1].slice(1, 4)).toEqual([secondId, '2026-01-02T14:30:00.000Z', '2026-01-02T14:35:00.000Z']);
+    expect(mockExecuteSql).toHaveBeenCalledWith(
+      'UPDATE session_pauses SET session_id = ? WHERE id = ?',
+      [secondId, 'p3']
+    );
   });
 });
@@ -0,0 +1,59 @@
+// Session Revision Repository Tests
+
+import {
+  REVISABLE_SESSION_FIELDS,
+  getChangedSessionFields,
+} from '../../src/database/repositories/sessionRevisionRepository';
+import { TimeSession } from '../../src/types';
+
+const session: TimeSession = {
+  id: 'sess-1',
+  activityId: 'act-1',
+  activityNameSnapshot: 'Reading',
+  categoryId: 'cat-1',
+  categoryNameSnapshot: 'Education',
+  startTime: '2026-03-01T08:00:00.000Z',
+  endTime: '2026-03-01T08:45:00.000Z',
+  actualDurationSeconds: 2700,
+  actualDurationMinutes: 45,
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  source: 'timer',
+  isRunning: false,
+  idlePromptEnabled: true,
+  notes: null,
+  timeZone: null,
+  utcOffsetMinutes: null,
+  createdAt: '2026-03-01T08:00:00.000Z',
+  updatedAt: '2026-03-01T08:45:00.000Z',
+};
+
+describe('sessionRevisionRepository', () => {
+  describe('getChangedSessionFields', () => {
+    it('lists the fields an edit changed', () => {
+      const trimmed = {
+        ...session,
+        startTime: '2026-03-01T08:15:00.000Z',
+        actualDurationMinutes: 30,
+        updatedAt: '2026-03-02T10:00:00.000Z',
+      };
+
+      expect(getChangedSessionFields(session, trimmed)).toEqual([
+        'startTime',
+        'actualDurationMinutes',
+      ]);
+    });
+
+    it('ignores timer state and a missing routine id', () => {
+      const running = { ...session, routineId: null, isRunning: true };
+
+      expect(getChangedSessionFields(session, running)).toEqual([]);
+    });
+
+    it('treats creation and deletion as changing every field', () => {
+      expect(getChangedSessionFields(null, session)).toEqual([...REVISABLE_SESSION_FIELDS]);
+      expect(getChangedSessionFields(session, null)).toEqual([...REVISABLE_SESSION_FIELDS]);
+      expect(getChangedSessionFields(null, null)).toEqual([]);
+    });
+  });
+});
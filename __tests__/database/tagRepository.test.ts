@@ -0,0 +1,17 @@
+// Tag Repository Tests - Module Export Verification
+
+describe('tagRepository', () => {
+  it('should export required functions', () => {
+    const tagRepository = require('../../src/database/repositories/tagRepository');
+
+    expect(typeof tagRepository.getAllTags).toBe('function');
+    expect(typeof tagRepository.createTag).toBe('function');
+    expect(typeof tagRepository.updateTag).toBe('function');
+    expect(typeof tagRepository.deleteTag).toBe('function');
+    expect(typeof tagRepository.getTagsForSessions).toBe('function');
+    expect(typeof tagRepository.setSessionTags).toBe('function');
+    expect(typeof tagRepository.setActivityTags).toBe('function');
+    expect(typeof tagRepository.applyActivityTagsToSession).toBe('function');
+    expect(typeof tagRepository.getTotalMinutesByTag).toBe('function');
+  });
+});
@@ -0,0 +1,90 @@
+// Backup Fixtures - BackupData builders shared by the backup tests
+//
+// New backup tables only need adding to emptyTables here.
+
+import { BACKUP_VERSION, computeTableStats } from '../../src/services/backupCodec';
+import { BackupData } from '../../src/types';
+
+type BackupTables = Omit<BackupData, 'metadata'>;
+
+const emptyTables = (): BackupTables => ({
+  categories: [],
+  activities: [],
+  sessions: [],
+  goals: [],
+  routines: [],
+  routineItems: [],
+  tags: [],
+  sessionTags: [],
+  activityTags: [],
+  sessionPauses: [],
+  sessionRevisions: [],
+  settings: {},
+});
+
+const withMetadata = (data: BackupTables, metadata: Partial<BackupData['metadata']> = {}): BackupData => ({
+  metadata: {
+    version: BACKUP_VERSION,
+    createdAt: '2026-03-01T12:00:00.000Z',
+    appVersion: '1.0.0',
+    tables: computeTableStats(data),
+    ...metadata,
+  },
+  ...data,
+});
+
+// A backup without any records
+export function createEmptyBackup(overrides: Partial<BackupData> = {}): BackupData {
+  const { metadata, ...tables } = overrides;
+  return withMetadata({ ...emptyTables(), ...tables }, metadata);
+}
+
+// One category with one finished session, and a theme setting
+export function createBackup(overrides: Partial<BackupData> = {}): BackupData {
+  const { metadata, ...tables } = overrides;
+  return withMetadata(
+    {
+      ...emptyTables(),
+      categories: [
+        {
+          id: 'cat-1',
+          name: 'Health',
+          color: '#10B981',
+          icon: 'heart',
+          isDefault: true,
+          displayOrder: 0,
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-02-01T00:00:00.000Z',
+        },
+      ],
+      sessions: [
+        {
+          id: 'sess-1',
+          activityId: null,
+          activityNameSnapshot: 'Running',
+          categoryId: 'cat-1',
+          categoryNameSnapshot: 'Health',
+          routineId: null,
+          startTime: '2026-02-10T07:00:00.000Z',
+          endTime: '2026-02-10T07:30:00.000Z',
+          actualDurationSeconds: 1800,
+          actualDurationMinutes: 30,
+          expectedDurationMinutes: null,
+          isPlanned: true,
+          source: 'timer',
+          isRunning: false,
+          idlePromptEnabled: true,
+          notes: null,
+          timeZone: null,
+          utcOffsetMinutes: null,
+          createdAt: '2026-02-10T07:00:00.000Z',
+          updatedAt: '2026-02-10T07:30:00.000Z',
+          deletedAt: null,
+        },
+      ],
+      settings: { theme: 'dark' },
+      ...tables,
+    },
+    metadata
+  );
+}
@@ -0,0 +1,168 @@
+// Auto Backup Service Tests
+
+import RNFS from 'react-native-fs';
+import {
+  BACKUP_DIRECTORY,
+  DEFAULT_AUTO_BACKUP_SETTINGS,
+  getAutoBackupSettings,
+  isAutoBackupDue,
+  listBackupSnapshots,
+  pruneBackupSnapshots,
+  runAutoBackupIfDue,
+  snapshotFileName,
+  writeBackupSnapshot,
+} from '../../src/services/autoBackupService';
+import { createBackup } from '../../src/services/backupService';
+import { getSetting, setSetting } from '../../src/database/repositories/settingsRepository';
+import { createEmptyBackup } from '../fixtures/backup';
+
+jest.mock('../../src/services/backupService', () => ({
+  createBackup: jest.fn(),
+}));
+jest.mock('../../src/database/repositories/settingsRepository', () => ({
+  getSetting: jest.fn(),
+  setSetting: jest.fn(() => Promise.resolve()),
+}));
+
+const file = (name: string) => ({
+  name,
+  path: `${BACKUP_DIRECTORY}/${name}`,
+  size: 2048,
+  isFile: () => true,
+});
+
+const mockSettings = (values: Record<string, string>) => {
+  (getSetting as jest.Mock).mockImplementation((key: string) =>
+    Promise.resolve(values[key] ?? null)
+  );
+};
+
+describe('autoBackupService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (RNFS.exists as jest.Mock).mockResolvedValue(true);
+    (RNFS.readDir as jest.Mock).mockResolvedValue([]);
+    (createBackup as jest.Mock).mockResolvedValue(createEmptyBackup());
+    mockSettings({});
+  });
+
+  describe('isAutoBackupDue', () => {
+    const daily = { ...DEFAULT_AUTO_BACKUP_SETTINGS, enabled: true };
+    const weekly = { ...daily, frequency: 'weekly' as const };
+
+    it('never runs while disabled', () => {
+      expect(isAutoBackupDue(DEFAULT_AUTO_BACKUP_SETTINGS, null)).toBe(false);
+    });
+
+    it('runs when no backup has succeeded yet', () => {
+      expect(isAutoBackupDue(daily, null)).toBe(true);
+    });
+
+    it('runs daily backups once per calendar day', () => {
+      const last = new Date(2026, 2, 1, 23, 30).toISOString();
+      expect(isAutoBackupDue(daily, last, new Date(2026, 2, 1, 23, 59))).toBe(false);
+      expect(isAutoBackupDue(daily, last, new Date(2026, 2, 2, 0, 5))).toBe(true);
+    });
+
+    it('runs weekly backups after seven days', () => {
+      const last = new Date(2026, 2, 1, 9, 0).toISOString();
+      expect(isAutoBackupDue(weekly, last, new Date(2026, 2, 7, 23, 0))).toBe(false);
+      expect(isAutoBackupDue(weekly, last, new Date(2026, 2, 8, 7, 0))).toBe(true);
+    });
+  });
+
+  describe('getAutoBackupSettings', () => {
+    it('falls back to defaults for missing or invalid values', async () => {
+      mockSettings({ autoBackupEnabled: 'true', autoBackupFrequency: 'hourly', autoBackupKeepCount: '99' });
+
+      expect(await getAutoBackupSettings()).toEqual({
+        enabled: true,
+        frequency: 'daily',
+        keepCount: 30,
+      });
+    });
+  });
+
+  describe('listBackupSnapshots', () => {
+    it('lists snapshot files newest first and ignores other files', async () => {
+      (RNFS.readDir as jest.Mock).mockResolvedValue([
+        file('auto-backup-20260301T080000Z.json'),
+        file('notes.txt'),
+        file('auto-backup-20260302T080000Z.json'),
+      ]);
+
+      const snapshots = await listBackupSnapshots();
+
+      expect(snapshots.map(s => s.createdAt)).toEqual([
+        '2026-03-02T08:00:00.000Z',
+        '2026-03-01T08:00:00.000Z',
+      ]);
+    });
+
+    it('returns nothing before the first backup', async () => {
+      (RNFS.exists as jest.Mock).mockResolvedValue(false);
+
+      expect(await listBackupSnapshots()).toEqual([]);
+      expect(RNFS.readDir).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruneBackupSnapshots', () => {
+    it('deletes everything beyond the newest N files', async () => {
+      (RNFS.readDir as jest.Mock).mockResolvedValue([
+        file('auto-backup-20260301T080000Z.json'),
+        file('auto-backup-20260303T080000Z.json'),
+        file('auto-backup-20260302T080000Z.json'),
+      ]);
+
+      expect(await pruneBackupSnapshots(2)).toBe(1);
+      expect(RNFS.unlink).toHaveBeenCalledTimes(1);
+      expect(RNFS.unlink).toHaveBeenCalledWith(`${BACKUP_DIRECTORY}/auto-backup-20260301T080000Z.json`);
+    });
+  });
+
+  describe('writeBackupSnapshot', () => {
+    const now = new Date('2026-03-04T10:15:30.000Z');
+
+    it('writes the snapshot and records the success', async () => {
+      const snapshot = await writeBackupSnapshot(7, now);
+
+      expect(snapshot.fileName).toBe(snapshotFileName(now));
+      expect(snapshot.fileName).toBe('auto-backup-20260304T101530Z.json');
+      expect(RNFS.mkdir).toHaveBeenCalledWith(BACKUP_DIRECTORY);
+      expect(RNFS.writeFile).toHaveBeenCalledWith(snapshot.path, expect.any(String), 'utf8');
+      expect(setSetting).toHaveBeenCalledWith('autoBackupLastSuccessAt', now.toISOString());
+    });
+
+    it('records failures and rethrows them', async () => {
+      (RNFS.writeFile as jest.Mock).mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(writeBackupSnapshot(7, now)).rejects.toThrow('Disk full');
+      expect(setSetting).toHaveBeenCalledWith('autoBackupLastFailureAt', now.toISOString());
+      expect(setSetting).toHaveBeenCalledWith('autoBackupLastError', 'Disk full');
+      expect(setSetting).not.toHaveBeenCalledWith('autoBackupLastSuccessAt', expect.anything());
+    });
+  });
+
+  describe('runAutoBackupIfDue', () => {
+    it('skips the backup when one already ran today', async () => {
+      const now = new Date(2026, 2, 4, 18, 0);
+      mockSettings({
+        autoBackupEnabled: 'true',
+        autoBackupLastSuccessAt: new Date(2026, 2, 4, 9, 0).toISOString(),
+      });
+
+      expect(await runAutoBackupIfDue(now)).toBeNull();
+      expect(createBackup).not.toHaveBeenCalled();
+    });
+
+    it('shares a single run between overlapping calls', async () => {
+      mockSettings({ autoBackupEnabled: 'true' });
+
+      const [first, second] = await Promise.all([runAutoBackupIfDue(), runAutoBackupIfDue()]);
+
+      expect(first).toBe(second);
+      expect(createBackup).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,353 @@
+// Backup Codec Tests
+
+import {
+  BACKUP_VERSION,
+  BackupValidationError,
+  decodeBackup,
+  encodeBackup,
+  upgradeBackup,
+} from '../../src/services/backupCodec';
+import { BackupData } from '../../src/types';
+import { createBackup } from '../fixtures/backup';
+
+// Decode JSON that was edited after the checksums were written
+const decodeEdited = (edit: (backup: Record<string, any>) => void): BackupData => {
+  const backup: Record<string, any> = createBackup();
+  delete backup.metadata.tables;
+  edit(backup);
+  return decodeBackup(JSON.stringify(backup));
+};
+
+const errorPaths = (fn: () => unknown): string[] => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof BackupValidationError) {
+      return error.errors.map(e => e.path);
+    }
+    throw error;
+  }
+  return [];
+};
+
+describe('backupCodec', () => {
+  describe('decodeBackup', () => {
+    it('round-trips a current backup', () => {
+      const backup = createBackup();
+      expect(decodeBackup(encodeBackup(backup))).toEqual(backup);
+    });
+
+    it('rejects text that is not JSON', () => {
+      expect(() => decodeBackup('not a backup')).toThrow(BackupValidationError);
+    });
+
+    it('rejects backups without metadata', () => {
+      expect(errorPaths(() => decodeBackup('{"sessions": []}'))).toEqual(['metadata']);
+    });
+
+    it('rejects backups from a newer format version', () => {
+      const backup = createBackup();
+      backup.metadata.version = BACKUP_VERSION + 1;
+      expect(() => decodeBackup(JSON.stringify(backup))).toThrow(/newer version/);
+    });
+
+    it('reports an invalid session source by path', () => {
+      const paths = errorPaths(() =>
+        decodeEdited(backup => {
+          backup.sessions[0].source = 'stopwatch';
+        })
+      );
+      expect(paths).toEqual(['sessions[0].source']);
+      expect(() =>
+        decodeEdited(backup => {
+          backup.sessions[0].source = 'stopwatch';
+        })
+      ).toThrow('sessions[0].source must be one of timer, manual, routine, assistant, import (got "stopwatch")');
+    });
+
+    it('reports a missing activityNameSnapshot', () => {
+      expect(
+        errorPaths(() =>
+          decodeEdited(backup => {
+            delete backup.sessions[0].activityNameSnapshot;
+          })
+        )
+      ).toEqual(['sessions[0].activityNameSnapshot']);
+    });
+
+    it('collects every problem instead of stopping at the first', () => {
+      const paths = errorPaths(() =>
+        decodeEdited(backup => {
+          backup.categories[0].isDefault = 'yes';
+          backup.sessions[0].startTime = 'yesterday';
+          backup.settings.theme = 1;
+        })
+      );
+      expect(paths).toEqual(['categories[0].isDefault', 'sessions[0].startTime', 'settings.theme']);
+    });
+
+    it('requires revision snapshots to be objects', () => {
+      const paths = errorPaths(() =>
+        decodeEdited(backup => {
+          backup.sessionRevisions.push({
+            id: 'rev-1',
+            sessionId: 'sess-1',
+            source: 'update',
+            before: '{}',
+            after: { ...backup.sessions[0] },
+            createdAt: '2026-02-11T08:00:00.000Z',
+          });
+        })
+      );
+      expect(paths).toEqual(['sessionRevisions[0].before']);
+    });
+
+    it('rejects duplicate ids within a table', () => {
+      const paths = errorPaths(() =>
+        decodeEdited(backup => {
+          backup.sessions.push({ ...backup.sessions[0] });
+        })
+      );
+      expect(paths).toEqual(['sessions[1].id']);
+    });
+
+    it('rejects backups that are missing records', () => {
+      const backup = createBackup();
+      const json = JSON.stringify({ ...backup, sessions: [] });
+      expect(() => decodeBackup(json)).toThrow(/sessions has 0 of 1 records/);
+    });
+
+    it('rejects backups whose records were altered', () => {
+      const backup = createBackup();
+      backup.sessions[0].actualDurationMinutes = 300;
+      expect(() => decodeBackup(JSON.stringify(backup))).toThrow(/checksum/);
+    });
+
+    it('ignores key order when verifying checksums', () => {
+      const backup = createBackup();
+      const reordered = Object.fromEntries(Object.entries(backup.categories[0]).reverse());
+      const json = JSON.stringify({ ...backup, categories: [reordered] });
+      expect(() => decodeBackup(json)).not.toThrow();
+    });
+  });
+
+  describe('upgrades', () => {
+    const createV1Backup = () => {
+      const { metadata, ...current } = createBackup();
+      const session: Record<string, unknown> = { ...current.sessions[0] };
+      delete session.routineId;
+      return {
+        ...current,
+        metadata: { version: 1, createdAt: metadata.createdAt, appVersion: '1.0.0' },
+        sessions: [{ ...session, categoryColor: '#10B981', categoryIcon: 'heart' }],
+      };
+    };
+
+    it('restores format 1 backups written by older app versions', () => {
+      const backup = decodeBackup(JSON.stringify(createV1Backup()));
+
+      expect(backup.metadata.version).toBe(BACKUP_VERSION);
+      expect(backup.sessions[0]).not.toHaveProperty('categoryColor');
+      expect(backup.sessions[0].activityNameSnapshot).toBe('Running');
+    });
+
+    it('fills in routine schedule fields missing from format 1', () => {
+      const v1 = {
+        ...createV1Backup(),
+        routines: [
+          {
+            id: 'routine-1',
+            name: 'Morning',
+            routineType: 'daily',
+            isActive: true,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+      };
+
+      const backup = decodeBackup(JSON.stringify(v1));
+
+      expect(backup.routines[0]).toMatchObject({ startTime: null, dayFilter: 'all' });
+    });
+
+    it('adds empty notes to sessions from format 2', () => {
+      const { metadata, ...current } = createBackup();
+      const session: Record<string, unknown> = { ...current.sessions[0] };
+      delete session.notes;
+      const v2 = { ...current, metadata: { ...metadata, version: 2, tables: undefined }, sessions: [session] };
+
+      const backup = decodeBackup(JSON.stringify(v2));
+
+      expect(backup.sessions[0].notes).toBeNull();
+    });
+
+    it('leaves the time zone of sessions from format 4 unknown', () => {
+      const { metadata, ...current } = createBackup();
+      const session: Record<string, unknown> = { ...current.sessions[0] };
+      delete session.timeZone;
+      delete session.utcOffsetMinutes;
+      const v4 = { ...current, metadata: { ...metadata, version: 4, tables: undefined }, sessions: [session] };
+
+      const backup = decodeBackup(JSON.stringify(v4));
+
+      expect(backup.sessions[0]).toMatchObject({ timeZone: null, utcOffsetMinutes: null });
+    });
+
+    it('derives second durations for sessions from format 5', () => {
+      const { metadata, ...current } = createBackup();
+      const session: Record<string, unknown> = { ...current.sessions[0] };
+      delete session.actualDurationSeconds;
+      const running = { ...session, id: 'sess-2', actualDurationMinutes: null };
+      const v5 = { ...current, metadata: { ...metadata, version: 5, tables: undefined }, sessions: [session, running] };
+
+      const backup = decodeBackup(JSON.stringify(v5));
+
+      expect(backup.sessions[0].actualDurationSeconds).toBe(1800);
+      expect(backup.sessions[1].actualDurationSeconds).toBeNull();
+    });
+
+    it('marks activities from format 6 as foreground', () => {
+      const { metadata, ...current } = createBackup();
+      const activity = {
+        id: 'act-1',
+        name: 'Running',
+        categoryId: 'cat-1',
+        defaultExpectedMinutes: 30,
+        isPlannedDefault: true,
+        isFavorite: false,
+        displayOrder: 0,
+        idlePromptEnabled: true,
+        isArchived: false,
+        usageCount: 3,
+        lastUsedAt: null,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      };
+      const v6 = { ...current, metadata: { ...metadata, version: 6, tables: undefined }, activities: [activity] };
+
+      const backup = decodeBackup(JSON.stringify(v6));
+
+      expect(backup.activities[0].isBackground).toBe(false);
+    });
+
+    it('keeps activities and routines from format 10 out of the trash', () => {
+      const { metadata, ...current } = createBackup();
+      const v10 = {
+        ...current,
+        metadata: { ...metadata, version: 10, tables: undefined },
+        activities: [
+          {
+            id: 'act-1',
+            name: 'Yoga',
+            categoryId: 'cat-1',
+            defaultExpectedMinutes: null,
+            isPlannedDefault: true,
+            isFavorite: false,
+            displayOrder: 0,
+            idlePromptEnabled: true,
+            isBackground: false,
+            isArchived: false,
+            usageCount: 0,
+            lastUsedAt: null,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+        routines: [
+          {
+            id: 'routine-1',
+            name: 'Morning',
+            routineType: 'daily',
+            startTime: null,
+            dayFilter: 'all',
+            isActive: true,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+          },
+        ],
+      };
+
+      const backup = decodeBackup(JSON.stringify(v10));
+
+      expect(backup.activities[0].deletedAt).toBeNull();
+      expect(backup.routines[0].deletedAt).toBeNull();
+    });
+
+    it('keeps sessions from format 9 out of the trash', () => {
+      const { metadata, ...current } = createBackup();
+      const session: Record<string, unknown> = { ...current.sessions[0] };
+      delete session.deletedAt;
+      const v9 = { ...current, metadata: { ...metadata, version: 9, tables: undefined }, sessions: [session] };
+
+      const backup = decodeBackup(JSON.stringify(v9));
+
+      expect(backup.sessions[0].deletedAt).toBeNull();
+    });
+
+    it('adds an empty revision table to format 8 backups', () => {
+      const { metadata, sessionRevisions, ...v8Data } = createBackup();
+      expect(sessionRevisions).toEqual([]);
+      const tables: Record<string, unknown> = { ...metadata.tables };
+      delete tables.sessionRevisions;
+      const v8 = { ...v8Data, metadata: { ...metadata, version: 8, tables } };
+
+      const backup = decodeBackup(JSON.stringify(v8));
+
+      expect(backup.sessionRevisions).toEqual([]);
+    });
+
+    it('adds an empty pause table to format 7 backups', () => {
+      const { metadata, sessionPauses, ...v7Data } = createBackup();
+      expect(sessionPauses).toEqual([]);
+      const tables: Record<string, unknown> = { ...metadata.tables };
+      delete tables.sessionPauses;
+      const v7 = { ...v7Data, metadata: { ...metadata, version: 7, tables } };
+
+      const backup = decodeBackup(JSON.stringify(v7));
+
+      expect(backup.sessionPauses).toEqual([]);
+    });
+
+    it('verifies format 3 checksums and adds empty tag tables', () => {
+      const { metadata, tags, sessionTags, activityTags, ...v3Data } = createBackup();
+      expect([tags, sessionTags, activityTags]).toEqual([[], [], []]);
+      const tables: Record<string, unknown> = { ...metadata.tables };
+      delete tables.tags;
+      delete tables.sessionTags;
+      delete tables.activityTags;
+      const v3 = { ...v3Data, metadata: { ...metadata, version: 3, tables } };
+
+      const backup = decodeBackup(JSON.stringify(v3));
+
+      expect(backup.tags).toEqual([]);
+      expect(backup.sessionTags).toEqual([]);
+      expect(backup.activityTags).toEqual([]);
+    });
+
+    it('chains upgrades one format at a time', () => {
+      const steps: number[] = [];
+      const upgrades = {
+        1: (backup: Record<string, any>) => {
+          steps.push(backup.metadata.version);
+          return { ...backup, first: true };
+        },
+        2: (backup: Record<string, any>) => {
+          steps.push(backup.metadata.version);
+          return { ...backup, second: true };
+        },
+      };
+
+      const upgraded = upgradeBackup({ metadata: { version: 1 } }, upgrades, 3);
+
+      expect(steps).toEqual([1, 2]);
+      expect(upgraded).toMatchObject({ first: true, second: true, metadata: { version: 3 } });
+    });
+
+    it('fails loudly when an upgrade step is missing', () => {
+      expect(() => upgradeBackup({ metadata: { version: 1 } }, {}, 2)).toThrow(
+        'No upgrade from backup format 1'
+      );
+    });
+  });
+});
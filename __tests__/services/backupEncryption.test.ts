@@ -0,0 +1,117 @@
+// Backup Encryption Tests
+
+import {
+  BackupDecryptionError,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from '../../src/services/backupEncryption';
+import { BACKUP_VERSION, encodeBackup } from '../../src/services/backupCodec';
+import { createBackup as createBackupFixture } from '../fixtures/backup';
+
+// Low iteration count keeps the suite fast; production uses the default
+const ITERATIONS = 1000;
+
+const createBackup = () =>
+  createBackupFixture({ sessions: [], settings: { theme: 'dark', note: 'Läufe 🏃' } });
+
+const failureReason = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof BackupDecryptionError) {
+      return error.reason;
+    }
+    throw error;
+  }
+  return null;
+};
+
+const edit = (text: string, change: (file: Record<string, any>) => void) => {
+  const file = JSON.parse(text);
+  change(file);
+  return JSON.stringify(file);
+};
+
+describe('backupEncryption', () => {
+  const encrypted = encryptBackup(createBackup(), 'correct horse battery', ITERATIONS);
+
+  it('round-trips a backup with the right passphrase', () => {
+    expect(decryptBackup(encrypted, 'correct horse battery')).toEqual(createBackup());
+  });
+
+  it('keeps the data out of the file and the KDF parameters in the header', () => {
+    const file = JSON.parse(encrypted);
+
+    expect(encrypted).not.toContain('Health');
+    expect(file.encryption).toMatchObject({
+      version: 1,
+      kdf: 'PBKDF2-SHA256',
+      iterations: ITERATIONS,
+      cipher: 'AES-256-CTR+HMAC-SHA256',
+    });
+    expect(file.metadata).toEqual({
+      version: BACKUP_VERSION,
+      createdAt: '2026-03-01T12:00:00.000Z',
+      appVersion: '1.0.0',
+    });
+  });
+
+  it('uses a fresh salt and IV for every file', () => {
+    const again = JSON.parse(encryptBackup(createBackup(), 'correct horse battery', ITERATIONS));
+    const first = JSON.parse(encrypted);
+
+    expect(again.encryption.salt).not.toBe(first.encryption.salt);
+    expect(again.encryption.iv).not.toBe(first.encryption.iv);
+  });
+
+  it('rejects a wrong passphrase', () => {
+    expect(() => decryptBackup(encrypted, 'wrong horse battery')).toThrow(
+      'The passphrase is incorrect.'
+    );
+  });
+
+  it('rejects a modified payload', () => {
+    const tampered = edit(encrypted, file => {
+      const last = file.payload.length - 5;
+      const flipped = file.payload[last] === 'A' ? 'B' : 'A';
+      file.payload = file.payload.slice(0, last) + flipped + file.payload.slice(last + 1);
+    });
+
+    expect(failureReason(() => decryptBackup(tampered, 'correct horse battery'))).toBe('tampered');
+  });
+
+  it('rejects modified clear metadata', () => {
+    const tampered = edit(encrypted, file => {
+      file.metadata.createdAt = '2020-01-01T00:00:00.000Z';
+    });
+
+    expect(failureReason(() => decryptBackup(tampered, 'correct horse battery'))).toBe('tampered');
+  });
+
+  it('rejects damaged headers and absurd iteration counts', () => {
+    const noSalt = edit(encrypted, file => {
+      delete file.encryption.salt;
+    });
+    const huge = edit(encrypted, file => {
+      file.encryption.iterations = 1e12;
+    });
+
+    expect(failureReason(() => decryptBackup(noSalt, 'correct horse battery'))).toBe('format');
+    expect(failureReason(() => decryptBackup(huge, 'correct horse battery'))).toBe('format');
+  });
+
+  it('rejects files from a newer encryption version', () => {
+    const newer = edit(encrypted, file => {
+      file.encryption.version = 2;
+    });
+
+    expect(() => decryptBackup(newer, 'correct horse battery')).toThrow(/newer version/);
+  });
+
+  it('tells encrypted and plain backups apart', () => {
+    expect(isEncryptedBackup(encrypted)).toBe(true);
+    expect(isEncryptedBackup(encodeBackup(createBackup()))).toBe(false);
+    expect(isEncryptedBackup('not json')).toBe(false);
+  });
+});
@@ -0,0 +1,374 @@
+// Backup Service Tests
+
+import {
+  ExistingRecords,
+  buildRestorePlan,
+  createBackup as createBackupFromDatabase,
+} from '../../src/services/backupService';
+import { BACKUP_VERSION, decodeBackup } from '../../src/services/backupCodec';
+import * as sessionRepository from '../../src/database/repositories/sessionRepository';
+import * as routineRepository from '../../src/database/repositories/routineRepository';
+import * as activityRepository from '../../src/database/repositories/activityRepository';
+import * as goalRepository from '../../src/database/repositories/goalRepository';
+import { BackupData, BackupTableName } from '../../src/types';
+import { createBackup as createBackupFixture } from '../fixtures/backup';
+
+jest.mock('../../src/database/repositories/categoryRepository', () => ({
+  getAllCategories: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/activityRepository', () => ({
+  getAllActivitiesForBackup: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/sessionRepository', () => ({
+  getAllSessions: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/goalRepository', () => ({
+  getAllGoals: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/routineRepository', () => ({
+  getAllRoutinesForBackup: jest.fn(() => Promise.resolve([])),
+  getAllRoutineItems: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/settingsRepository', () => ({
+  getAllSettings: jest.fn(() =>
+    Promise.resolve({ theme: 'dark', inactiveSince: '2026-03-01T11:00:00.000Z', autoBackupLastError: 'Disk full' })
+  ),
+}));
+jest.mock('../../src/database/repositories/sessionPauseRepository', () => ({
+  getAllSessionPauses: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/sessionRevisionRepository', () => ({
+  getAllSessionRevisions: jest.fn(() => Promise.resolve([])),
+}));
+jest.mock('../../src/database/repositories/tagRepository', () => ({
+  getAllTags: jest.fn(() => Promise.resolve([])),
+  getAllSessionTags: jest.fn(() => Promise.resolve([])),
+  getAllActivityTags: jest.fn(() => Promise.resolve([])),
+}));
+
+const createBackup = (overrides: Partial<BackupData> = {}): BackupData =>
+  createBackupFixture({
+    routines: [
+      {
+        id: 'routine-1',
+        name: 'Morning',
+        routineType: 'daily',
+        startTime: '07:00',
+        dayFilter: 'all',
+        isActive: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-02-15T00:00:00.000Z',
+        deletedAt: null,
+      },
+    ],
+    routineItems: [
+      {
+        id: 'item-1',
+        routineId: 'routine-1',
+        activityId: 'act-1',
+        scheduledTime: null,
+        expectedDurationMinutes: 20,
+        dayOfWeek: null,
+        displayOrder: 0,
+      },
+    ],
+    tags: [
+      {
+        id: 'tag-1',
+        name: 'deep-work',
+        color: '#6366F1',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+    sessionTags: [
+      { id: 'link-1', sessionId: 'sess-1', tagId: 'tag-1', createdAt: '2026-02-10T07:00:00.000Z' },
+    ],
+    settings: { theme: 'dark', db_version: '1' },
+    ...overrides,
+  });
+
+const createExisting = (
+  entries: Partial<Record<BackupTableName, [string, string | null][]>> = {},
+  tags: Partial<Pick<ExistingRecords, 'tagIdsByName' | 'tagLinks'>> = {}
+): ExistingRecords => ({
+  categories: new Map(entries.categories ?? []),
+  activities: new Map(entries.activities ?? []),
+  sessions: new Map(entries.sessions ?? []),
+  goals: new Map(entries.goals ?? []),
+  routines: new Map(entries.routines ?? []),
+  routineItems: new Map(entries.routineItems ?? []),
+  tags: new Map(entries.tags ?? []),
+  sessionTags: new Map(entries.sessionTags ?? []),
+  activityTags: new Map(entries.activityTags ?? []),
+  sessionPauses: new Map(entries.sessionPauses ?? []),
+  sessionRevisions: new Map(entries.sessionRevisions ?? []),
+  settings: new Map(entries.settings ?? []),
+  tagIdsByName: tags.tagIdsByName ?? new Map(),
+  tagLinks: tags.tagLinks ?? { sessionTags: new Set(), activityTags: new Set() },
+});
+
+describe('backupService', () => {
+  describe('createBackup', () => {
+    it('exports every table, including archived and inactive records', async () => {
+      const source = createBackup();
+      (sessionRepository.getAllSessions as jest.Mock).mockResolvedValue(source.sessions);
+      (routineRepository.getAllRoutinesForBackup as jest.Mock).mockResolvedValue(source.routines);
+      (routineRepository.getAllRoutineItems as jest.Mock).mockResolvedValue(source.routineItems);
+
+      const backup = await createBackupFromDatabase();
+
+      expect(activityRepository.getAllActivitiesForBackup).toHaveBeenCalled();
+      expect(goalRepository.getAllGoals).toHaveBeenCalledWith(false);
+      expect(backup.routines).toEqual(source.routines);
+      expect(backup.routineItems).toEqual(source.routineItems);
+      expect(backup.metadata.version).toBe(BACKUP_VERSION);
+      expect(backup.metadata.tables?.sessions.count).toBe(1);
+      expect(backup.metadata.tables?.settings.count).toBe(1);
+      expect(backup.settings).toEqual({ theme: 'dark' });
+    });
+
+    it('produces backups that parse back without changes', async () => {
+      const backup = await createBackupFromDatabase();
+      expect(decodeBackup(JSON.stringify(backup))).toEqual(backup);
+    });
+  });
+
+  describe('buildRestorePlan', () => {
+    it('replaces everything and reports what will be removed', () => {
+      const existing = createExisting({
+        sessions: [['old-1', null], ['old-2', null]],
+        settings: [['theme', null]],
+      });
+
+      const plan = buildRestorePlan(createBackup(), 'replace', existing);
+
+      expect(plan.summary.sessions).toEqual({ inserted: 1, updated: 0, skipped: 0, deleted: 2 });
+      expect(plan.summary.settings.inserted).toBe(1);
+      expect(plan.writes.some(write => write.row.key === 'db_version')).toBe(false);
+    });
+
+    it('never restores the idle and backup status of the install that made the backup', () => {
+      const backup = createBackup({
+        settings: { theme: 'dark', inactiveSince: '2026-03-01T11:00:00.000Z', lastManualBackupAt: '2026-03-01T12:00:00.000Z' },
+      });
+
+      const plan = buildRestorePlan(backup, 'replace', createExisting());
+
+      expect(plan.writes.filter(write => write.table === 'settings').map(write => write.row.key)).toEqual(['theme']);
+    });
+
+    it('inserts records missing locally when merging', () => {
+      const plan = buildRestorePlan(createBackup(), 'merge', createExisting());
+
+      expect(plan.summary.categories.inserted).toBe(1);
+      expect(plan.summary.sessions.inserted).toBe(1);
+      expect(plan.summary.routineItems.inserted).toBe(1);
+      expect(plan.writes.find(write => write.table === 'sessions')?.row).toMatchObject({
+        activity_name_snapshot: 'Running',
+        is_planned: 1,
+        is_running: 0,
+        routine_id: null,
+      });
+    });
+
+    it('restores sessions in the trash as trashed', () => {
+      const [session] = createBackup().sessions;
+      const backup = createBackup({
+        sessions: [session, { ...session, id: 'sess-2', deletedAt: '2026-02-20T09:00:00.000Z' }],
+      });
+
+      const plan = buildRestorePlan(backup, 'replace', createExisting());
+
+      const rows = plan.writes.filter(write => write.table === 'sessions').map(write => write.row);
+      expect(rows.map(row => row.deleted_at)).toEqual([null, '2026-02-20T09:00:00.000Z']);
+    });
+
+    it('keeps trashed activities and routines in the trash across a backup', async () => {
+      const activity = {
+        id: 'act-1',
+        name: 'Yoga',
+        categoryId: 'cat-1',
+        defaultExpectedMinutes: null,
+        isPlannedDefault: true,
+        isFavorite: false,
+        displayOrder: 0,
+        idlePromptEnabled: true,
+        isBackground: false,
+        isArchived: false,
+        usageCount: 3,
+        lastUsedAt: null,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-02-20T09:00:00.000Z',
+        deletedAt: '2026-02-20T09:00:00.000Z',
+      };
+      const [routine] = createBackup().routines;
+      const trashedRoutine = { ...routine, deletedAt: '2026-02-21T09:00:00.000Z' };
+      (activityRepository.getAllActivitiesForBackup as jest.Mock).mockResolvedValue([activity]);
+      (routineRepository.getAllRoutinesForBackup as jest.Mock).mockResolvedValue([trashedRoutine]);
+
+      const backup = decodeBackup(JSON.stringify(await createBackupFromDatabase()));
+      const plan = buildRestorePlan(backup, 'replace', createExisting());
+
+      const row = (table: string) => plan.writes.find(write => write.table === table)?.row;
+      expect(row('activities')?.deleted_at).toBe('2026-02-20T09:00:00.000Z');
+      expect(row('routines')?.deleted_at).toBe('2026-02-21T09:00:00.000Z');
+    });
+
+    it('keeps the newer copy of each record when merging', () => {
+      const existing = createExisting({
+        categories: [['cat-1', '2026-03-01T00:00:00.000Z']],
+        sessions: [['sess-1', '2026-01-01T00:00:00.000Z']],
+      });
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+
+      expect(plan.summary.categories).toMatchObject({ inserted: 0, updated: 0, skipped: 1 });
+      expect(plan.summary.sessions).toMatchObject({ inserted: 0, updated: 1, skipped: 0 });
+    });
+
+    it('treats SQLite default timestamps as UTC', () => {
+      const existing = createExisting({ categories: [['cat-1', '2026-02-01 00:00:01']] });
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+
+      expect(plan.summary.categories.skipped).toBe(1);
+    });
+
+    it('updates routine items together with their routine', () => {
+      const existing = createExisting({
+        routines: [['routine-1', '2026-01-01T00:00:00.000Z']],
+        routineItems: [['item-1', null]],
+      });
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+
+      expect(plan.summary.routines.updated).toBe(1);
+      expect(plan.summary.routineItems.updated).toBe(1);
+    });
+
+    it('adds missing tag links and keeps existing ones when merging', () => {
+      const existing = createExisting({ tags: [['tag-1', '2026-01-01T00:00:00.000Z']] });
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+      const replan = buildRestorePlan(
+        createBackup(),
+        'merge',
+        createExisting({ sessionTags: [['link-1', null]] })
+      );
+
+      expect(plan.summary.tags.skipped).toBe(1);
+      expect(plan.writes.find(write => write.table === 'sessionTags')?.row).toEqual({
+        id: 'link-1',
+        session_id: 'sess-1',
+        tag_id: 'tag-1',
+        created_at: '2026-02-10T07:00:00.000Z',
+      });
+      expect(replan.summary.sessionTags).toMatchObject({ inserted: 0, updated: 0, skipped: 1 });
+    });
+
+    it('moves links of a backup tag onto the local tag with the same name', () => {
+      const existing = createExisting(
+        { tags: [['tag-local', '2026-01-01T00:00:00.000Z']] },
+        {
+          tagIdsByName: new Map([['deep-work', 'tag-local']]),
+          tagLinks: { sessionTags: new Set(), activityTags: new Set() },
+        }
+      );
+      const backup = createBackup({
+        tags: [{ ...createBackup().tags[0], name: 'Deep-Work' }],
+      });
+
+      const plan = buildRestorePlan(backup, 'merge', existing);
+
+      expect(plan.summary.tags).toMatchObject({ inserted: 0, skipped: 1 });
+      expect(plan.writes.some(write => write.table === 'tags')).toBe(false);
+      expect(plan.writes.find(write => write.table === 'sessionTags')).toMatchObject({
+        action: 'insert',
+        row: { session_id: 'sess-1', tag_id: 'tag-local' },
+      });
+    });
+
+    it('skips tag links that exist locally under another id', () => {
+      const existing = createExisting(
+        { tags: [['tag-1', '2026-01-01T00:00:00.000Z']] },
+        {
+          tagIdsByName: new Map([['deep-work', 'tag-1']]),
+          tagLinks: { sessionTags: new Set(['sess-1:tag-1']), activityTags: new Set() },
+        }
+      );
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+
+      expect(plan.summary.sessionTags).toMatchObject({ inserted: 0, skipped: 1 });
+    });
+
+    it('updates session pauses together with their session', () => {
+      const pause = {
+        id: 'pause-1',
+        sessionId: 'sess-1',
+        pausedAt: '2026-02-10T07:10:00.000Z',
+        resumedAt: '2026-02-10T07:15:00.000Z',
+        createdAt: '2026-02-10T07:10:00.000Z',
+      };
+      const backup = createBackup({ sessionPauses: [pause] });
+
+      const updated = buildRestorePlan(
+        backup,
+        'merge',
+        createExisting({ sessions: [['sess-1', '2026-01-01T00:00:00.000Z']], sessionPauses: [['pause-1', null]] })
+      );
+      const kept = buildRestorePlan(
+        backup,
+        'merge',
+        createExisting({ sessions: [['sess-1', '2026-03-01T00:00:00.000Z']], sessionPauses: [['pause-1', null]] })
+      );
+
+      expect(updated.summary.sessionPauses).toMatchObject({ inserted: 0, updated: 1, skipped: 0 });
+      expect(updated.writes.find(write => write.table === 'sessionPauses')?.row).toEqual({
+        id: 'pause-1',
+        session_id: 'sess-1',
+        paused_at: '2026-02-10T07:10:00.000Z',
+        resumed_at: '2026-02-10T07:15:00.000Z',
+        created_at: '2026-02-10T07:10:00.000Z',
+      });
+      expect(kept.summary.sessionPauses).toMatchObject({ inserted: 0, updated: 0, skipped: 1 });
+    });
+
+    it('restores the edit history of sessions', () => {
+      const { sessions } = createBackup();
+      const revision = {
+        id: 'rev-1',
+        sessionId: 'sess-1',
+        source: 'update' as const,
+        before: { ...sessions[0], notes: null },
+        after: { ...sessions[0], notes: 'Hills' },
+        createdAt: '2026-02-11T08:00:00.000Z',
+      };
+      const backup = createBackup({ sessionRevisions: [revision] });
+
+      const plan = buildRestorePlan(backup, 'replace', createExisting({ sessionRevisions: [['rev-0', null]] }));
+      const merged = buildRestorePlan(backup, 'merge', createExisting({ sessionRevisions: [['rev-1', null]] }));
+
+      expect(plan.summary.sessionRevisions).toEqual({ inserted: 1, updated: 0, skipped: 0, deleted: 1 });
+      const row = plan.writes.find(write => write.table === 'sessionRevisions')?.row;
+      expect(row).toMatchObject({
+        id: 'rev-1',
+        session_id: 'sess-1',
+        source: 'update',
+        before_json: JSON.stringify(revision.before),
+      });
+      expect(JSON.parse(row?.after_json as string).notes).toBe('Hills');
+      expect(merged.summary.sessionRevisions).toMatchObject({ inserted: 0, updated: 0, skipped: 1 });
+    });
+
+    it('keeps local settings when merging', () => {
+      const existing = createExisting({ settings: [['theme', null]] });
+
+      const plan = buildRestorePlan(createBackup(), 'merge', existing);
+
+      expect(plan.summary.settings).toMatchObject({ inserted: 0, skipped: 1 });
+      expect(plan.writes.some(write => write.table === 'settings')).toBe(false);
+    });
+  });
+});
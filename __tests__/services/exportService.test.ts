@@ -0,0 +1,300 @@
+// Export Service Tests
+
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import {
+  buildSessionsCsv,
+  buildSessionsIcs,
+  exportSessionsCsv,
+  exportSessionsIcs,
+  filterSessionsForExport,
+  shareExportFile,
+} from '../../src/services/exportService';
+import { getSessionsInRange } from '../../src/database/repositories/sessionRepository';
+import { getAllRoutinesForBackup } from '../../src/database/repositories/routineRepository';
+import { SessionWithDetails } from '../../src/types';
+import { formatDate } from '../../src/utils/dateUtils';
+
+jest.mock('../../src/database/repositories/sessionRepository', () => ({
+  getSessionsInRange: jest.fn(),
+}));
+jest.mock('../../src/database/repositories/routineRepository', () => ({
+  getAllRoutinesForBackup: jest.fn(),
+}));
+
+const createSession = (overrides: Partial<SessionWithDetails> = {}): SessionWithDetails => ({
+  id: 'sess-1',
+  activityId: 'act-1',
+  activityNameSnapshot: 'Running',
+  categoryId: 'cat-1',
+  categoryNameSnapshot: 'Health',
+  routineId: null,
+  startTime: '2026-02-10T07:00:00.000Z',
+  endTime: '2026-02-10T07:30:00.000Z',
+  actualDurationSeconds: 1800,
+  actualDurationMinutes: 30,
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  source: 'timer',
+  isRunning: false,
+  idlePromptEnabled: true,
+  notes: null,
+  timeZone: null,
+  utcOffsetMinutes: null,
+  createdAt: '2026-02-10T07:00:00.000Z',
+  updatedAt: '2026-02-10T07:30:00.000Z',
+  ...overrides,
+});
+
+const utf8Bytes = (text: string) => encodeURIComponent(text).replace(/%[0-9A-F]{2}/g, '_').length;
+
+describe('exportService', () => {
+  describe('buildSessionsCsv', () => {
+    it('writes the selected columns with UTC timestamps', () => {
+      const csv = buildSessionsCsv(
+        [createSession()],
+        ['activity', 'start', 'end', 'duration', 'planned', 'source'],
+        'utc'
+      );
+
+      expect(csv).toBe(
+        'Activity,Start (UTC),End (UTC),Duration (min),Planned,Source\r\n' +
+          'Running,2026-02-10T07:00:00Z,2026-02-10T07:30:00Z,30,yes,timer\r\n'
+      );
+    });
+
+    it('writes local wall-clock timestamps', () => {
+      const csv = buildSessionsCsv([createSession()], ['start'], 'local');
+
+      expect(csv).toBe(
+        `Start (local)\r\n${formatDate('2026-02-10T07:00:00.000Z', 'yyyy-MM-dd HH:mm:ss')}\r\n`
+      );
+    });
+
+    it('writes local times on the clock where the session was recorded', () => {
+      const csv = buildSessionsCsv([createSession({ utcOffsetMinutes: 60 })], ['start', 'end'], 'local');
+
+      expect(csv).toBe('Start (local),End (local)\r\n2026-02-10 08:00:00,2026-02-10 08:30:00\r\n');
+    });
+
+    it('quotes cells containing separators and neutralises formulas', () => {
+      const csv = buildSessionsCsv(
+        [createSession({ activityNameSnapshot: 'Read "Dune", part 2', categoryNameSnapshot: '=SUM(A1)' })],
+        ['activity', 'category'],
+        'utc'
+      );
+
+      expect(csv.split('\r\n')[1]).toBe(`"Read ""Dune"", part 2",'=SUM(A1)`);
+    });
+
+    it('leaves end and duration empty for running sessions', () => {
+      const csv = buildSessionsCsv(
+        [createSession({ isRunning: true, endTime: null, actualDurationMinutes: null })],
+        ['end', 'duration'],
+        'utc'
+      );
+
+      expect(csv.split('\r\n')[1]).toBe(',');
+    });
+
+    it('resolves routine names', () => {
+      const csv = buildSessionsCsv(
+        [createSession({ routineId: 'routine-1' })],
+        ['routine'],
+        'utc',
+        new Map([['routine-1', 'Morning']])
+      );
+
+      expect(csv.split('\r\n')[1]).toBe('Morning');
+    });
+
+    it('writes multi-line notes as one quoted cell', () => {
+      const csv = buildSessionsCsv(
+        [createSession({ notes: 'Chapter 3\nTook notes' }), createSession()],
+        ['notes'],
+        'utc'
+      );
+
+      expect(csv).toBe('Notes\r\n"Chapter 3\nTook notes"\r\n\r\n');
+    });
+  });
+
+  describe('filterSessionsForExport', () => {
+    const sessions = [
+      createSession({ id: 'a', categoryId: 'cat-1', activityId: 'act-1' }),
+      createSession({ id: 'b', categoryId: 'cat-2', activityId: 'act-2' }),
+      createSession({ id: 'c', categoryId: 'cat-1', activityId: null }),
+    ];
+
+    it('keeps everything without filters', () => {
+      expect(filterSessionsForExport(sessions, {})).toHaveLength(3);
+    });
+
+    it('filters by category and activity', () => {
+      expect(filterSessionsForExport(sessions, { categoryIds: ['cat-1'] }).map(s => s.id)).toEqual([
+        'a',
+        'c',
+      ]);
+      expect(filterSessionsForExport(sessions, { activityIds: ['act-2'] }).map(s => s.id)).toEqual([
+        'b',
+      ]);
+    });
+  });
+
+  describe('buildSessionsIcs', () => {
+    const generatedAt = new Date('2026-03-01T12:00:00.000Z');
+
+    it('writes one UTC event per finished session', () => {
+      const ics = buildSessionsIcs([createSession()], generatedAt);
+
+      expect(ics).toBe(
+        [
+          'BEGIN:VCALENDAR',
+          'VERSION:2.0',
+          'PRODID:-//TimeBudgetTracker//Session Export//EN',
+          'CALSCALE:GREGORIAN',
+          'METHOD:PUBLISH',
+          'BEGIN:VEVENT',
+          'UID:sess-1@timebudgettracker',
+          'SEQUENCE:1770708600',
+          'DTSTAMP:20260301T120000Z',
+          'DTSTART:20260210T070000Z',
+          'DTEND:20260210T073000Z',
+          'SUMMARY:Running',
+          'CATEGORIES:Health',
+          'LAST-MODIFIED:20260210T073000Z',
+          'END:VEVENT',
+          'END:VCALENDAR',
+          '',
+        ].join('\r\n')
+      );
+    });
+
+    it('raises the sequence of an event when its session is edited', () => {
+      const ics = buildSessionsIcs([createSession({ updatedAt: '2026-02-11T09:00:00.000Z' })], generatedAt);
+
+      expect(ics).toContain('SEQUENCE:1770800400\r\n');
+    });
+
+    it('skips running sessions', () => {
+      const ics = buildSessionsIcs(
+        [createSession({ id: 'live', isRunning: true, endTime: null }), createSession()],
+        generatedAt
+      );
+
+      expect(ics).not.toContain('UID:live@');
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+
+    it('escapes text values', () => {
+      const ics = buildSessionsIcs(
+        [createSession({ activityNameSnapshot: 'Calls; email, admin\\notes' })],
+        generatedAt
+      );
+
+      expect(ics).toContain('SUMMARY:Calls\\; email\\, admin\\\\notes\r\n');
+    });
+
+    it('adds notes as the event description', () => {
+      const ics = buildSessionsIcs(
+        [createSession({ notes: 'Intervals\n5 x 400m' }), createSession({ id: 'sess-2' })],
+        generatedAt
+      );
+
+      expect(ics).toContain('DESCRIPTION:Intervals\\n5 x 400m\r\n');
+      expect(ics.match(/DESCRIPTION:/g)).toHaveLength(1);
+    });
+
+    it('folds long lines without splitting characters', () => {
+      const name = 'é'.repeat(60);
+      const ics = buildSessionsIcs([createSession({ activityNameSnapshot: name })], generatedAt);
+
+      const summary = ics.slice(ics.indexOf('SUMMARY:'), ics.indexOf('\r\nCATEGORIES'));
+      const lines = summary.split('\r\n');
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(utf8Bytes(line)).toBeLessThanOrEqual(75));
+      expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+        `SUMMARY:${name}`
+      );
+    });
+  });
+
+  describe('file exports', () => {
+    it('writes a CSV file for the whole selected days', async () => {
+      (getSessionsInRange as jest.Mock).mockResolvedValue([createSession()]);
+      (getAllRoutinesForBackup as jest.Mock).mockResolvedValue([]);
+
+      const file = await exportSessionsCsv({
+        startDate: new Date(2026, 1, 1, 15, 0),
+        endDate: new Date(2026, 1, 28, 9, 0),
+        columns: ['activity', 'routine'],
+        timeZone: 'utc',
+      });
+
+      const [rangeStart, rangeEnd] = (getSessionsInRange as jest.Mock).mock.calls[0];
+      expect(rangeStart).toEqual(new Date(2026, 1, 1, 0, 0, 0, 0));
+      expect(rangeEnd).toEqual(new Date(2026, 1, 28, 23, 59, 59, 999));
+      expect(file).toMatchObject({
+        path: '/caches/time-sessions-2026-02-01-to-2026-02-28.csv',
+        mimeType: 'text/csv',
+        rowCount: 1,
+      });
+      expect(RNFS.writeFile).toHaveBeenCalledWith(
+        file.path,
+        expect.stringContaining('Activity,Routine'),
+        'utf8'
+      );
+    });
+
+    it('names routines that were moved to the trash', async () => {
+      (getSessionsInRange as jest.Mock).mockResolvedValue([createSession({ routineId: 'routine-1' })]);
+      (getAllRoutinesForBackup as jest.Mock).mockResolvedValue([
+        { id: 'routine-1', name: 'Morning', deletedAt: '2026-02-20T10:00:00.000Z' },
+      ]);
+
+      await exportSessionsCsv({
+        startDate: new Date(2026, 1, 1),
+        endDate: new Date(2026, 1, 28),
+        columns: ['activity', 'routine'],
+        timeZone: 'utc',
+      });
+
+      expect(RNFS.writeFile).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.stringContaining('Running,Morning\r\n'),
+        'utf8'
+      );
+    });
+
+    it('writes a calendar file counting only finished sessions', async () => {
+      (getSessionsInRange as jest.Mock).mockResolvedValue([
+        createSession(),
+        createSession({ id: 'live', isRunning: true, endTime: null }),
+      ]);
+
+      const file = await exportSessionsIcs({
+        startDate: new Date(2026, 1, 1),
+        endDate: new Date(2026, 1, 28),
+      });
+
+      expect(file).toMatchObject({
+        path: '/caches/time-sessions-2026-02-01-to-2026-02-28.ics',
+        mimeType: 'text/calendar',
+        rowCount: 1,
+      });
+    });
+
+    it('shares the written file as an attachment', async () => {
+      await shareExportFile({
+        path: '/caches/export.csv',
+        fileName: 'export.csv',
+        mimeType: 'text/csv',
+        rowCount: 1,
+      });
+
+      expect(Share.open).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'file:///caches/export.csv', type: 'text/csv' })
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+// Idle Service Tests
+
+import { detectIdleTime, getIdleTimers, takeInactiveSince } from '../../src/services/idleService';
+import {
+  deleteSetting,
+  getSetting,
+  getSettingNumber,
+} from '../../src/database/repositories/settingsRepository';
+import { RunningTimer } from '../../src/types';
+
+jest.mock('../../src/database/repositories/settingsRepository', () => ({
+  getSetting: jest.fn(() => Promise.resolve(null)),
+  setSetting: jest.fn(() => Promise.resolve()),
+  deleteSetting: jest.fn(() => Promise.resolve(true)),
+  getSettingNumber: jest.fn((_key: string, defaultValue: number) => Promise.resolve(defaultValue)),
+}));
+
+const mockGetSetting = getSetting as jest.MockedFunction<typeof getSetting>;
+const mockGetSettingNumber = getSettingNumber as jest.MockedFunction<typeof getSettingNumber>;
+
+const NOW = new Date('2026-03-01T12:00:00.000Z').getTime();
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60000);
+
+const createTimer = (overrides: Partial<RunningTimer> = {}): RunningTimer => ({
+  id: 'timer-1',
+  sessionId: 'session-1',
+  activityId: 'act-1',
+  activityName: 'Reading',
+  categoryId: 'cat-1',
+  categoryName: 'Education',
+  categoryColor: '#000',
+  startTime: minutesAgo(120),
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  idlePromptEnabled: true,
+  notes: null,
+  isBackground: false,
+  pausedAt: null,
+  pausedSeconds: 0,
+  ...overrides,
+});
+
+describe('idleService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getIdleTimers', () => {
+    const since = minutesAgo(30).toISOString();
+
+    it('returns timers that ran for at least the threshold while away', () => {
+      const timers = [createTimer()];
+      expect(getIdleTimers(timers, since, 15, NOW)).toEqual(timers);
+      expect(getIdleTimers(timers, since, 45, NOW)).toEqual([]);
+    });
+
+    it('skips timers without idle prompts and paused timers', () => {
+      const timers = [
+        createTimer({ idlePromptEnabled: false }),
+        createTimer({ id: 'timer-2', pausedAt: minutesAgo(40) }),
+      ];
+      expect(getIdleTimers(timers, since, 15, NOW)).toEqual([]);
+    });
+
+    it('only counts the time since a timer started while away', () => {
+      const timers = [createTimer({ startTime: minutesAgo(10) })];
+      expect(getIdleTimers(timers, since, 15, NOW)).toEqual([]);
+    });
+  });
+
+  describe('takeInactiveSince', () => {
+    it('reports an absence only once', async () => {
+      mockGetSetting.mockResolvedValueOnce('2026-03-01T11:00:00.000Z');
+
+      await expect(takeInactiveSince()).resolves.toBe('2026-03-01T11:00:00.000Z');
+      expect(deleteSetting).toHaveBeenCalledWith('inactiveSince');
+      await expect(takeInactiveSince()).resolves.toBeNull();
+    });
+  });
+
+  describe('detectIdleTime', () => {
+    it('uses the idle threshold setting', async () => {
+      const since = new Date(Date.now() - 20 * 60000).toISOString();
+      mockGetSetting.mockResolvedValueOnce(since);
+      mockGetSettingNumber.mockResolvedValueOnce(30);
+      await expect(detectIdleTime([createTimer()])).resolves.toBeNull();
+
+      mockGetSetting.mockResolvedValueOnce(since);
+      mockGetSettingNumber.mockResolvedValueOnce(15);
+      const idle = await detectIdleTime([createTimer()]);
+      expect(idle?.timers).toHaveLength(1);
+    });
+  });
+});
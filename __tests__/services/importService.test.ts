@@ -0,0 +1,310 @@
+// Import Service Tests
+
+import {
+  TimeEntryImportError,
+  applyTimeEntryImport,
+  parseLocalDateTime,
+  parseTimeEntryCsv,
+  planTimeEntryImport,
+  suggestImportMapping,
+} from '../../src/services/importService';
+import { createCategory } from '../../src/database/repositories/categoryRepository';
+import { createActivity } from '../../src/database/repositories/activityRepository';
+import { createSession } from '../../src/database/repositories/sessionRepository';
+import { Activity, Category, ImportedTimeEntry, TimeSession } from '../../src/types';
+
+jest.mock('../../src/database/database', () => ({
+  executeTransaction: jest.fn((callback: (db: unknown) => Promise<unknown>) => callback({})),
+}));
+jest.mock('../../src/database/repositories/categoryRepository', () => ({
+  getAllCategories: jest.fn(() => Promise.resolve([])),
+  createCategory: jest.fn(),
+}));
+jest.mock('../../src/database/repositories/activityRepository', () => ({
+  getAllActivities: jest.fn(() => Promise.resolve([])),
+  createActivity: jest.fn(),
+}));
+jest.mock('../../src/database/repositories/sessionRepository', () => ({
+  getSessionsInRange: jest.fn(() => Promise.resolve([])),
+  createSession: jest.fn(() => Promise.resolve({})),
+}));
+
+const TOGGL_CSV = [
+  'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount ()',
+  'Ana,ana@example.com,Acme,Website,,"Fix header, footer",Yes,2026-02-10,09:00:00,2026-02-10,10:30:00,01:30:00,"Coding, Billable",',
+  'Ana,ana@example.com,,Health,,Morning run,No,2026-02-11,07:00:00,2026-02-11,07:45:00,00:45:00,,',
+].join('\r\n');
+
+const CLOCKIFY_CSV = [
+  'Project,Client,Description,Task,User,Group,Email,Tags,Billable,Start Date,Start Time,End Date,End Time,Duration (h),Duration (decimal)',
+  'Website,Acme,Review,,Ana,,ana@example.com,Meetings,Yes,02/10/2026,11:00:00 PM,02/11/2026,12:15:00 AM,01:15:00,1.25',
+].join('\n');
+
+const category = (id: string, name: string): Category => ({
+  id,
+  name,
+  color: '#10B981',
+  icon: 'heart',
+  isDefault: false,
+  displayOrder: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const activity = (id: string, name: string, categoryId: string): Activity => ({
+  id,
+  name,
+  categoryId,
+  defaultExpectedMinutes: null,
+  isPlannedDefault: false,
+  isFavorite: false,
+  displayOrder: 0,
+  idlePromptEnabled: true,
+  isBackground: false,
+  isArchived: false,
+  usageCount: 0,
+  lastUsedAt: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const entry = (overrides: Partial<ImportedTimeEntry> = {}): ImportedTimeEntry => ({
+  row: 2,
+  project: 'Website',
+  client: '',
+  description: '',
+  tags: ['Coding'],
+  startTime: '2026-02-10T09:00:00.000Z',
+  endTime: '2026-02-10T10:00:00.000Z',
+  durationSeconds: 3600,
+  ...overrides,
+});
+
+const existingSession = (activityName: string, startTime: string): TimeSession => ({
+  id: 'sess-1',
+  activityId: 'act-1',
+  activityNameSnapshot: activityName,
+  categoryId: 'cat-1',
+  categoryNameSnapshot: 'Work',
+  routineId: null,
+  startTime,
+  endTime: null,
+  actualDurationSeconds: null,
+  actualDurationMinutes: null,
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  source: 'timer',
+  isRunning: false,
+  idlePromptEnabled: true,
+  notes: null,
+  timeZone: null,
+  utcOffsetMinutes: null,
+  createdAt: startTime,
+  updatedAt: startTime,
+});
+
+describe('importService', () => {
+  describe('parseTimeEntryCsv', () => {
+    it('reads Toggl detailed exports', () => {
+      const result = parseTimeEntryCsv(TOGGL_CSV);
+
+      expect(result.format).toBe('toggl');
+      expect(result.errors).toEqual([]);
+      expect(result.entries).toHaveLength(2);
+      expect(result.entries[0]).toMatchObject({
+        row: 2,
+        project: 'Website',
+        client: 'Acme',
+        description: 'Fix header, footer',
+        tags: ['Coding', 'Billable'],
+        startTime: new Date(2026, 1, 10, 9, 0).toISOString(),
+        durationSeconds: 5400,
+      });
+      expect(result.entries[1].tags).toEqual([]);
+    });
+
+    it('reads Clockify exports with 12-hour times across midnight', () => {
+      const result = parseTimeEntryCsv(CLOCKIFY_CSV);
+
+      expect(result.format).toBe('clockify');
+      expect(result.entries[0]).toMatchObject({
+        startTime: new Date(2026, 1, 10, 23, 0).toISOString(),
+        endTime: new Date(2026, 1, 11, 0, 15).toISOString(),
+        durationSeconds: 4500,
+      });
+    });
+
+    it('reports bad rows without dropping the rest', () => {
+      const csv = [
+        TOGGL_CSV,
+        'Ana,,,Website,,,No,2026-02-30,09:00:00,2026-02-30,10:00:00,01:00:00,,',
+        'Ana,,,Website,,,No,2026-02-12,10:00:00,2026-02-12,09:00:00,01:00:00,,',
+      ].join('\r\n');
+
+      const result = parseTimeEntryCsv(csv);
+
+      expect(result.entries).toHaveLength(2);
+      expect(result.errors).toEqual([
+        { row: 4, message: 'Invalid start date or time' },
+        { row: 5, message: 'Entry ends before it starts' },
+      ]);
+    });
+
+    it('rejects files from other tools', () => {
+      expect(() => parseTimeEntryCsv('Name,Hours\nRunning,2')).toThrow(TimeEntryImportError);
+    });
+  });
+
+  describe('parseLocalDateTime', () => {
+    it('honours the day-first option for slash dates', () => {
+      expect(parseLocalDateTime('03/04/2026', '08:00', false)).toEqual(new Date(2026, 2, 4, 8, 0));
+      expect(parseLocalDateTime('03/04/2026', '08:00', true)).toEqual(new Date(2026, 3, 3, 8, 0));
+      expect(parseLocalDateTime('03.04.2026', '08:00')).toEqual(new Date(2026, 3, 3, 8, 0));
+    });
+
+    it('rejects impossible times', () => {
+      expect(parseLocalDateTime('2026-02-10', '25:00')).toBeNull();
+      expect(parseLocalDateTime('2026-02-10', '13:00 PM')).toBeNull();
+    });
+  });
+
+  describe('suggestImportMapping', () => {
+    it('matches existing names case-insensitively', () => {
+      const mapping = suggestImportMapping(
+        [entry(), entry({ project: 'Side project', tags: ['Writing'] })],
+        [category('cat-1', 'website')],
+        [activity('act-1', 'coding', 'cat-1')]
+      );
+
+      expect(mapping).toEqual({
+        categoryByProject: { 'Side project': null, Website: 'cat-1' },
+        activityByLabel: { Coding: 'act-1', Writing: null },
+        createMissing: true,
+      });
+    });
+  });
+
+  describe('planTimeEntryImport', () => {
+    const categories = [category('cat-1', 'Work')];
+    const activities = [activity('act-1', 'Coding', 'cat-1')];
+
+    it('uses mapped activities and their categories', () => {
+      const plan = planTimeEntryImport(
+        [entry()],
+        { categoryByProject: {}, activityByLabel: { Coding: 'act-1' }, createMissing: false },
+        categories,
+        activities,
+        []
+      );
+
+      expect(plan.sessions[0]).toMatchObject({
+        activityId: 'act-1',
+        activityName: 'Coding',
+        categoryId: 'cat-1',
+        categoryName: 'Work',
+        isPlanned: false,
+      });
+      expect(plan.newCategories).toEqual([]);
+    });
+
+    it('creates missing categories and activities once each', () => {
+      const plan = planTimeEntryImport(
+        [
+          entry({ tags: ['Design'] }),
+          entry({ tags: ['Design'], startTime: '2026-02-11T09:00:00.000Z' }),
+        ],
+        { categoryByProject: {}, activityByLabel: {}, createMissing: true },
+        categories,
+        activities,
+        []
+      );
+
+      expect(plan.newCategories).toEqual(['Website']);
+      expect(plan.newActivities).toEqual([
+        { name: 'Design', categoryId: null, categoryName: 'Website' },
+      ]);
+      expect(plan.sessions).toHaveLength(2);
+    });
+
+    it('creates missing activities inside a mapped category', () => {
+      const plan = planTimeEntryImport(
+        [entry({ tags: ['Design'] })],
+        { categoryByProject: { Website: 'cat-1' }, activityByLabel: {}, createMissing: true },
+        categories,
+        activities,
+        []
+      );
+
+      expect(plan.newCategories).toEqual([]);
+      expect(plan.newActivities).toEqual([{ name: 'Design', categoryId: 'cat-1', categoryName: 'Work' }]);
+    });
+
+    it('skips unmapped entries when creation is off', () => {
+      const plan = planTimeEntryImport(
+        [entry({ tags: ['Design'] })],
+        { categoryByProject: { Website: 'cat-1' }, activityByLabel: {}, createMissing: false },
+        categories,
+        activities,
+        []
+      );
+
+      expect(plan.sessions).toEqual([]);
+      expect(plan.unmapped).toHaveLength(1);
+    });
+
+    it('detects duplicates by activity and start time', () => {
+      const mapping = { categoryByProject: {}, activityByLabel: { Coding: 'act-1' }, createMissing: false };
+      const plan = planTimeEntryImport(
+        [
+          entry({ startTime: '2026-02-10T09:00:20.000Z' }),
+          entry({ startTime: '2026-02-12T09:00:00.000Z' }),
+          entry({ startTime: '2026-02-12T09:00:00.000Z', row: 4 }),
+        ],
+        mapping,
+        categories,
+        activities,
+        [existingSession('coding', '2026-02-10T09:00:00.000Z')]
+      );
+
+      expect(plan.sessions.map(s => s.entry.startTime)).toEqual(['2026-02-12T09:00:00.000Z']);
+      expect(plan.duplicates.map(d => d.row)).toEqual([2, 4]);
+    });
+  });
+
+  describe('applyTimeEntryImport', () => {
+    it('creates categories, activities and import sessions', async () => {
+      (createCategory as jest.Mock).mockResolvedValue(category('cat-new', 'Website'));
+      (createActivity as jest.Mock).mockResolvedValue(activity('act-new', 'Design', 'cat-new'));
+      const plan = planTimeEntryImport(
+        [entry({ tags: ['Design'] })],
+        { categoryByProject: {}, activityByLabel: {}, createMissing: true },
+        [],
+        [],
+        []
+      );
+
+      const result = await applyTimeEntryImport(plan);
+
+      expect(createCategory).toHaveBeenCalledWith({ name: 'Website' });
+      expect(createActivity).toHaveBeenCalledWith({ name: 'Design', categoryId: 'cat-new' });
+      expect(createSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          activityId: 'act-new',
+          activityNameSnapshot: 'Design',
+          categoryId: 'cat-new',
+          categoryNameSnapshot: 'Website',
+          actualDurationSeconds: 3600,
+          source: 'import',
+          isRunning: false,
+        })
+      );
+      expect(result).toEqual({
+        imported: 1,
+        duplicates: 0,
+        unmapped: 0,
+        createdCategories: 1,
+        createdActivities: 1,
+      });
+    });
+  });
+});
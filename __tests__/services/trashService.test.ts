@@ -0,0 +1,120 @@
+// Trash Service Tests
+
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashItems,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  restoreTrashItem,
+} from '../../src/services/trashService';
+import * as sessionRepository from '../../src/database/repositories/sessionRepository';
+import * as activityRepository from '../../src/database/repositories/activityRepository';
+import * as routineRepository from '../../src/database/repositories/routineRepository';
+import { getSetting } from '../../src/database/repositories/settingsRepository';
+
+jest.mock('../../src/database/repositories/sessionRepository', () => ({
+  getDeletedSessions: jest.fn(() => Promise.resolve([])),
+  restoreSession: jest.fn(() => Promise.resolve(true)),
+  purgeSession: jest.fn(() => Promise.resolve(true)),
+}));
+jest.mock('../../src/database/repositories/activityRepository', () => ({
+  getDeletedActivities: jest.fn(() => Promise.resolve([])),
+  restoreActivity: jest.fn(() => Promise.resolve(true)),
+  purgeActivity: jest.fn(() => Promise.resolve(true)),
+}));
+jest.mock('../../src/database/repositories/routineRepository', () => ({
+  getDeletedRoutines: jest.fn(() => Promise.resolve([])),
+  restoreRoutine: jest.fn(() => Promise.resolve(true)),
+  purgeRoutine: jest.fn(() => Promise.resolve(true)),
+}));
+jest.mock('../../src/database/repositories/settingsRepository', () => ({
+  getSetting: jest.fn(() => Promise.resolve(null)),
+  setSetting: jest.fn(() => Promise.resolve()),
+}));
+
+const deletedSession = (id: string, deletedAt: string) => ({
+  id,
+  activityId: null,
+  activityNameSnapshot: 'Reading',
+  categoryId: null,
+  categoryNameSnapshot: 'Education',
+  routineId: null,
+  startTime: '2026-03-01T08:00:00.000Z',
+  endTime: '2026-03-01T08:45:00.000Z',
+  actualDurationSeconds: 2700,
+  actualDurationMinutes: 45,
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  source: 'timer',
+  isRunning: false,
+  idlePromptEnabled: true,
+  notes: null,
+  timeZone: null,
+  utcOffsetMinutes: null,
+  createdAt: '2026-03-01T08:00:00.000Z',
+  updatedAt: deletedAt,
+  deletedAt,
+});
+
+const deletedRoutine = (id: string, deletedAt: string) => ({
+  id,
+  name: 'Morning',
+  routineType: 'daily',
+  startTime: null,
+  dayFilter: 'all',
+  isActive: true,
+  itemCount: 3,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: deletedAt,
+  deletedAt,
+});
+
+describe('trashService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists every kind of deleted item, most recent first', async () => {
+    (sessionRepository.getDeletedSessions as jest.Mock).mockResolvedValue([
+      deletedSession('sess-1', '2026-03-02T10:00:00.000Z'),
+    ]);
+    (routineRepository.getDeletedRoutines as jest.Mock).mockResolvedValue([
+      deletedRoutine('routine-1', '2026-03-03T10:00:00.000Z'),
+    ]);
+
+    const items = await getTrashItems();
+
+    expect(items.map(item => [item.type, item.id])).toEqual([
+      ['routine', 'routine-1'],
+      ['session', 'sess-1'],
+    ]);
+    expect(items[0].subtitle).toBe('3 steps');
+  });
+
+  it('restores items through their own repository', async () => {
+    await restoreTrashItem({ id: 'act-1', type: 'activity' });
+
+    expect(activityRepository.restoreActivity).toHaveBeenCalledWith('act-1');
+    expect(sessionRepository.restoreSession).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the default retention for invalid settings', async () => {
+    (getSetting as jest.Mock).mockResolvedValue('soon');
+
+    expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('purges only items older than the retention period', async () => {
+    (getSetting as jest.Mock).mockResolvedValue('7');
+    (sessionRepository.getDeletedSessions as jest.Mock).mockResolvedValue([
+      deletedSession('sess-old', '2026-03-01T09:00:00.000Z'),
+      deletedSession('sess-new', '2026-03-05T09:00:00.000Z'),
+    ]);
+
+    const purged = await purgeExpiredTrash(new Date('2026-03-09T10:00:00.000Z'));
+
+    expect(purged).toBe(1);
+    expect(sessionRepository.purgeSession).toHaveBeenCalledTimes(1);
+    expect(sessionRepository.purgeSession).toHaveBeenCalledWith('sess-old');
+  });
+});
@@ -71,6 +71,7 @@ describe('Activity Store', () => {
           isFavorite: false,
           displayOrder: 0,
           idlePromptEnabled: true,
+          isBackground: false,
           isArchived: false,
           usageCount: 5,
           lastUsedAt: null,
@@ -102,6 +103,7 @@ describe('Activity Store', () => {
           isFavorite: true,
           displayOrder: 0,
           idlePromptEnabled: true,
+          isBackground: false,
           isArchived: false,
           usageCount: 10,
           lastUsedAt: null,
@@ -134,6 +136,7 @@ describe('Activity Store', () => {
             isFavorite: false,
             displayOrder: 0,
             idlePromptEnabled: true,
+            isBackground: false,
             isArchived: false,
             usageCount: 0,
             lastUsedAt: null,
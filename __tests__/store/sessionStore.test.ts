@@ -28,6 +28,7 @@ jest.mock('../../src/utils/dateUtils', () => ({
 }));
 
 import { useSessionStore } from '../../src/store/sessionStore';
+import { useUndoStore } from '../../src/store/undoStore';
 
 describe('sessionStore', () => {
   beforeEach(() => {
@@ -42,6 +43,11 @@ describe('sessionStore', () => {
     });
   });
 
+  afterEach(() => {
+    // Clears the pending undo and its expiry timer
+    useUndoStore.getState().dismiss();
+  });
+
   describe('initial state', () => {
     it('should have correct initial values', () => {
       const state = useSessionStore.getState();
@@ -179,6 +185,7 @@ describe('sessionStore', () => {
 
       expect(mockDeleteSession).toHaveBeenCalledWith('sess-1');
       expect(result).toBe(true);
+      expect(useUndoStore.getState().pending?.label).toBe('Session moved to trash');
     });
 
     it('should return false when session not found', async () => {
@@ -187,6 +194,7 @@ describe('sessionStore', () => {
       const result = await useSessionStore.getState().deleteSession('non-existent');
 
       expect(result).toBe(false);
+      expect(useUndoStore.getState().pending).toBeNull();
     });
   });
 
@@ -1,21 +1,54 @@
 // Timer Store Unit Tests
 
-import { useTimerStore } from '../../src/store/timerStore';
+import { getConflictingTimers, useTimerStore } from '../../src/store/timerStore';
 import * as sessionRepository from '../../src/database/repositories/sessionRepository';
 import * as activityRepository from '../../src/database/repositories/activityRepository';
+import * as sessionPauseRepository from '../../src/database/repositories/sessionPauseRepository';
+import * as settingsRepository from '../../src/database/repositories/settingsRepository';
+import { useUndoStore } from '../../src/store/undoStore';
+import { ActivityWithCategory, RunningTimer, TimeSession, TimerConcurrency } from '../../src/types';
 
 // Mock repositories
 jest.mock('../../src/database/repositories/sessionRepository');
 jest.mock('../../src/database/repositories/activityRepository');
+jest.mock('../../src/database/repositories/sessionPauseRepository');
+jest.mock('../../src/database/repositories/tagRepository');
+jest.mock('../../src/database/repositories/settingsRepository');
+jest.mock('../../src/services/notificationService');
+jest.mock('../../src/database/database', () => ({
+  executeTransaction: (callback: () => Promise<unknown>) => callback(),
+}));
 
 const mockSessionRepo = sessionRepository as jest.Mocked<typeof sessionRepository>;
 const mockActivityRepo = activityRepository as jest.Mocked<typeof activityRepository>;
+const mockPauseRepo = sessionPauseRepository as jest.Mocked<typeof sessionPauseRepository>;
+const mockSettingsRepo = settingsRepository as jest.Mocked<typeof settingsRepository>;
+
+const createTimer = (overrides: Partial<RunningTimer> = {}): RunningTimer => ({
+  id: 'timer-1',
+  sessionId: 'session-1',
+  activityId: 'act-1',
+  activityName: 'Test',
+  categoryId: 'cat-1',
+  categoryName: 'Category',
+  categoryColor: '#000',
+  startTime: new Date(),
+  expectedDurationMinutes: null,
+  isPlanned: true,
+  idlePromptEnabled: true,
+  notes: null,
+  isBackground: false,
+  pausedAt: null,
+  pausedSeconds: 0,
+  ...overrides,
+});
 
 describe('Timer Store', () => {
   beforeEach(() => {
     // Reset store state
     useTimerStore.setState({ runningTimers: [], isLoading: false, error: null });
     jest.clearAllMocks();
+    mockPauseRepo.getSessionPauses.mockResolvedValue([]);
   });
 
   describe('initial state', () => {
@@ -41,12 +74,16 @@ describe('Timer Store', () => {
           categoryNameSnapshot: 'Test Category',
           startTime: new Date().toISOString(),
           endTime: null,
+          actualDurationSeconds: null,
           actualDurationMinutes: null,
           expectedDurationMinutes: 30,
           isPlanned: true,
           source: 'timer',
           isRunning: true,
           idlePromptEnabled: true,
+          notes: null,
+          timeZone: null,
+          utcOffsetMinutes: null,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         },
@@ -60,6 +97,46 @@ describe('Timer Store', () => {
       expect(isLoading).toBe(false);
     });
 
+    it('restores paused timers with their paused time', async () => {
+      const startTime = new Date(Date.now() - 60 * 60000);
+      mockSessionRepo.getRunningSession.mockResolvedValue([
+        {
+          id: 'session-1',
+          activityId: 'act-1',
+          activityNameSnapshot: 'Test Activity',
+          categoryId: 'cat-1',
+          categoryNameSnapshot: 'Test Category',
+          startTime: startTime.toISOString(),
+          endTime: null,
+          actualDurationSeconds: null,
+          actualDurationMinutes: null,
+          expectedDurationMinutes: null,
+          isPlanned: true,
+          source: 'timer',
+          isRunning: true,
+          idlePromptEnabled: true,
+          notes: null,
+          timeZone: null,
+          utcOffsetMinutes: null,
+          createdAt: startTime.toISOString(),
+          updatedAt: startTime.toISOString(),
+        },
+      ]);
+      const at = (minutesAfterStart: number) =>
+        new Date(startTime.getTime() + minutesAfterStart * 60000).toISOString();
+      mockPauseRepo.getSessionPauses.mockResolvedValue([
+        { id: 'p1', sessionId: 'session-1', pausedAt: at(10), resumedAt: at(20), createdAt: at(10) },
+        { id: 'p2', sessionId: 'session-1', pausedAt: at(50), resumedAt: null, createdAt: at(50) },
+      ]);
+
+      await useTimerStore.getState().loadRunningTimers();
+
+      const [timer] = useTimerStore.getState().runningTimers;
+      expect(timer.pausedAt).toEqual(new Date(at(50)));
+      expect(timer.pausedSeconds).toBe(600);
+      expect(useTimerStore.getState().getTimerDuration(timer.id)).toBe(40 * 60);
+    });
+
     it('handles errors gracefully', async () => {
       mockSessionRepo.getRunningSession.mockRejectedValue(new Error('DB Error'));
 
@@ -88,6 +165,10 @@ describe('Timer Store', () => {
             expectedDurationMinutes: null,
             isPlanned: true,
             idlePromptEnabled: true,
+            notes: null,
+            isBackground: false,
+            pausedAt: null,
+            pausedSeconds: 0,
           },
         ],
       });
@@ -100,12 +181,16 @@ describe('Timer Store', () => {
         categoryNameSnapshot: 'Category',
         startTime: new Date().toISOString(),
         endTime: new Date().toISOString(),
+        actualDurationSeconds: 1800,
         actualDurationMinutes: 30,
         expectedDurationMinutes: null,
         isPlanned: true,
         source: 'timer',
         isRunning: false,
         idlePromptEnabled: true,
+        notes: null,
+        timeZone: null,
+        utcOffsetMinutes: null,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       });
@@ -117,6 +202,264 @@ describe('Timer Store', () => {
     });
   });
 
+  describe('pauseTimer and resumeTimer', () => {
+    it('pauses a timer and adds the pause to its paused time on resume', async () => {
+      useTimerStore.setState({ runningTimers: [createTimer()] });
+      mockSessionRepo.pauseSession.mockResolvedValue({
+        id: 'pause-1',
+        sessionId: 'session-1',
+        pausedAt: '2026-03-01T10:00:00.000Z',
+        resumedAt: null,
+        createdAt: '2026-03-01T10:00:00.000Z',
+      });
+      mockSessionRepo.resumePausedSession.mockResolvedValue({
+        id: 'pause-1',
+        sessionId: 'session-1',
+        pausedAt: '2026-03-01T10:00:00.000Z',
+        resumedAt: '2026-03-01T10:05:00.000Z',
+        createdAt: '2026-03-01T10:00:00.000Z',
+      });
+
+      await useTimerStore.getState().pauseTimer('timer-1');
+      expect(mockSessionRepo.pauseSession).toHaveBeenCalledWith('session-1');
+      expect(useTimerStore.getState().runningTimers[0].pausedAt).toEqual(
+        new Date('2026-03-01T10:00:00.000Z')
+      );
+
+      await useTimerStore.getState().resumeTimer('timer-1');
+      expect(useTimerStore.getState().runningTimers[0]).toMatchObject({
+        pausedAt: null,
+        pausedSeconds: 300,
+      });
+    });
+
+    it('rejects pausing a timer that is not running', async () => {
+      mockSessionRepo.pauseSession.mockResolvedValue(null);
+      useTimerStore.setState({ runningTimers: [createTimer()] });
+
+      await expect(useTimerStore.getState().pauseTimer('timer-1')).rejects.toThrow(
+        'Session is not running'
+      );
+      expect(useTimerStore.getState().runningTimers[0].pausedAt).toBeNull();
+    });
+  });
+
+  describe('switchTimer', () => {
+    const writing = {
+      id: 'act-2',
+      name: 'Writing',
+      categoryId: 'cat-1',
+      categoryName: 'Category',
+      categoryColor: '#111',
+      defaultExpectedMinutes: 45,
+      isPlannedDefault: false,
+      idlePromptEnabled: true,
+    } as ActivityWithCategory;
+
+    const session = (overrides: Partial<TimeSession>): TimeSession => ({
+      id: 'session-1',
+      activityId: 'act-1',
+      activityNameSnapshot: 'Test',
+      categoryId: 'cat-1',
+      categoryNameSnapshot: 'Category',
+      startTime: '2026-03-01T09:00:00.000Z',
+      endTime: null,
+      actualDurationSeconds: null,
+      actualDurationMinutes: null,
+      expectedDurationMinutes: null,
+      isPlanned: true,
+      source: 'timer',
+      isRunning: true,
+      idlePromptEnabled: true,
+      notes: null,
+      timeZone: null,
+      utcOffsetMinutes: null,
+      createdAt: '2026-03-01T09:00:00.000Z',
+      updatedAt: '2026-03-01T09:00:00.000Z',
+      ...overrides,
+    });
+
+    afterEach(() => {
+      useUndoStore.getState().dismiss();
+    });
+
+    it('ends the old session and starts the new one at the same moment', async () => {
+      useTimerStore.setState({ runningTimers: [createTimer()] });
+      mockSessionRepo.stopSessionWithSlices.mockResolvedValue({
+        stopped: session({ isRunning: false }),
+        slices: [],
+      });
+      mockSessionRepo.createSession.mockResolvedValue(session({ id: 'session-2', activityId: 'act-2' }));
+
+      const timer = await useTimerStore.getState().switchTimer('timer-1', writing);
+
+      const [stoppedId, switchTime] = mockSessionRepo.stopSessionWithSlices.mock.calls[0];
+      expect(stoppedId).toBe('session-1');
+      expect(mockSessionRepo.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ activityId: 'act-2', startTime: switchTime, isRunning: true })
+      );
+      expect(timer).toMatchObject({ sessionId: 'session-2', activityName: 'Writing', isPlanned: false });
+      expect(timer.startTime.toISOString()).toBe(switchTime);
+      expect(useTimerStore.getState().runningTimers).toEqual([timer]);
+      expect(useUndoStore.getState().pending?.label).toBe('Switched to Writing');
+    });
+
+    it('starts nothing when the old session is no longer running', async () => {
+      useTimerStore.setState({ runningTimers: [createTimer()] });
+      mockSessionRepo.stopSessionWithSlices.mockResolvedValue(null);
+
+      await expect(useTimerStore.getState().switchTimer('timer-1', writing)).rejects.toThrow(
+        'no longer running'
+      );
+      expect(mockSessionRepo.createSession).not.toHaveBeenCalled();
+      expect(useTimerStore.getState().runningTimers[0].id).toBe('timer-1');
+    });
+
+    it('stops other timers the concurrency policy rules out and brings them back on undo', async () => {
+      mockSettingsRepo.getSetting.mockResolvedValueOnce('exclusive');
+      useTimerStore.setState({
+        runningTimers: [
+          createTimer(),
+          createTimer({ id: 'timer-2', sessionId: 'session-3', activityName: 'Reading', categoryId: 'cat-2' }),
+          createTimer({ id: 'timer-3', sessionId: 'session-4', activityName: 'Music', isBackground: true }),
+        ],
+      });
+      mockSessionRepo.stopSessionWithSlices.mockImplementation(async id => ({
+        stopped: session({ id, isRunning: false }),
+        slices: [],
+      }));
+      mockSessionRepo.createSession.mockResolvedValue(session({ id: 'session-2', activityId: 'act-2' }));
+
+      await useTimerStore.getState().switchTimer('timer-1', writing);
+
+      expect(mockSessionRepo.stopSessionWithSlices.mock.calls.map(([id]) => id)).toEqual(['session-1', 'session-3']);
+      expect(useTimerStore.getState().runningTimers.map(t => t.sessionId)).toEqual(['session-2', 'session-4']);
+
+      await useUndoStore.getState().undo();
+
+      expect(mockSessionRepo.discardSession).toHaveBeenCalledWith('session-2');
+      expect(mockSessionRepo.resumeStoppedSession).toHaveBeenCalledWith('session-1', []);
+      expect(mockSessionRepo.resumeStoppedSession).toHaveBeenCalledWith('session-3', []);
+    });
+
+    it('refuses to switch to an activity that already has a timer', async () => {
+      useTimerStore.setState({
+        runningTimers: [createTimer(), createTimer({ id: 'timer-2', sessionId: 'session-2', activityName: 'Writing' })],
+      });
+
+      await expect(useTimerStore.getState().switchTimer('timer-1', writing)).rejects.toThrow(
+        'already running'
+      );
+      expect(mockSessionRepo.stopSessionWithSlices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('discardIdleTime', () => {
+    const since = '2026-03-01T10:00:00.000Z';
+    const until = '2026-03-01T10:30:00.000Z';
+    const idle = (timers: RunningTimer[]) => ({ since, until, timers });
+
+    beforeEach(() => {
+      mockPauseRepo.addPause.mockImplementation(async (sessionId, pausedAt, resumedAt) => ({
+        id: `pause-${sessionId}`,
+        sessionId,
+        pausedAt,
+        resumedAt,
+        createdAt: until,
+      }));
+    });
+
+    afterEach(() => {
+      useUndoStore.getState().dismiss();
+    });
+
+    it('takes the idle time out of the running sessions', async () => {
+      const timer = createTimer({ startTime: new Date('2026-03-01T09:00:00.000Z') });
+      const late = createTimer({
+        id: 'timer-2',
+        sessionId: 'session-2',
+        startTime: new Date('2026-03-01T10:20:00.000Z'),
+      });
+      useTimerStore.setState({ runningTimers: [timer, late] });
+
+      const session = await useTimerStore.getState().discardIdleTime(idle([timer, late]));
+
+      expect(session).toBeNull();
+      expect(mockPauseRepo.addPause.mock.calls).toEqual([
+        ['session-1', since, until],
+        ['session-2', '2026-03-01T10:20:00.000Z', until],
+      ]);
+      expect(useTimerStore.getState().runningTimers.map(t => t.pausedSeconds)).toEqual([1800, 600]);
+      expect(mockSessionRepo.createSession).not.toHaveBeenCalled();
+      expect(useUndoStore.getState().pending?.label).toBe('Idle time discarded');
+    });
+
+    it('records the idle time as a session of the chosen activity', async () => {
+      const timer = createTimer({ startTime: new Date('2026-03-01T09:00:00.000Z') });
+      useTimerStore.setState({ runningTimers: [timer] });
+      const meeting = {
+        id: 'act-2',
+        name: 'Meeting',
+        categoryId: 'cat-2',
+        categoryName: 'Work',
+        isPlannedDefault: false,
+        idlePromptEnabled: true,
+      } as ActivityWithCategory;
+      mockSessionRepo.createSession.mockImplementation(async input => ({ id: 'session-2', ...input } as TimeSession));
+
+      const session = await useTimerStore.getState().discardIdleTime(idle([timer]), meeting);
+
+      expect(mockSessionRepo.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          activityId: 'act-2',
+          startTime: since,
+          endTime: until,
+          actualDurationSeconds: 1800,
+          isRunning: false,
+        })
+      );
+      expect(session?.id).toBe('session-2');
+      expect(useTimerStore.getState().runningTimers[0].pausedSeconds).toBe(1800);
+      expect(useUndoStore.getState().pending?.label).toBe('Idle time assigned to Meeting');
+    });
+
+    it('leaves timers stopped while the prompt was open alone', async () => {
+      useTimerStore.setState({ runningTimers: [] });
+
+      await useTimerStore.getState().discardIdleTime(idle([createTimer()]));
+
+      expect(mockPauseRepo.addPause).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getConflictingTimers', () => {
+    const running = [
+      createTimer(),
+      createTimer({ id: 'timer-2', activityName: 'Email', categoryId: 'cat-2' }),
+      createTimer({ id: 'timer-3', activityName: 'Music', isBackground: true }),
+      createTimer({ id: 'timer-4', activityName: 'Stretch', routineId: 'routine-1' }),
+    ];
+
+    const conflictIds = (policy: TimerConcurrency, isBackground = false) =>
+      getConflictingTimers(running, policy, 'cat-1', isBackground).map(t => t.id);
+
+    it('keeps every timer running in parallel mode', () => {
+      expect(conflictIds('parallel')).toEqual([]);
+    });
+
+    it('stops all foreground timers in exclusive mode', () => {
+      expect(conflictIds('exclusive')).toEqual(['timer-1', 'timer-2']);
+    });
+
+    it('only stops timers in the same category in exclusive per category mode', () => {
+      expect(conflictIds('exclusive_category')).toEqual(['timer-1']);
+    });
+
+    it('never stops other timers for a background timer', () => {
+      expect(conflictIds('exclusive', true)).toEqual([]);
+    });
+  });
+
   describe('getTimerDuration', () => {
     it('returns elapsed seconds for running timer', () => {
       const startTime = new Date(Date.now() - 60000); // 1 minute ago
@@ -134,6 +477,10 @@ describe('Timer Store', () => {
             expectedDurationMinutes: null,
             isPlanned: true,
             idlePromptEnabled: true,
+            notes: null,
+            isBackground: false,
+            pausedAt: null,
+            pausedSeconds: 0,
           },
         ],
       });
@@ -143,6 +490,21 @@ describe('Timer Store', () => {
       expect(duration).toBeLessThanOrEqual(61);
     });
 
+    it('stops counting while paused', () => {
+      const now = Date.now();
+      useTimerStore.setState({
+        runningTimers: [
+          createTimer({
+            startTime: new Date(now - 30 * 60000),
+            pausedAt: new Date(now - 10 * 60000),
+            pausedSeconds: 5 * 60,
+          }),
+        ],
+      });
+
+      expect(useTimerStore.getState().getTimerDuration('timer-1')).toBe(15 * 60);
+    });
+
     it('returns 0 for non-existent timer', () => {
       const duration = useTimerStore.getState().getTimerDuration('non-existent');
       expect(duration).toBe(0);
@@ -0,0 +1,93 @@
+// Undo Store Unit Tests
+
+const mockExecuteTransaction = jest.fn((callback: () => Promise<unknown>) => callback());
+
+jest.mock('../../src/database/database', () => ({
+  executeTransaction: (callback: () => Promise<unknown>) => mockExecuteTransaction(callback),
+}));
+
+import { useUndoStore, UNDO_TIMEOUT_MS } from '../../src/store/undoStore';
+
+describe('Undo Store', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    useUndoStore.getState().dismiss();
+    useUndoStore.setState({ isUndoing: false, undoCount: 0, error: null });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('replays the inverse inside a transaction and then refreshes', async () => {
+    const calls: string[] = [];
+    useUndoStore.getState().record({
+      label: 'Session moved to trash',
+      undo: async () => {
+        calls.push('undo');
+      },
+      onUndone: () => {
+        calls.push('refresh');
+      },
+    });
+
+    const result = await useUndoStore.getState().undo();
+
+    expect(result).toBe(true);
+    expect(mockExecuteTransaction).toHaveBeenCalledTimes(1);
+    expect(calls).toEqual(['undo', 'refresh']);
+    expect(useUndoStore.getState().pending).toBeNull();
+    expect(useUndoStore.getState().undoCount).toBe(1);
+  });
+
+  it('expires after the timeout', () => {
+    useUndoStore.getState().record({ label: 'Goal deleted', undo: jest.fn() });
+
+    jest.advanceTimersByTime(UNDO_TIMEOUT_MS - 1);
+    expect(useUndoStore.getState().pending?.label).toBe('Goal deleted');
+
+    jest.advanceTimersByTime(1);
+    expect(useUndoStore.getState().pending).toBeNull();
+  });
+
+  it('only offers the most recent action', async () => {
+    const first = jest.fn().mockResolvedValue(undefined);
+    const second = jest.fn().mockResolvedValue(undefined);
+    useUndoStore.getState().record({ label: 'First', undo: first });
+    jest.advanceTimersByTime(UNDO_TIMEOUT_MS / 2);
+    useUndoStore.getState().record({ label: 'Second', undo: second });
+
+    // The first action's timer must not clear the second one
+    jest.advanceTimersByTime(UNDO_TIMEOUT_MS / 2);
+    expect(useUndoStore.getState().pending?.label).toBe('Second');
+
+    await useUndoStore.getState().undo();
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed undo without refreshing', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onUndone = jest.fn();
+    useUndoStore.getState().record({
+      label: 'Session split',
+      undo: jest.fn().mockRejectedValue(new Error('Session not found')),
+      onUndone,
+    });
+
+    const result = await useUndoStore.getState().undo();
+
+    expect(result).toBe(false);
+    expect(onUndone).not.toHaveBeenCalled();
+    expect(useUndoStore.getState().error).toBe('Session not found');
+    expect(useUndoStore.getState().pending).toBeNull();
+    expect(useUndoStore.getState().undoCount).toBe(0);
+    consoleSpy.mockRestore();
+  });
+
+  it('does nothing when there is nothing to undo', async () => {
+    expect(await useUndoStore.getState().undo()).toBe(false);
+    expect(mockExecuteTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+// Crypto Utilities Unit Tests
+
+import {
+  aes256Ctr,
+  base64ToBytes,
+  bytesToBase64,
+  constantTimeEqual,
+  hmacSha256,
+  pbkdf2Sha256,
+  sha256,
+  utf8Decode,
+  utf8Encode,
+} from '../../src/utils/crypto';
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const fromHex = (text: string) =>
+  Uint8Array.from((text.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+describe('Crypto Utilities', () => {
+  describe('sha256', () => {
+    it('matches the FIPS 180-4 examples', () => {
+      expect(hex(sha256(utf8Encode('abc')))).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+      expect(
+        hex(sha256(utf8Encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('hashes empty and multi-block input', () => {
+      expect(hex(sha256(new Uint8Array(0)))).toBe(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      );
+      expect(hex(sha256(utf8Encode('a'.repeat(1000))))).toBe(
+        '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3'
+      );
+    });
+  });
+
+  describe('hmacSha256', () => {
+    it('matches RFC 4231 test cases', () => {
+      expect(hex(hmacSha256(fromHex('0b'.repeat(20)), utf8Encode('Hi There')))).toBe(
+        'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+      );
+      expect(hex(hmacSha256(utf8Encode('Jefe'), utf8Encode('what do ya want for nothing?')))).toBe(
+        '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+      );
+    });
+
+    it('hashes keys longer than a block', () => {
+      const key = fromHex('aa'.repeat(131));
+      const data = utf8Encode('Test Using Larger Than Block-Size Key - Hash Key First');
+      expect(hex(hmacSha256(key, data))).toBe(
+        '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+      );
+    });
+  });
+
+  describe('pbkdf2Sha256', () => {
+    it('matches published PBKDF2-HMAC-SHA256 vectors', () => {
+      const password = utf8Encode('password');
+      const salt = utf8Encode('salt');
+      expect(hex(pbkdf2Sha256(password, salt, 1, 32))).toBe(
+        '120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b'
+      );
+      expect(hex(pbkdf2Sha256(password, salt, 2, 32))).toBe(
+        'ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43'
+      );
+      expect(hex(pbkdf2Sha256(password, salt, 4096, 32))).toBe(
+        'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a'
+      );
+    });
+
+    it('derives keys longer than one digest', () => {
+      const key = pbkdf2Sha256(
+        utf8Encode('passwordPASSWORDpassword'),
+        utf8Encode('saltSALTsaltSALTsaltSALTsaltSALTsalt'),
+        4096,
+        40
+      );
+      expect(hex(key)).toBe(
+        '348c89dbcbd32b2f32d814b8116e84cf2b17347ebc1800181c4e2a1fb8dd53e1c635518c7dac47e9'
+      );
+    });
+  });
+
+  describe('aes256Ctr', () => {
+    // NIST SP 800-38A, F.5.5 CTR-AES256.Encrypt
+    const key = fromHex('603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4');
+    const iv = fromHex('f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff');
+    const plaintext = fromHex(
+      '6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e51' +
+        '30c81c46a35ce411e5fbc1191a0a52eff69f2445df4f9b17ad2b417be66c3710'
+    );
+    const ciphertext =
+      '601ec313775789a5b7a7f504bbf3d228f443e3ca4d62b59aca84e990cacaf5c5' +
+      '2b0930daa23de94ce87017ba2d84988ddfc9c58db67aada613c2dd08457941a6';
+
+    it('matches the NIST test vector', () => {
+      expect(hex(aes256Ctr(key, iv, plaintext))).toBe(ciphertext);
+    });
+
+    it('decrypts with the same operation, including partial blocks', () => {
+      const message = utf8Encode('Deep work — 2h 15m');
+      expect(utf8Decode(aes256Ctr(key, iv, aes256Ctr(key, iv, message)))).toBe('Deep work — 2h 15m');
+    });
+
+    it('carries the counter across byte boundaries', () => {
+      const counter = fromHex('000000000000000000000000000000ff');
+      const twoBlocks = aes256Ctr(key, counter, new Uint8Array(32));
+      const secondBlock = aes256Ctr(key, fromHex('00000000000000000000000000000100'), new Uint8Array(16));
+      expect(hex(twoBlocks.subarray(16))).toBe(hex(secondBlock));
+    });
+  });
+
+  describe('encoding', () => {
+    it('round-trips UTF-8 outside the basic plane', () => {
+      const text = 'Läufe 🏃 東京';
+      expect(utf8Decode(utf8Encode(text))).toBe(text);
+      expect(utf8Encode('é')).toEqual(Uint8Array.from([0xc3, 0xa9]));
+    });
+
+    it('round-trips base64 with padding', () => {
+      expect(bytesToBase64(utf8Encode('any carnal pleas'))).toBe('YW55IGNhcm5hbCBwbGVhcw==');
+      expect(utf8Decode(base64ToBytes('YW55IGNhcm5hbCBwbGVhcw=='))).toBe('any carnal pleas');
+      expect(() => base64ToBytes('not base64!')).toThrow('Invalid base64');
+    });
+
+    it('compares byte arrays', () => {
+      expect(constantTimeEqual(fromHex('0102'), fromHex('0102'))).toBe(true);
+      expect(constantTimeEqual(fromHex('0102'), fromHex('0103'))).toBe(false);
+      expect(constantTimeEqual(fromHex('0102'), fromHex('01'))).toBe(false);
+    });
+  });
+});
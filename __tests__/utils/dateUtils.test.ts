@@ -14,6 +14,11 @@ import {
   isDateYesterday,
   isSameDayCheck,
   getTimeOfDayLabel,
+  getLogicalDate,
+  getMonthStart,
+  parseDayStartTime,
+  formatDayStartTime,
+  setDayStartMinutes,
 } from '../../src/utils/dateUtils';
 
 describe('Date Utilities', () => {
@@ -131,4 +136,57 @@ describe('Date Utilities', () => {
       expect(['morning', 'afternoon', 'evening', 'night']).toContain(label);
     });
   });
+
+  describe('logical day', () => {
+    // Local times in the test time zone (America/New_York)
+    const at = (day: string, time: string) => new Date(`${day}T${time}:00`);
+
+    beforeEach(() => {
+      setDayStartMinutes(4 * 60);
+    });
+
+    afterEach(() => {
+      setDayStartMinutes(0);
+      jest.useRealTimers();
+    });
+
+    it('parses and formats the day start setting', () => {
+      expect(parseDayStartTime('04:30')).toBe(270);
+      expect(parseDayStartTime('4:00')).toBe(240);
+      expect(parseDayStartTime('13:00')).toBe(0);
+      expect(parseDayStartTime('soon')).toBe(0);
+      expect(parseDayStartTime(null)).toBe(0);
+      expect(formatDayStartTime(270)).toBe('04:30');
+    });
+
+    it('counts time before the day start towards the previous day', () => {
+      expect(getLogicalDate(at('2026-01-02', '01:30'))).toEqual(at('2026-01-01', '00:00'));
+      expect(getLogicalDate(at('2026-01-02', '04:00'))).toEqual(at('2026-01-02', '00:00'));
+      expect(getDayStart(at('2026-01-02', '01:30'))).toEqual(at('2026-01-01', '04:00'));
+      expect(getDayEnd(at('2026-01-02', '01:30')).getTime()).toBe(at('2026-01-02', '04:00').getTime() - 1);
+      expect(isSameDayCheck(at('2026-01-01', '23:00'), at('2026-01-02', '03:59'))).toBe(true);
+      expect(isSameDayCheck(at('2026-01-01', '23:00'), at('2026-01-02', '04:00'))).toBe(false);
+    });
+
+    it('moves week and month boundaries with the day start', () => {
+      // Early Monday morning still belongs to the week before
+      expect(getWeekStart(at('2026-01-05', '02:00'))).toEqual(at('2025-12-29', '04:00'));
+      expect(getWeekEnd(at('2026-01-05', '02:00')).getTime()).toBe(at('2026-01-05', '04:00').getTime() - 1);
+      expect(getMonthStart(at('2026-02-01', '03:00'))).toEqual(at('2026-01-01', '04:00'));
+    });
+
+    it('keeps the day start on days with a DST change', () => {
+      // Clocks spring forward at 02:00 on March 8, inside the logical March 7
+      const dayStart = getDayStart(at('2026-03-08', '03:30'));
+      expect(dayStart).toEqual(at('2026-03-07', '04:00'));
+      expect(getDayEnd(dayStart).getTime() - dayStart.getTime()).toBe(23 * 60 * 60 * 1000 - 1);
+    });
+
+    it('treats the small hours as today until the day starts', () => {
+      jest.useFakeTimers({ now: at('2026-01-02', '01:30') });
+      expect(isDateToday(at('2026-01-01', '20:00'))).toBe(true);
+      expect(isDateYesterday(at('2025-12-31', '20:00'))).toBe(true);
+      expect(formatDisplayDate(at('2026-01-02', '01:00'))).toBe('Today');
+    });
+  });
 });
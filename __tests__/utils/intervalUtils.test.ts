@@ -0,0 +1,129 @@
+// Interval Utilities Unit Tests
+//
+// jest.config.js pins the time zone to America/New_York, where 2026-03-08 has
+// 23 hours and 2026-11-01 has 25.
+
+import { getClippedMinutes, getPeriodShares, splitAtPauses, splitSessionByPeriod } from '../../src/utils/intervalUtils';
+import { formatDate } from '../../src/utils/dateUtils';
+
+const local = (month: number, day: number, hour: number, minute = 0) =>
+  new Date(2026, month - 1, day, hour, minute).toISOString();
+
+const session = (startTime: string, endTime: string, actualDurationMinutes: number | null = null) => ({
+  startTime,
+  endTime,
+  actualDurationMinutes:
+    actualDurationMinutes ?? (new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000,
+});
+
+const byDay = (shares: ReturnType<typeof splitSessionByPeriod>) =>
+  shares.map(share => [formatDate(share.periodStart), share.minutes]);
+
+describe('getClippedMinutes', () => {
+  it('counts only the part of the session inside the range', () => {
+    const sleep = session(local(3, 1, 23), local(3, 2, 7));
+
+    expect(getClippedMinutes(sleep, local(3, 1, 0), local(3, 2, 0))).toBe(60);
+    expect(getClippedMinutes(sleep, local(3, 2, 0), local(3, 3, 0))).toBe(420);
+    expect(getClippedMinutes(sleep, local(3, 3, 0), local(3, 4, 0))).toBe(0);
+  });
+
+  it('shares the recorded duration in proportion to the span', () => {
+    // An hour on the clock, but only 30 minutes recorded after idle trimming
+    const trimmed = session(local(3, 1, 23, 30), local(3, 2, 0, 30), 30);
+
+    expect(getClippedMinutes(trimmed, local(3, 1, 0), local(3, 2, 0))).toBe(15);
+    expect(getClippedMinutes(trimmed, local(3, 2, 0), local(3, 3, 0))).toBe(15);
+  });
+});
+
+describe('splitSessionByPeriod', () => {
+  it('splits a session across midnight into days', () => {
+    expect(byDay(splitSessionByPeriod(session(local(3, 1, 23), local(3, 2, 7)), 'day'))).toEqual([
+      ['2026-03-01', 60],
+      ['2026-03-02', 420],
+    ]);
+  });
+
+  it('handles the day clocks spring forward', () => {
+    // 23:00 to 07:00 lasts only seven hours when 02:00 is skipped
+    expect(byDay(splitSessionByPeriod(session(local(3, 7, 23), local(3, 8, 7)), 'day'))).toEqual([
+      ['2026-03-07', 60],
+      ['2026-03-08', 360],
+    ]);
+    // A whole calendar day is 23 hours long
+    expect(byDay(splitSessionByPeriod(session(local(3, 8, 0), local(3, 9, 0)), 'day'))).toEqual([
+      ['2026-03-08', 23 * 60],
+    ]);
+  });
+
+  it('handles the day clocks fall back', () => {
+    expect(byDay(splitSessionByPeriod(session(local(10, 31, 23), local(11, 1, 7)), 'day'))).toEqual([
+      ['2026-10-31', 60],
+      ['2026-11-01', 480],
+    ]);
+    expect(byDay(splitSessionByPeriod(session(local(11, 1, 0), local(11, 2, 0)), 'day'))).toEqual([
+      ['2026-11-01', 25 * 60],
+    ]);
+  });
+
+  it('splits at week and month boundaries', () => {
+    // Weeks start on Monday; 2026-03-08 is a Sunday
+    expect(byDay(splitSessionByPeriod(session(local(3, 8, 22), local(3, 9, 2)), 'week'))).toEqual([
+      ['2026-03-02', 120],
+      ['2026-03-09', 120],
+    ]);
+    expect(byDay(splitSessionByPeriod(session(local(3, 31, 23), local(4, 1, 1)), 'month'))).toEqual([
+      ['2026-03-01', 60],
+      ['2026-04-01', 60],
+    ]);
+  });
+
+  it('keeps whole-minute shares adding up to the duration', () => {
+    const shares = splitSessionByPeriod(session(local(3, 1, 23, 59), local(3, 2, 0, 1), 1), 'day');
+
+    expect(shares.reduce((sum, share) => sum + share.minutes, 0)).toBe(1);
+  });
+});
+
+describe('getPeriodShares', () => {
+  it('keeps fractions of a minute in each period', () => {
+    const shares = getPeriodShares(session(local(3, 1, 23, 59), local(3, 2, 0, 1), 1.5), 'day');
+
+    expect(byDay(shares)).toEqual([
+      ['2026-03-01', 0.75],
+      ['2026-03-02', 0.75],
+    ]);
+  });
+});
+
+describe('splitAtPauses', () => {
+  const pause = (pausedAt: string, resumedAt: string | null) => ({ pausedAt, resumedAt });
+  const spans = (pieces: { startTime: string; endTime: string | null }[]) =>
+    pieces.map(piece => [piece.startTime, piece.endTime]);
+
+  it('leaves out the paused stretches', () => {
+    const pieces = splitAtPauses(session(local(3, 1, 9), local(3, 1, 12)), [
+      pause(local(3, 1, 11), local(3, 1, 11, 30)),
+      pause(local(3, 1, 10), local(3, 1, 10, 15)),
+    ]);
+
+    expect(spans(pieces)).toEqual([
+      [local(3, 1, 9), local(3, 1, 10)],
+      [local(3, 1, 10, 15), local(3, 1, 11)],
+      [local(3, 1, 11, 30), local(3, 1, 12)],
+    ]);
+  });
+
+  it('ends the session at a pause that was never resumed', () => {
+    const pieces = splitAtPauses(session(local(3, 1, 9), local(3, 1, 12)), [pause(local(3, 1, 10), null)]);
+
+    expect(spans(pieces)).toEqual([[local(3, 1, 9), local(3, 1, 10)]]);
+  });
+
+  it('returns the session as it is without pauses', () => {
+    const sleep = session(local(3, 1, 23), local(3, 2, 7));
+
+    expect(splitAtPauses(sleep, [])).toEqual([sleep]);
+  });
+});
@@ -0,0 +1,100 @@
+// Overlap Utilities Unit Tests
+
+import { detectOverlaps, detectSessionOverlaps } from '../../src/utils/overlapUtils';
+
+const session = (id: string, start: string, end: string | null) => ({
+  id,
+  startTime: `2026-03-10T${start}:00.000Z`,
+  endTime: end ? `2026-03-10T${end}:00.000Z` : null,
+});
+
+describe('detectOverlaps', () => {
+  it('reports no overlap for sequential and touching sessions', () => {
+    const report = detectOverlaps([
+      session('a', '08:00', '09:00'),
+      session('b', '09:00', '10:00'),
+      session('c', '11:00', '11:30'),
+    ]);
+
+    expect(report.intervals).toEqual([]);
+    expect(report.overlappingSessionIds).toEqual([]);
+    expect(report.wallClockMinutes).toBe(150);
+    expect(report.summedMinutes).toBe(150);
+    expect(report.doubleCountedMinutes).toBe(0);
+  });
+
+  it('finds the exact overlapping intervals and the sessions involved', () => {
+    const report = detectOverlaps([
+      session('a', '08:00', '10:00'),
+      session('b', '09:00', '11:00'),
+      session('c', '09:30', '09:45'),
+    ]);
+
+    expect(report.intervals).toEqual([
+      { start: '2026-03-10T09:00:00.000Z', end: '2026-03-10T09:30:00.000Z', sessionIds: ['a', 'b'], minutes: 30 },
+      { start: '2026-03-10T09:30:00.000Z', end: '2026-03-10T09:45:00.000Z', sessionIds: ['a', 'b', 'c'], minutes: 15 },
+      { start: '2026-03-10T09:45:00.000Z', end: '2026-03-10T10:00:00.000Z', sessionIds: ['a', 'b'], minutes: 15 },
+    ]);
+    expect(report.overlappingSessionIds.sort()).toEqual(['a', 'b', 'c']);
+    expect(report.wallClockMinutes).toBe(180);
+    expect(report.summedMinutes).toBe(255);
+    // 09:00-10:00 is counted twice, 09:30-09:45 a third time
+    expect(report.doubleCountedMinutes).toBe(75);
+  });
+
+  it('clips sessions to the requested window', () => {
+    const report = detectOverlaps(
+      [session('a', '06:00', '12:00'), session('b', '07:00', '08:00')],
+      { from: '2026-03-10T07:30:00.000Z', to: '2026-03-10T10:00:00.000Z' }
+    );
+
+    expect(report.intervals).toEqual([
+      { start: '2026-03-10T07:30:00.000Z', end: '2026-03-10T08:00:00.000Z', sessionIds: ['a', 'b'], minutes: 30 },
+    ]);
+    expect(report.wallClockMinutes).toBe(150);
+    expect(report.summedMinutes).toBe(180);
+  });
+
+  it('treats running sessions as ending now', () => {
+    const report = detectOverlaps(
+      [session('a', '08:00', null), session('b', '08:30', '09:30')],
+      { now: new Date('2026-03-10T09:00:00.000Z') }
+    );
+
+    expect(report.intervals).toHaveLength(1);
+    expect(report.intervals[0].minutes).toBe(30);
+    expect(report.wallClockMinutes).toBe(90);
+  });
+});
+
+describe('detectSessionOverlaps', () => {
+  const timed = (id: string, start: string, end: string | null) => ({
+    ...session(id, start, end),
+    isRunning: end === null,
+    utcOffsetMinutes: null,
+  });
+
+  const pause = (sessionId: string, from: string, to: string) => ({
+    id: `pause-${sessionId}`,
+    sessionId,
+    pausedAt: `2026-03-10T${from}:00.000Z`,
+    resumedAt: `2026-03-10T${to}:00.000Z`,
+    createdAt: `2026-03-10T${from}:00.000Z`,
+  });
+
+  it('leaves out running sessions and paused time', () => {
+    const report = detectSessionOverlaps(
+      [timed('a', '08:00', '10:00'), timed('b', '08:30', '09:30'), timed('c', '08:00', null)],
+      new Map([['a', [pause('a', '08:45', '09:15')]]]),
+      { now: new Date('2026-03-10T12:00:00.000Z') }
+    );
+
+    expect(report.intervals).toEqual([
+      { start: '2026-03-10T08:30:00.000Z', end: '2026-03-10T08:45:00.000Z', sessionIds: ['a', 'b'], minutes: 15 },
+      { start: '2026-03-10T09:15:00.000Z', end: '2026-03-10T09:30:00.000Z', sessionIds: ['a', 'b'], minutes: 15 },
+    ]);
+    expect(report.overlappingSessionIds).not.toContain('c');
+    expect(report.wallClockMinutes).toBe(120);
+    expect(report.doubleCountedMinutes).toBe(30);
+  });
+});
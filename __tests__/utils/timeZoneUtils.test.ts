@@ -0,0 +1,57 @@
+// Time Zone Utilities Unit Tests (the test clock runs on America/New_York)
+
+import {
+  getDeviceTimeZone,
+  getUtcOffsetMinutes,
+  isValidTimeZone,
+  setHomeTimeZone,
+  setTimeZoneView,
+  toReportBound,
+  toReportClock,
+} from '../../src/utils/timeZoneUtils';
+
+describe('Time Zone Utilities', () => {
+  afterEach(() => {
+    setTimeZoneView('local');
+    setHomeTimeZone(null);
+  });
+
+  it('reads the device zone', () => {
+    expect(getDeviceTimeZone()).toBe('America/New_York');
+  });
+
+  it('works out offsets including DST', () => {
+    expect(getUtcOffsetMinutes('2026-01-15T12:00:00.000Z', 'Europe/Berlin')).toBe(60);
+    expect(getUtcOffsetMinutes('2026-07-15T12:00:00.000Z', 'Europe/Berlin')).toBe(120);
+    expect(getUtcOffsetMinutes('2026-07-15T12:00:00.000Z', 'Asia/Kolkata')).toBe(330);
+    expect(getUtcOffsetMinutes('2026-07-15T12:00:00.000Z')).toBe(-240);
+  });
+
+  it('falls back to the device for unknown zones', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(getUtcOffsetMinutes('2026-01-15T12:00:00.000Z', 'Mars/Olympus_Mons')).toBe(-300);
+    setHomeTimeZone('Mars/Olympus_Mons');
+    setTimeZoneView('home');
+    expect(toReportBound(new Date('2026-01-15T00:00:00'))).toBe('2026-01-15T05:00:00.000Z');
+  });
+
+  it('moves session times onto the device clock for the chosen view', () => {
+    // 23:30 in Tokyo is 09:30 in New York
+    expect(toReportClock('2026-01-02T14:30:00.000Z', 540)).toBe(new Date('2026-01-02T23:30:00').toISOString());
+    expect(toReportClock('2026-01-02T14:30:00.000Z', -300)).toBe('2026-01-02T14:30:00.000Z');
+
+    setTimeZoneView('home');
+    setHomeTimeZone('Europe/Berlin');
+    expect(toReportClock('2026-01-02T14:30:00.000Z', 540)).toBe(new Date('2026-01-02T15:30:00').toISOString());
+  });
+
+  it('turns day boundaries into wall-clock times or moments at home', () => {
+    const midnight = new Date('2026-07-01T00:00:00');
+    expect(toReportBound(midnight)).toBe('2026-07-01T00:00:00.000Z');
+
+    setTimeZoneView('home');
+    expect(toReportBound(midnight)).toBe('2026-07-01T04:00:00.000Z');
+    setHomeTimeZone('Europe/Berlin');
+    expect(toReportBound(midnight)).toBe('2026-06-30T22:00:00.000Z');
+  });
+});
@@ -1,3 +1,6 @@
+// Date tests cover daylight saving changes, so every run uses a zone that has them
+process.env.TZ = 'America/New_York';
+
 module.exports = {
   preset: 'react-native',
   setupFilesAfterEnv: ['./jest.setup.js'],
@@ -8,7 +11,7 @@ module.exports = {
     '^@/(.*)$': '<rootDir>/src/$1',
     '^react-native-chart-kit$': '<rootDir>/jest.mocks/react-native-chart-kit.js',
   },
-  testPathIgnorePatterns: ['/node_modules/', '/android/', '/ios/'],
+  testPathIgnorePatterns: ['/node_modules/', '/android/', '/ios/', '/__tests__/fixtures/'],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
@@ -116,3 +116,23 @@ jest.mock('@notifee/react-native', () => ({
     PRESS: 1,
   },
 }));
+
+// Mock react-native-fs
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  writeFile: jest.fn(() => Promise.resolve()),
+  readFile: jest.fn(() => Promise.resolve('')),
+  readDir: jest.fn(() => Promise.resolve([])),
+  exists: jest.fn(() => Promise.resolve(false)),
+  mkdir: jest.fn(() => Promise.resolve()),
+  unlink: jest.fn(() => Promise.resolve()),
+}));
+
+// Mock react-native-share
+jest.mock('react-native-share', () => ({
+  __esModule: true,
+  default: {
+    open: jest.fn(() => Promise.resolve({ success: true, message: '' })),
+  },
+}));
@@ -11,6 +11,8 @@ interface ActivityCardProps {
   activity: ActivityWithCategory;
   onPress: () => void;
   onStartTimer?: () => void;
+  // Shown next to the start button: stop a running timer and start this one
+  onSwitchTimer?: () => void;
   onToggleFavorite?: () => void;
   showStartButton?: boolean;
   compact?: boolean;
@@ -20,6 +22,7 @@ export default function ActivityCard({
   activity,
   onPress,
   onStartTimer,
+  onSwitchTimer,
   onToggleFavorite,
   showStartButton = true,
   compact = false,
@@ -79,6 +82,15 @@ export default function ActivityCard({
           </TouchableOpacity>
         )}
         
+        {showStartButton && onSwitchTimer && (
+          <TouchableOpacity 
+            style={styles.actionButton}
+            onPress={onSwitchTimer}
+          >
+            <Icon name="swap-horizontal" size={24} color={activity.categoryColor} />
+          </TouchableOpacity>
+        )}
+        
         {showStartButton && onStartTimer && (
           <TouchableOpacity 
             style={[styles.startButton, { backgroundColor: activity.categoryColor }]}
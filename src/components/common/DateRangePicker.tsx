@@ -0,0 +1,157 @@
+// Date Range Picker Component
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  formatDate,
+  getDayStart,
+  getMonthStart,
+  getNextDay,
+  getPreviousDay,
+  getWeekStart,
+  isSameDayCheck,
+} from '../../utils/dateUtils';
+
+interface DateRangePickerProps {
+  startDate: Date;
+  endDate: Date;
+  onChange: (startDate: Date, endDate: Date) => void;
+}
+
+interface RangePreset {
+  label: string;
+  getRange: () => [Date, Date];
+}
+
+const PRESETS: RangePreset[] = [
+  { label: 'Today', getRange: () => [getDayStart(), getDayStart()] },
+  { label: 'This Week', getRange: () => [getWeekStart(), getDayStart()] },
+  { label: 'This Month', getRange: () => [getMonthStart(), getDayStart()] },
+  {
+    label: 'Last 30 Days',
+    getRange: () => {
+      const start = getDayStart();
+      start.setDate(start.getDate() - 29);
+      return [start, getDayStart()];
+    },
+  },
+];
+
+// Picks whole days; callers treat both ends as inclusive
+export default function DateRangePicker({ startDate, endDate, onChange }: DateRangePickerProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const isPresetActive = (preset: RangePreset) => {
+    const [start, end] = preset.getRange();
+    return isSameDayCheck(start, startDate) && isSameDayCheck(end, endDate);
+  };
+
+  const renderStepper = (
+    label: string,
+    date: Date,
+    onPrevious: () => void,
+    onNext: () => void,
+    canGoNext: boolean
+  ) => (
+    <View style={styles.stepperRow}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity onPress={onPrevious} style={styles.stepperButton}>
+        <Icon name="chevron-left" size={24} color={theme.primary} />
+      </TouchableOpacity>
+      <Text style={styles.stepperDate}>{formatDate(date, 'EEE, MMM d, yyyy')}</Text>
+      <TouchableOpacity onPress={onNext} style={styles.stepperButton} disabled={!canGoNext}>
+        <Icon name="chevron-right" size={24} color={canGoNext ? theme.primary : theme.gray300} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const today = getDayStart();
+
+  return (
+    <View>
+      <View style={styles.presetRow}>
+        {PRESETS.map(preset => {
+          const active = isPresetActive(preset);
+          return (
+            <TouchableOpacity
+              key={preset.label}
+              style={[styles.preset, active && styles.presetActive]}
+              onPress={() => onChange(...preset.getRange())}
+            >
+              <Text style={[styles.presetText, active && styles.presetTextActive]}>
+                {preset.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {renderStepper(
+        'From',
+        startDate,
+        () => onChange(getPreviousDay(startDate), endDate),
+        () => onChange(getNextDay(startDate), endDate),
+        startDate < getDayStart(endDate)
+      )}
+      {renderStepper(
+        'To',
+        endDate,
+        () => onChange(startDate, getPreviousDay(endDate)),
+        () => onChange(startDate, getNextDay(endDate)),
+        getDayStart(endDate) < today
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  presetActive: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '10',
+  },
+  presetText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  presetTextActive: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  stepperLabel: {
+    width: 44,
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  stepperButton: {
+    padding: 4,
+  },
+  stepperDate: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.textPrimary,
+    textAlign: 'center',
+  },
+});
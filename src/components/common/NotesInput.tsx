@@ -0,0 +1,76 @@
+// Notes Input Component - Multiline session notes saved when editing ends
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, TextInput, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface NotesInputProps {
+  value: string | null;
+  onSave: (notes: string) => void;
+  placeholder?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function NotesInput({
+  value,
+  onSave,
+  placeholder = 'Add a note',
+  style,
+}: NotesInputProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [text, setText] = useState(value ?? '');
+
+  // Follow external changes (e.g. a reload) while not being edited
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  const handleEndEditing = () => {
+    if (text.trim() !== (value ?? '').trim()) {
+      onSave(text);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Icon name="note-text-outline" size={16} color={theme.textTertiary} style={styles.icon} />
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        onBlur={handleEndEditing}
+        placeholder={placeholder}
+        placeholderTextColor={theme.inputPlaceholder}
+        multiline
+        textAlignVertical="top"
+      />
+    </View>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderWidth: 1,
+    borderColor: theme.inputBorder,
+    borderRadius: 8,
+    backgroundColor: theme.inputBackground,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  icon: {
+    marginTop: 3,
+    marginRight: 6,
+  },
+  input: {
+    flex: 1,
+    minHeight: 22,
+    maxHeight: 120,
+    padding: 0,
+    fontSize: 14,
+    color: theme.textPrimary,
+  },
+});
@@ -0,0 +1,76 @@
+// Undo Snackbar Component - Offers to take back the last destructive action
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useUndoStore } from '../../store/undoStore';
+
+// Keeps the snackbar clear of the bottom tab bar
+const TAB_BAR_OFFSET = 64;
+
+export default function UndoSnackbar() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme, insets.bottom), [theme, insets.bottom]);
+  const { pending, isUndoing, undo, dismiss } = useUndoStore();
+
+  if (!pending) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.snackbar}>
+        <Text style={styles.label} numberOfLines={2}>
+          {pending.label}
+        </Text>
+        <TouchableOpacity style={styles.undoButton} onPress={undo} disabled={isUndoing}>
+          <Text style={styles.undoText}>{isUndoing ? 'Undoing…' : 'Undo'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={dismiss} disabled={isUndoing} hitSlop={8}>
+          <Icon name="close" size={18} color={theme.background} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme'], bottomInset: number) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: bottomInset + TAB_BAR_OFFSET,
+    paddingHorizontal: 16,
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: theme.textPrimary,
+    elevation: 6,
+    shadowColor: theme.black,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.background,
+  },
+  undoButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 4,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: theme.primaryLight,
+  },
+});
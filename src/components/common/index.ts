@@ -1,2 +1,5 @@
 export { default as Button } from './Button';
 export { default as Card } from './Card';
+export { default as DateRangePicker } from './DateRangePicker';
+export { default as NotesInput } from './NotesInput';
+export { default as UndoSnackbar } from './UndoSnackbar';
@@ -0,0 +1,131 @@
+// Tag Picker Component - Toggleable tag chips with inline tag creation
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { Tag } from '../../types';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+  // Creates (or finds) a tag by name; the new tag is selected right away
+  onCreateTag?: (name: string) => Promise<Tag>;
+}
+
+export default function TagPicker({
+  tags,
+  selectedTagIds,
+  onChange,
+  onCreateTag,
+}: TagPickerProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [newTagName, setNewTagName] = useState('');
+
+  const toggleTag = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter(id => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  const handleCreate = async () => {
+    const name = newTagName.trim();
+    if (!name || !onCreateTag) {
+      return;
+    }
+    try {
+      const tag = await onCreateTag(name);
+      setNewTagName('');
+      if (!selectedTagIds.includes(tag.id)) {
+        onChange([...selectedTagIds, tag.id]);
+      }
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {tags.map(tag => {
+        const selected = selectedTagIds.includes(tag.id);
+        return (
+          <TouchableOpacity
+            key={tag.id}
+            style={[
+              styles.chip,
+              { borderColor: tag.color },
+              selected && { backgroundColor: tag.color },
+            ]}
+            onPress={() => toggleTag(tag.id)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+              #{tag.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      {onCreateTag && (
+        <View style={styles.newTag}>
+          <TextInput
+            style={styles.newTagInput}
+            value={newTagName}
+            onChangeText={setNewTagName}
+            onSubmitEditing={handleCreate}
+            placeholder="New tag"
+            placeholderTextColor={theme.inputPlaceholder}
+            autoCapitalize="none"
+            returnKeyType="done"
+          />
+          <TouchableOpacity onPress={handleCreate} disabled={!newTagName.trim()}>
+            <Icon name="plus" size={16} color={theme.primary} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.textPrimary,
+  },
+  chipTextSelected: {
+    color: theme.white,
+    fontWeight: '600',
+  },
+  newTag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.inputBorder,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    marginBottom: 6,
+  },
+  newTagInput: {
+    minWidth: 70,
+    paddingVertical: 4,
+    marginRight: 4,
+    fontSize: 13,
+    color: theme.textPrimary,
+  },
+});
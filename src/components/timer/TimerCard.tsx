@@ -6,32 +6,55 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { RunningTimer } from '../../types';
 import { useTheme } from '../../contexts/ThemeContext';
 import { formatTimerDisplay, formatDuration } from '../../utils/dateUtils';
+import { getTimerElapsedSeconds } from '../../store/timerStore';
 import Card from '../common/Card';
+import NotesInput from '../common/NotesInput';
 
 interface TimerCardProps {
   timer: RunningTimer;
   onStop: () => void;
+  // Show a pause/resume button when both are provided
+  onPause?: () => void;
+  onResume?: () => void;
+  // Stop this timer and start another one in the same moment
+  onSwitch?: () => void;
   onPress?: () => void;
+  // Shows a notes field for the running session when provided
+  onNotesChange?: (notes: string) => void;
 }
 
-export default function TimerCard({ timer, onStop, onPress }: TimerCardProps) {
+export default function TimerCard({
+  timer,
+  onStop,
+  onPause,
+  onResume,
+  onSwitch,
+  onPress,
+  onNotesChange,
+}: TimerCardProps) {
   const { theme } = useTheme();
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const styles = useMemo(() => createStyles(theme), [theme]);
 
   useEffect(() => {
     // Calculate initial elapsed time
-    const initialElapsed = Math.floor((Date.now() - timer.startTime.getTime()) / 1000);
-    setElapsedSeconds(initialElapsed);
+    setElapsedSeconds(getTimerElapsedSeconds(timer));
+    if (timer.pausedAt) {
+      return;
+    }
 
     // Update every second
     const interval = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - timer.startTime.getTime()) / 1000);
-      setElapsedSeconds(elapsed);
+      setElapsedSeconds(getTimerElapsedSeconds(timer));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [timer.startTime]);
+  }, [timer]);
+
+  const isPaused = timer.pausedAt !== null;
+  // Routine timers are paused and moved on through their routine
+  const canPause = Boolean(onPause && onResume) && !timer.routineId;
+  const canSwitch = Boolean(onSwitch) && !timer.routineId;
 
   const isOverBudget = timer.expectedDurationMinutes 
     ? (elapsedSeconds / 60) > timer.expectedDurationMinutes 
@@ -78,7 +101,8 @@ export default function TimerCard({ timer, onStop, onPress }: TimerCardProps) {
         <View style={styles.timerSection}>
           <Text style={[
             styles.timerText,
-            isOverBudget && styles.timerOverBudget
+            isOverBudget && styles.timerOverBudget,
+            isPaused && styles.timerPaused
           ]}>
             {formatTimerDisplay(elapsedSeconds)}
           </Text>
@@ -89,15 +113,39 @@ export default function TimerCard({ timer, onStop, onPress }: TimerCardProps) {
             </Text>
           )}
           
-          {/* Running/Overdue Indicator */}
-          <View style={styles.runningIndicator}>
-            <View style={[styles.runningDot, isOverBudget && styles.runningDotOverBudget]} />
-            <Text style={[styles.runningText, isOverBudget && styles.runningTextOverBudget]}>
-              {isOverBudget ? 'Overdue!' : 'Running'}
-            </Text>
-          </View>
+          {/* Running/Paused/Overdue Indicator */}
+          {isPaused ? (
+            <View style={styles.runningIndicator}>
+              <Icon name="pause" size={12} color={theme.textSecondary} />
+              <Text style={styles.pausedText}>Paused</Text>
+            </View>
+          ) : (
+            <View style={styles.runningIndicator}>
+              <View style={[styles.runningDot, isOverBudget && styles.runningDotOverBudget]} />
+              <Text style={[styles.runningText, isOverBudget && styles.runningTextOverBudget]}>
+                {isOverBudget ? 'Overdue!' : 'Running'}
+              </Text>
+            </View>
+          )}
         </View>
 
+        {/* Switch Button */}
+        {canSwitch && (
+          <TouchableOpacity style={styles.switchButton} onPress={onSwitch}>
+            <Icon name="swap-horizontal" size={24} color={theme.primary} />
+          </TouchableOpacity>
+        )}
+
+        {/* Pause/Resume Button */}
+        {canPause && (
+          <TouchableOpacity
+            style={styles.pauseButton}
+            onPress={isPaused ? onResume : onPause}
+          >
+            <Icon name={isPaused ? 'play' : 'pause'} size={24} color={theme.primary} />
+          </TouchableOpacity>
+        )}
+
         {/* Stop Button */}
         <TouchableOpacity 
           style={styles.stopButton}
@@ -106,6 +154,15 @@ export default function TimerCard({ timer, onStop, onPress }: TimerCardProps) {
           <Icon name="close-circle" size={28} color={theme.white} />
         </TouchableOpacity>
       </TouchableOpacity>
+
+      {onNotesChange && (
+        <NotesInput
+          value={timer.notes}
+          onSave={onNotesChange}
+          placeholder="Add a note to this session"
+          style={styles.notes}
+        />
+      )}
     </Card>
   );
 }
@@ -173,6 +230,9 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
   timerOverBudget: {
     color: theme.error,
   },
+  timerPaused: {
+    color: theme.textSecondary,
+  },
   budgetText: {
     fontSize: 14,
     color: theme.textSecondary,
@@ -206,6 +266,32 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     color: theme.error,
     fontWeight: '700',
   },
+  pausedText: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  notes: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  switchButton: {
+    width: 40,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pauseButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: theme.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
   stopButton: {
     width: 48,
     height: 48,
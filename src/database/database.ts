@@ -8,6 +8,7 @@ import {
   ALL_CREATE_STATEMENTS,
   DROP_ALL_TABLES,
 } from './schema';
+import { runMigrations } from './migrations';
 import { DEFAULT_CATEGORIES, getDefaultActivitiesWithCategories } from '../constants/categories';
 import { nowISO } from '../utils/dateUtils';
 
@@ -67,13 +68,8 @@ export async function closeDatabase(): Promise<void> {
 
 async function initializeDatabase(db: SQLiteDatabase): Promise<void> {
   try {
-    // Create all tables
-    for (const statement of ALL_CREATE_STATEMENTS) {
-      await db.executeSql(statement);
-    }
-
-    await ensureRoutineSchemaUpToDate(db);
-    await ensureSessionSchemaUpToDate(db);
+    // Create or upgrade the schema; a failed migration aborts startup
+    await runMigrations(db);
 
     // Check if we need to seed default data
     const [categoriesResult] = await db.executeSql(
@@ -85,12 +81,6 @@ async function initializeDatabase(db: SQLiteDatabase): Promise<void> {
       await seedDefaultData(db);
     }
 
-    // Store database version
-    await db.executeSql(
-      `INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)`,
-      ['db_version', DATABASE_VERSION.toString(), nowISO()]
-    );
-
     console.log('Database initialized successfully');
   } catch (error) {
     console.error('Failed to initialize database:', error);
@@ -126,44 +116,6 @@ async function seedDefaultData(db: SQLiteDatabase): Promise<void> {
   console.log('Default data seeded successfully');
 }
 
-async function ensureRoutineSchemaUpToDate(db: SQLiteDatabase): Promise<void> {
-  try {
-    const [info] = await db.executeSql(`PRAGMA table_info(routines);`);
-    const columns = [];
-    for (let i = 0; i < info.rows.length; i++) {
-      columns.push(info.rows.item(i).name as string);
-    }
-
-    if (!columns.includes('start_time')) {
-      await db.executeSql(`ALTER TABLE routines ADD COLUMN start_time TEXT;`);
-    }
-
-    if (!columns.includes('day_filter')) {
-      await db.executeSql(
-        `ALTER TABLE routines ADD COLUMN day_filter TEXT DEFAULT 'all';`
-      );
-    }
-  } catch (error) {
-    console.warn('Failed to ensure routine schema is up to date:', error);
-  }
-}
-
-async function ensureSessionSchemaUpToDate(db: SQLiteDatabase): Promise<void> {
-  try {
-    const [info] = await db.executeSql(`PRAGMA table_info(time_sessions);`);
-    const columns = [];
-    for (let i = 0; i < info.rows.length; i++) {
-      columns.push(info.rows.item(i).name as string);
-    }
-
-    if (!columns.includes('routine_id')) {
-      await db.executeSql(`ALTER TABLE time_sessions ADD COLUMN routine_id TEXT;`);
-    }
-  } catch (error) {
-    console.warn('Failed to ensure session schema is up to date:', error);
-  }
-}
-
 // ============================================
 // Query Helpers
 // ============================================
@@ -172,6 +124,11 @@ export async function executeSql(
   sql: string,
   params: any[] = []
 ): Promise<ResultSet> {
+  // Statements outside a transaction wait for the queued ones to finish, so
+  // they do not run between another caller's BEGIN and COMMIT
+  if (!transactionOpen) {
+    await transactionQueue;
+  }
   const db = await getDatabase();
   const [result] = await db.executeSql(sql, params);
   return result;
@@ -232,28 +189,52 @@ export async function executeDelete(
 // Transaction Support
 // ============================================
 
-export async function executeTransaction<T>(
+// The connection has a single transaction at a time: a second BEGIN fails,
+// and statements from other callers would commit or roll back with it. Every
+// transaction is chained onto this queue and runs after the previous one.
+let transactionQueue: Promise<void> = Promise.resolve();
+let transactionOpen = false;
+
+/**
+ * Run the callback inside a transaction; any error rolls back every write.
+ * Transactions run one after another and must not be nested. While one is
+ * open, plain statements are taken to be part of it, as the callback reaches
+ * the database through the repositories.
+ */
+export function executeTransaction<T>(
+  callback: (db: SQLiteDatabase) => Promise<T>
+): Promise<T> {
+  const run = transactionQueue.then(() => runTransaction(callback));
+  transactionQueue = run.then(
+    () => undefined,
+    () => undefined
+  );
+  return run;
+}
+
+async function runTransaction<T>(
   callback: (db: SQLiteDatabase) => Promise<T>
 ): Promise<T> {
   const db = await getDatabase();
-  
-  return new Promise((resolve, reject) => {
-    db.transaction(
-      async (tx) => {
-        try {
-          // Note: We pass db instead of tx for simplicity
-          // In a more complex scenario, you might want to use tx directly
-          const result = await callback(db);
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      },
-      (error) => {
-        reject(error);
-      }
-    );
-  });
+
+  // db.transaction() cannot await async work inside its callback, so the
+  // transaction is managed explicitly
+  await db.executeSql('BEGIN TRANSACTION;');
+  transactionOpen = true;
+  try {
+    const result = await callback(db);
+    await db.executeSql('COMMIT;');
+    return result;
+  } catch (error) {
+    try {
+      await db.executeSql('ROLLBACK;');
+    } catch (rollbackError) {
+      console.error('Failed to roll back transaction:', rollbackError);
+    }
+    throw error;
+  } finally {
+    transactionOpen = false;
+  }
 }
 
 // ============================================
@@ -341,18 +322,18 @@ export async function importAllData(data: {
   // Import activities
   for (const act of data.activities) {
     await db.executeSql(
-      `INSERT INTO activities (id, name, category_id, default_expected_minutes, is_planned_default, is_favorite, display_order, idle_prompt_enabled, is_archived, usage_count, last_used_at, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [act.id, act.name, act.category_id, act.default_expected_minutes, act.is_planned_default, act.is_favorite, act.display_order, act.idle_prompt_enabled, act.is_archived, act.usage_count, act.last_used_at, act.created_at, act.updated_at]
+      `INSERT INTO activities (id, name, category_id, default_expected_minutes, is_planned_default, is_favorite, display_order, idle_prompt_enabled, is_background, is_archived, usage_count, last_used_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [act.id, act.name, act.category_id, act.default_expected_minutes, act.is_planned_default, act.is_favorite, act.display_order, act.idle_prompt_enabled, act.is_background ?? 0, act.is_archived, act.usage_count, act.last_used_at, act.created_at, act.updated_at]
     );
   }
   
   // Import sessions
   for (const session of data.sessions) {
     await db.executeSql(
-      `INSERT INTO time_sessions (id, activity_id, activity_name_snapshot, category_id, category_name_snapshot, start_time, end_time, actual_duration_minutes, expected_duration_minutes, is_planned, source, is_running, idle_prompt_enabled, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [session.id, session.activity_id, session.activity_name_snapshot, session.category_id, session.category_name_snapshot, session.start_time, session.end_time, session.actual_duration_minutes, session.expected_duration_minutes, session.is_planned, session.source, session.is_running, session.idle_prompt_enabled, session.created_at, session.updated_at]
+      `INSERT INTO time_sessions (id, activity_id, activity_name_snapshot, category_id, category_name_snapshot, start_time, end_time, actual_duration_minutes, actual_duration_seconds, expected_duration_minutes, is_planned, source, is_running, idle_prompt_enabled, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [session.id, session.activity_id, session.activity_name_snapshot, session.category_id, session.category_name_snapshot, session.start_time, session.end_time, session.actual_duration_minutes, session.actual_duration_seconds ?? (session.actual_duration_minutes !== null ? session.actual_duration_minutes * 60 : null), session.expected_duration_minutes, session.is_planned, session.source, session.is_running, session.idle_prompt_enabled, session.created_at, session.updated_at]
     );
   }
   
@@ -383,14 +364,22 @@ export async function importAllData(data: {
     );
   }
   
-  // Import settings
+  // Import settings (the schema version belongs to this install, not the backup)
   for (const setting of data.settings) {
+    if (setting.key === 'db_version') {
+      continue;
+    }
     await db.executeSql(
       `INSERT INTO settings (key, value, updated_at)
        VALUES (?, ?, ?)`,
       [setting.key, setting.value, setting.updated_at]
     );
   }
+
+  await db.executeSql(
+    `INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)`,
+    ['db_version', DATABASE_VERSION.toString(), nowISO()]
+  );
   
   console.log('Data imported successfully');
 }
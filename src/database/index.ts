@@ -2,4 +2,5 @@
 
 export * from './database';
 export * from './schema';
+export * from './migrations';
 export * from './repositories';
@@ -0,0 +1,299 @@
+// SQLite Schema Migrations
+//
+// Every schema change ships as a numbered migration. Migrations run in order,
+// each inside its own transaction, and the applied version is recorded in
+// `settings.db_version` as part of that same transaction. A failing migration
+// rolls back and aborts startup with a MigrationError instead of leaving the
+// database half-upgraded.
+
+import { SQLiteDatabase } from 'react-native-sqlite-storage';
+import {
+  ALL_CREATE_STATEMENTS,
+  CREATE_ACTIVITY_TAGS_TABLE,
+  CREATE_INDEXES,
+  CREATE_SESSION_PAUSES_TABLE,
+  CREATE_SESSION_REVISIONS_TABLE,
+  CREATE_SESSION_TAGS_TABLE,
+  CREATE_TAGS_TABLE,
+  CREATE_TIME_SESSIONS_TABLE,
+} from './schema';
+import { nowISO } from '../utils/dateUtils';
+import { getDeviceTimeZone } from '../utils/timeZoneUtils';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+export class MigrationError extends Error {
+  version: number;
+  migrationName: string;
+  cause: unknown;
+
+  constructor(version: number, migrationName: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Database migration ${version} (${migrationName}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = version;
+    this.migrationName = migrationName;
+    this.cause = cause;
+  }
+}
+
+// ============================================
+// Migration Helpers
+// ============================================
+
+async function tableExists(db: SQLiteDatabase, table: string): Promise<boolean> {
+  const [result] = await db.executeSql(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    [table]
+  );
+  return result.rows.length > 0;
+}
+
+export async function getTableColumns(db: SQLiteDatabase, table: string): Promise<string[]> {
+  const [info] = await db.executeSql(`PRAGMA table_info(${table});`);
+  const columns: string[] = [];
+  for (let i = 0; i < info.rows.length; i++) {
+    columns.push(info.rows.item(i).name as string);
+  }
+  return columns;
+}
+
+// Fresh installs create tables from the latest definitions in schema.ts, so
+// column additions must tolerate the column already being there.
+export async function addColumnIfMissing(
+  db: SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await getTableColumns(db, table);
+  if (!columns.includes(column)) {
+    await db.executeSql(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
+}
+
+async function getTableSql(db: SQLiteDatabase, table: string): Promise<string> {
+  const [result] = await db.executeSql(
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    [table]
+  );
+  return result.rows.length > 0 ? (result.rows.item(0).sql as string) ?? '' : '';
+}
+
+// SQLite cannot alter CHECK constraints in place, so the table is recreated
+// from its latest definition and the rows copied across. Columns the old
+// table lacks fall back to their defaults.
+export async function rebuildTable(
+  db: SQLiteDatabase,
+  table: string,
+  createStatement: string
+): Promise<void> {
+  const previous = `${table}_previous`;
+  await db.executeSql(`ALTER TABLE ${table} RENAME TO ${previous};`);
+  await db.executeSql(createStatement);
+
+  const newColumns = await getTableColumns(db, table);
+  const oldColumns = await getTableColumns(db, previous);
+  const shared = newColumns.filter(column => oldColumns.includes(column)).join(', ');
+  await db.executeSql(`INSERT INTO ${table} (${shared}) SELECT ${shared} FROM ${previous};`);
+  await db.executeSql(`DROP TABLE ${previous};`);
+
+  // Indexes were dropped along with the old table
+  for (const statement of CREATE_INDEXES.filter(sql => sql.includes(` ON ${table}(`))) {
+    await db.executeSql(statement);
+  }
+}
+
+// ============================================
+// Migrations (append only - never edit a released migration)
+// ============================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async db => {
+      for (const statement of ALL_CREATE_STATEMENTS) {
+        await db.executeSql(statement);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'routine_schedule_and_session_routine',
+    up: async db => {
+      await addColumnIfMissing(db, 'routines', 'start_time', 'TEXT');
+      await addColumnIfMissing(db, 'routines', 'day_filter', `TEXT DEFAULT 'all'`);
+      await addColumnIfMissing(db, 'time_sessions', 'routine_id', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'session_import_source',
+    up: async db => {
+      const sql = await getTableSql(db, 'time_sessions');
+      if (!sql.includes(`'import'`)) {
+        await rebuildTable(db, 'time_sessions', CREATE_TIME_SESSIONS_TABLE);
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'session_notes',
+    up: async db => {
+      await addColumnIfMissing(db, 'time_sessions', 'notes', 'TEXT');
+    },
+  },
+  {
+    version: 5,
+    name: 'tags',
+    up: async db => {
+      await db.executeSql(CREATE_TAGS_TABLE);
+      await db.executeSql(CREATE_SESSION_TAGS_TABLE);
+      await db.executeSql(CREATE_ACTIVITY_TAGS_TABLE);
+      for (const statement of CREATE_INDEXES.filter(sql => /ON (session|activity)_tags\(/.test(sql))) {
+        await db.executeSql(statement);
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'soft_delete',
+    up: async db => {
+      await addColumnIfMissing(db, 'activities', 'deleted_at', 'TEXT');
+      await addColumnIfMissing(db, 'time_sessions', 'deleted_at', 'TEXT');
+      await addColumnIfMissing(db, 'routines', 'deleted_at', 'TEXT');
+      await db.executeSql(CREATE_INDEXES.find(sql => sql.includes('idx_sessions_deleted'))!);
+    },
+  },
+  {
+    version: 7,
+    name: 'session_revisions',
+    up: async db => {
+      await db.executeSql(CREATE_SESSION_REVISIONS_TABLE);
+      await db.executeSql(CREATE_INDEXES.find(sql => sql.includes('idx_session_revisions_session'))!);
+    },
+  },
+  {
+    version: 8,
+    name: 'session_time_zones',
+    up: async db => {
+      await addColumnIfMissing(db, 'time_sessions', 'time_zone', 'TEXT');
+      await addColumnIfMissing(db, 'time_sessions', 'utc_offset_minutes', 'INTEGER');
+      // Earlier sessions are assumed to have been captured in the device zone;
+      // SQLite's localtime applies that zone's DST rules to each start time
+      await db.executeSql(
+        `UPDATE time_sessions
+         SET time_zone = ?,
+             utc_offset_minutes = CAST(ROUND((julianday(start_time, 'localtime') - julianday(start_time)) * 1440) AS INTEGER)
+         WHERE utc_offset_minutes IS NULL`,
+        [getDeviceTimeZone()]
+      );
+    },
+  },
+  {
+    version: 9,
+    name: 'session_duration_seconds',
+    up: async db => {
+      await addColumnIfMissing(db, 'time_sessions', 'actual_duration_seconds', 'INTEGER');
+      // Take the exact span where it still matches the stored whole minutes;
+      // durations that were edited or trimmed keep their minutes
+      await db.executeSql(
+        `UPDATE time_sessions
+         SET actual_duration_seconds = CASE
+           WHEN end_time IS NOT NULL
+             AND CAST(ROUND((julianday(end_time) - julianday(start_time)) * 86400) AS INTEGER) / 60 = actual_duration_minutes
+           THEN CAST(ROUND((julianday(end_time) - julianday(start_time)) * 86400) AS INTEGER)
+           ELSE actual_duration_minutes * 60
+         END
+         WHERE actual_duration_seconds IS NULL AND actual_duration_minutes IS NOT NULL`
+      );
+    },
+  },
+  {
+    version: 10,
+    name: 'session_pauses',
+    up: async db => {
+      await db.executeSql(CREATE_SESSION_PAUSES_TABLE);
+      await db.executeSql(CREATE_INDEXES.find(sql => sql.includes('idx_session_pauses_session'))!);
+    },
+  },
+  {
+    version: 11,
+    name: 'background_activities',
+    up: async db => {
+      await addColumnIfMissing(db, 'activities', 'is_background', 'INTEGER DEFAULT 0');
+    },
+  },
+];
+
+// ============================================
+// Runner
+// ============================================
+
+export async function getSchemaVersion(db: SQLiteDatabase): Promise<number> {
+  if (!(await tableExists(db, 'settings'))) {
+    return 0;
+  }
+
+  const [result] = await db.executeSql(
+    `SELECT value FROM settings WHERE key = 'db_version'`
+  );
+  if (result.rows.length > 0) {
+    const version = parseInt(result.rows.item(0).value, 10);
+    return isNaN(version) ? 0 : version;
+  }
+
+  // Installs from before the migration runner existed never got a version
+  // row if startup was interrupted; their tables match the v1 layout.
+  return (await tableExists(db, 'categories')) ? 1 : 0;
+}
+
+async function applyMigration(db: SQLiteDatabase, migration: Migration): Promise<void> {
+  await db.executeSql('BEGIN TRANSACTION;');
+  try {
+    await migration.up(db);
+    await db.executeSql(
+      `INSERT OR REPLACE INTO settings (key, value, updated_at) VALUES (?, ?, ?)`,
+      ['db_version', migration.version.toString(), nowISO()]
+    );
+    await db.executeSql('COMMIT;');
+  } catch (error) {
+    try {
+      await db.executeSql('ROLLBACK;');
+    } catch (rollbackError) {
+      console.error('Failed to roll back migration:', rollbackError);
+    }
+    throw new MigrationError(migration.version, migration.name, error);
+  }
+}
+
+export async function runMigrations(
+  db: SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  const currentVersion = await getSchemaVersion(db);
+  const targetVersion = ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+
+  if (currentVersion > targetVersion) {
+    throw new MigrationError(
+      currentVersion,
+      'version_check',
+      new Error(`Database version ${currentVersion} is newer than this app supports (${targetVersion})`)
+    );
+  }
+
+  const pending = ordered.filter(migration => migration.version > currentVersion);
+
+  for (const migration of pending) {
+    console.log(`Applying database migration ${migration.version} (${migration.name})`);
+    await applyMigration(db, migration);
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1].version : currentVersion;
+}
@@ -2,7 +2,14 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { executeQuery, executeQuerySingle, executeSql } from '../database';
-import { Activity, ActivityWithCategory, CreateActivityInput, UpdateActivityInput } from '../../types';
+import {
+  Activity,
+  ActivityWithCategory,
+  BackupActivity,
+  CreateActivityInput,
+  Trashed,
+  UpdateActivityInput,
+} from '../../types';
 import { nowISO } from '../../utils/dateUtils';
 
 // Database row type (snake_case)
@@ -15,9 +22,11 @@ interface ActivityRow {
   is_favorite: number;
   display_order: number;
   idle_prompt_enabled: number;
+  is_background: number;
   is_archived: number;
   usage_count: number;
   last_used_at: string | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -39,6 +48,7 @@ function rowToActivity(row: ActivityRow): Activity {
     isFavorite: row.is_favorite === 1,
     displayOrder: row.display_order,
     idlePromptEnabled: row.idle_prompt_enabled === 1,
+    isBackground: row.is_background === 1,
     isArchived: row.is_archived === 1,
     usageCount: row.usage_count,
     lastUsedAt: row.last_used_at,
@@ -61,16 +71,22 @@ function rowToActivityWithCategory(row: ActivityWithCategoryRow): ActivityWithCa
 // ============================================
 
 export async function getAllActivities(includeArchived = false): Promise<Activity[]> {
-  const archivedClause = includeArchived ? '' : 'WHERE is_archived = 0';
+  const archivedClause = includeArchived ? '' : 'AND is_archived = 0';
   const rows = await executeQuery<ActivityRow>(
-    `SELECT * FROM activities ${archivedClause} ORDER BY display_order ASC`
+    `SELECT * FROM activities WHERE deleted_at IS NULL ${archivedClause} ORDER BY display_order ASC`
   );
   return rows.map(rowToActivity);
 }
 
+// Every activity, archived and trashed ones included, used for full backups
+export async function getAllActivitiesForBackup(): Promise<BackupActivity[]> {
+  const rows = await executeQuery<ActivityRow>('SELECT * FROM activities ORDER BY display_order ASC');
+  return rows.map(row => ({ ...rowToActivity(row), deletedAt: row.deleted_at ?? null }));
+}
+
 export async function getActivityById(id: string): Promise<Activity | null> {
   const row = await executeQuerySingle<ActivityRow>(
-    'SELECT * FROM activities WHERE id = ?',
+    'SELECT * FROM activities WHERE id = ? AND deleted_at IS NULL',
     [id]
   );
   return row ? rowToActivity(row) : null;
@@ -81,7 +97,7 @@ export async function getActivityByIdWithCategory(id: string): Promise<ActivityW
     `SELECT a.*, c.name as category_name, c.color as category_color, c.icon as category_icon
      FROM activities a
      JOIN categories c ON a.category_id = c.id
-     WHERE a.id = ?`,
+     WHERE a.id = ? AND a.deleted_at IS NULL`,
     [id]
   );
   return row ? rowToActivityWithCategory(row) : null;
@@ -93,19 +109,19 @@ export async function getActivitiesByCategory(
 ): Promise<Activity[]> {
   const archivedClause = includeArchived ? '' : 'AND is_archived = 0';
   const rows = await executeQuery<ActivityRow>(
-    `SELECT * FROM activities WHERE category_id = ? ${archivedClause} ORDER BY display_order ASC`,
+    `SELECT * FROM activities WHERE category_id = ? AND deleted_at IS NULL ${archivedClause} ORDER BY display_order ASC`,
     [categoryId]
   );
   return rows.map(rowToActivity);
 }
 
 export async function getActivitiesWithCategories(includeArchived = false): Promise<ActivityWithCategory[]> {
-  const archivedClause = includeArchived ? '' : 'WHERE a.is_archived = 0';
+  const archivedClause = includeArchived ? '' : 'AND a.is_archived = 0';
   const rows = await executeQuery<ActivityWithCategoryRow>(
     `SELECT a.*, c.name as category_name, c.color as category_color, c.icon as category_icon
      FROM activities a
      JOIN categories c ON a.category_id = c.id
-     ${archivedClause}
+     WHERE a.deleted_at IS NULL ${archivedClause}
      ORDER BY a.display_order ASC`
   );
   return rows.map(rowToActivityWithCategory);
@@ -116,7 +132,7 @@ export async function getFavoriteActivities(): Promise<ActivityWithCategory[]> {
     `SELECT a.*, c.name as category_name, c.color as category_color, c.icon as category_icon
      FROM activities a
      JOIN categories c ON a.category_id = c.id
-     WHERE a.is_favorite = 1 AND a.is_archived = 0
+     WHERE a.is_favorite = 1 AND a.is_archived = 0 AND a.deleted_at IS NULL
      ORDER BY a.display_order ASC`
   );
   return rows.map(rowToActivityWithCategory);
@@ -134,8 +150,8 @@ export async function createActivity(input: CreateActivityInput): Promise<Activi
   const displayOrder = (maxOrderResult?.max_order ?? -1) + 1;
   
   await executeSql(
-    `INSERT INTO activities (id, name, category_id, default_expected_minutes, is_planned_default, is_favorite, display_order, idle_prompt_enabled, is_archived, usage_count, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 0, ?, ?)`,
+    `INSERT INTO activities (id, name, category_id, default_expected_minutes, is_planned_default, is_favorite, display_order, idle_prompt_enabled, is_background, is_archived, usage_count, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, ?, ?)`,
     [
       id,
       input.name,
@@ -145,6 +161,7 @@ export async function createActivity(input: CreateActivityInput): Promise<Activi
       input.isFavorite === true ? 1 : 0,
       displayOrder,
       input.idlePromptEnabled !== false ? 1 : 0,
+      input.isBackground === true ? 1 : 0,
       now,
       now,
     ]
@@ -198,6 +215,10 @@ export async function updateActivity(
     fields.push('idle_prompt_enabled = ?');
     values.push(updates.idlePromptEnabled ? 1 : 0);
   }
+  if (updates.isBackground !== undefined) {
+    fields.push('is_background = ?');
+    values.push(updates.isBackground ? 1 : 0);
+  }
   if (updates.isArchived !== undefined) {
     fields.push('is_archived = ?');
     values.push(updates.isArchived ? 1 : 0);
@@ -206,7 +227,7 @@ export async function updateActivity(
   values.push(id);
   
   await executeSql(
-    `UPDATE activities SET ${fields.join(', ')} WHERE id = ?`,
+    `UPDATE activities SET ${fields.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
     values
   );
   
@@ -229,8 +250,47 @@ export async function unarchiveActivity(id: string): Promise<boolean> {
   return result.rowsAffected > 0;
 }
 
+// Moves the activity to the trash. Its sessions keep their snapshots, and
+// goals and routine steps for it are hidden until it is restored
 export async function deleteActivity(id: string): Promise<boolean> {
-  const result = await executeSql('DELETE FROM activities WHERE id = ?', [id]);
+  const now = nowISO();
+  const result = await executeSql(
+    'UPDATE activities SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [now, now, id]
+  );
+  return result.rowsAffected > 0;
+}
+
+// ============================================
+// Trash
+// ============================================
+
+export async function getDeletedActivities(): Promise<Trashed<ActivityWithCategory>[]> {
+  const rows = await executeQuery<ActivityWithCategoryRow>(
+    `SELECT a.*, c.name as category_name, c.color as category_color, c.icon as category_icon
+     FROM activities a
+     LEFT JOIN categories c ON a.category_id = c.id
+     WHERE a.deleted_at IS NOT NULL
+     ORDER BY a.deleted_at DESC`
+  );
+  return rows.map(row => ({ ...rowToActivityWithCategory(row), deletedAt: row.deleted_at! }));
+}
+
+export async function restoreActivity(id: string): Promise<boolean> {
+  const result = await executeSql(
+    'UPDATE activities SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL',
+    [nowISO(), id]
+  );
+  return result.rowsAffected > 0;
+}
+
+// Foreign keys are not enforced, so tag links are removed explicitly
+export async function purgeActivity(id: string): Promise<boolean> {
+  await executeSql('DELETE FROM activity_tags WHERE activity_id = ?', [id]);
+  const result = await executeSql(
+    'DELETE FROM activities WHERE id = ? AND deleted_at IS NOT NULL',
+    [id]
+  );
   return result.rowsAffected > 0;
 }
 
@@ -264,7 +324,7 @@ export async function getSmartOrderedActivities(
      (a.usage_count * 2) as score
      FROM activities a
      JOIN categories c ON a.category_id = c.id
-     WHERE a.is_archived = 0
+     WHERE a.is_archived = 0 AND a.deleted_at IS NULL
      ORDER BY score DESC, a.display_order ASC`
   );
   
@@ -286,7 +346,7 @@ export async function searchActivities(
     `SELECT a.*, c.name as category_name, c.color as category_color, c.icon as category_icon
      FROM activities a
      JOIN categories c ON a.category_id = c.id
-     WHERE (a.name LIKE ? OR c.name LIKE ?) ${archivedClause}
+     WHERE (a.name LIKE ? OR c.name LIKE ?) AND a.deleted_at IS NULL ${archivedClause}
      ORDER BY a.is_favorite DESC, a.usage_count DESC`,
     [searchPattern, searchPattern]
   );
@@ -143,7 +143,7 @@ export async function getCategoriesWithActivityCount(): Promise<(Category & { ac
   const rows = await executeQuery<CategoryRow & { activity_count: number }>(
     `SELECT c.*, COUNT(a.id) as activity_count 
      FROM categories c 
-     LEFT JOIN activities a ON c.id = a.category_id AND a.is_archived = 0
+     LEFT JOIN activities a ON c.id = a.category_id AND a.is_archived = 0 AND a.deleted_at IS NULL
      GROUP BY c.id 
      ORDER BY c.display_order ASC`
   );
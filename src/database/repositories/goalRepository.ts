@@ -69,7 +69,7 @@ export async function getGoalsWithActivities(activeOnly = true): Promise<GoalWit
   const rows = await executeQuery<GoalWithActivityRow>(
     `SELECT g.*, a.name as activity_name, c.name as category_name
      FROM goals g
-     JOIN activities a ON g.activity_id = a.id
+     JOIN activities a ON g.activity_id = a.id AND a.deleted_at IS NULL
      JOIN categories c ON a.category_id = c.id
      ${activeClause}
      ORDER BY g.scope, g.goal_type, a.name`
@@ -97,7 +97,7 @@ export async function getGoalsByScope(
   const rows = await executeQuery<GoalWithActivityRow>(
     `SELECT g.*, a.name as activity_name, c.name as category_name
      FROM goals g
-     JOIN activities a ON g.activity_id = a.id
+     JOIN activities a ON g.activity_id = a.id AND a.deleted_at IS NULL
      JOIN categories c ON a.category_id = c.id
      WHERE g.scope = ? ${activeClause}
      ORDER BY g.goal_type, a.name`,
@@ -187,6 +187,24 @@ export async function deleteGoal(id: string): Promise<boolean> {
   return result.rowsAffected > 0;
 }
 
+// Puts a deleted goal back exactly as it was, keeping its id and timestamps
+export async function restoreGoal(goal: Goal): Promise<void> {
+  await executeSql(
+    `INSERT OR REPLACE INTO goals (id, activity_id, goal_type, scope, target_minutes, is_active, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      goal.id,
+      goal.activityId,
+      goal.goalType,
+      goal.scope,
+      goal.targetMinutes,
+      goal.isActive ? 1 : 0,
+      goal.createdAt,
+      goal.updatedAt,
+    ]
+  );
+}
+
 export async function deactivateGoal(id: string): Promise<boolean> {
   const result = await executeSql(
     'UPDATE goals SET is_active = 0, updated_at = ? WHERE id = ?',
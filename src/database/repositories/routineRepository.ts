@@ -2,7 +2,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { executeQuery, executeQuerySingle, executeSql } from '../database';
-import { Routine, RoutineType, RoutineItem, RoutineWithItems, Activity } from '../../types';
+import { Routine, RoutineType, RoutineItem, RoutineWithItems, Activity, Trashed, BackupRoutine } from '../../types';
 import { nowISO } from '../../utils/dateUtils';
 
 // Database row types (snake_case)
@@ -13,6 +13,7 @@ interface RoutineRow {
   start_time: string | null;
   day_filter: 'all' | 'weekdays' | 'weekend' | null;
   is_active: number;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -69,16 +70,23 @@ const normalizeRoutineStartTime = (value?: string | null): string | null | undef
 // ============================================
 
 export async function getAllRoutines(activeOnly = true): Promise<Routine[]> {
-  const activeClause = activeOnly ? 'WHERE is_active = 1' : '';
+  const activeClause = activeOnly ? 'AND is_active = 1' : '';
   const rows = await executeQuery<RoutineRow>(
-    `SELECT * FROM routines ${activeClause} ORDER BY name`
+    `SELECT * FROM routines WHERE deleted_at IS NULL ${activeClause} ORDER BY name`
   );
   return rows.map(rowToRoutine);
 }
 
+// Every routine, inactive and trashed ones included, used for full backups
+// and to name the routines of exported sessions
+export async function getAllRoutinesForBackup(): Promise<BackupRoutine[]> {
+  const rows = await executeQuery<RoutineRow>('SELECT * FROM routines ORDER BY name');
+  return rows.map(row => ({ ...rowToRoutine(row), deletedAt: row.deleted_at ?? null }));
+}
+
 export async function getRoutineById(id: string): Promise<Routine | null> {
   const row = await executeQuerySingle<RoutineRow>(
-    'SELECT * FROM routines WHERE id = ?',
+    'SELECT * FROM routines WHERE id = ? AND deleted_at IS NULL',
     [id]
   );
   return row ? rowToRoutine(row) : null;
@@ -109,7 +117,7 @@ export async function getRoutineWithItems(id: string): Promise<RoutineWithItems
             a.is_archived, a.usage_count, a.last_used_at,
             a.created_at as activity_created_at, a.updated_at as activity_updated_at
      FROM routine_items ri
-     JOIN activities a ON ri.activity_id = a.id
+     JOIN activities a ON ri.activity_id = a.id AND a.deleted_at IS NULL
      WHERE ri.routine_id = ?
      ORDER BY ri.display_order`,
     [id]
@@ -140,6 +148,14 @@ export async function getRoutineWithItems(id: string): Promise<RoutineWithItems
   };
 }
 
+// Steps of every routine, trashed ones included, used for full backups
+export async function getAllRoutineItems(): Promise<RoutineItem[]> {
+  const rows = await executeQuery<RoutineItemRow>(
+    'SELECT * FROM routine_items ORDER BY routine_id, display_order'
+  );
+  return rows.map(rowToRoutineItem);
+}
+
 interface CreateRoutineInput {
   name: string;
   routineType: RoutineType;
@@ -203,17 +219,52 @@ export async function updateRoutine(
   values.push(id);
 
   await executeSql(
-    `UPDATE routines SET ${fields.join(', ')} WHERE id = ?`,
+    `UPDATE routines SET ${fields.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
     values
   );
 
   return getRoutineById(id);
 }
 
+// Moves the routine to the trash; its items are kept so a restore is complete
 export async function deleteRoutine(id: string): Promise<boolean> {
+  const now = nowISO();
+  const result = await executeSql(
+    'UPDATE routines SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [now, now, id]
+  );
+  return result.rowsAffected > 0;
+}
+
+export async function getDeletedRoutines(): Promise<Trashed<Routine & { itemCount: number }>[]> {
+  const rows = await executeQuery<RoutineRow & { item_count: number }>(
+    `SELECT r.*, (SELECT COUNT(*) FROM routine_items ri WHERE ri.routine_id = r.id) as item_count
+     FROM routines r
+     WHERE r.deleted_at IS NOT NULL
+     ORDER BY r.deleted_at DESC`
+  );
+  return rows.map(row => ({
+    ...rowToRoutine(row),
+    itemCount: row.item_count,
+    deletedAt: row.deleted_at!,
+  }));
+}
+
+export async function restoreRoutine(id: string): Promise<boolean> {
+  const result = await executeSql(
+    'UPDATE routines SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL',
+    [nowISO(), id]
+  );
+  return result.rowsAffected > 0;
+}
+
+export async function purgeRoutine(id: string): Promise<boolean> {
   // Delete routine items first
   await executeSql('DELETE FROM routine_items WHERE routine_id = ?', [id]);
-  const result = await executeSql('DELETE FROM routines WHERE id = ?', [id]);
+  const result = await executeSql(
+    'DELETE FROM routines WHERE id = ? AND deleted_at IS NOT NULL',
+    [id]
+  );
   return result.rowsAffected > 0;
 }
 
@@ -367,6 +418,7 @@ export async function getRoutineSchedules(): Promise<RoutineSchedule[]> {
        r.day_filter as dayFilter
      FROM routines r
      WHERE r.is_active = 1
+       AND r.deleted_at IS NULL
        AND r.start_time IS NOT NULL
        AND EXISTS (SELECT 1 FROM routine_items ri WHERE ri.routine_id = r.id)`
   );
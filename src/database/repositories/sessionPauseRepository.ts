@@ -0,0 +1,162 @@
+// Session Pause Repository - Pause intervals of running timer sessions
+
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeQuerySingle, executeSql } from '../database';
+import { SessionPause } from '../../types';
+import { nowISO } from '../../utils/dateUtils';
+
+// Database row type (snake_case)
+interface SessionPauseRow {
+  id: string;
+  session_id: string;
+  paused_at: string;
+  resumed_at: string | null;
+  created_at: string;
+}
+
+function rowToPause(row: SessionPauseRow): SessionPause {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    pausedAt: row.paused_at,
+    resumedAt: row.resumed_at,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// Queries
+// ============================================
+
+// Every pause of every session, used for full backups
+export async function getAllSessionPauses(): Promise<SessionPause[]> {
+  const rows = await executeQuery<SessionPauseRow>('SELECT * FROM session_pauses ORDER BY paused_at ASC');
+  return rows.map(rowToPause);
+}
+
+// Oldest first
+export async function getSessionPauses(sessionId: string): Promise<SessionPause[]> {
+  const rows = await executeQuery<SessionPauseRow>(
+    'SELECT * FROM session_pauses WHERE session_id = ? ORDER BY paused_at ASC',
+    [sessionId]
+  );
+  return rows.map(rowToPause);
+}
+
+// Pauses of many sessions at once, keyed by session id
+export async function getPausesForSessions(sessionIds: string[]): Promise<Map<string, SessionPause[]>> {
+  const pausesBySession = new Map<string, SessionPause[]>();
+  if (sessionIds.length === 0) {
+    return pausesBySession;
+  }
+
+  const placeholders = sessionIds.map(() => '?').join(', ');
+  const rows = await executeQuery<SessionPauseRow>(
+    `SELECT * FROM session_pauses WHERE session_id IN (${placeholders}) ORDER BY paused_at ASC`,
+    sessionIds
+  );
+  for (const row of rows) {
+    const pauses = pausesBySession.get(row.session_id) ?? [];
+    pauses.push(rowToPause(row));
+    pausesBySession.set(row.session_id, pauses);
+  }
+  return pausesBySession;
+}
+
+export async function getOpenPause(sessionId: string): Promise<SessionPause | null> {
+  const row = await executeQuerySingle<SessionPauseRow>(
+    'SELECT * FROM session_pauses WHERE session_id = ? AND resumed_at IS NULL',
+    [sessionId]
+  );
+  return row ? rowToPause(row) : null;
+}
+
+// ============================================
+// Pausing
+// ============================================
+
+// A session has at most one open pause; pausing it again returns that one
+export async function startPause(sessionId: string, pausedAt: string = nowISO()): Promise<SessionPause> {
+  const open = await getOpenPause(sessionId);
+  if (open) {
+    return open;
+  }
+  const pause: SessionPause = {
+    id: uuidv4(),
+    sessionId,
+    pausedAt,
+    resumedAt: null,
+    createdAt: nowISO(),
+  };
+  await executeSql(
+    `INSERT INTO session_pauses (id, session_id, paused_at, resumed_at, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [pause.id, pause.sessionId, pause.pausedAt, pause.resumedAt, pause.createdAt]
+  );
+  return pause;
+}
+
+// Returns the pause that ended, or null when the session was not paused
+export async function endPause(sessionId: string, resumedAt: string = nowISO()): Promise<SessionPause | null> {
+  const open = await getOpenPause(sessionId);
+  if (!open) {
+    return null;
+  }
+  await executeSql('UPDATE session_pauses SET resumed_at = ? WHERE id = ?', [resumedAt, open.id]);
+  return { ...open, resumedAt };
+}
+
+// A pause recorded after the fact, e.g. idle time taken out of a running session
+export async function addPause(sessionId: string, pausedAt: string, resumedAt: string): Promise<SessionPause> {
+  const pause: SessionPause = {
+    id: uuidv4(),
+    sessionId,
+    pausedAt,
+    resumedAt,
+    createdAt: nowISO(),
+  };
+  await executeSql(
+    `INSERT INTO session_pauses (id, session_id, paused_at, resumed_at, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [pause.id, pause.sessionId, pause.pausedAt, pause.resumedAt, pause.createdAt]
+  );
+  return pause;
+}
+
+export async function deletePause(id: string): Promise<void> {
+  await executeSql('DELETE FROM session_pauses WHERE id = ?', [id]);
+}
+
+// Undo of a stop: the pause that the stop ended at `resumedAt` is open again
+export async function reopenPause(sessionId: string, resumedAt: string): Promise<void> {
+  await executeSql(
+    'UPDATE session_pauses SET resumed_at = NULL WHERE session_id = ? AND resumed_at = ?',
+    [sessionId, resumedAt]
+  );
+}
+
+// A split hands the pauses after the split point to the second session; a
+// pause across the split point is cut in two
+export async function movePausesAfter(fromSessionId: string, toSessionId: string, at: string): Promise<void> {
+  const atTime = new Date(at).getTime();
+  for (const pause of await getSessionPauses(fromSessionId)) {
+    const pausedAt = new Date(pause.pausedAt).getTime();
+    const resumedAt = pause.resumedAt ? new Date(pause.resumedAt).getTime() : Infinity;
+    if (pausedAt >= atTime) {
+      await executeSql('UPDATE session_pauses SET session_id = ? WHERE id = ?', [toSessionId, pause.id]);
+    } else if (resumedAt > atTime) {
+      await executeSql('UPDATE session_pauses SET resumed_at = ? WHERE id = ?', [at, pause.id]);
+      await (pause.resumedAt ? addPause(toSessionId, at, pause.resumedAt) : startPause(toSessionId, at));
+    }
+  }
+}
+
+// Undo of a split: the pauses of the second session go back to the first
+export async function moveSessionPauses(fromSessionId: string, toSessionId: string): Promise<void> {
+  await executeSql('UPDATE session_pauses SET session_id = ? WHERE session_id = ?', [toSessionId, fromSessionId]);
+}
+
+// Only used when a session is removed for good
+export async function deleteSessionPauses(sessionId: string): Promise<void> {
+  await executeSql('DELETE FROM session_pauses WHERE session_id = ?', [sessionId]);
+}
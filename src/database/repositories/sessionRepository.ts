@@ -1,9 +1,37 @@
 // Session Repository - Database Operations for Time Sessions
 
 import { v4 as uuidv4 } from 'uuid';
-import { executeQuery, executeQuerySingle, executeSql } from '../database';
-import { TimeSession, SessionWithDetails, CreateSessionInput, UpdateSessionInput, SessionSource } from '../../types';
-import { nowISO, getDayStart, getDayEnd, getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, calculateDurationMinutes, getNextDay, isSameDayCheck } from '../../utils/dateUtils';
+import { executeQuery, executeQuerySingle, executeSql, executeTransaction } from '../database';
+import {
+  TimeSession,
+  SessionWithDetails,
+  CreateSessionInput,
+  UpdateSessionInput,
+  SessionSource,
+  SessionRevisionSource,
+  Trashed,
+  SessionQueryFilter,
+  SessionQueryOptions,
+  SessionPage,
+  SessionSortField,
+  SessionGroupBy,
+  SessionGroupTotal,
+  SessionPause,
+  BackupSession,
+} from '../../types';
+import { copySessionTags } from './tagRepository';
+import {
+  SESSION_RANGE_CTE,
+  SESSION_IN_RANGE,
+  SESSION_STARTS_IN_RANGE,
+  CLIPPED_SESSION_MINUTES,
+  sessionRangeParams,
+} from '../sessionRange';
+import { REVISABLE_SESSION_FIELDS, deleteSessionRevisions, getSessionRevisionById, recordSessionRevision } from './sessionRevisionRepository';
+import { deleteSessionPauses, endPause, getSessionPauses, movePausesAfter, reopenPause, startPause } from './sessionPauseRepository';
+import { getPausedSeconds, getPeriodShares } from '../../utils/intervalUtils';
+import { getDeviceTimeZone, getUtcOffsetMinutes, toReportSession } from '../../utils/timeZoneUtils';
+import { nowISO, formatDate, getDayStart, getWeekStart, getMonthStart, calculateDurationSeconds, getNextDay, getNextWeek, getNextMonth, isSameDayCheck, getLogicalDate } from '../../utils/dateUtils';
 
 // Database row type (snake_case)
 interface SessionRow {
@@ -16,11 +44,16 @@ interface SessionRow {
   start_time: string;
   end_time: string | null;
   actual_duration_minutes: number | null;
+  actual_duration_seconds: number | null;
   expected_duration_minutes: number | null;
   is_planned: number;
   source: SessionSource;
   is_running: number;
   idle_prompt_enabled: number;
+  notes: string | null;
+  time_zone: string | null;
+  utc_offset_minutes: number | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -41,17 +74,63 @@ function rowToSession(row: SessionRow): TimeSession {
     routineId: row.routine_id ?? null,
     startTime: row.start_time,
     endTime: row.end_time,
-    actualDurationMinutes: row.actual_duration_minutes,
+    ...durationFromRow(row),
     expectedDurationMinutes: row.expected_duration_minutes,
     isPlanned: row.is_planned === 1,
     source: row.source,
     isRunning: row.is_running === 1,
     idlePromptEnabled: row.idle_prompt_enabled === 1,
+    notes: row.notes ?? null,
+    timeZone: row.time_zone ?? null,
+    utcOffsetMinutes: row.utc_offset_minutes ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+// ============================================
+// Durations
+// ============================================
+
+// Durations are stored in seconds; minutes are derived from them unrounded so
+// sums of many short sessions stay exact. The whole-minute column is kept in
+// step for rows written before seconds existed.
+function durationFromRow(
+  row: Pick<SessionRow, 'actual_duration_seconds' | 'actual_duration_minutes'>
+): Pick<TimeSession, 'actualDurationSeconds' | 'actualDurationMinutes'> {
+  const seconds =
+    row.actual_duration_seconds ??
+    (row.actual_duration_minutes !== null && row.actual_duration_minutes !== undefined
+      ? row.actual_duration_minutes * 60
+      : null);
+  return {
+    actualDurationSeconds: seconds,
+    actualDurationMinutes: seconds === null ? null : seconds / 60,
+  };
+}
+
+// Seconds to store for an input; undefined when the input leaves the duration alone
+function inputDurationSeconds(
+  input: Pick<CreateSessionInput, 'actualDurationSeconds' | 'actualDurationMinutes'>
+): number | null | undefined {
+  if (input.actualDurationSeconds !== undefined) {
+    return input.actualDurationSeconds === null ? null : Math.round(input.actualDurationSeconds);
+  }
+  if (input.actualDurationMinutes !== undefined) {
+    return input.actualDurationMinutes === null ? null : Math.round(input.actualDurationMinutes * 60);
+  }
+  return undefined;
+}
+
+const toWholeMinutes = (seconds: number | null): number | null =>
+  seconds === null ? null : Math.round(seconds / 60);
+
+// Blank notes are stored as NULL so "has notes" checks stay simple
+function normalizeNotes(notes: string | null | undefined): string | null {
+  const trimmed = notes?.trim();
+  return trimmed ? trimmed : null;
+}
+
 function rowToSessionWithDetails(row: SessionWithDetailsRow): SessionWithDetails {
   return {
     ...rowToSession(row),
@@ -60,13 +139,16 @@ function rowToSessionWithDetails(row: SessionWithDetailsRow): SessionWithDetails
   };
 }
 
+// Sessions in the trash keep their row until purged; every query below
+// excludes them unless it is about the trash itself
+
 // ============================================
 // CRUD Operations
 // ============================================
 
 export async function getSessionById(id: string): Promise<TimeSession | null> {
   const row = await executeQuerySingle<SessionRow>(
-    'SELECT * FROM time_sessions WHERE id = ?',
+    'SELECT * FROM time_sessions WHERE id = ? AND deleted_at IS NULL',
     [id]
   );
   return row ? rowToSession(row) : null;
@@ -75,10 +157,12 @@ export async function getSessionById(id: string): Promise<TimeSession | null> {
 export async function createSession(input: CreateSessionInput): Promise<TimeSession> {
   const id = uuidv4();
   const now = nowISO();
+  const timeZone = input.timeZone ?? getDeviceTimeZone();
+  const durationSeconds = inputDurationSeconds(input) ?? null;
   
   await executeSql(
-    `INSERT INTO time_sessions (id, activity_id, activity_name_snapshot, category_id, category_name_snapshot, routine_id, start_time, end_time, actual_duration_minutes, expected_duration_minutes, is_planned, source, is_running, idle_prompt_enabled, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO time_sessions (id, activity_id, activity_name_snapshot, category_id, category_name_snapshot, routine_id, start_time, end_time, actual_duration_minutes, actual_duration_seconds, expected_duration_minutes, is_planned, source, is_running, idle_prompt_enabled, notes, time_zone, utc_offset_minutes, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       id,
       input.activityId ?? null,
@@ -88,12 +172,16 @@ export async function createSession(input: CreateSessionInput): Promise<TimeSess
       input.routineId ?? null,
       input.startTime,
       input.endTime ?? null,
-      input.actualDurationMinutes ?? null,
+      toWholeMinutes(durationSeconds),
+      durationSeconds,
       input.expectedDurationMinutes ?? null,
       input.isPlanned !== false ? 1 : 0,
       input.source,
       input.isRunning === true ? 1 : 0,
       input.idlePromptEnabled !== false ? 1 : 0,
+      normalizeNotes(input.notes),
+      timeZone,
+      getUtcOffsetMinutes(input.startTime, timeZone),
       now,
       now,
     ]
@@ -108,7 +196,8 @@ export async function createSession(input: CreateSessionInput): Promise<TimeSess
 
 export async function updateSession(
   id: string,
-  updates: UpdateSessionInput
+  updates: UpdateSessionInput,
+  source: SessionRevisionSource = 'update'
 ): Promise<TimeSession | null> {
   const existing = await getSessionById(id);
   if (!existing) {
@@ -140,16 +229,21 @@ export async function updateSession(
     values.push(updates.routineId);
   }
   if (updates.startTime !== undefined) {
-    fields.push('start_time = ?');
-    values.push(updates.startTime);
+    // The zone stays; its offset can differ on the other side of a DST change
+    fields.push('start_time = ?', 'utc_offset_minutes = ?');
+    values.push(
+      updates.startTime,
+      getUtcOffsetMinutes(updates.startTime, existing.timeZone ?? getDeviceTimeZone())
+    );
   }
   if (updates.endTime !== undefined) {
     fields.push('end_time = ?');
     values.push(updates.endTime);
   }
-  if (updates.actualDurationMinutes !== undefined) {
-    fields.push('actual_duration_minutes = ?');
-    values.push(updates.actualDurationMinutes);
+  const durationSeconds = inputDurationSeconds(updates);
+  if (durationSeconds !== undefined) {
+    fields.push('actual_duration_minutes = ?', 'actual_duration_seconds = ?');
+    values.push(toWholeMinutes(durationSeconds), durationSeconds);
   }
   if (updates.expectedDurationMinutes !== undefined) {
     fields.push('expected_duration_minutes = ?');
@@ -163,18 +257,113 @@ export async function updateSession(
     fields.push('is_running = ?');
     values.push(updates.isRunning ? 1 : 0);
   }
+  if (updates.notes !== undefined) {
+    fields.push('notes = ?');
+    values.push(normalizeNotes(updates.notes));
+  }
   
   values.push(id);
   
   await executeSql(
-    `UPDATE time_sessions SET ${fields.join(', ')} WHERE id = ?`,
+    `UPDATE time_sessions SET ${fields.join(', ')} WHERE id = ? AND deleted_at IS NULL`,
     values
   );
   
-  return getSessionById(id);
+  const updated = await getSessionById(id);
+  await recordSessionRevision(id, source, existing, updated);
+  return updated;
+}
+
+/**
+ * Put a session back the way it was before the given revision. The revert is
+ * itself recorded, so it can be undone the same way.
+ */
+export async function revertSessionToRevision(revisionId: string): Promise<TimeSession | null> {
+  const revision = await getSessionRevisionById(revisionId);
+  if (!revision) {
+    throw new Error('Revision not found');
+  }
+  if (!revision.before) {
+    throw new Error('There is no earlier version to revert to');
+  }
+
+  return restoreSessionSnapshot(revision.sessionId, revision.before);
 }
 
+// Writes every revisable field of an earlier version back onto the session
+export async function restoreSessionSnapshot(
+  id: string,
+  snapshot: TimeSession
+): Promise<TimeSession | null> {
+  const updates: UpdateSessionInput = {};
+  for (const field of REVISABLE_SESSION_FIELDS) {
+    (updates as Record<string, unknown>)[field] = snapshot[field] ?? null;
+  }
+  return updateSession(id, updates, 'revert');
+}
+
+// Moves the session to the trash; purgeSession removes it for good
 export async function deleteSession(id: string): Promise<boolean> {
+  const existing = await getSessionById(id);
+  const now = nowISO();
+  const result = await executeSql(
+    'UPDATE time_sessions SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [now, now, id]
+  );
+  if (result.rowsAffected === 0) {
+    return false;
+  }
+  await recordSessionRevision(id, 'delete', existing, null);
+  return true;
+}
+
+// ============================================
+// Trash
+// ============================================
+
+export async function getDeletedSessions(): Promise<Trashed<SessionWithDetails>[]> {
+  const rows = await executeQuery<SessionWithDetailsRow>(
+    `SELECT s.*, c.color as category_color, c.icon as category_icon
+     FROM time_sessions s
+     LEFT JOIN categories c ON s.category_id = c.id
+     WHERE s.deleted_at IS NOT NULL
+     ORDER BY s.deleted_at DESC`
+  );
+  return rows.map(row => ({ ...rowToSessionWithDetails(row), deletedAt: row.deleted_at! }));
+}
+
+export async function restoreSession(id: string): Promise<boolean> {
+  const result = await executeSql(
+    'UPDATE time_sessions SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL',
+    [nowISO(), id]
+  );
+  if (result.rowsAffected === 0) {
+    return false;
+  }
+  await recordSessionRevision(id, 'restore', null, await getSessionById(id));
+  return true;
+}
+
+// Foreign keys are not enforced, so tag links and history are removed explicitly
+export async function purgeSession(id: string): Promise<boolean> {
+  await executeSql('DELETE FROM session_tags WHERE session_id = ?', [id]);
+  await deleteSessionRevisions(id);
+  await deleteSessionPauses(id);
+  const result = await executeSql(
+    'DELETE FROM time_sessions WHERE id = ? AND deleted_at IS NOT NULL',
+    [id]
+  );
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Remove a session for good without passing through the trash. Only meant
+ * for rows an undo takes back, such as the second half of a split.
+ */
+export async function discardSession(id: string): Promise<boolean> {
+  await executeSql('DELETE FROM session_tags WHERE session_id = ?', [id]);
+  await deleteSessionRevisions(id);
+  await deleteSessionPauses(id);
   const result = await executeSql('DELETE FROM time_sessions WHERE id = ?', [id]);
   return result.rowsAffected > 0;
 }
@@ -185,35 +374,65 @@ export async function deleteSession(id: string): Promise<boolean> {
 
 export async function getRunningSession(): Promise<TimeSession[]> {
   const rows = await executeQuery<SessionRow>(
-    'SELECT * FROM time_sessions WHERE is_running = 1 ORDER BY start_time DESC'
+    'SELECT * FROM time_sessions WHERE is_running = 1 AND deleted_at IS NULL ORDER BY start_time DESC'
   );
   return rows.map(rowToSession);
 }
 
+// Pausing keeps the session running; the paused time is left out of its duration
+export async function pauseSession(id: string): Promise<SessionPause | null> {
+  const session = await getSessionById(id);
+  if (!session || !session.isRunning) {
+    return null;
+  }
+  return startPause(id);
+}
+
+export async function resumePausedSession(id: string): Promise<SessionPause | null> {
+  return endPause(id);
+}
+
 export async function stopSession(id: string): Promise<TimeSession | null> {
+  return (await stopSessionWithSlices(id))?.stopped ?? null;
+}
+
+/**
+ * Stop a running session. A session that crossed the day start time is cut
+ * into one session per day; the extra day slices are returned alongside it.
+ */
+export async function stopSessionWithSlices(
+  id: string,
+  endTime: string = nowISO()
+): Promise<{ stopped: TimeSession | null; slices: TimeSession[] } | null> {
   const session = await getSessionById(id);
   if (!session || !session.isRunning) {
     return null;
   }
-  
-  const endTime = nowISO();
+
+  // A session stopped while paused ends its pause; paused time is not counted
+  await endPause(id, endTime);
+  const pauses = await getSessionPauses(id);
+  const activeSeconds = (start: string, end: string) =>
+    calculateDurationSeconds(start, end) - getPausedSeconds(pauses, start, end);
 
   // If the session stayed within a single day, keep the simple update path
   if (isSameDayCheck(session.startTime, endTime)) {
-    const durationMinutes = calculateDurationMinutes(session.startTime, endTime);
+    const durationSeconds = activeSeconds(session.startTime, endTime);
     
     await executeSql(
       `UPDATE time_sessions 
-       SET is_running = 0, end_time = ?, actual_duration_minutes = ?, updated_at = ?
+       SET is_running = 0, end_time = ?, actual_duration_minutes = ?, actual_duration_seconds = ?, updated_at = ?
        WHERE id = ?`,
-      [endTime, durationMinutes, nowISO(), id]
+      [endTime, toWholeMinutes(durationSeconds), durationSeconds, nowISO(), id]
     );
     
-    return getSessionById(id);
+    const stopped = await getSessionById(id);
+    await recordSessionRevision(id, 'stop', session, stopped);
+    return { stopped, slices: [] };
   }
 
-  // Split sessions that crossed midnight so each day gets its portion
-  const segments: { start: string; end: string; duration: number }[] = [];
+  // Split sessions that crossed into another day so each day gets its portion
+  const segments: { start: string; end: string; seconds: number }[] = [];
   let segmentStart = session.startTime;
 
   while (!isSameDayCheck(segmentStart, endTime)) {
@@ -221,7 +440,7 @@ export async function stopSession(id: string): Promise<TimeSession | null> {
     segments.push({
       start: segmentStart,
       end: nextDayStart,
-      duration: calculateDurationMinutes(segmentStart, nextDayStart),
+      seconds: activeSeconds(segmentStart, nextDayStart),
     });
     segmentStart = nextDayStart;
   }
@@ -229,36 +448,71 @@ export async function stopSession(id: string): Promise<TimeSession | null> {
   segments.push({
     start: segmentStart,
     end: endTime,
-    duration: calculateDurationMinutes(segmentStart, endTime),
+    seconds: activeSeconds(segmentStart, endTime),
   });
 
   // Update original session with the first segment
   await executeSql(
     `UPDATE time_sessions 
-     SET is_running = 0, end_time = ?, actual_duration_minutes = ?, updated_at = ?
+     SET is_running = 0, end_time = ?, actual_duration_minutes = ?, actual_duration_seconds = ?, updated_at = ?
      WHERE id = ?`,
-    [segments[0].end, segments[0].duration, nowISO(), id]
+    [segments[0].end, toWholeMinutes(segments[0].seconds), segments[0].seconds, nowISO(), id]
   );
 
   // Persist remaining day slices as separate sessions
+  const slices: TimeSession[] = [];
   for (let i = 1; i < segments.length; i++) {
-    await createSession({
+    const slice = await createSession({
       activityId: session.activityId,
       activityNameSnapshot: session.activityNameSnapshot,
       categoryId: session.categoryId,
       categoryNameSnapshot: session.categoryNameSnapshot,
       startTime: segments[i].start,
       endTime: segments[i].end,
-      actualDurationMinutes: segments[i].duration,
+      actualDurationSeconds: segments[i].seconds,
       expectedDurationMinutes: session.expectedDurationMinutes,
       isPlanned: session.isPlanned,
       source: session.source,
       isRunning: false,
       idlePromptEnabled: session.idlePromptEnabled,
+      notes: session.notes,
+      timeZone: session.timeZone,
     });
+    await copySessionTags(id, slice.id);
+    await recordSessionRevision(slice.id, 'stop', null, slice);
+    slices.push(slice);
   }
 
-  return getSessionById(id);
+  const stopped = await getSessionById(id);
+  await recordSessionRevision(id, 'stop', session, stopped);
+  return { stopped, slices };
+}
+
+/**
+ * Undo a stop: the session runs again from its original start and any day
+ * slices the stop created are removed. A timer that was paused when it was
+ * stopped comes back paused.
+ */
+export async function resumeStoppedSession(
+  id: string,
+  sliceIds: string[] = []
+): Promise<TimeSession | null> {
+  let stopTime = (await getSessionById(id))?.endTime ?? null;
+  for (const sliceId of sliceIds) {
+    const slice = await getSessionById(sliceId);
+    if (slice?.endTime && (!stopTime || slice.endTime > stopTime)) {
+      stopTime = slice.endTime;
+    }
+    await discardSession(sliceId);
+  }
+  if (stopTime) {
+    await reopenPause(id, stopTime);
+  }
+  return updateSession(
+    id,
+    { isRunning: true, endTime: null, actualDurationSeconds: null },
+    'revert'
+  );
 }
 
 export async function stopAllRunningSessions(): Promise<number> {
@@ -277,93 +531,415 @@ export async function stopAllRunningSessions(): Promise<number> {
 // Query by Date Range
 // ============================================
 
-export async function getSessionsForDay(date: Date | string): Promise<SessionWithDetails[]> {
-  const dayStart = getDayStart(date).toISOString();
-  const dayEnd = getDayEnd(date).toISOString();
-  
+// Sessions that start inside [start, end) on the reporting clock
+async function getSessionsStartingIn(start: Date, end: Date): Promise<SessionWithDetails[]> {
   const rows = await executeQuery<SessionWithDetailsRow>(
-    `SELECT s.*, c.color as category_color, c.icon as category_icon
-     FROM time_sessions s
+    `${SESSION_RANGE_CTE}
+     SELECT s.*, c.color as category_color, c.icon as category_icon
+     FROM range_bounds b
+     CROSS JOIN time_sessions s
      LEFT JOIN categories c ON s.category_id = c.id
-     WHERE s.start_time >= ? AND s.start_time <= ?
+     WHERE ${SESSION_STARTS_IN_RANGE} AND s.deleted_at IS NULL
      ORDER BY s.start_time ASC`,
-    [dayStart, dayEnd]
+    sessionRangeParams(start, end)
   );
   
   return rows.map(rowToSessionWithDetails);
 }
 
+export async function getSessionsForDay(date: Date | string): Promise<SessionWithDetails[]> {
+  const dayStart = getDayStart(date);
+  return getSessionsStartingIn(dayStart, getDayStart(getNextDay(dayStart)));
+}
+
 export async function getSessionsForWeek(date: Date | string): Promise<SessionWithDetails[]> {
-  const weekStart = getWeekStart(date).toISOString();
-  const weekEnd = getWeekEnd(date).toISOString();
+  const weekStart = getWeekStart(date);
+  return getSessionsStartingIn(weekStart, getWeekStart(getNextWeek(weekStart)));
+}
+
+export async function getSessionsForMonth(date: Date | string): Promise<SessionWithDetails[]> {
+  const monthStart = getMonthStart(date);
+  return getSessionsStartingIn(monthStart, getMonthStart(getNextMonth(monthStart)));
+}
+
+// Every session regardless of date, used for full backups. Sessions in the
+// trash are included so a restore brings the trash back as well
+export async function getAllSessions(): Promise<BackupSession[]> {
+  const rows = await executeQuery<SessionRow>('SELECT * FROM time_sessions ORDER BY start_time ASC');
+  return rows.map(row => ({ ...rowToSession(row), deletedAt: row.deleted_at ?? null }));
+}
+
+export async function getSessionsInRange(
+  startDate: Date | string,
+  endDate: Date | string
+): Promise<SessionWithDetails[]> {
+  const start = typeof startDate === 'string' ? startDate : startDate.toISOString();
+  const end = typeof endDate === 'string' ? endDate : endDate.toISOString();
   
   const rows = await executeQuery<SessionWithDetailsRow>(
     `SELECT s.*, c.color as category_color, c.icon as category_icon
      FROM time_sessions s
      LEFT JOIN categories c ON s.category_id = c.id
-     WHERE s.start_time >= ? AND s.start_time <= ?
+     WHERE s.start_time >= ? AND s.start_time <= ? AND s.deleted_at IS NULL
      ORDER BY s.start_time ASC`,
-    [weekStart, weekEnd]
+    [start, end]
   );
   
   return rows.map(rowToSessionWithDetails);
 }
 
-export async function getSessionsForMonth(date: Date | string): Promise<SessionWithDetails[]> {
-  const monthStart = getMonthStart(date).toISOString();
-  const monthEnd = getMonthEnd(date).toISOString();
-  
+// ============================================
+// Search
+// ============================================
+
+// Escape LIKE wildcards so a search for "50%" matches the literal text
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Sessions whose notes, activity name or category name contain the query,
+ * newest first. Matching is case-insensitive for ASCII letters.
+ */
+export async function searchSessions(query: string, limit = 50): Promise<SessionWithDetails[]> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const pattern = `%${escapeLike(trimmed)}%`;
+
   const rows = await executeQuery<SessionWithDetailsRow>(
     `SELECT s.*, c.color as category_color, c.icon as category_icon
      FROM time_sessions s
      LEFT JOIN categories c ON s.category_id = c.id
-     WHERE s.start_time >= ? AND s.start_time <= ?
-     ORDER BY s.start_time ASC`,
-    [monthStart, monthEnd]
+     WHERE (s.notes LIKE ? ESCAPE '\\'
+        OR s.activity_name_snapshot LIKE ? ESCAPE '\\'
+        OR s.category_name_snapshot LIKE ? ESCAPE '\\')
+       AND s.deleted_at IS NULL
+     ORDER BY s.start_time DESC
+     LIMIT ?`,
+    [pattern, pattern, pattern, limit]
   );
-  
+
   return rows.map(rowToSessionWithDetails);
 }
 
-export async function getSessionsInRange(
-  startDate: Date | string,
-  endDate: Date | string
-): Promise<SessionWithDetails[]> {
-  const start = typeof startDate === 'string' ? startDate : startDate.toISOString();
-  const end = typeof endDate === 'string' ? endDate : endDate.toISOString();
-  
+// ============================================
+// Composable Queries
+// ============================================
+
+export const DEFAULT_SESSION_PAGE_SIZE = 50;
+export const MAX_SESSION_PAGE_SIZE = 500;
+
+const SORT_EXPRESSIONS: Record<SessionSortField, string> = {
+  startTime: 's.start_time',
+  duration: 'COALESCE(s.actual_duration_seconds, 0)',
+  activityName: 's.activity_name_snapshot',
+};
+
+function sortValue(row: SessionRow, sortBy: SessionSortField): string | number {
+  switch (sortBy) {
+    case 'duration':
+      return row.actual_duration_seconds ?? 0;
+    case 'activityName':
+      return row.activity_name_snapshot;
+    default:
+      return row.start_time;
+  }
+}
+
+// Cursors are opaque to callers: the sort value and id of the last row
+function encodeCursor(row: SessionRow, sortBy: SessionSortField): string {
+  return JSON.stringify([sortValue(row, sortBy), row.id]);
+}
+
+function decodeCursor(cursor: string): [string | number, string] {
+  try {
+    const parsed = JSON.parse(cursor);
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (typeof parsed[0] === 'string' || typeof parsed[0] === 'number') &&
+      typeof parsed[1] === 'string'
+    ) {
+      return [parsed[0], parsed[1]];
+    }
+  } catch (error) {
+    console.error('Unreadable session cursor:', error);
+  }
+  throw new Error('Invalid session cursor');
+}
+
+const toISOString = (value: Date | string): string =>
+  typeof value === 'string' ? value : value.toISOString();
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+function buildSessionFilter(filter: SessionQueryFilter): { where: string; params: any[] } {
+  const conditions: string[] = ['s.deleted_at IS NULL'];
+  const params: any[] = [];
+
+  if (filter.from !== undefined) {
+    conditions.push('s.start_time >= ?');
+    params.push(toISOString(filter.from));
+  }
+  if (filter.to !== undefined) {
+    conditions.push('s.start_time < ?');
+    params.push(toISOString(filter.to));
+  }
+  if (filter.activityIds?.length) {
+    conditions.push(`s.activity_id IN (${placeholders(filter.activityIds)})`);
+    params.push(...filter.activityIds);
+  }
+  if (filter.categoryIds?.length) {
+    conditions.push(`s.category_id IN (${placeholders(filter.categoryIds)})`);
+    params.push(...filter.categoryIds);
+  }
+  if (filter.sources?.length) {
+    conditions.push(`s.source IN (${placeholders(filter.sources)})`);
+    params.push(...filter.sources);
+  }
+  if (filter.isPlanned !== undefined) {
+    conditions.push('s.is_planned = ?');
+    params.push(filter.isPlanned ? 1 : 0);
+  }
+  if (filter.isRunning !== undefined) {
+    conditions.push('s.is_running = ?');
+    params.push(filter.isRunning ? 1 : 0);
+  }
+  if (filter.routineId === null) {
+    conditions.push('s.routine_id IS NULL');
+  } else if (filter.routineId !== undefined) {
+    conditions.push('s.routine_id = ?');
+    params.push(filter.routineId);
+  }
+  if (filter.minDurationMinutes !== undefined) {
+    conditions.push('s.actual_duration_seconds >= ?');
+    params.push(filter.minDurationMinutes * 60);
+  }
+  if (filter.maxDurationMinutes !== undefined) {
+    conditions.push('s.actual_duration_seconds <= ?');
+    params.push(filter.maxDurationMinutes * 60);
+  }
+  const notes = filter.notesContain?.trim();
+  if (notes) {
+    conditions.push("s.notes LIKE ? ESCAPE '\\'");
+    params.push(`%${escapeLike(notes)}%`);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * One page of sessions matching the filter. Pages are cut with a cursor on
+ * the sort value and id, so sessions added while paging do not shift later
+ * pages the way an OFFSET would.
+ */
+export async function querySessions(
+  filter: SessionQueryFilter = {},
+  options: SessionQueryOptions = {}
+): Promise<SessionPage> {
+  const sortBy = options.sortBy ?? 'startTime';
+  const direction = options.sortDirection === 'asc' ? 'ASC' : 'DESC';
+  const limit = Math.min(
+    MAX_SESSION_PAGE_SIZE,
+    Math.max(1, Math.floor(options.limit ?? DEFAULT_SESSION_PAGE_SIZE))
+  );
+  const sortExpression = SORT_EXPRESSIONS[sortBy];
+  const { where, params } = buildSessionFilter(filter);
+
+  let cursorCondition = '';
+  if (options.cursor) {
+    const [value, id] = decodeCursor(options.cursor);
+    const comparison = direction === 'ASC' ? '>' : '<';
+    cursorCondition = ` AND (${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND s.id ${comparison} ?))`;
+    params.push(value, value, id);
+  }
+
+  // One extra row tells whether another page follows
   const rows = await executeQuery<SessionWithDetailsRow>(
     `SELECT s.*, c.color as category_color, c.icon as category_icon
      FROM time_sessions s
      LEFT JOIN categories c ON s.category_id = c.id
-     WHERE s.start_time >= ? AND s.start_time <= ?
-     ORDER BY s.start_time ASC`,
-    [start, end]
+     WHERE ${where}${cursorCondition}
+     ORDER BY ${sortExpression} ${direction}, s.id ${direction}
+     LIMIT ?`,
+    [...params, limit + 1]
   );
-  
-  return rows.map(rowToSessionWithDetails);
+
+  const pageRows = rows.slice(0, limit);
+  return {
+    sessions: pageRows.map(rowToSessionWithDetails),
+    nextCursor: rows.length > limit ? encodeCursor(pageRows[pageRows.length - 1], sortBy) : null,
+  };
+}
+
+// Key and label columns per grouping. Sessions of deleted activities have
+// no id and are grouped by name instead.
+const GROUP_COLUMNS: Record<
+  Exclude<SessionGroupBy, 'day'>,
+  { key: string; label: string; group?: string; order: string }
+> = {
+  activity: {
+    key: 'MAX(s.activity_id)',
+    label: 'MAX(s.activity_name_snapshot)',
+    group: 'COALESCE(s.activity_id, s.activity_name_snapshot)',
+    order: 'total_minutes DESC',
+  },
+  category: {
+    key: 's.category_id',
+    label: 'MAX(s.category_name_snapshot)',
+    order: 'total_minutes DESC',
+  },
+  source: {
+    key: 's.source',
+    label: 's.source',
+    order: 'total_minutes DESC',
+  },
+  planned: {
+    key: "CASE WHEN s.is_planned = 1 THEN 'planned' ELSE 'unplanned' END",
+    label: "CASE WHEN s.is_planned = 1 THEN 'Planned' ELSE 'Unplanned' END",
+    order: 'total_minutes DESC',
+  },
+};
+
+/**
+ * Minutes and session counts for the matching sessions, grouped by the given
+ * dimension. Running sessions are counted but add no minutes until stopped.
+ */
+export async function querySessionTotals(
+  filter: SessionQueryFilter,
+  groupBy: SessionGroupBy
+): Promise<SessionGroupTotal[]> {
+  const { where, params } = buildSessionFilter(filter);
+  if (groupBy === 'day') {
+    return queryDayTotals(where, params);
+  }
+  const columns = GROUP_COLUMNS[groupBy];
+
+  const rows = await executeQuery<{
+    group_key: string | null;
+    group_label: string | null;
+    total_minutes: number;
+    sessions_count: number;
+  }>(
+    `SELECT ${columns.key} as group_key, ${columns.label} as group_label,
+       COALESCE(SUM(s.actual_duration_seconds), 0) / 60.0 as total_minutes, COUNT(*) as sessions_count
+     FROM time_sessions s
+     WHERE ${where}
+     GROUP BY ${columns.group ?? 'group_key'}
+     ORDER BY ${columns.order}`,
+    params
+  );
+
+  return rows.map(row => ({
+    key: row.group_key,
+    label: row.group_label ?? '',
+    totalMinutes: row.total_minutes ?? 0,
+    sessionsCount: row.sessions_count,
+  }));
+}
+
+// With offsets from UTC-12 to UTC+14, the reporting clock is at most 26 hours off
+const REPORT_CLOCK_MARGIN_MS = 26 * 60 * 60 * 1000;
+
+/**
+ * Day totals like querySessionTotals(filter, 'day'), limited to the logical
+ * days from firstDay through lastDay on the reporting clock. Only sessions
+ * that can reach those days are read.
+ */
+export async function queryDayTotalsBetween(
+  filter: SessionQueryFilter,
+  firstDay: Date | string,
+  lastDay: Date | string
+): Promise<SessionGroupTotal[]> {
+  const from = getDayStart(firstDay);
+  const lastDayStart = getDayStart(lastDay);
+  const to = getDayStart(getNextDay(lastDayStart));
+  const { where, params } = buildSessionFilter(filter);
+
+  const totals = await queryDayTotals(
+    `${where} AND s.start_time < ? AND (s.end_time IS NULL OR s.end_time > ?)`,
+    [
+      ...params,
+      new Date(to.getTime() + REPORT_CLOCK_MARGIN_MS).toISOString(),
+      new Date(from.getTime() - REPORT_CLOCK_MARGIN_MS).toISOString(),
+    ]
+  );
+
+  const firstKey = formatDate(from);
+  const lastKey = formatDate(lastDayStart);
+  return totals.filter(total => total.key! >= firstKey && total.key! <= lastKey);
+}
+
+// Logical days on the reporting clock, oldest first. Worked out in JS so that
+// a session crossing the day start time is shared between the days it covers.
+async function queryDayTotals(where: string, params: any[]): Promise<SessionGroupTotal[]> {
+  const rows = await executeQuery<
+    Pick<SessionRow, 'start_time' | 'end_time' | 'actual_duration_minutes' | 'actual_duration_seconds' | 'utc_offset_minutes'>
+  >(
+    `SELECT s.start_time, s.end_time, s.actual_duration_minutes, s.actual_duration_seconds, s.utc_offset_minutes
+     FROM time_sessions s
+     WHERE ${where}`,
+    params
+  );
+
+  const totals = new Map<string, SessionGroupTotal>();
+  const addToDay = (day: string, minutes: number) => {
+    const total = totals.get(day) ?? { key: day, label: day, totalMinutes: 0, sessionsCount: 0 };
+    total.totalMinutes += minutes;
+    total.sessionsCount++;
+    totals.set(day, total);
+  };
+
+  for (const row of rows) {
+    const session = toReportSession({
+      startTime: row.start_time,
+      endTime: row.end_time,
+      actualDurationMinutes: durationFromRow(row).actualDurationMinutes,
+      utcOffsetMinutes: row.utc_offset_minutes ?? null,
+    });
+    const shares =
+      session.actualDurationMinutes === null
+        ? []
+        : getPeriodShares(session, 'day').filter(share => share.minutes > 0);
+    if (shares.length === 0) {
+      addToDay(formatDate(getLogicalDate(session.startTime)), 0);
+    }
+    for (const share of shares) {
+      addToDay(formatDate(share.periodStart), share.minutes);
+    }
+  }
+
+  // Whole seconds, so floating point noise from the shares does not show
+  return [...totals.values()]
+    .map(total => ({ ...total, totalMinutes: Math.round(total.totalMinutes * 60) / 60 }))
+    .sort((a, b) => a.key!.localeCompare(b.key!));
 }
 
 // ============================================
 // Aggregation Queries
 // ============================================
 
+// Sessions crossing the range boundaries only count with the part inside the
+// range (see sessionRange), so totals of adjacent periods add up
+
 export async function getTotalMinutesForDay(
   date: Date | string,
   activityId?: string
 ): Promise<number> {
-  const dayStart = getDayStart(date).toISOString();
-  const dayEnd = getDayEnd(date).toISOString();
+  const dayStart = getDayStart(date);
+  const nextDayStart = getDayStart(getNextDay(dayStart));
   
-  let query = `
-    SELECT COALESCE(SUM(actual_duration_minutes), 0) as total
-    FROM time_sessions
-    WHERE start_time >= ? AND start_time <= ? AND is_running = 0
+  let query = `${SESSION_RANGE_CTE}
+    SELECT ROUND(COALESCE(SUM(${CLIPPED_SESSION_MINUTES}), 0)) as total
+    FROM time_sessions s, range_bounds b
+    WHERE ${SESSION_IN_RANGE} AND s.is_running = 0 AND s.deleted_at IS NULL
   `;
-  const params: any[] = [dayStart, dayEnd];
+  const params: any[] = sessionRangeParams(dayStart, nextDayStart);
   
   if (activityId) {
-    query += ' AND activity_id = ?';
+    query += ' AND s.activity_id = ?';
     params.push(activityId);
   }
   
@@ -375,20 +951,18 @@ export async function getTotalMinutesByCategory(
   startDate: Date | string,
   endDate: Date | string
 ): Promise<{ categoryId: string; categoryName: string; totalMinutes: number }[]> {
-  const start = typeof startDate === 'string' ? startDate : startDate.toISOString();
-  const end = typeof endDate === 'string' ? endDate : endDate.toISOString();
-  
   const rows = await executeQuery<{
     category_id: string;
     category_name_snapshot: string;
     total_minutes: number;
   }>(
-    `SELECT category_id, category_name_snapshot, SUM(actual_duration_minutes) as total_minutes
-     FROM time_sessions
-     WHERE start_time >= ? AND start_time <= ? AND is_running = 0
-     GROUP BY category_id, category_name_snapshot
+    `${SESSION_RANGE_CTE}
+     SELECT s.category_id, s.category_name_snapshot, ROUND(SUM(${CLIPPED_SESSION_MINUTES})) as total_minutes
+     FROM time_sessions s, range_bounds b
+     WHERE ${SESSION_IN_RANGE} AND s.is_running = 0 AND s.deleted_at IS NULL
+     GROUP BY s.category_id, s.category_name_snapshot
      ORDER BY total_minutes DESC`,
-    [start, end]
+    sessionRangeParams(startDate, endDate)
   );
   
   return rows.map(row => ({
@@ -402,9 +976,6 @@ export async function getTotalMinutesByActivity(
   startDate: Date | string,
   endDate: Date | string
 ): Promise<{ activityId: string; activityName: string; totalMinutes: number; sessionsCount: number }[]> {
-  const start = typeof startDate === 'string' ? startDate : startDate.toISOString();
-  const end = typeof endDate === 'string' ? endDate : endDate.toISOString();
-  
   // Use activity_name_snapshot to include deleted activities in the stats
   // Group by both activity_id and activity_name_snapshot to handle cases where
   // activity_id might be null or when the same name is reused
@@ -414,12 +985,13 @@ export async function getTotalMinutesByActivity(
     total_minutes: number;
     sessions_count: number;
   }>(
-    `SELECT activity_id, activity_name_snapshot, SUM(actual_duration_minutes) as total_minutes, COUNT(*) as sessions_count
-     FROM time_sessions
-     WHERE start_time >= ? AND start_time <= ? AND is_running = 0 AND activity_name_snapshot IS NOT NULL
-     GROUP BY COALESCE(activity_id, activity_name_snapshot), activity_name_snapshot
+    `${SESSION_RANGE_CTE}
+     SELECT s.activity_id, s.activity_name_snapshot, ROUND(SUM(${CLIPPED_SESSION_MINUTES})) as total_minutes, COUNT(*) as sessions_count
+     FROM time_sessions s, range_bounds b
+     WHERE ${SESSION_IN_RANGE} AND s.is_running = 0 AND s.deleted_at IS NULL AND s.activity_name_snapshot IS NOT NULL
+     GROUP BY COALESCE(s.activity_id, s.activity_name_snapshot), s.activity_name_snapshot
      ORDER BY total_minutes DESC`,
-    [start, end]
+    sessionRangeParams(startDate, endDate)
   );
   
   return rows.map(row => ({
@@ -434,19 +1006,17 @@ export async function getPlannedVsUnplannedMinutes(
   startDate: Date | string,
   endDate: Date | string
 ): Promise<{ plannedMinutes: number; unplannedMinutes: number }> {
-  const start = typeof startDate === 'string' ? startDate : startDate.toISOString();
-  const end = typeof endDate === 'string' ? endDate : endDate.toISOString();
-  
   const result = await executeQuerySingle<{
     planned_minutes: number;
     unplanned_minutes: number;
   }>(
-    `SELECT 
-       COALESCE(SUM(CASE WHEN is_planned = 1 THEN actual_duration_minutes ELSE 0 END), 0) as planned_minutes,
-       COALESCE(SUM(CASE WHEN is_planned = 0 THEN actual_duration_minutes ELSE 0 END), 0) as unplanned_minutes
-     FROM time_sessions
-     WHERE start_time >= ? AND start_time <= ? AND is_running = 0`,
-    [start, end]
+    `${SESSION_RANGE_CTE}
+     SELECT 
+       ROUND(COALESCE(SUM(CASE WHEN s.is_planned = 1 THEN ${CLIPPED_SESSION_MINUTES} ELSE 0 END), 0)) as planned_minutes,
+       ROUND(COALESCE(SUM(CASE WHEN s.is_planned = 0 THEN ${CLIPPED_SESSION_MINUTES} ELSE 0 END), 0)) as unplanned_minutes
+     FROM time_sessions s, range_bounds b
+     WHERE ${SESSION_IN_RANGE} AND s.is_running = 0 AND s.deleted_at IS NULL`,
+    sessionRangeParams(startDate, endDate)
   );
   
   return {
@@ -467,49 +1037,62 @@ export async function splitSession(
   secondCategoryId: string | null,
   secondCategoryName: string
 ): Promise<{ first: TimeSession; second: TimeSession }> {
-  const original = await getSessionById(sessionId);
-  if (!original) {
-    throw new Error('Session not found');
-  }
-  
-  const splitTimeStr = typeof splitTime === 'string' ? splitTime : splitTime.toISOString();
-  const now = nowISO();
-  
-  // Calculate durations
-  const firstDuration = calculateDurationMinutes(original.startTime, splitTimeStr);
-  const secondDuration = original.endTime 
-    ? calculateDurationMinutes(splitTimeStr, original.endTime) 
-    : null;
-  
-  // Update original session
-  await executeSql(
-    `UPDATE time_sessions 
-     SET end_time = ?, actual_duration_minutes = ?, updated_at = ?
-     WHERE id = ?`,
-    [splitTimeStr, firstDuration, now, sessionId]
-  );
-  
-  // Create second session
-  const secondSession = await createSession({
-    activityId: secondActivityId,
-    activityNameSnapshot: secondActivityName,
-    categoryId: secondCategoryId,
-    categoryNameSnapshot: secondCategoryName,
-    startTime: splitTimeStr,
-    endTime: original.endTime,
-    actualDurationMinutes: secondDuration,
-    expectedDurationMinutes: null,
-    isPlanned: original.isPlanned,
-    source: 'manual',
-    isRunning: false,
+  // Both halves are written together, or not at all
+  return executeTransaction(async () => {
+    const original = await getSessionById(sessionId);
+    if (!original) {
+      throw new Error('Session not found');
+    }
+    
+    const splitTimeStr = typeof splitTime === 'string' ? splitTime : splitTime.toISOString();
+    const now = nowISO();
+    
+    // Paused time is left out of each half, as when the session was stopped
+    const pauses = await getSessionPauses(sessionId);
+    const activeSeconds = (start: string, end: string) =>
+      calculateDurationSeconds(start, end) - getPausedSeconds(pauses, start, end);
+    const firstDuration = activeSeconds(original.startTime, splitTimeStr);
+    const secondDuration = original.endTime 
+      ? activeSeconds(splitTimeStr, original.endTime) 
+      : null;
+    
+    // Update original session
+    await executeSql(
+      `UPDATE time_sessions 
+       SET end_time = ?, actual_duration_minutes = ?, actual_duration_seconds = ?, updated_at = ?
+       WHERE id = ?`,
+      [splitTimeStr, toWholeMinutes(firstDuration), firstDuration, now, sessionId]
+    );
+    
+    // Create second session
+    const secondSession = await createSession({
+      activityId: secondActivityId,
+      activityNameSnapshot: secondActivityName,
+      categoryId: secondCategoryId,
+      categoryNameSnapshot: secondCategoryName,
+      startTime: splitTimeStr,
+      endTime: original.endTime,
+      actualDurationSeconds: secondDuration,
+      expectedDurationMinutes: null,
+      isPlanned: original.isPlanned,
+      source: 'manual',
+      isRunning: false,
+      notes: original.notes,
+      timeZone: original.timeZone,
+    });
+    await copySessionTags(sessionId, secondSession.id);
+    await movePausesAfter(sessionId, secondSession.id, splitTimeStr);
+    
+    const first = await getSessionById(sessionId);
+    if (!first) {
+      throw new Error('Failed to get updated first session');
+    }
+
+    await recordSessionRevision(sessionId, 'split', original, first);
+    await recordSessionRevision(secondSession.id, 'split', null, secondSession);
+    
+    return { first, second: secondSession };
   });
-  
-  const first = await getSessionById(sessionId);
-  if (!first) {
-    throw new Error('Failed to get updated first session');
-  }
-  
-  return { first, second: secondSession };
 }
 
 // ============================================
@@ -521,6 +1104,7 @@ export async function getRecentSessions(limit = 20): Promise<SessionWithDetails[
     `SELECT s.*, c.color as category_color, c.icon as category_icon
      FROM time_sessions s
      LEFT JOIN categories c ON s.category_id = c.id
+     WHERE s.deleted_at IS NULL
      ORDER BY s.start_time DESC
      LIMIT ?`,
     [limit]
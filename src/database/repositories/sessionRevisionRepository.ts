@@ -0,0 +1,138 @@
+// Session Revision Repository - Append-only edit history for time sessions
+
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeQuerySingle, executeSql } from '../database';
+import { SessionRevision, SessionRevisionSource, TimeSession } from '../../types';
+import { nowISO } from '../../utils/dateUtils';
+
+// Database row type (snake_case)
+interface SessionRevisionRow {
+  id: string;
+  session_id: string;
+  source: SessionRevisionSource;
+  before_json: string | null;
+  after_json: string | null;
+  created_at: string;
+}
+
+// Fields a user can change and a revert puts back. Timer state and
+// bookkeeping columns are left out on purpose.
+export const REVISABLE_SESSION_FIELDS = [
+  'activityId',
+  'activityNameSnapshot',
+  'categoryId',
+  'categoryNameSnapshot',
+  'routineId',
+  'startTime',
+  'endTime',
+  'actualDurationMinutes',
+  'expectedDurationMinutes',
+  'isPlanned',
+  'notes',
+] as const;
+
+export type RevisableSessionField = (typeof REVISABLE_SESSION_FIELDS)[number];
+
+function parseSnapshot(json: string | null): TimeSession | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as TimeSession;
+  } catch (error) {
+    console.error('Unreadable session revision snapshot:', error);
+    return null;
+  }
+}
+
+function rowToRevision(row: SessionRevisionRow): SessionRevision {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    source: row.source,
+    before: parseSnapshot(row.before_json),
+    after: parseSnapshot(row.after_json),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Revisable fields that differ between two versions of a session. A missing
+ * version (creation or deletion) differs in every field.
+ */
+export function getChangedSessionFields(
+  before: TimeSession | null,
+  after: TimeSession | null
+): RevisableSessionField[] {
+  if (!before || !after) {
+    return before === after ? [] : [...REVISABLE_SESSION_FIELDS];
+  }
+  return REVISABLE_SESSION_FIELDS.filter(
+    field => (before[field] ?? null) !== (after[field] ?? null)
+  );
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Append a revision. Updates that leave every revisable field untouched are
+ * not recorded, so saving an unchanged form does not clutter the history.
+ */
+export async function recordSessionRevision(
+  sessionId: string,
+  source: SessionRevisionSource,
+  before: TimeSession | null,
+  after: TimeSession | null
+): Promise<void> {
+  if (getChangedSessionFields(before, after).length === 0) {
+    return;
+  }
+  await executeSql(
+    `INSERT INTO session_revisions (id, session_id, source, before_json, after_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      uuidv4(),
+      sessionId,
+      source,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      nowISO(),
+    ]
+  );
+}
+
+// ============================================
+// Queries
+// ============================================
+
+// Every revision in the order it was recorded, used for full backups
+export async function getAllSessionRevisions(): Promise<SessionRevision[]> {
+  const rows = await executeQuery<SessionRevisionRow>(
+    'SELECT * FROM session_revisions ORDER BY created_at ASC, rowid ASC'
+  );
+  return rows.map(rowToRevision);
+}
+
+// Newest first
+export async function getSessionRevisions(sessionId: string): Promise<SessionRevision[]> {
+  const rows = await executeQuery<SessionRevisionRow>(
+    'SELECT * FROM session_revisions WHERE session_id = ? ORDER BY created_at DESC, rowid DESC',
+    [sessionId]
+  );
+  return rows.map(rowToRevision);
+}
+
+export async function getSessionRevisionById(id: string): Promise<SessionRevision | null> {
+  const row = await executeQuerySingle<SessionRevisionRow>(
+    'SELECT * FROM session_revisions WHERE id = ?',
+    [id]
+  );
+  return row ? rowToRevision(row) : null;
+}
+
+// Only used when a session is purged from the trash
+export async function deleteSessionRevisions(sessionId: string): Promise<void> {
+  await executeSql('DELETE FROM session_revisions WHERE session_id = ?', [sessionId]);
+}
@@ -0,0 +1,295 @@
+// Tag Repository - Database Operations for Tags and their Session/Activity Links
+
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeQuerySingle, executeSql } from '../database';
+import {
+  SESSION_RANGE_CTE,
+  SESSION_IN_RANGE,
+  CLIPPED_SESSION_MINUTES,
+  sessionRangeParams,
+} from '../sessionRange';
+import { ActivityTag, CreateTagInput, SessionTag, Tag, TagTimeBreakdown } from '../../types';
+import { nowISO } from '../../utils/dateUtils';
+
+export const DEFAULT_TAG_COLOR = '#6366F1';
+
+// Database row types (snake_case)
+interface TagRow {
+  id: string;
+  name: string;
+  color: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SessionTagRow {
+  id: string;
+  session_id: string;
+  tag_id: string;
+  created_at: string;
+}
+
+interface ActivityTagRow {
+  id: string;
+  activity_id: string;
+  tag_id: string;
+  created_at: string;
+}
+
+function rowToTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+export async function getAllTags(): Promise<Tag[]> {
+  const rows = await executeQuery<TagRow>('SELECT * FROM tags ORDER BY name COLLATE NOCASE ASC');
+  return rows.map(rowToTag);
+}
+
+export async function getTagById(id: string): Promise<Tag | null> {
+  const row = await executeQuerySingle<TagRow>('SELECT * FROM tags WHERE id = ?', [id]);
+  return row ? rowToTag(row) : null;
+}
+
+export async function getTagByName(name: string): Promise<Tag | null> {
+  const row = await executeQuerySingle<TagRow>(
+    'SELECT * FROM tags WHERE LOWER(name) = LOWER(?)',
+    [name.trim()]
+  );
+  return row ? rowToTag(row) : null;
+}
+
+// Tag names are unique regardless of case, so creating an existing name
+// returns the existing tag
+export async function createTag(input: CreateTagInput): Promise<Tag> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Tag name is required');
+  }
+
+  const existing = await getTagByName(name);
+  if (existing) {
+    return existing;
+  }
+
+  const id = uuidv4();
+  const now = nowISO();
+  await executeSql(
+    `INSERT INTO tags (id, name, color, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
+    [id, name, input.color ?? DEFAULT_TAG_COLOR, now, now]
+  );
+
+  const tag = await getTagById(id);
+  if (!tag) {
+    throw new Error('Failed to create tag');
+  }
+  return tag;
+}
+
+export async function updateTag(
+  id: string,
+  updates: Partial<CreateTagInput>
+): Promise<Tag | null> {
+  const existing = await getTagById(id);
+  if (!existing) {
+    return null;
+  }
+
+  const fields: string[] = ['updated_at = ?'];
+  const values: any[] = [nowISO()];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name.trim());
+  }
+  if (updates.color !== undefined) {
+    fields.push('color = ?');
+    values.push(updates.color);
+  }
+
+  values.push(id);
+  await executeSql(`UPDATE tags SET ${fields.join(', ')} WHERE id = ?`, values);
+
+  return getTagById(id);
+}
+
+// Foreign keys are not enforced, so links are removed explicitly
+export async function deleteTag(id: string): Promise<boolean> {
+  await executeSql('DELETE FROM session_tags WHERE tag_id = ?', [id]);
+  await executeSql('DELETE FROM activity_tags WHERE tag_id = ?', [id]);
+  const result = await executeSql('DELETE FROM tags WHERE id = ?', [id]);
+  return result.rowsAffected > 0;
+}
+
+// ============================================
+// Session Tags
+// ============================================
+
+export async function getTagsForSession(sessionId: string): Promise<Tag[]> {
+  const rows = await executeQuery<TagRow>(
+    `SELECT t.* FROM tags t
+     INNER JOIN session_tags st ON st.tag_id = t.id
+     WHERE st.session_id = ?
+     ORDER BY t.name COLLATE NOCASE ASC`,
+    [sessionId]
+  );
+  return rows.map(rowToTag);
+}
+
+// Tags for many sessions at once, keyed by session id
+export async function getTagsForSessions(sessionIds: string[]): Promise<Map<string, Tag[]>> {
+  const tagsBySession = new Map<string, Tag[]>();
+  if (sessionIds.length === 0) {
+    return tagsBySession;
+  }
+
+  const placeholders = sessionIds.map(() => '?').join(', ');
+  const rows = await executeQuery<TagRow & { session_id: string }>(
+    `SELECT t.*, st.session_id FROM tags t
+     INNER JOIN session_tags st ON st.tag_id = t.id
+     WHERE st.session_id IN (${placeholders})
+     ORDER BY t.name COLLATE NOCASE ASC`,
+    sessionIds
+  );
+  for (const row of rows) {
+    const tags = tagsBySession.get(row.session_id) ?? [];
+    tags.push(rowToTag(row));
+    tagsBySession.set(row.session_id, tags);
+  }
+  return tagsBySession;
+}
+
+async function addSessionTags(sessionId: string, tagIds: string[]): Promise<void> {
+  const now = nowISO();
+  for (const tagId of tagIds) {
+    await executeSql(
+      'INSERT OR IGNORE INTO session_tags (id, session_id, tag_id, created_at) VALUES (?, ?, ?, ?)',
+      [uuidv4(), sessionId, tagId, now]
+    );
+  }
+}
+
+export async function setSessionTags(sessionId: string, tagIds: string[]): Promise<void> {
+  await executeSql('DELETE FROM session_tags WHERE session_id = ?', [sessionId]);
+  await addSessionTags(sessionId, [...new Set(tagIds)]);
+}
+
+/**
+ * Give a session its activity's default tags. Existing session tags are
+ * kept, so this can also run on sessions that were tagged by hand.
+ */
+export async function applyActivityTagsToSession(
+  activityId: string,
+  sessionId: string
+): Promise<void> {
+  const rows = await executeQuery<{ tag_id: string }>(
+    'SELECT tag_id FROM activity_tags WHERE activity_id = ?',
+    [activityId]
+  );
+  await addSessionTags(sessionId, rows.map(row => row.tag_id));
+}
+
+// Used when one session is cut into several, e.g. at midnight
+export async function copySessionTags(fromSessionId: string, toSessionId: string): Promise<void> {
+  const rows = await executeQuery<{ tag_id: string }>(
+    'SELECT tag_id FROM session_tags WHERE session_id = ?',
+    [fromSessionId]
+  );
+  await addSessionTags(toSessionId, rows.map(row => row.tag_id));
+}
+
+// ============================================
+// Activity Tags
+// ============================================
+
+export async function getTagsForActivity(activityId: string): Promise<Tag[]> {
+  const rows = await executeQuery<TagRow>(
+    `SELECT t.* FROM tags t
+     INNER JOIN activity_tags link ON link.tag_id = t.id
+     WHERE link.activity_id = ?
+     ORDER BY t.name COLLATE NOCASE ASC`,
+    [activityId]
+  );
+  return rows.map(rowToTag);
+}
+
+export async function setActivityTags(activityId: string, tagIds: string[]): Promise<void> {
+  await executeSql('DELETE FROM activity_tags WHERE activity_id = ?', [activityId]);
+  const now = nowISO();
+  for (const tagId of new Set(tagIds)) {
+    await executeSql(
+      'INSERT INTO activity_tags (id, activity_id, tag_id, created_at) VALUES (?, ?, ?, ?)',
+      [uuidv4(), activityId, tagId, now]
+    );
+  }
+}
+
+// ============================================
+// Aggregation Queries
+// ============================================
+
+export async function getTotalMinutesByTag(
+  startDate: Date | string,
+  endDate: Date | string
+): Promise<TagTimeBreakdown[]> {
+  const rows = await executeQuery<{
+    tag_id: string;
+    tag_name: string;
+    tag_color: string;
+    total_minutes: number;
+    sessions_count: number;
+  }>(
+    `${SESSION_RANGE_CTE}
+     SELECT t.id as tag_id, t.name as tag_name, t.color as tag_color,
+            ROUND(SUM(${CLIPPED_SESSION_MINUTES})) as total_minutes, COUNT(*) as sessions_count
+     FROM session_tags st
+     INNER JOIN tags t ON t.id = st.tag_id
+     INNER JOIN time_sessions s ON s.id = st.session_id
+     CROSS JOIN range_bounds b
+     WHERE ${SESSION_IN_RANGE} AND s.is_running = 0 AND s.deleted_at IS NULL
+     GROUP BY t.id, t.name, t.color
+     ORDER BY total_minutes DESC`,
+    sessionRangeParams(startDate, endDate)
+  );
+
+  return rows.map(row => ({
+    tagId: row.tag_id,
+    tagName: row.tag_name,
+    tagColor: row.tag_color,
+    totalMinutes: row.total_minutes ?? 0,
+    sessionsCount: row.sessions_count,
+  }));
+}
+
+// ============================================
+// Backups
+// ============================================
+
+export async function getAllSessionTags(): Promise<SessionTag[]> {
+  const rows = await executeQuery<SessionTagRow>('SELECT * FROM session_tags');
+  return rows.map(row => ({
+    id: row.id,
+    sessionId: row.session_id,
+    tagId: row.tag_id,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function getAllActivityTags(): Promise<ActivityTag[]> {
+  const rows = await executeQuery<ActivityTagRow>('SELECT * FROM activity_tags');
+  return rows.map(row => ({
+    id: row.id,
+    activityId: row.activity_id,
+    tagId: row.tag_id,
+    createdAt: row.created_at,
+  }));
+}
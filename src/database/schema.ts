@@ -1,7 +1,8 @@
 // SQLite Database Schema Definitions
 
 export const DATABASE_NAME = 'timebudget.db';
-export const DATABASE_VERSION = 1;
+// Must match the version of the last entry in MIGRATIONS (migrations.ts)
+export const DATABASE_VERSION = 11;
 
 // ============================================
 // Table Creation SQL
@@ -30,9 +31,11 @@ export const CREATE_ACTIVITIES_TABLE = `
     is_favorite INTEGER DEFAULT 0,
     display_order INTEGER DEFAULT 0,
     idle_prompt_enabled INTEGER DEFAULT 1,
+    is_background INTEGER DEFAULT 0,
     is_archived INTEGER DEFAULT 0,
     usage_count INTEGER DEFAULT 0,
     last_used_at TEXT,
+    deleted_at TEXT,
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
     updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
@@ -50,11 +53,16 @@ export const CREATE_TIME_SESSIONS_TABLE = `
     start_time TEXT NOT NULL,
     end_time TEXT,
     actual_duration_minutes INTEGER,
+    actual_duration_seconds INTEGER,
     expected_duration_minutes INTEGER,
     is_planned INTEGER DEFAULT 1,
-    source TEXT CHECK(source IN ('timer', 'manual', 'routine', 'assistant')) DEFAULT 'timer',
+    source TEXT CHECK(source IN ('timer', 'manual', 'routine', 'assistant', 'import')) DEFAULT 'timer',
     is_running INTEGER DEFAULT 0,
     idle_prompt_enabled INTEGER DEFAULT 1,
+    notes TEXT,
+    time_zone TEXT,
+    utc_offset_minutes INTEGER,
+    deleted_at TEXT,
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
     updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (activity_id) REFERENCES activities(id) ON DELETE SET NULL,
@@ -84,6 +92,7 @@ export const CREATE_ROUTINES_TABLE = `
     start_time TEXT,
     day_filter TEXT CHECK(day_filter IN ('all', 'weekdays', 'weekend')) DEFAULT 'all',
     is_active INTEGER DEFAULT 1,
+    deleted_at TEXT,
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
     updated_at TEXT DEFAULT CURRENT_TIMESTAMP
   );
@@ -103,6 +112,63 @@ export const CREATE_ROUTINE_ITEMS_TABLE = `
   );
 `;
 
+export const CREATE_TAGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    color TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+export const CREATE_SESSION_TAGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS session_tags (
+    id TEXT PRIMARY KEY NOT NULL,
+    session_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (session_id, tag_id),
+    FOREIGN KEY (session_id) REFERENCES time_sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_ACTIVITY_TAGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS activity_tags (
+    id TEXT PRIMARY KEY NOT NULL,
+    activity_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (activity_id, tag_id),
+    FOREIGN KEY (activity_id) REFERENCES activities(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_SESSION_REVISIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS session_revisions (
+    id TEXT PRIMARY KEY NOT NULL,
+    session_id TEXT NOT NULL,
+    source TEXT CHECK(source IN ('update', 'split', 'stop', 'delete', 'restore', 'revert')) NOT NULL,
+    before_json TEXT,
+    after_json TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (session_id) REFERENCES time_sessions(id) ON DELETE CASCADE
+  );
+`;
+
+export const CREATE_SESSION_PAUSES_TABLE = `
+  CREATE TABLE IF NOT EXISTS session_pauses (
+    id TEXT PRIMARY KEY NOT NULL,
+    session_id TEXT NOT NULL,
+    paused_at TEXT NOT NULL,
+    resumed_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (session_id) REFERENCES time_sessions(id) ON DELETE CASCADE
+  );
+`;
+
 export const CREATE_SETTINGS_TABLE = `
   CREATE TABLE IF NOT EXISTS settings (
     key TEXT PRIMARY KEY NOT NULL,
@@ -123,9 +189,14 @@ export const CREATE_INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_sessions_category ON time_sessions(category_id);',
   'CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON time_sessions(start_time);',
   'CREATE INDEX IF NOT EXISTS idx_sessions_running ON time_sessions(is_running);',
+  'CREATE INDEX IF NOT EXISTS idx_sessions_deleted ON time_sessions(deleted_at);',
   'CREATE INDEX IF NOT EXISTS idx_goals_activity ON goals(activity_id);',
   'CREATE INDEX IF NOT EXISTS idx_goals_scope ON goals(scope);',
   'CREATE INDEX IF NOT EXISTS idx_routine_items_routine ON routine_items(routine_id);',
+  'CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag_id);',
+  'CREATE INDEX IF NOT EXISTS idx_activity_tags_tag ON activity_tags(tag_id);',
+  'CREATE INDEX IF NOT EXISTS idx_session_revisions_session ON session_revisions(session_id, created_at);',
+  'CREATE INDEX IF NOT EXISTS idx_session_pauses_session ON session_pauses(session_id, paused_at);',
 ];
 
 // ============================================
@@ -139,6 +210,11 @@ export const ALL_CREATE_STATEMENTS = [
   CREATE_GOALS_TABLE,
   CREATE_ROUTINES_TABLE,
   CREATE_ROUTINE_ITEMS_TABLE,
+  CREATE_TAGS_TABLE,
+  CREATE_SESSION_TAGS_TABLE,
+  CREATE_ACTIVITY_TAGS_TABLE,
+  CREATE_SESSION_REVISIONS_TABLE,
+  CREATE_SESSION_PAUSES_TABLE,
   CREATE_SETTINGS_TABLE,
   ...CREATE_INDEXES,
 ];
@@ -148,6 +224,11 @@ export const ALL_CREATE_STATEMENTS = [
 // ============================================
 
 export const DROP_ALL_TABLES = [
+  'DROP TABLE IF EXISTS session_pauses;',
+  'DROP TABLE IF EXISTS session_revisions;',
+  'DROP TABLE IF EXISTS activity_tags;',
+  'DROP TABLE IF EXISTS session_tags;',
+  'DROP TABLE IF EXISTS tags;',
   'DROP TABLE IF EXISTS routine_items;',
   'DROP TABLE IF EXISTS routines;',
   'DROP TABLE IF EXISTS goals;',
@@ -0,0 +1,66 @@
+// Session Range SQL - Clips session time to a reporting range inside queries
+//
+// The SQL counterpart of getClippedMinutes in utils/intervalUtils: sessions
+// that cross the range boundaries count with the share of their duration that
+// lies inside the range. Timestamps are ISO strings in UTC, so they compare
+// correctly as text.
+//
+// In the local time zone view (see utils/timeZoneUtils) both sides are
+// compared as wall-clock times instead: session times are shifted by the
+// offset they were captured with, and the bounds are wall-clock times written
+// the same way.
+//
+// Those shifted times can't use idx_sessions_start_time, so the filters also
+// compare the raw start_time against scan bounds: the range widened by the
+// largest UTC offset, which still holds every session the shifted comparison
+// can match.
+
+import { getTimeZoneView, toReportBound } from '../utils/timeZoneUtils';
+
+// Prefix a query with this and join `range_bounds b`; bind sessionRangeParams first.
+// A CROSS JOIN fixes the loop order, so list range_bounds before time_sessions there.
+export const SESSION_RANGE_CTE =
+  'WITH range_bounds AS (SELECT ? AS range_start, ? AS range_end, ? AS local_view, ? AS scan_start, ? AS scan_end)';
+
+// UTC offsets run from -12:00 to +14:00
+const SCAN_MARGIN_MS = 14 * 60 * 60 * 1000;
+
+// Sessions without a recorded offset fall back to the device zone
+const reportTime = (column: string) => `(CASE
+    WHEN b.local_view = 1 THEN strftime('%Y-%m-%dT%H:%M:%fZ', ${column},
+      CASE WHEN s.utc_offset_minutes IS NULL THEN 'localtime' ELSE printf('%+d minutes', s.utc_offset_minutes) END)
+    ELSE ${column}
+  END)`;
+
+const REPORT_START = reportTime('s.start_time');
+const REPORT_END = reportTime('s.end_time');
+
+// Sessions with any time inside the range, or without length and starting in it.
+// Only the upper scan bound applies: a long session may start well before the range.
+export const SESSION_IN_RANGE = `s.start_time < b.scan_end
+  AND ${REPORT_START} < b.range_end
+  AND (COALESCE(${REPORT_END}, ${REPORT_START}) > b.range_start OR ${REPORT_START} >= b.range_start)`;
+
+// Sessions that start inside the range
+export const SESSION_STARTS_IN_RANGE = `s.start_time >= b.scan_start AND s.start_time < b.scan_end
+  AND ${REPORT_START} >= b.range_start AND ${REPORT_START} < b.range_end`;
+
+export const CLIPPED_SESSION_MINUTES = `CASE
+    WHEN s.end_time > s.start_time THEN s.actual_duration_seconds / 60.0
+      * (julianday(MIN(${REPORT_END}, b.range_end)) - julianday(MAX(${REPORT_START}, b.range_start)))
+      / (julianday(s.end_time) - julianday(s.start_time))
+    ELSE s.actual_duration_seconds / 60.0
+  END`;
+
+// Bounds are built on the device clock by dateUtils
+export function sessionRangeParams(startDate: Date | string, endDate: Date | string): (string | number)[] {
+  const rangeStart = toReportBound(startDate);
+  const rangeEnd = toReportBound(endDate);
+  return [
+    rangeStart,
+    rangeEnd,
+    getTimeZoneView() === 'local' ? 1 : 0,
+    new Date(Date.parse(rangeStart) - SCAN_MARGIN_MS).toISOString(),
+    new Date(Date.parse(rangeEnd) + SCAN_MARGIN_MS).toISOString(),
+  ];
+}
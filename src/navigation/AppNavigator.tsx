@@ -24,7 +24,12 @@ import CreateGoalScreen from '../screens/Goals/CreateGoalScreen';
 import EditGoalScreen from '../screens/Goals/EditGoalScreen';
 import SettingsScreen from '../screens/Settings/SettingsScreen';
 import BackupScreen from '../screens/Backup/BackupScreen';
+import ExportScreen from '../screens/Export/ExportScreen';
+import ImportScreen from '../screens/Import/ImportScreen';
+import TrashScreen from '../screens/Trash/TrashScreen';
 import ReviewScreenStack from '../screens/Review/ReviewScreen';
+import SessionHistoryScreen from '../screens/Review/SessionHistoryScreen';
+import HistoryScreen from '../screens/History/HistoryScreen';
 import RoutinesScreen from '../screens/Routines/RoutinesScreen';
 import CreateRoutineScreen from '../screens/Routines/CreateRoutineScreen';
 import RoutineDetailScreen from '../screens/Routines/RoutineDetailScreen';
@@ -211,11 +216,36 @@ export default function AppNavigator() {
           component={BackupScreen}
           options={{ title: 'Backup & Restore' }}
         />
+        <Stack.Screen 
+          name="Export" 
+          component={ExportScreen}
+          options={{ title: 'Export Sessions' }}
+        />
+        <Stack.Screen 
+          name="Import" 
+          component={ImportScreen}
+          options={{ title: 'Import Time Entries' }}
+        />
+        <Stack.Screen 
+          name="Trash" 
+          component={TrashScreen}
+          options={{ title: 'Trash' }}
+        />
         <Stack.Screen 
           name="Review" 
           component={ReviewScreenStack}
           options={{ title: 'Review Day' }}
         />
+        <Stack.Screen 
+          name="SessionHistory" 
+          component={SessionHistoryScreen}
+          options={{ title: 'Session History' }}
+        />
+        <Stack.Screen 
+          name="History" 
+          component={HistoryScreen}
+          options={{ title: 'History' }}
+        />
         <Stack.Screen 
           name="Routines" 
           component={RoutinesScreen}
@@ -26,6 +26,7 @@ export default function ActivityDetailScreen() {
   const [defaultExpected, setDefaultExpected] = useState('');
   const [isPlannedDefault, setIsPlannedDefault] = useState(true);
   const [idlePromptEnabled, setIdlePromptEnabled] = useState(true);
+  const [isBackground, setIsBackground] = useState(false);
 
   useEffect(() => {
     const load = async () => {
@@ -43,6 +44,7 @@ export default function ActivityDetailScreen() {
       setDefaultExpected(act.defaultExpectedMinutes?.toString() ?? '');
       setIsPlannedDefault(act.isPlannedDefault);
       setIdlePromptEnabled(act.idlePromptEnabled);
+      setIsBackground(act.isBackground);
       const cat = categories.find(c => c.id === act.categoryId);
       setSelectedCategory(cat || null);
     }
@@ -67,6 +69,7 @@ export default function ActivityDetailScreen() {
         defaultExpectedMinutes: defaultExpected ? parseInt(defaultExpected, 10) : null,
         isPlannedDefault,
         idlePromptEnabled,
+        isBackground,
       });
       Alert.alert('Success', 'Activity updated successfully.');
       if (navigation.canGoBack()) {
@@ -83,7 +86,7 @@ export default function ActivityDetailScreen() {
     if (!activity) return;
     Alert.alert(
       'Delete activity',
-      'This will permanently remove the activity. Continue?',
+      'The activity will be moved to the trash, where it can be restored from More → Trash. Continue?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -166,6 +169,11 @@ export default function ActivityDetailScreen() {
         <Switch value={idlePromptEnabled} onValueChange={setIdlePromptEnabled} />
       </View>
 
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Background activity</Text>
+        <Switch value={isBackground} onValueChange={setIsBackground} />
+      </View>
+
       <View style={styles.buttonContainer}>
         <Button
           title={saving ? 'Saving...' : 'Save Changes'}
@@ -3,11 +3,19 @@ import { View, Text, StyleSheet, TextInput, Switch, Alert, ScrollView } from 're
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 
-import { RootStackParamList, Category } from '../../types';
+import { RootStackParamList, Category, Tag, DEFAULT_SETTINGS } from '../../types';
 import { useActivityStore } from '../../store/activityStore';
 import { useTheme } from '../../contexts/ThemeContext';
 import Button from '../../components/common/Button';
 import CategoryPicker from '../../components/activity/CategoryPicker';
+import TagPicker from '../../components/tag/TagPicker';
+import {
+  createTag,
+  getAllTags,
+  getTagsForActivity,
+  setActivityTags,
+} from '../../database/repositories/tagRepository';
+import { getSettingBoolean } from '../../database/repositories/settingsRepository';
 
 export default function EditActivityScreen() {
   const navigation = useNavigation();
@@ -22,13 +30,19 @@ export default function EditActivityScreen() {
   const [defaultExpected, setDefaultExpected] = useState('');
   const [isPlannedDefault, setIsPlannedDefault] = useState(true);
   const [idlePromptEnabled, setIdlePromptEnabled] = useState(true);
+  const [isBackground, setIsBackground] = useState(false);
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
   useEffect(() => {
     const load = async () => {
       await Promise.all([loadActivities(), loadCategories()]);
+      setAllTags(await getAllTags());
       if (route.params?.activityId) {
+        const activityTags = await getTagsForActivity(route.params.activityId);
+        setTagIds(activityTags.map(tag => tag.id));
         const existing = activities.find(a => a.id === route.params.activityId);
         if (existing) {
           setName(existing.name);
@@ -36,9 +50,13 @@ export default function EditActivityScreen() {
           setDefaultExpected(existing.defaultExpectedMinutes?.toString() ?? '');
           setIsPlannedDefault(existing.isPlannedDefault);
           setIdlePromptEnabled(existing.idlePromptEnabled);
+          setIsBackground(existing.isBackground);
         }
-      } else if (route.params?.categoryId) {
-        const cat = categories.find(c => c.id === route.params.categoryId);
+      } else {
+        setIdlePromptEnabled(
+          await getSettingBoolean('defaultIdlePromptEnabled', DEFAULT_SETTINGS.defaultIdlePromptEnabled)
+        );
+        const cat = categories.find(c => c.id === route.params?.categoryId);
         if (cat) setCategory(cat);
       }
     };
@@ -59,15 +77,19 @@ export default function EditActivityScreen() {
           defaultExpectedMinutes: defaultExpected ? parseInt(defaultExpected, 10) : null,
           isPlannedDefault,
           idlePromptEnabled,
+          isBackground,
         });
+        await setActivityTags(route.params.activityId, tagIds);
       } else {
-        await createActivity({
+        const activity = await createActivity({
           name,
           categoryId: category.id,
           defaultExpectedMinutes: defaultExpected ? parseInt(defaultExpected, 10) : null,
           isPlannedDefault,
           idlePromptEnabled,
+          isBackground,
         });
+        await setActivityTags(activity.id, tagIds);
       }
       if (navigation.canGoBack()) {
         navigation.goBack();
@@ -81,12 +103,18 @@ export default function EditActivityScreen() {
     }
   };
 
+  const handleCreateTag = async (tagName: string) => {
+    const tag = await createTag({ name: tagName });
+    setAllTags(await getAllTags());
+    return tag;
+  };
+
   const confirmDelete = () => {
     if (!route.params?.activityId) return;
 
     Alert.alert(
       'Delete activity',
-      'This will permanently remove the activity. Continue?',
+      'The activity will be moved to the trash, where it can be restored from More → Trash. Continue?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -143,6 +171,15 @@ export default function EditActivityScreen() {
         placeholderTextColor={theme.inputPlaceholder}
       />
 
+      <Text style={styles.label}>Default tags</Text>
+      <Text style={styles.hint}>New sessions of this activity start with these tags.</Text>
+      <TagPicker
+        tags={allTags}
+        selectedTagIds={tagIds}
+        onChange={setTagIds}
+        onCreateTag={handleCreateTag}
+      />
+
       <View style={styles.row}>
         <Text style={styles.label}>Planned by default?</Text>
         <Switch value={isPlannedDefault} onValueChange={setIsPlannedDefault} />
@@ -153,6 +190,12 @@ export default function EditActivityScreen() {
         <Switch value={idlePromptEnabled} onValueChange={setIdlePromptEnabled} />
       </View>
 
+      <View style={styles.row}>
+        <Text style={styles.label}>Background activity?</Text>
+        <Switch value={isBackground} onValueChange={setIsBackground} />
+      </View>
+      <Text style={styles.hint}>Background timers never stop other timers, even in exclusive mode.</Text>
+
       <Button title={saving ? 'Saving...' : 'Save'} onPress={handleSave} disabled={saving || deleting} />
       {route.params?.activityId ? (
         <Button
@@ -186,6 +229,11 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     marginBottom: 6,
     color: theme.textPrimary,
   },
+  hint: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginBottom: 8,
+  },
   input: {
     backgroundColor: theme.inputBackground,
     borderRadius: 8,
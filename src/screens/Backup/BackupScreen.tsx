@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,65 +9,164 @@ import {
   ActivityIndicator,
   Share,
   PermissionsAndroid,
-  Platform,
+  TextInput,
+  Switch,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '../../contexts/ThemeContext';
 import { Card, Button } from '../../components/common';
-import { BackupData, BackupMetadata } from '../../types';
-import { getAllCategories } from '../../database/repositories/categoryRepository';
-import { getAllActivities } from '../../database/repositories/activityRepository';
-import { getSessionsInRange } from '../../database/repositories/sessionRepository';
-import { getAllGoals } from '../../database/repositories/goalRepository';
-import { getAllSettings } from '../../database/repositories/settingsRepository';
+import {
+  AutoBackupFrequency,
+  AutoBackupSettings,
+  AutoBackupStatus,
+  BackupData,
+  BackupSnapshot,
+  BackupTableName,
+  RestoreMode,
+  RestoreSummary,
+  RootStackParamList,
+} from '../../types';
+import {
+  APP_VERSION,
+  createBackup,
+  previewRestore,
+  applyRestore,
+} from '../../services/backupService';
+import {
+  BACKUP_VERSION,
+  BACKUP_TABLES,
+  BackupValidationError,
+  decodeBackup,
+  encodeBackup,
+} from '../../services/backupCodec';
+import {
+  BackupDecryptionError,
+  MIN_PASSPHRASE_LENGTH,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+} from '../../services/backupEncryption';
+import {
+  DEFAULT_AUTO_BACKUP_SETTINGS,
+  MAX_KEEP_COUNT,
+  MIN_KEEP_COUNT,
+  getAutoBackupSettings,
+  getAutoBackupStatus,
+  getLastManualBackupAt,
+  listBackupSnapshots,
+  readBackupSnapshot,
+  recordManualBackup,
+  runAutoBackupIfDue,
+  saveAutoBackupSettings,
+  shareBackupSnapshot,
+  writeBackupSnapshot,
+} from '../../services/autoBackupService';
+import { useActivityStore } from '../../store/activityStore';
+import { useTimerStore } from '../../store/timerStore';
+import { useSessionStore } from '../../store/sessionStore';
+
+const TABLE_LABELS: Record<BackupTableName, string> = {
+  categories: 'Categories',
+  activities: 'Activities',
+  sessions: 'Sessions',
+  goals: 'Goals',
+  routines: 'Routines',
+  routineItems: 'Routine steps',
+  tags: 'Tags',
+  sessionTags: 'Session tags',
+  activityTags: 'Activity tags',
+  sessionPauses: 'Session pauses',
+  sessionRevisions: 'Session history',
+  settings: 'Settings',
+};
+
+const RESTORE_MODES: { value: RestoreMode; label: string; icon: string }[] = [
+  { value: 'merge', label: 'Merge', icon: 'call-merge' },
+  { value: 'replace', label: 'Replace All', icon: 'swap-horizontal' },
+];
 
-const APP_VERSION = '1.0.0';
-const BACKUP_VERSION = 1;
+const BACKUP_FREQUENCIES: { value: AutoBackupFrequency; label: string; icon: string }[] = [
+  { value: 'daily', label: 'Daily', icon: 'calendar-today' },
+  { value: 'weekly', label: 'Weekly', icon: 'calendar-week' },
+];
+
+const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 export default function BackupScreen() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
   const [lastBackup, setLastBackup] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [backupText, setBackupText] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<BackupData | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restorePreview, setRestorePreview] = useState<RestoreSummary | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [autoSettings, setAutoSettings] = useState<AutoBackupSettings>(DEFAULT_AUTO_BACKUP_SETTINGS);
+  const [autoStatus, setAutoStatus] = useState<AutoBackupStatus | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [backingUp, setBackingUp] = useState(false);
+  const { loadActivities, loadCategories, loadFavorites } = useActivityStore();
+  const { loadRunningTimers } = useTimerStore();
+  const { loadTodaySessions } = useSessionStore();
 
-  const createBackup = async (): Promise<BackupData> => {
-    // Get all data from database
-    const categories = await getAllCategories();
-    const activities = await getAllActivities();
-    
-    // Get sessions from last 2 years
-    const twoYearsAgo = new Date();
-    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-    const sessions = await getSessionsInRange(twoYearsAgo, new Date());
-    
-    const goals = await getAllGoals(false);
-    const settings = await getAllSettings();
-
-    const metadata: BackupMetadata = {
-      version: BACKUP_VERSION,
-      createdAt: new Date().toISOString(),
-      appVersion: APP_VERSION,
-      deviceInfo: Platform.OS,
-    };
-
-    return {
-      metadata,
-      categories,
-      activities,
-      sessions,
-      goals,
-      routines: [], // Will be populated when routines are implemented
-      routineItems: [],
-      settings,
-    };
-  };
+  const backupIsEncrypted = useMemo(() => isEncryptedBackup(backupText.trim()), [backupText]);
+
+  const loadAutoBackups = useCallback(async () => {
+    try {
+      const [settings, status, files, manualAt] = await Promise.all([
+        getAutoBackupSettings(),
+        getAutoBackupStatus(),
+        listBackupSnapshots(),
+        getLastManualBackupAt(),
+      ]);
+      setAutoSettings(settings);
+      setAutoStatus(status);
+      setSnapshots(files);
+      setLastBackup(manualAt);
+    } catch (error) {
+      console.error('Error loading automatic backups:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAutoBackups();
+    }, [loadAutoBackups])
+  );
 
   const handleExport = async () => {
+    if (encryptExport) {
+      if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        Alert.alert(
+          'Passphrase Too Short',
+          `Use at least ${MIN_PASSPHRASE_LENGTH} characters to protect your backup.`
+        );
+        return;
+      }
+      if (exportPassphrase !== exportPassphraseConfirm) {
+        Alert.alert('Passphrases Differ', 'Enter the same passphrase in both fields.');
+        return;
+      }
+    }
+
     setExporting(true);
     try {
       const backupData = await createBackup();
-      const jsonString = JSON.stringify(backupData, null, 2);
+      const jsonString = encryptExport
+        ? encryptBackup(backupData, exportPassphrase)
+        : encodeBackup(backupData);
       
       const fileName = `time-tracker-backup-${new Date().toISOString().split('T')[0]}.json`;
       
@@ -77,7 +176,7 @@ export default function BackupScreen() {
         title: fileName,
       });
       
-      setLastBackup(new Date().toISOString());
+      setLastBackup(await recordManualBackup());
       Alert.alert('Success', 'Backup created successfully. You can save or share the exported data.');
     } catch (error) {
       console.error('Export error:', error);
@@ -87,34 +186,423 @@ export default function BackupScreen() {
     }
   };
 
-  const handleImport = async () => {
-    Alert.alert(
-      'Import Data',
-      'To import a backup:\n\n1. Open the backup JSON file\n2. Copy its contents\n3. Use "Import from Clipboard"\n\nNote: This will merge with existing data.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Import from Clipboard', onPress: importFromClipboard },
-      ]
-    );
+  const handleImport = () => {
+    setShowImport(true);
   };
 
-  const importFromClipboard = async () => {
+  const resetImport = () => {
+    setShowImport(false);
+    setBackupText('');
+    setPendingBackup(null);
+    setRestorePreview(null);
+    setRestoreMode('merge');
+    setRestorePassphrase('');
+  };
+
+  const loadPreview = async (backup: BackupData, mode: RestoreMode) => {
     setImporting(true);
     try {
-      // In a real implementation, we would use Clipboard API
-      // and then parse and import the data
-      Alert.alert(
-        'Coming Soon',
-        'Full import functionality will be available in the next update. The backup JSON structure is ready for future restoration.'
-      );
+      setRestorePreview(await previewRestore(backup, mode));
+    } catch (error) {
+      console.error('Restore preview error:', error);
+      Alert.alert('Error', 'Failed to compare the backup with your data.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const reviewBackup = async (text: string) => {
+    try {
+      const backup = isEncryptedBackup(text)
+        ? decryptBackup(text, restorePassphrase)
+        : decodeBackup(text);
+      setPendingBackup(backup);
+      await loadPreview(backup, restoreMode);
     } catch (error) {
+      if (error instanceof BackupDecryptionError) {
+        Alert.alert(
+          error.reason === 'passphrase' ? 'Wrong Passphrase' : 'Cannot Decrypt Backup',
+          error.message
+        );
+        return;
+      }
+      if (error instanceof BackupValidationError) {
+        Alert.alert('Invalid Backup', error.message);
+        return;
+      }
       console.error('Import error:', error);
       Alert.alert('Error', 'Failed to import backup. Please check the data format.');
+    }
+  };
+
+  const handleReviewBackup = () => reviewBackup(backupText.trim());
+
+  const updateAutoSettings = async (changes: Partial<AutoBackupSettings>) => {
+    const next = { ...autoSettings, ...changes };
+    setAutoSettings(next);
+    try {
+      setAutoSettings(await saveAutoBackupSettings(next));
+    } catch (error) {
+      console.error('Error saving automatic backup settings:', error);
+      Alert.alert('Error', 'Failed to save automatic backup settings.');
+      return;
+    }
+
+    if (changes.enabled) {
+      // Take the first snapshot right away instead of waiting for the next launch
+      try {
+        await runAutoBackupIfDue();
+      } catch (error) {
+        console.error('Snapshot error:', error);
+      }
+      await loadAutoBackups();
+    }
+  };
+
+  const handleBackupNow = async () => {
+    setBackingUp(true);
+    try {
+      await writeBackupSnapshot(autoSettings.keepCount);
+    } catch (error) {
+      console.error('Snapshot error:', error);
+      Alert.alert('Error', 'Failed to write the backup file. Please try again.');
+    } finally {
+      await loadAutoBackups();
+      setBackingUp(false);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: BackupSnapshot) => {
+    try {
+      const text = (await readBackupSnapshot(snapshot)).trim();
+      setShowImport(true);
+      setBackupText(text);
+      setPendingBackup(null);
+      setRestorePreview(null);
+      await reviewBackup(text);
+    } catch (error) {
+      console.error('Snapshot read error:', error);
+      Alert.alert('Error', 'Failed to read the backup file.');
+    }
+  };
+
+  const handleShareSnapshot = async (snapshot: BackupSnapshot) => {
+    try {
+      await shareBackupSnapshot(snapshot);
+    } catch (error) {
+      console.error('Snapshot share error:', error);
+      Alert.alert('Error', 'Failed to share the backup file.');
+    }
+  };
+
+  const handleModeChange = (mode: RestoreMode) => {
+    setRestoreMode(mode);
+    if (pendingBackup) {
+      loadPreview(pendingBackup, mode);
+    }
+  };
+
+  const runRestore = async () => {
+    if (!pendingBackup) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const summary = await applyRestore(pendingBackup, restoreMode);
+      await Promise.all([
+        loadCategories(),
+        loadActivities(),
+        loadFavorites(),
+        loadRunningTimers(),
+        loadTodaySessions(),
+      ]);
+
+      const totals = BACKUP_TABLES.reduce(
+        (acc, table) => ({
+          inserted: acc.inserted + summary[table].inserted,
+          updated: acc.updated + summary[table].updated,
+        }),
+        { inserted: 0, updated: 0 }
+      );
+      resetImport();
+      Alert.alert(
+        'Restore Complete',
+        `${totals.inserted} records added, ${totals.updated} records updated.`
+      );
+    } catch (error) {
+      console.error('Restore error:', error);
+      Alert.alert('Error', 'Restore failed. Your existing data was not changed.');
     } finally {
       setImporting(false);
     }
   };
 
+  const handleRestore = () => {
+    if (restoreMode === 'replace') {
+      Alert.alert(
+        'Replace All Data',
+        'All current categories, activities, sessions, goals, routines and settings will be deleted and replaced with the backup. This cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: runRestore },
+        ]
+      );
+      return;
+    }
+    runRestore();
+  };
+
+  const renderRestorePreview = () => {
+    if (!pendingBackup || !restorePreview) {
+      return null;
+    }
+
+    return (
+      <View style={styles.previewContainer}>
+        <Text style={styles.previewTitle}>
+          Backup from {new Date(pendingBackup.metadata.createdAt).toLocaleString()}
+        </Text>
+
+        <View style={styles.modeGroup}>
+          {RESTORE_MODES.map(mode => (
+            <TouchableOpacity
+              key={mode.value}
+              style={[
+                styles.modeButton,
+                restoreMode === mode.value && styles.modeButtonSelected,
+              ]}
+              onPress={() => handleModeChange(mode.value)}
+              disabled={importing}
+            >
+              <Icon
+                name={mode.icon}
+                size={18}
+                color={restoreMode === mode.value ? theme.primary : theme.textSecondary}
+              />
+              <Text
+                style={[
+                  styles.modeLabel,
+                  restoreMode === mode.value && styles.modeLabelSelected,
+                ]}
+              >
+                {mode.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.summaryHeader}>
+          <Text style={[styles.summaryCell, styles.summaryName]} />
+          <Text style={styles.summaryCell}>New</Text>
+          <Text style={styles.summaryCell}>Updated</Text>
+          <Text style={styles.summaryCell}>
+            {restoreMode === 'replace' ? 'Removed' : 'Skipped'}
+          </Text>
+        </View>
+        {BACKUP_TABLES.map(table => {
+          const row = restorePreview[table];
+          return (
+            <View key={table} style={styles.summaryRow}>
+              <Text style={[styles.summaryCell, styles.summaryName]}>{TABLE_LABELS[table]}</Text>
+              <Text style={styles.summaryCell}>{row.inserted}</Text>
+              <Text style={styles.summaryCell}>{row.updated}</Text>
+              <Text style={styles.summaryCell}>
+                {restoreMode === 'replace' ? row.deleted : row.skipped}
+              </Text>
+            </View>
+          );
+        })}
+
+        <Text style={styles.previewHint}>
+          {restoreMode === 'merge'
+            ? 'Records are matched by id. The newer copy of each record is kept.'
+            : 'Everything currently on this device will be replaced by the backup.'}
+        </Text>
+
+        <Button
+          title={importing ? 'Restoring...' : 'Restore'}
+          onPress={handleRestore}
+          disabled={importing}
+          variant={restoreMode === 'replace' ? 'danger' : 'primary'}
+          style={styles.actionButton}
+        />
+      </View>
+    );
+  };
+
+  const renderImportForm = () => (
+    <View>
+      <TextInput
+        style={styles.backupInput}
+        value={backupText}
+        onChangeText={text => {
+          setBackupText(text);
+          setPendingBackup(null);
+          setRestorePreview(null);
+        }}
+        placeholder="Paste the contents of a backup file here"
+        placeholderTextColor={theme.inputPlaceholder}
+        multiline
+        autoCorrect={false}
+        autoCapitalize="none"
+        textAlignVertical="top"
+      />
+      {backupIsEncrypted && !restorePreview && (
+        <View>
+          <Text style={styles.passphraseLabel}>
+            This backup is encrypted. Enter the passphrase it was exported with.
+          </Text>
+          <TextInput
+            style={styles.passphraseInput}
+            value={restorePassphrase}
+            onChangeText={setRestorePassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor={theme.inputPlaceholder}
+            secureTextEntry
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+        </View>
+      )}
+      {!restorePreview && (
+        <Button
+          title={importing ? 'Checking...' : 'Review Backup'}
+          onPress={handleReviewBackup}
+          disabled={
+            importing ||
+            backupText.trim().length === 0 ||
+            (backupIsEncrypted && restorePassphrase.length === 0)
+          }
+          style={styles.actionButton}
+        />
+      )}
+      {renderRestorePreview()}
+      <TouchableOpacity style={styles.cancelImport} onPress={resetImport} disabled={importing}>
+        <Text style={styles.cancelImportText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderAutoBackup = () => (
+    <Card style={styles.actionCard}>
+      <View style={styles.actionHeader}>
+        <View style={[styles.actionIcon, { backgroundColor: theme.warning + '15' }]}>
+          <Icon name="backup-restore" size={28} color={theme.warning} />
+        </View>
+        <View style={styles.actionText}>
+          <Text style={styles.actionTitle}>Automatic Backups</Text>
+          <Text style={styles.actionSubtitle}>
+            Keep recent copies of your data on this device
+          </Text>
+        </View>
+      </View>
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>Back up automatically</Text>
+        <Switch
+          value={autoSettings.enabled}
+          onValueChange={enabled => updateAutoSettings({ enabled })}
+        />
+      </View>
+      {autoSettings.enabled && (
+        <View>
+          <View style={styles.modeGroup}>
+            {BACKUP_FREQUENCIES.map(frequency => (
+              <TouchableOpacity
+                key={frequency.value}
+                style={[
+                  styles.modeButton,
+                  autoSettings.frequency === frequency.value && styles.modeButtonSelected,
+                ]}
+                onPress={() => updateAutoSettings({ frequency: frequency.value })}
+              >
+                <Icon
+                  name={frequency.icon}
+                  size={18}
+                  color={
+                    autoSettings.frequency === frequency.value ? theme.primary : theme.textSecondary
+                  }
+                />
+                <Text
+                  style={[
+                    styles.modeLabel,
+                    autoSettings.frequency === frequency.value && styles.modeLabelSelected,
+                  ]}
+                >
+                  {frequency.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Backups to keep</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => updateAutoSettings({ keepCount: autoSettings.keepCount - 1 })}
+                disabled={autoSettings.keepCount <= MIN_KEEP_COUNT}
+              >
+                <Icon name="minus-circle-outline" size={24} color={theme.primary} />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{autoSettings.keepCount}</Text>
+              <TouchableOpacity
+                onPress={() => updateAutoSettings({ keepCount: autoSettings.keepCount + 1 })}
+                disabled={autoSettings.keepCount >= MAX_KEEP_COUNT}
+              >
+                <Icon name="plus-circle-outline" size={24} color={theme.primary} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+      {autoStatus?.lastSuccessAt && (
+        <Text style={styles.statusText}>
+          Last automatic backup: {new Date(autoStatus.lastSuccessAt).toLocaleString()}
+        </Text>
+      )}
+      {autoStatus?.lastFailureAt &&
+        (!autoStatus.lastSuccessAt || autoStatus.lastFailureAt > autoStatus.lastSuccessAt) && (
+          <Text style={styles.statusError}>
+            Failed {new Date(autoStatus.lastFailureAt).toLocaleString()}
+            {autoStatus.lastError ? `: ${autoStatus.lastError}` : ''}
+          </Text>
+        )}
+      <Button
+        title={backingUp ? 'Backing Up...' : 'Back Up Now'}
+        onPress={handleBackupNow}
+        disabled={backingUp}
+        variant="outline"
+        style={styles.actionButton}
+      />
+      {snapshots.length > 0 && (
+        <View style={styles.snapshotList}>
+          {snapshots.map(snapshot => (
+            <View key={snapshot.fileName} style={styles.snapshotRow}>
+              <View style={styles.snapshotInfo}>
+                <Text style={styles.snapshotDate}>
+                  {new Date(snapshot.createdAt).toLocaleString()}
+                </Text>
+                <Text style={styles.snapshotSize}>{formatFileSize(snapshot.size)}</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.snapshotAction}
+                onPress={() => handleRestoreSnapshot(snapshot)}
+                disabled={importing}
+              >
+                <Icon name="restore" size={22} color={theme.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.snapshotAction}
+                onPress={() => handleShareSnapshot(snapshot)}
+              >
+                <Icon name="share-variant" size={22} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </Card>
+  );
+
   const renderStats = () => (
     <Card style={styles.statsCard}>
       <Text style={styles.sectionTitle}>Data Overview</Text>
@@ -164,6 +652,37 @@ export default function BackupScreen() {
             </Text>
           </View>
         </View>
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Protect with a passphrase</Text>
+          <Switch value={encryptExport} onValueChange={setEncryptExport} />
+        </View>
+        {encryptExport && (
+          <View>
+            <TextInput
+              style={styles.passphraseInput}
+              value={exportPassphrase}
+              onChangeText={setExportPassphrase}
+              placeholder="Passphrase"
+              placeholderTextColor={theme.inputPlaceholder}
+              secureTextEntry
+              autoCorrect={false}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={styles.passphraseInput}
+              value={exportPassphraseConfirm}
+              onChangeText={setExportPassphraseConfirm}
+              placeholder="Repeat passphrase"
+              placeholderTextColor={theme.inputPlaceholder}
+              secureTextEntry
+              autoCorrect={false}
+              autoCapitalize="none"
+            />
+            <Text style={styles.previewHint}>
+              The passphrase cannot be recovered. Without it, this backup cannot be restored.
+            </Text>
+          </View>
+        )}
         <Button
           title={exporting ? 'Creating Backup...' : 'Export Data'}
           onPress={handleExport}
@@ -189,10 +708,55 @@ export default function BackupScreen() {
             </Text>
           </View>
         </View>
+        {showImport ? (
+          renderImportForm()
+        ) : (
+          <Button
+            title="Import Data"
+            onPress={handleImport}
+            variant="outline"
+            style={styles.actionButton}
+          />
+        )}
+      </Card>
+
+      {renderAutoBackup()}
+
+      <Card style={styles.actionCard}>
+        <View style={styles.actionHeader}>
+          <View style={[styles.actionIcon, { backgroundColor: theme.secondary + '15' }]}>
+            <Icon name="file-delimited" size={28} color={theme.secondary} />
+          </View>
+          <View style={styles.actionText}>
+            <Text style={styles.actionTitle}>Export Sessions</Text>
+            <Text style={styles.actionSubtitle}>
+              Save a date range as CSV or as a calendar (.ics) file
+            </Text>
+          </View>
+        </View>
         <Button
-          title={importing ? 'Importing...' : 'Import Data'}
-          onPress={handleImport}
-          disabled={importing}
+          title="Choose Range & Export"
+          onPress={() => navigation.navigate('Export')}
+          variant="outline"
+          style={styles.actionButton}
+        />
+      </Card>
+
+      <Card style={styles.actionCard}>
+        <View style={styles.actionHeader}>
+          <View style={[styles.actionIcon, { backgroundColor: theme.info + '15' }]}>
+            <Icon name="swap-horizontal" size={28} color={theme.info} />
+          </View>
+          <View style={styles.actionText}>
+            <Text style={styles.actionTitle}>Import From Other Trackers</Text>
+            <Text style={styles.actionSubtitle}>
+              Bring in time entries from Toggl Track or Clockify CSV exports
+            </Text>
+          </View>
+        </View>
+        <Button
+          title="Import Time Entries"
+          onPress={() => navigation.navigate('Import')}
           variant="outline"
           style={styles.actionButton}
         />
@@ -201,8 +765,11 @@ export default function BackupScreen() {
       <Card style={styles.infoCard}>
         <Icon name="information" size={20} color={theme.info} />
         <Text style={styles.infoText}>
-          Backups include categories, activities, time sessions, goals, and settings.
+          Backups include every category, activity, time session, goal, routine and setting,
+          including archived and inactive ones.
           Data is exported as a JSON file that you can save to cloud storage or share.
+          Protect it with a passphrase before storing it somewhere others can read.
+          Automatic backups stay on this device and are not encrypted.
         </Text>
       </Card>
 
@@ -300,6 +867,169 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     textAlign: 'center',
     marginTop: 12,
   },
+  statusText: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginBottom: 12,
+  },
+  statusError: {
+    fontSize: 12,
+    color: theme.error,
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    minWidth: 24,
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    textAlign: 'center',
+  },
+  snapshotList: {
+    marginTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  snapshotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  snapshotInfo: {
+    flex: 1,
+  },
+  snapshotDate: {
+    fontSize: 14,
+    color: theme.textPrimary,
+  },
+  snapshotSize: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  snapshotAction: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  backupInput: {
+    minHeight: 120,
+    maxHeight: 200,
+    borderWidth: 1,
+    borderColor: theme.inputBorder,
+    borderRadius: 12,
+    backgroundColor: theme.inputBackground,
+    padding: 12,
+    fontSize: 13,
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: theme.textPrimary,
+  },
+  passphraseLabel: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginBottom: 8,
+  },
+  passphraseInput: {
+    borderWidth: 1,
+    borderColor: theme.inputBorder,
+    borderRadius: 12,
+    backgroundColor: theme.inputBackground,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  previewContainer: {
+    marginTop: 4,
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  modeGroup: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  modeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderWidth: 2,
+    borderColor: theme.border,
+    borderRadius: 12,
+    backgroundColor: theme.surface,
+    gap: 6,
+  },
+  modeButtonSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '10',
+  },
+  modeLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.textSecondary,
+  },
+  modeLabelSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    paddingBottom: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+  },
+  summaryCell: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.textSecondary,
+    textAlign: 'right',
+  },
+  summaryName: {
+    flex: 2,
+    color: theme.textPrimary,
+    textAlign: 'left',
+  },
+  previewHint: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 8,
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  cancelImport: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  cancelImportText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
   infoCard: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -22,8 +22,11 @@ import {
   getPlannedVsUnplannedMinutes,
 } from '../../database/repositories/sessionRepository';
 import { getGoalsWithActivities } from '../../database/repositories/goalRepository';
-import { SessionWithDetails, GoalWithActivity, GoalScope } from '../../types';
+import { getTotalMinutesByTag } from '../../database/repositories/tagRepository';
+import { getPausesForSessions } from '../../database/repositories/sessionPauseRepository';
+import { SessionWithDetails, GoalWithActivity, GoalScope, TagTimeBreakdown } from '../../types';
 import { Card } from '../../components/common';
+import { detectSessionOverlaps } from '../../utils/overlapUtils';
 
 type TimeRange = 'day' | 'week' | 'month';
 
@@ -70,9 +73,12 @@ export default function DashboardScreen() {
   const [totalMinutes, setTotalMinutes] = useState(0);
   const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([]);
   const [activityStats, setActivityStats] = useState<ActivityStats[]>([]);
+  const [tagStats, setTagStats] = useState<TagTimeBreakdown[]>([]);
   const [plannedMinutes, setPlannedMinutes] = useState(0);
   const [unplannedMinutes, setUnplannedMinutes] = useState(0);
   const [sessionsCount, setSessionsCount] = useState(0);
+  const [wallClockMinutes, setWallClockMinutes] = useState(0);
+  const [doubleCountedMinutes, setDoubleCountedMinutes] = useState(0);
   const [goalProgress, setGoalProgress] = useState<GoalProgress[]>([]);
 
   const styles = useMemo(() => createStyles(theme), [theme]);
@@ -108,6 +114,12 @@ export default function DashboardScreen() {
       }
       
       setSessionsCount(sessions.length);
+
+      // Parallel timers make the summed total larger than the time that passed
+      const pausesBySession = await getPausesForSessions(sessions.map(session => session.id));
+      const overlaps = detectSessionOverlaps(sessions, pausesBySession, { from: start, to: end });
+      setWallClockMinutes(overlaps.wallClockMinutes);
+      setDoubleCountedMinutes(overlaps.doubleCountedMinutes);
       
       // Get category breakdown
       const categoryData = await getTotalMinutesByCategory(start.toISOString(), end.toISOString());
@@ -122,6 +134,9 @@ export default function DashboardScreen() {
       // Get activity breakdown
       const activityData = await getTotalMinutesByActivity(start.toISOString(), end.toISOString());
       setActivityStats(activityData);
+
+      // Get tag breakdown
+      setTagStats(await getTotalMinutesByTag(start.toISOString(), end.toISOString()));
       
       // Calculate total
       const total = categoryData.reduce((sum, cat) => sum + cat.totalMinutes, 0);
@@ -212,6 +227,20 @@ export default function DashboardScreen() {
           <Text style={styles.summaryItemText}>{formatDuration(plannedMinutes)} planned</Text>
         </View>
       </View>
+      <View style={[styles.summaryRow, styles.summaryRowSpaced]}>
+        <View style={styles.summaryItem}>
+          <Icon name="clock-time-four-outline" size={18} color={theme.textSecondary} />
+          <Text style={styles.summaryItemText}>{formatDuration(wallClockMinutes)} wall-clock</Text>
+        </View>
+        {doubleCountedMinutes > 0 && (
+          <View style={styles.summaryItem}>
+            <Icon name="vector-intersection" size={18} color={theme.warning} />
+            <Text style={styles.summaryItemText}>
+              {formatDuration(doubleCountedMinutes)} overlapping
+            </Text>
+          </View>
+        )}
+      </View>
     </Card>
   );
 
@@ -341,6 +370,39 @@ export default function DashboardScreen() {
     );
   };
 
+  // A session with several tags counts toward each of them, so the rows
+  // can add up to more than the total tracked time
+  const renderTagBreakdown = () => {
+    if (tagStats.length === 0) return null;
+
+    const maxMinutes = Math.max(...tagStats.map(tag => tag.totalMinutes), 1);
+
+    return (
+      <Card style={styles.chartCard}>
+        <Text style={styles.chartTitle}>Time by Tag</Text>
+        {tagStats.map(tag => (
+          <View key={tag.tagId} style={styles.tagRow}>
+            <View style={styles.tagHeader}>
+              <Text style={[styles.tagName, { color: tag.tagColor }]} numberOfLines={1}>
+                #{tag.tagName}
+              </Text>
+              <Text style={styles.tagDuration}>{formatDuration(tag.totalMinutes)}</Text>
+            </View>
+            <View style={styles.tagBar}>
+              <View
+                style={[
+                  styles.tagBarFill,
+                  { width: `${(tag.totalMinutes / maxMinutes) * 100}%`, backgroundColor: tag.tagColor },
+                ]}
+              />
+            </View>
+          </View>
+        ))}
+        <Text style={styles.tagFootnote}>Sessions with several tags count toward each one.</Text>
+      </Card>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -365,6 +427,7 @@ export default function DashboardScreen() {
       {renderPlannedVsUnplanned()}
       {renderGoalProgress()}
       {renderTopActivities()}
+      {renderTagBreakdown()}
     </ScrollView>
   );
 }
@@ -448,6 +511,9 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  summaryRowSpaced: {
+    marginTop: 8,
+  },
   summaryItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -576,4 +642,37 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     fontWeight: '600',
     color: theme.primary,
   },
+  tagRow: {
+    marginBottom: 12,
+  },
+  tagHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  tagName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    marginRight: 12,
+  },
+  tagDuration: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textSecondary,
+  },
+  tagBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.gray200,
+  },
+  tagBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  tagFootnote: {
+    fontSize: 12,
+    color: theme.textTertiary,
+  },
 });
@@ -0,0 +1,340 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Card, Button, DateRangePicker } from '../../components/common';
+import { useActivityStore } from '../../store/activityStore';
+import { ExportTimeZone, SessionExportColumn } from '../../types';
+import {
+  SESSION_EXPORT_COLUMNS,
+  ExportFile,
+  exportSessionsCsv,
+  exportSessionsIcs,
+  shareExportFile,
+} from '../../services/exportService';
+import { getDayStart, getMonthStart } from '../../utils/dateUtils';
+
+const TIME_ZONES: { value: ExportTimeZone; label: string; icon: string }[] = [
+  { value: 'local', label: 'Local time', icon: 'map-marker-radius' },
+  { value: 'utc', label: 'UTC', icon: 'earth' },
+];
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export default function ExportScreen() {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { categories, activities, loadCategories, loadActivities } = useActivityStore();
+
+  const [startDate, setStartDate] = useState(getMonthStart());
+  const [endDate, setEndDate] = useState(getDayStart());
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [activityIds, setActivityIds] = useState<string[]>([]);
+  const [columns, setColumns] = useState<SessionExportColumn[]>(
+    SESSION_EXPORT_COLUMNS.map(column => column.key)
+  );
+  const [timeZone, setTimeZone] = useState<ExportTimeZone>('local');
+  const [exporting, setExporting] = useState<'csv' | 'ics' | null>(null);
+
+  useEffect(() => {
+    loadCategories();
+    loadActivities();
+  }, [loadCategories, loadActivities]);
+
+  const visibleActivities = useMemo(
+    () =>
+      categoryIds.length === 0
+        ? activities
+        : activities.filter(activity => categoryIds.includes(activity.categoryId)),
+    [activities, categoryIds]
+  );
+
+  const handleCategoryToggle = (categoryId: string) => {
+    const next = toggleValue(categoryIds, categoryId);
+    setCategoryIds(next);
+    // Drop activity filters that the category filter now hides
+    if (next.length > 0) {
+      setActivityIds(ids =>
+        ids.filter(id => {
+          const activity = activities.find(a => a.id === id);
+          return activity ? next.includes(activity.categoryId) : false;
+        })
+      );
+    }
+  };
+
+  const runExport = async (format: 'csv' | 'ics', createFile: () => Promise<ExportFile>) => {
+    setExporting(format);
+    try {
+      const file = await createFile();
+
+      if (file.rowCount === 0) {
+        Alert.alert(
+          'Nothing to Export',
+          format === 'ics'
+            ? 'No finished sessions match the selected range and filters.'
+            : 'No sessions match the selected range and filters.'
+        );
+        return;
+      }
+
+      await shareExportFile(file);
+    } catch (error) {
+      console.error(`${format.toUpperCase()} export error:`, error);
+      Alert.alert('Error', 'Failed to export sessions. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (columns.length === 0) {
+      Alert.alert('No Columns', 'Select at least one column to export.');
+      return;
+    }
+
+    // Keep the export's column order stable regardless of toggle order
+    const orderedColumns = SESSION_EXPORT_COLUMNS
+      .map(column => column.key)
+      .filter(key => columns.includes(key));
+    runExport('csv', () =>
+      exportSessionsCsv({
+        startDate,
+        endDate,
+        categoryIds,
+        activityIds,
+        columns: orderedColumns,
+        timeZone,
+      })
+    );
+  };
+
+  const handleExportIcs = () => {
+    runExport('ics', () => exportSessionsIcs({ startDate, endDate, categoryIds, activityIds }));
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    color: string = theme.primary
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && { borderColor: color, backgroundColor: color + '15' }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected, selected && { color }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.screenTitle}>Export Sessions</Text>
+      <Text style={styles.subtitle}>
+        Create a CSV file for spreadsheets and reports, or a calendar file to see your tracked
+        time next to your meetings.
+      </Text>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Date Range</Text>
+        <DateRangePicker
+          startDate={startDate}
+          endDate={endDate}
+          onChange={(start, end) => {
+            setStartDate(start);
+            setEndDate(end);
+          }}
+        />
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Categories</Text>
+        <Text style={styles.hint}>Leave empty to include every category.</Text>
+        <View style={styles.chipGroup}>
+          {categories.map(category =>
+            renderChip(
+              category.id,
+              category.name,
+              categoryIds.includes(category.id),
+              () => handleCategoryToggle(category.id),
+              category.color
+            )
+          )}
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Activities</Text>
+        <Text style={styles.hint}>Leave empty to include every activity.</Text>
+        <View style={styles.chipGroup}>
+          {visibleActivities.map(activity =>
+            renderChip(
+              activity.id,
+              activity.name,
+              activityIds.includes(activity.id),
+              () => setActivityIds(ids => toggleValue(ids, activity.id)),
+              activity.categoryColor
+            )
+          )}
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>CSV Columns</Text>
+        <View style={styles.chipGroup}>
+          {SESSION_EXPORT_COLUMNS.map(column =>
+            renderChip(
+              column.key,
+              column.label,
+              columns.includes(column.key),
+              () => setColumns(current => toggleValue(current, column.key))
+            )
+          )}
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>CSV Timestamps</Text>
+        <View style={styles.optionGroup}>
+          {TIME_ZONES.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.optionButton, timeZone === option.value && styles.optionButtonSelected]}
+              onPress={() => setTimeZone(option.value)}
+            >
+              <Icon
+                name={option.icon}
+                size={18}
+                color={timeZone === option.value ? theme.primary : theme.textSecondary}
+              />
+              <Text
+                style={[styles.optionLabel, timeZone === option.value && styles.optionLabelSelected]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </Card>
+
+      <Button
+        title={exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+        onPress={handleExportCsv}
+        disabled={exporting !== null}
+      />
+      <Button
+        title={exporting === 'ics' ? 'Exporting...' : 'Export Calendar (.ics)'}
+        onPress={handleExportIcs}
+        variant="outline"
+        disabled={exporting !== null}
+        style={styles.secondaryButton}
+      />
+      <Text style={styles.footnote}>
+        Calendar exports include finished sessions only, with times in UTC. Exporting the same
+        sessions again updates the existing events instead of duplicating them.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  screenTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: theme.textPrimary,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    marginTop: 8,
+    marginBottom: 20,
+    lineHeight: 22,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: -6,
+    marginBottom: 10,
+  },
+  chipGroup: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  chipTextSelected: {
+    fontWeight: '600',
+  },
+  optionGroup: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  optionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderWidth: 2,
+    borderColor: theme.border,
+    borderRadius: 12,
+    backgroundColor: theme.surface,
+    gap: 6,
+  },
+  optionButtonSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '10',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.textSecondary,
+  },
+  optionLabelSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: 12,
+  },
+  footnote: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 12,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+});
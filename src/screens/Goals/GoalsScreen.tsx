@@ -18,8 +18,10 @@ import { GoalWithActivity, GoalScope, GoalType } from '../../types';
 import {
   getGoalsWithActivities,
   deleteGoal,
+  restoreGoal,
   toggleGoalActive,
 } from '../../database/repositories/goalRepository';
+import { useUndoStore } from '../../store/undoStore';
 import { formatDuration } from '../../utils/dateUtils';
 
 type RootStackParamList = {
@@ -98,6 +100,11 @@ export default function GoalsScreen() {
             try {
               await deleteGoal(goal.id);
               loadGoals();
+              useUndoStore.getState().record({
+                label: 'Goal deleted',
+                undo: () => restoreGoal(goal),
+                onUndone: loadGoals,
+              });
             } catch (error) {
               console.error('Error deleting goal:', error);
               Alert.alert('Error', 'Failed to delete goal');
@@ -0,0 +1,470 @@
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { format } from 'date-fns';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Card } from '../../components/common';
+import {
+  RootStackParamList,
+  SessionQueryFilter,
+  SessionSource,
+  SessionWithDetails,
+} from '../../types';
+import { queryDayTotalsBetween, querySessions } from '../../database/repositories/sessionRepository';
+import { useActivityStore } from '../../store/activityStore';
+import { useUndoStore } from '../../store/undoStore';
+import { formatDate, formatDuration, getLogicalDate, getPreviousDay } from '../../utils/dateUtils';
+import { toReportClock } from '../../utils/timeZoneUtils';
+
+const PAGE_SIZE = 50;
+
+type PlannedFilter = 'all' | 'planned' | 'unplanned';
+
+const PLANNED_OPTIONS: { value: PlannedFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'planned', label: 'Planned' },
+  { value: 'unplanned', label: 'Unplanned' },
+];
+
+const SOURCE_LABELS: Record<SessionSource, string> = {
+  timer: 'Timer',
+  manual: 'Manual',
+  routine: 'Routine',
+  assistant: 'Assistant',
+  import: 'Imported',
+};
+
+interface DaySection {
+  day: string;
+  data: SessionWithDetails[];
+}
+
+const toggleId = <T,>(ids: T[], id: T): T[] =>
+  ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+// Day keys are logical days, so compare them with the logical today
+function getDayLabel(day: string): string {
+  const today = getLogicalDate();
+  if (day === formatDate(today)) return 'Today';
+  if (day === formatDate(getPreviousDay(today))) return 'Yesterday';
+  return format(new Date(`${day}T00:00:00`), 'EEEE, MMM d, yyyy');
+}
+
+// Totals of the days a page of sessions falls on, for the section headers
+async function loadDayTotals(
+  filter: SessionQueryFilter,
+  sessions: SessionWithDetails[]
+): Promise<[string, number][]> {
+  if (sessions.length === 0) {
+    return [];
+  }
+  const startTimes = sessions.map(session => toReportClock(session.startTime, session.utcOffsetMinutes)).sort();
+  const totals = await queryDayTotalsBetween(filter, startTimes[0], startTimes[startTimes.length - 1]);
+  return totals.map(total => [total.key ?? '', total.totalMinutes]);
+}
+
+export default function HistoryScreen() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { categories, activities, loadCategories, loadActivities } = useActivityStore();
+  const undoCount = useUndoStore(state => state.undoCount);
+
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [activityIds, setActivityIds] = useState<string[]>([]);
+  const [sources, setSources] = useState<SessionSource[]>([]);
+  const [planned, setPlanned] = useState<PlannedFilter>('all');
+
+  const [sessions, setSessions] = useState<SessionWithDetails[]>([]);
+  const [dayTotals, setDayTotals] = useState<Map<string, number>>(new Map());
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  // Responses to an older filter are dropped once the filter changes
+  const requestId = useRef(0);
+
+  const filter = useMemo<SessionQueryFilter>(
+    () => ({
+      categoryIds,
+      activityIds,
+      sources,
+      isPlanned: planned === 'all' ? undefined : planned === 'planned',
+    }),
+    [categoryIds, activityIds, sources, planned]
+  );
+
+  // Only offer activities of the selected categories
+  const visibleActivities = useMemo(
+    () =>
+      categoryIds.length === 0
+        ? activities
+        : activities.filter(activity => categoryIds.includes(activity.categoryId)),
+    [activities, categoryIds]
+  );
+
+  const loadFirstPage = useCallback(async () => {
+    const id = ++requestId.current;
+    try {
+      const page = await querySessions(filter, { limit: PAGE_SIZE });
+      const totals = await loadDayTotals(filter, page.sessions);
+      if (id !== requestId.current) {
+        return;
+      }
+      setSessions(page.sessions);
+      setNextCursor(page.nextCursor);
+      setDayTotals(new Map(totals));
+    } catch (error) {
+      console.error('Error loading session history:', error);
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, [filter]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCategories();
+      loadActivities();
+    }, [loadCategories, loadActivities])
+  );
+
+  useEffect(() => {
+    setLoading(true);
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  // Pick up changes taken back from the undo snackbar
+  useEffect(() => {
+    if (undoCount > 0) {
+      loadFirstPage();
+    }
+  }, [undoCount, loadFirstPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) {
+      return;
+    }
+    const id = requestId.current;
+    setLoadingMore(true);
+    try {
+      const page = await querySessions(filter, { limit: PAGE_SIZE, cursor: nextCursor });
+      const totals = await loadDayTotals(filter, page.sessions);
+      if (id !== requestId.current) {
+        return;
+      }
+      setSessions(prev => [...prev, ...page.sessions]);
+      setNextCursor(page.nextCursor);
+      setDayTotals(prev => new Map([...prev, ...totals]));
+    } catch (error) {
+      console.error('Error loading more sessions:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadFirstPage();
+  };
+
+  const sections = useMemo<DaySection[]>(() => {
+    const result: DaySection[] = [];
+    for (const session of sessions) {
+      const day = formatDate(getLogicalDate(toReportClock(session.startTime, session.utcOffsetMinutes)));
+      const last = result[result.length - 1];
+      if (last && last.day === day) {
+        last.data.push(session);
+      } else {
+        result.push({ day, data: [session] });
+      }
+    }
+    return result;
+  }, [sessions]);
+
+  const hasFilters =
+    categoryIds.length > 0 || activityIds.length > 0 || sources.length > 0 || planned !== 'all';
+
+  const clearFilters = () => {
+    setCategoryIds([]);
+    setActivityIds([]);
+    setSources([]);
+    setPlanned('all');
+  };
+
+  const handleToggleCategory = (categoryId: string) => {
+    const next = toggleId(categoryIds, categoryId);
+    setCategoryIds(next);
+    // Drop selected activities that are no longer offered
+    if (next.length > 0) {
+      setActivityIds(ids =>
+        ids.filter(id => {
+          const activity = activities.find(a => a.id === id);
+          return activity !== undefined && next.includes(activity.categoryId);
+        })
+      );
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {PLANNED_OPTIONS.map(option =>
+          renderChip(option.value, option.label, planned === option.value, () => setPlanned(option.value))
+        )}
+        <View style={styles.chipDivider} />
+        {(Object.keys(SOURCE_LABELS) as SessionSource[]).map(source =>
+          renderChip(source, SOURCE_LABELS[source], sources.includes(source), () =>
+            setSources(toggleId(sources, source))
+          )
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {categories.map(category =>
+          renderChip(category.id, category.name, categoryIds.includes(category.id), () =>
+            handleToggleCategory(category.id)
+          )
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {visibleActivities.map(activity =>
+          renderChip(activity.id, activity.name, activityIds.includes(activity.id), () =>
+            setActivityIds(toggleId(activityIds, activity.id))
+          )
+        )}
+      </ScrollView>
+      {hasFilters && (
+        <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
+          <Icon name="filter-remove-outline" size={16} color={theme.primary} />
+          <Text style={styles.clearText}>Clear filters</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderSectionHeader = ({ section }: { section: DaySection }) => {
+    // Totals cover the whole day even before all of its sessions are loaded
+    const total =
+      dayTotals.get(section.day) ??
+      section.data.reduce((sum, session) => sum + (session.actualDurationMinutes ?? 0), 0);
+    return (
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{getDayLabel(section.day)}</Text>
+        <Text style={styles.sectionTotal}>{formatDuration(total)}</Text>
+      </View>
+    );
+  };
+
+  const renderSession = ({ item }: { item: SessionWithDetails }) => {
+    const startTime = new Date(item.startTime);
+    const endTime = item.endTime ? new Date(item.endTime) : null;
+
+    return (
+      <TouchableOpacity onPress={() => navigation.navigate('Review', { date: item.startTime })}>
+        <Card style={styles.sessionCard}>
+          <View style={styles.sessionRow}>
+            <View style={[styles.colorBar, { backgroundColor: item.categoryColor || theme.gray400 }]} />
+            <View style={styles.sessionInfo}>
+              <Text style={styles.activityName} numberOfLines={1}>
+                {item.activityNameSnapshot}
+              </Text>
+              <Text style={styles.sessionMeta} numberOfLines={1}>
+                {format(startTime, 'HH:mm')} – {endTime ? format(endTime, 'HH:mm') : 'ongoing'}
+                {' · '}
+                {item.categoryNameSnapshot}
+              </Text>
+            </View>
+            {!item.isPlanned && <Icon name="lightning-bolt-outline" size={16} color={theme.unplanned} />}
+            <Text style={styles.duration}>
+              {item.actualDurationMinutes !== null ? formatDuration(item.actualDurationMinutes) : '—'}
+            </Text>
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon name="text-box-search-outline" size={64} color={theme.gray300} />
+      <Text style={styles.emptyTitle}>No Sessions Found</Text>
+      <Text style={styles.emptySubtitle}>
+        {hasFilters ? 'Try removing some filters.' : 'Tracked sessions will be listed here.'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SectionList
+      style={styles.container}
+      contentContainerStyle={styles.listContent}
+      sections={sections}
+      keyExtractor={item => item.id}
+      renderItem={renderSession}
+      renderSectionHeader={renderSectionHeader}
+      stickySectionHeadersEnabled
+      ListHeaderComponent={renderFilters()}
+      ListEmptyComponent={!loading ? renderEmptyState : null}
+      ListFooterComponent={
+        loading || loadingMore ? <ActivityIndicator style={styles.footer} color={theme.primary} /> : null
+      }
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[theme.primary]} />
+      }
+    />
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  listContent: {
+    paddingBottom: 32,
+  },
+  filters: {
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    marginRight: 8,
+  },
+  chipSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '15',
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  chipTextSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: theme.border,
+    marginRight: 8,
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginLeft: 16,
+    paddingVertical: 4,
+  },
+  clearText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: theme.primary,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: theme.background,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  sectionTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  sessionCard: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  colorBar: {
+    width: 4,
+    height: 36,
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  activityName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  duration: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -7,7 +7,7 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useActivityStore } from '../../store/activityStore';
 import { useTimerStore } from '../../store/timerStore';
 import { useRoutineExecutionStore } from '../../store/routineExecutionStore';
-import { RootStackParamList } from '../../types';
+import { ActivityWithCategory, RootStackParamList } from '../../types';
 import { useTheme } from '../../contexts/ThemeContext';
 import Button from '../../components/common/Button';
 import TimerCard from '../../components/timer/TimerCard';
@@ -18,7 +18,15 @@ export default function HomeScreen() {
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const { theme } = useTheme();
   const { favorites, loadFavorites, loadActivities, loadCategories } = useActivityStore();
-  const { runningTimers, loadRunningTimers, stopTimer, startTimer } = useTimerStore();
+  const {
+    runningTimers,
+    loadRunningTimers,
+    stopTimer,
+    pauseTimer,
+    resumeTimer,
+    startTimer,
+    switchTimer,
+  } = useTimerStore();
   const { 
     runningRoutine, 
     pauseRoutine, 
@@ -81,6 +89,45 @@ export default function HomeScreen() {
     }
   };
 
+  // Routine timers move on through their routine instead
+  const switchableTimers = runningTimers.filter(timer => !timer.routineId);
+
+  const switchTo = async (timerId: string, activity: ActivityWithCategory) => {
+    try {
+      await switchTimer(timerId, activity);
+    } catch (error) {
+      Alert.alert('Cannot Switch Timer', (error as Error).message);
+    }
+  };
+
+  // From a running timer: pick the favorite to continue with
+  const handleSwitchFromTimer = (timerId: string) => {
+    const timer = runningTimers.find(t => t.id === timerId);
+    const targets = favorites.filter(f => f.name.toLowerCase() !== timer?.activityName.toLowerCase());
+    if (targets.length === 0) {
+      Alert.alert('Switch Timer', 'Add favorites to switch between them.');
+      return;
+    }
+    Alert.alert('Switch to', undefined, [
+      ...targets.map(activity => ({ text: activity.name, onPress: () => switchTo(timerId, activity) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  // From a favorite: pick the running timer it replaces
+  const handleSwitchToFavorite = (activityId: string) => {
+    const activity = favorites.find(f => f.id === activityId);
+    if (!activity) return;
+    if (switchableTimers.length === 1) {
+      switchTo(switchableTimers[0].id, activity);
+      return;
+    }
+    Alert.alert(`Switch to ${activity.name}`, 'Which timer should stop?', [
+      ...switchableTimers.map(timer => ({ text: timer.activityName, onPress: () => switchTo(timer.id, activity) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -270,6 +317,9 @@ export default function HomeScreen() {
                   key={timer.id}
                   timer={timer}
                   onStop={() => stopTimer(timer.id)}
+                  onPause={() => pauseTimer(timer.id)}
+                  onResume={() => resumeTimer(timer.id)}
+                  onSwitch={() => handleSwitchFromTimer(timer.id)}
                 />
               ))
             )}
@@ -288,6 +338,9 @@ export default function HomeScreen() {
                   activity={activity}
                   onPress={() => navigation.navigate('ActivityDetail', { activityId: activity.id })}
                   onStartTimer={() => handleStartFavorite(activity.id)}
+                  onSwitchTimer={
+                    switchableTimers.length > 0 ? () => handleSwitchToFavorite(activity.id) : undefined
+                  }
                   showStartButton
                   compact
                 />
@@ -0,0 +1,542 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Card, Button } from '../../components/common';
+import { useActivityStore } from '../../store/activityStore';
+import { useSessionStore } from '../../store/sessionStore';
+import {
+  ParsedTimeEntryImport,
+  RootStackParamList,
+  TimeEntryImportMapping,
+} from '../../types';
+import {
+  TimeEntryImportError,
+  TimeEntryImportPlan,
+  applyTimeEntryImport,
+  getImportKeys,
+  parseTimeEntryCsv,
+  previewTimeEntryImport,
+  suggestImportMapping,
+} from '../../services/importService';
+
+const FORMAT_LABELS = {
+  toggl: 'Toggl Track',
+  clockify: 'Clockify',
+};
+
+const DATE_ORDERS: { dayFirst: boolean; label: string; example: string }[] = [
+  { dayFirst: false, label: 'Month first', example: '02/10/2026' },
+  { dayFirst: true, label: 'Day first', example: '10/02/2026' },
+];
+
+// Only the first few row errors are listed; the rest are counted
+const MAX_LISTED_ERRORS = 5;
+
+export default function ImportScreen() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { categories, activities, loadCategories, loadActivities, loadFavorites } =
+    useActivityStore();
+  const { loadTodaySessions, loadRecentSessions } = useSessionStore();
+
+  const [csvText, setCsvText] = useState('');
+  const [dayFirst, setDayFirst] = useState(false);
+  const [parsed, setParsed] = useState<ParsedTimeEntryImport | null>(null);
+  const [mapping, setMapping] = useState<TimeEntryImportMapping | null>(null);
+  const [plan, setPlan] = useState<TimeEntryImportPlan | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadCategories();
+    loadActivities();
+  }, [loadCategories, loadActivities]);
+
+  const keys = useMemo(() => (parsed ? getImportKeys(parsed.entries) : null), [parsed]);
+
+  const handleRead = () => {
+    if (!csvText.trim()) {
+      Alert.alert('No Data', 'Paste the contents of a Toggl or Clockify CSV export.');
+      return;
+    }
+
+    try {
+      const result = parseTimeEntryCsv(csvText, { dayFirst });
+      if (result.entries.length === 0) {
+        Alert.alert('Nothing to Import', 'No valid time entries were found in the file.');
+        return;
+      }
+      setParsed(result);
+      setMapping(suggestImportMapping(result.entries, categories, activities));
+      setPlan(null);
+    } catch (error) {
+      const message =
+        error instanceof TimeEntryImportError ? error.message : 'The CSV could not be read.';
+      Alert.alert('Invalid File', message);
+    }
+  };
+
+  const updateMapping = (update: Partial<TimeEntryImportMapping>) => {
+    setMapping(current => (current ? { ...current, ...update } : current));
+    // The preview no longer matches the mapping
+    setPlan(null);
+  };
+
+  const handleReview = async () => {
+    if (!parsed || !mapping) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      setPlan(await previewTimeEntryImport(parsed.entries, mapping));
+    } catch (error) {
+      console.error('Import preview error:', error);
+      Alert.alert('Error', 'Could not check the entries against your data.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const result = await applyTimeEntryImport(plan);
+      await Promise.all([
+        loadCategories(),
+        loadActivities(),
+        loadFavorites(),
+        loadTodaySessions(),
+        loadRecentSessions(),
+      ]);
+      Alert.alert(
+        'Import Complete',
+        `${result.imported} sessions imported, ${result.duplicates} duplicates skipped.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Error', 'Import failed. No sessions were added.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setParsed(null);
+    setMapping(null);
+    setPlan(null);
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderMappingRow = (
+    name: string,
+    selectedId: string | null,
+    options: { id: string; name: string }[],
+    onSelect: (id: string | null) => void
+  ) => (
+    <View key={name} style={styles.mappingRow}>
+      <Text style={styles.mappingName}>{name}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.chipRow}>
+          {renderChip(
+            'none',
+            mapping?.createMissing ? 'Create new' : 'Skip',
+            selectedId === null,
+            () => onSelect(null)
+          )}
+          {options.map(option =>
+            renderChip(option.id, option.name, selectedId === option.id, () => onSelect(option.id))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+
+  const renderFileStep = () => (
+    <Card style={styles.section}>
+      <Text style={styles.sectionTitle}>CSV Export</Text>
+      <Text style={styles.hint}>
+        In Toggl Track or Clockify, export a detailed report as CSV and paste its contents here.
+      </Text>
+      <TextInput
+        style={styles.csvInput}
+        value={csvText}
+        onChangeText={setCsvText}
+        placeholder="Start date,Start time,End date,End time,..."
+        placeholderTextColor={theme.inputPlaceholder}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        textAlignVertical="top"
+      />
+
+      <Text style={styles.label}>Dates written with slashes</Text>
+      <View style={styles.optionGroup}>
+        {DATE_ORDERS.map(order => (
+          <TouchableOpacity
+            key={order.label}
+            style={[styles.optionButton, dayFirst === order.dayFirst && styles.optionButtonSelected]}
+            onPress={() => setDayFirst(order.dayFirst)}
+          >
+            <Text
+              style={[styles.optionLabel, dayFirst === order.dayFirst && styles.optionLabelSelected]}
+            >
+              {order.label}
+            </Text>
+            <Text style={styles.optionExample}>{order.example}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Button title="Read Entries" onPress={handleRead} />
+    </Card>
+  );
+
+  const renderParsedSummary = () => {
+    if (!parsed) {
+      return null;
+    }
+
+    return (
+      <Card style={styles.section}>
+        <View style={styles.summaryHeader}>
+          <Icon name="file-check" size={22} color={theme.success} />
+          <Text style={styles.summaryTitle}>
+            {parsed.entries.length} entries from {FORMAT_LABELS[parsed.format]}
+          </Text>
+        </View>
+        {parsed.errors.length > 0 && (
+          <View style={styles.errorList}>
+            <Text style={styles.errorTitle}>
+              {parsed.errors.length} rows could not be read and will be left out:
+            </Text>
+            {parsed.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+              <Text key={error.row} style={styles.errorText}>
+                Row {error.row}: {error.message}
+              </Text>
+            ))}
+            {parsed.errors.length > MAX_LISTED_ERRORS && (
+              <Text style={styles.errorText}>
+                and {parsed.errors.length - MAX_LISTED_ERRORS} more
+              </Text>
+            )}
+          </View>
+        )}
+        <TouchableOpacity style={styles.startOver} onPress={handleStartOver} disabled={working}>
+          <Text style={styles.startOverText}>Use a different file</Text>
+        </TouchableOpacity>
+      </Card>
+    );
+  };
+
+  const renderMapping = () => {
+    if (!mapping || !keys) {
+      return null;
+    }
+
+    return (
+      <>
+        <Card style={styles.section}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.sectionTitle}>Create missing</Text>
+              <Text style={styles.hint}>
+                Add categories and activities for anything not mapped below. When off, unmapped
+                entries are skipped.
+              </Text>
+            </View>
+            <Switch
+              value={mapping.createMissing}
+              onValueChange={value => updateMapping({ createMissing: value })}
+            />
+          </View>
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Projects → Categories</Text>
+          <Text style={styles.hint}>New activities are created in the project's category.</Text>
+          {keys.projects.map(project =>
+            renderMappingRow(project, mapping.categoryByProject[project] ?? null, categories, id =>
+              updateMapping({ categoryByProject: { ...mapping.categoryByProject, [project]: id } })
+            )
+          )}
+        </Card>
+
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Tags → Activities</Text>
+          <Text style={styles.hint}>
+            Each entry uses its first tag, or its project when it has no tags.
+          </Text>
+          {keys.activityLabels.map(label =>
+            renderMappingRow(label, mapping.activityByLabel[label] ?? null, activities, id =>
+              updateMapping({ activityByLabel: { ...mapping.activityByLabel, [label]: id } })
+            )
+          )}
+        </Card>
+
+        {plan ? (
+          renderPlan(plan)
+        ) : (
+          <Button
+            title={working ? 'Checking...' : 'Review Import'}
+            onPress={handleReview}
+            disabled={working}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderPlan = (importPlan: TimeEntryImportPlan) => (
+    <Card style={styles.section}>
+      <Text style={styles.sectionTitle}>Review</Text>
+      {[
+        { label: 'Sessions to import', value: importPlan.sessions.length },
+        { label: 'Duplicates skipped', value: importPlan.duplicates.length },
+        { label: 'Unmapped entries skipped', value: importPlan.unmapped.length },
+        { label: 'New categories', value: importPlan.newCategories.length },
+        { label: 'New activities', value: importPlan.newActivities.length },
+      ].map(row => (
+        <View key={row.label} style={styles.reviewRow}>
+          <Text style={styles.reviewLabel}>{row.label}</Text>
+          <Text style={styles.reviewValue}>{row.value}</Text>
+        </View>
+      ))}
+      {importPlan.newActivities.length > 0 && (
+        <Text style={styles.hint}>
+          Creates{' '}
+          {importPlan.newActivities.map(a => `${a.name} (${a.categoryName})`).join(', ')}
+        </Text>
+      )}
+      <Button
+        title={working ? 'Importing...' : `Import ${importPlan.sessions.length} Sessions`}
+        onPress={handleImport}
+        disabled={working || importPlan.sessions.length === 0}
+        style={styles.importButton}
+      />
+    </Card>
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.screenTitle}>Import Time Entries</Text>
+      <Text style={styles.subtitle}>
+        Bring your history over from Toggl Track or Clockify. Entries already tracked here are
+        detected and skipped.
+      </Text>
+
+      {parsed ? renderParsedSummary() : renderFileStep()}
+      {renderMapping()}
+    </ScrollView>
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  screenTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: theme.textPrimary,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: theme.textSecondary,
+    marginTop: 8,
+    marginBottom: 20,
+    lineHeight: 22,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: -6,
+    marginBottom: 10,
+    lineHeight: 18,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginBottom: 8,
+  },
+  csvInput: {
+    minHeight: 120,
+    maxHeight: 200,
+    borderWidth: 1,
+    borderColor: theme.inputBorder,
+    borderRadius: 12,
+    backgroundColor: theme.inputBackground,
+    padding: 12,
+    fontSize: 13,
+    color: theme.textPrimary,
+    marginBottom: 16,
+  },
+  optionGroup: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  optionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderWidth: 2,
+    borderColor: theme.border,
+    borderRadius: 12,
+    backgroundColor: theme.surface,
+  },
+  optionButtonSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '10',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.textSecondary,
+  },
+  optionLabelSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  optionExample: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  errorList: {
+    marginTop: 12,
+  },
+  errorTitle: {
+    fontSize: 13,
+    color: theme.warning,
+    marginBottom: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    lineHeight: 18,
+  },
+  startOver: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  startOverText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  mappingRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  mappingName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.textPrimary,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+    backgroundColor: theme.surface,
+  },
+  chipSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '15',
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  chipTextSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  reviewLabel: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  reviewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  importButton: {
+    marginTop: 12,
+  },
+});
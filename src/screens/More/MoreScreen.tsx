@@ -47,6 +47,15 @@ const MENU_ITEMS: MenuItem[] = [
     colorKey: 'info',
     enabled: true,
   },
+  {
+    id: 'history',
+    title: 'History',
+    subtitle: 'Browse and filter all past sessions',
+    icon: 'format-list-bulleted',
+    screen: 'History',
+    colorKey: 'info',
+    enabled: true,
+  },
   {
     id: 'backup',
     title: 'Backup & Restore',
@@ -56,6 +65,15 @@ const MENU_ITEMS: MenuItem[] = [
     colorKey: 'primary',
     enabled: true,
   },
+  {
+    id: 'trash',
+    title: 'Trash',
+    subtitle: 'Restore or permanently delete removed items',
+    icon: 'delete-restore',
+    screen: 'Trash',
+    colorKey: 'gray500',
+    enabled: true,
+  },
   {
     id: 'settings',
     title: 'Settings',
@@ -9,15 +9,23 @@ import {
   Alert,
   RefreshControl,
   Dimensions,
+  TextInput,
 } from 'react-native';
 import { PieChart } from 'react-native-chart-kit';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, useFocusEffect, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../../contexts/ThemeContext';
-import { Card } from '../../components/common';
-import { SessionWithDetails, RootStackParamList } from '../../types';
-import { getSessionsForDay, deleteSession, updateSession, getTotalMinutesByCategory } from '../../database/repositories/sessionRepository';
-import { getDayStart, getDayEnd } from '../../utils/dateUtils';
+import { Card, NotesInput } from '../../components/common';
+import TagPicker from '../../components/tag/TagPicker';
+import { SessionWithDetails, SessionPause, RootStackParamList, Tag } from '../../types';
+import { getSessionsForDay, getTotalMinutesByCategory, searchSessions } from '../../database/repositories/sessionRepository';
+import { createTag, getAllTags, getTagsForSessions, setSessionTags } from '../../database/repositories/tagRepository';
+import { getPausesForSessions } from '../../database/repositories/sessionPauseRepository';
+import { getDayStart, getDayEnd, getNextDay, getPreviousDay, isDateToday, isDateYesterday } from '../../utils/dateUtils';
+import { detectSessionOverlaps } from '../../utils/overlapUtils';
+import { useSessionStore } from '../../store/sessionStore';
+import { useUndoStore } from '../../store/undoStore';
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -40,31 +48,55 @@ interface CategoryStats {
   color: string;
 }
 import { formatDuration, formatTime } from '../../utils/dateUtils';
-import { addDays, subDays, format, isToday, isYesterday } from 'date-fns';
+import { format } from 'date-fns';
 
 type ReviewRouteProp = RouteProp<RootStackParamList, 'Review'>;
 
 export default function ReviewScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const route = useRoute<ReviewRouteProp>();
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
+  const { deleteSession, updateSession } = useSessionStore();
+  const undoCount = useUndoStore(state => state.undoCount);
   
-  const [currentDate, setCurrentDate] = useState(() => {
-    if (route.params?.date) {
-      return new Date(route.params.date);
-    }
-    return new Date();
-  });
+  // The start of the logical day under review, which may be after midnight
+  const [currentDate, setCurrentDate] = useState(() => getDayStart(route.params?.date ?? new Date()));
   const [sessions, setSessions] = useState<SessionWithDetails[]>([]);
+  const [pausesBySession, setPausesBySession] = useState<Map<string, SessionPause[]>>(new Map());
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SessionWithDetails[] | null>(null);
+  const isSearching = searchQuery.trim().length > 0;
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [tagsBySession, setTagsBySession] = useState<Map<string, Tag[]>>(new Map());
+  const [editingTagsFor, setEditingTagsFor] = useState<string | null>(null);
+  const visibleSessions = useMemo(
+    () => (isSearching ? searchResults ?? [] : sessions),
+    [isSearching, searchResults, sessions]
+  );
+
+  // Sessions of parallel timers that cover the same time of the day
+  const overlaps = useMemo(
+    () => detectSessionOverlaps(sessions, pausesBySession, {
+      from: getDayStart(currentDate),
+      to: getDayEnd(currentDate),
+    }),
+    [sessions, pausesBySession, currentDate]
+  );
+  const overlappingIds = useMemo(
+    () => new Set(overlaps.overlappingSessionIds),
+    [overlaps]
+  );
 
   const loadSessions = useCallback(async () => {
     try {
       const data = await getSessionsForDay(currentDate);
+      const pauses = await getPausesForSessions(data.map(session => session.id));
       setSessions(data);
+      setPausesBySession(pauses);
       
       // Load category breakdown for pie chart
       const start = getDayStart(currentDate);
@@ -85,34 +117,82 @@ export default function ReviewScreen() {
     }
   }, [currentDate]);
 
+  // Reload on focus too, so reverts made in a session's history show up
+  useFocusEffect(
+    useCallback(() => {
+      setLoading(true);
+      loadSessions();
+    }, [loadSessions])
+  );
+
+  // Pick up changes taken back from the undo snackbar
   useEffect(() => {
-    setLoading(true);
-    loadSessions();
-  }, [loadSessions]);
+    if (undoCount > 0) {
+      loadSessions();
+    }
+  }, [undoCount, loadSessions]);
 
-  const onRefresh = useCallback(() => {
+  const runSearch = useCallback(async () => {
+    try {
+      setSearchResults(await searchSessions(searchQuery));
+    } catch (error) {
+      console.error('Error searching sessions:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults(null);
+      return;
+    }
+    // Wait for a pause in typing before querying
+    const timeout = setTimeout(runSearch, 300);
+    return () => clearTimeout(timeout);
+  }, [isSearching, runSearch]);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const [tags, sessionTags] = await Promise.all([
+        getAllTags(),
+        getTagsForSessions(visibleSessions.map(session => session.id)),
+      ]);
+      setAllTags(tags);
+      setTagsBySession(sessionTags);
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  }, [visibleSessions]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const reload = () => (isSearching ? runSearch() : loadSessions());
+
+  const onRefresh = () => {
     setRefreshing(true);
-    loadSessions();
-  }, [loadSessions]);
+    reload();
+  };
 
   const goToPreviousDay = () => {
-    setCurrentDate(prev => subDays(prev, 1));
+    setCurrentDate(prev => getDayStart(getPreviousDay(prev)));
   };
 
   const goToNextDay = () => {
-    const tomorrow = addDays(new Date(), 1);
-    if (addDays(currentDate, 1) <= tomorrow) {
-      setCurrentDate(prev => addDays(prev, 1));
+    if (!isDateToday(currentDate)) {
+      setCurrentDate(prev => getDayStart(getNextDay(prev)));
     }
   };
 
   const goToToday = () => {
-    setCurrentDate(new Date());
+    setCurrentDate(getDayStart());
   };
 
   const getDateLabel = () => {
-    if (isToday(currentDate)) return 'Today';
-    if (isYesterday(currentDate)) return 'Yesterday';
+    if (isDateToday(currentDate)) return 'Today';
+    if (isDateYesterday(currentDate)) return 'Yesterday';
     return format(currentDate, 'EEEE, MMM d');
   };
 
@@ -123,7 +203,7 @@ export default function ReviewScreen() {
   const handleDeleteSession = (session: SessionWithDetails) => {
     Alert.alert(
       'Delete Session',
-      `Delete "${session.activityNameSnapshot}" session?`,
+      `Move the "${session.activityNameSnapshot}" session to the trash? You can restore it from More → Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -132,7 +212,7 @@ export default function ReviewScreen() {
           onPress: async () => {
             try {
               await deleteSession(session.id);
-              loadSessions();
+              reload();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete session');
             }
@@ -145,18 +225,47 @@ export default function ReviewScreen() {
   const handleTogglePlanned = async (session: SessionWithDetails) => {
     try {
       await updateSession(session.id, { isPlanned: !session.isPlanned });
-      loadSessions();
+      reload();
     } catch (error) {
       Alert.alert('Error', 'Failed to update session');
     }
   };
 
+  const handleSaveNotes = async (session: SessionWithDetails, notes: string) => {
+    try {
+      await updateSession(session.id, { notes });
+      reload();
+    } catch (error) {
+      console.error('Error saving session notes:', error);
+      Alert.alert('Error', 'Failed to save the note');
+    }
+  };
+
+  const handleSetTags = async (session: SessionWithDetails, tagIds: string[]) => {
+    try {
+      await setSessionTags(session.id, tagIds);
+      loadTags();
+    } catch (error) {
+      console.error('Error saving session tags:', error);
+      Alert.alert('Error', 'Failed to update tags');
+    }
+  };
+
+  const handleCreateTag = async (name: string) => {
+    const tag = await createTag({ name });
+    setAllTags(await getAllTags());
+    return tag;
+  };
+
   const renderSessionItem = ({ item }: { item: SessionWithDetails }) => {
     const startTime = new Date(item.startTime);
     const endTime = item.endTime ? new Date(item.endTime) : null;
+    const tags = tagsBySession.get(item.id) ?? [];
+    const isEditingTags = editingTagsFor === item.id;
+    const isOverlapping = overlappingIds.has(item.id);
 
     return (
-      <Card style={styles.sessionCard}>
+      <Card style={[styles.sessionCard, isOverlapping && styles.sessionCardOverlap]}>
         <View style={styles.sessionRow}>
           <View style={[styles.colorBar, { backgroundColor: item.categoryColor || theme.gray400 }]} />
           <View style={styles.sessionInfo}>
@@ -166,6 +275,22 @@ export default function ReviewScreen() {
             <Text style={styles.categoryName}>{item.categoryNameSnapshot}</Text>
           </View>
           <View style={styles.sessionActions}>
+            <TouchableOpacity
+              style={styles.actionBtn}
+              onPress={() => navigation.navigate('SessionHistory', { sessionId: item.id })}
+            >
+              <Icon name="history" size={20} color={theme.gray400} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionBtn}
+              onPress={() => setEditingTagsFor(isEditingTags ? null : item.id)}
+            >
+              <Icon
+                name={isEditingTags ? 'tag' : 'tag-outline'}
+                size={20}
+                color={isEditingTags ? theme.primary : theme.gray400}
+              />
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.actionBtn}
               onPress={() => handleTogglePlanned(item)}
@@ -189,6 +314,7 @@ export default function ReviewScreen() {
           <View style={styles.timeRange}>
             <Icon name="clock-outline" size={16} color={theme.textSecondary} />
             <Text style={styles.timeText}>
+              {isSearching && `${format(startTime, 'MMM d')}, `}
               {format(startTime, 'HH:mm')} – {endTime ? format(endTime, 'HH:mm') : 'ongoing'}
             </Text>
           </View>
@@ -208,7 +334,34 @@ export default function ReviewScreen() {
           <View style={styles.tag}>
             <Text style={styles.tagText}>{item.source}</Text>
           </View>
+          {isOverlapping && (
+            <View style={[styles.tag, styles.tagOverlap]}>
+              <Text style={[styles.tagText, styles.tagTextOverlap]}>Overlaps</Text>
+            </View>
+          )}
+          {!isEditingTags && tags.map(tag => (
+            <View key={tag.id} style={[styles.tag, { backgroundColor: tag.color + '20' }]}>
+              <Text style={[styles.tagText, { color: tag.color }]}>#{tag.name}</Text>
+            </View>
+          ))}
         </View>
+
+        {isEditingTags && (
+          <View style={styles.tagPicker}>
+            <TagPicker
+              tags={allTags}
+              selectedTagIds={tags.map(tag => tag.id)}
+              onChange={tagIds => handleSetTags(item, tagIds)}
+              onCreateTag={handleCreateTag}
+            />
+          </View>
+        )}
+
+        <NotesInput
+          value={item.notes}
+          onSave={notes => handleSaveNotes(item, notes)}
+          style={styles.notes}
+        />
       </Card>
     );
   };
@@ -224,6 +377,17 @@ export default function ReviewScreen() {
     </View>
   );
 
+  const renderNoMatches = () => (
+    <View style={styles.emptyState}>
+      <Icon name="text-search" size={64} color={theme.gray300} />
+      <Text style={styles.emptyTitle}>No Matches</Text>
+      <Text style={styles.emptySubtitle}>
+        No session notes, activities or categories{'\n'}
+        contain "{searchQuery.trim()}".
+      </Text>
+    </View>
+  );
+
   const renderDayStats = () => (
     <View style={styles.statsRow}>
       <View style={styles.statItem}>
@@ -242,6 +406,17 @@ export default function ReviewScreen() {
         </Text>
         <Text style={styles.statLabel}>Planned</Text>
       </View>
+      {overlaps.doubleCountedMinutes > 0 && (
+        <>
+          <View style={styles.statDivider} />
+          <View style={styles.statItem}>
+            <Text style={[styles.statValue, styles.statValueOverlap]}>
+              {formatDuration(overlaps.doubleCountedMinutes)}
+            </Text>
+            <Text style={styles.statLabel}>Overlapping</Text>
+          </View>
+        </>
+      )}
     </View>
   );
 
@@ -259,21 +434,40 @@ export default function ReviewScreen() {
         <TouchableOpacity 
           onPress={goToNextDay} 
           style={styles.navButton}
-          disabled={isToday(currentDate)}
+          disabled={isDateToday(currentDate)}
         >
           <Icon 
             name="chevron-right" 
             size={28} 
-            color={isToday(currentDate) ? theme.gray300 : theme.primary} 
+            color={isDateToday(currentDate) ? theme.gray300 : theme.primary} 
           />
         </TouchableOpacity>
       </View>
 
+      {/* Search */}
+      <View style={styles.searchBar}>
+        <Icon name="magnify" size={20} color={theme.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search notes and activities"
+          placeholderTextColor={theme.inputPlaceholder}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {isSearching && (
+          <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <Icon name="close-circle" size={18} color={theme.textTertiary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
       {/* Day Stats */}
-      {!loading && sessions.length > 0 && renderDayStats()}
+      {!isSearching && !loading && sessions.length > 0 && renderDayStats()}
 
       {/* Category Pie Chart */}
-      {!loading && categoryStats.length > 0 && (
+      {!isSearching && !loading && categoryStats.length > 0 && (
         <Card style={styles.chartCard}>
           <Text style={styles.chartTitle}>Category Breakdown</Text>
           <PieChart
@@ -299,11 +493,17 @@ export default function ReviewScreen() {
 
       {/* Sessions List */}
       <FlatList
-        data={sessions}
+        data={visibleSessions}
+        extraData={[tagsBySession, editingTagsFor, overlappingIds]}
         keyExtractor={(item) => item.id}
         renderItem={renderSessionItem}
         contentContainerStyle={styles.listContent}
-        ListEmptyComponent={!loading ? renderEmptyState : null}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          isSearching
+            ? searchResults !== null ? renderNoMatches : null
+            : !loading ? renderEmptyState : null
+        }
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[theme.primary]} />
         }
@@ -343,6 +543,25 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
     color: theme.textSecondary,
     marginTop: 2,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: theme.inputBorder,
+    borderRadius: 12,
+    backgroundColor: theme.inputBackground,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    padding: 0,
+    fontSize: 15,
+    color: theme.textPrimary,
+  },
   statsRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -355,6 +574,9 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
   statItem: {
     alignItems: 'center',
   },
+  statValueOverlap: {
+    color: theme.warning,
+  },
   statValue: {
     fontSize: 20,
     fontWeight: '700',
@@ -377,6 +599,10 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
   sessionCard: {
     marginBottom: 12,
   },
+  sessionCardOverlap: {
+    borderWidth: 1,
+    borderColor: theme.warning,
+  },
   sessionRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -448,6 +674,7 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
   },
   sessionTags: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
   tag: {
@@ -473,6 +700,18 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet
   tagTextUnplanned: {
     color: theme.unplanned,
   },
+  tagOverlap: {
+    backgroundColor: theme.warning + '20',
+  },
+  tagTextOverlap: {
+    color: theme.warning,
+  },
+  tagPicker: {
+    marginTop: 10,
+  },
+  notes: {
+    marginTop: 10,
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
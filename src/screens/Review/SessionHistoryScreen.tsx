@@ -0,0 +1,299 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { RouteProp, useFocusEffect, useRoute } from '@react-navigation/native';
+import { format } from 'date-fns';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Card } from '../../components/common';
+import {
+  RootStackParamList,
+  SessionRevision,
+  SessionRevisionSource,
+  TimeSession,
+} from '../../types';
+import { getSessionById, revertSessionToRevision } from '../../database/repositories/sessionRepository';
+import {
+  RevisableSessionField,
+  getChangedSessionFields,
+  getSessionRevisions,
+} from '../../database/repositories/sessionRevisionRepository';
+import { formatDuration } from '../../utils/dateUtils';
+
+type SessionHistoryRouteProp = RouteProp<RootStackParamList, 'SessionHistory'>;
+
+const SOURCE_LABELS: Record<SessionRevisionSource, string> = {
+  update: 'Edited',
+  split: 'Split',
+  stop: 'Timer stopped',
+  delete: 'Moved to trash',
+  restore: 'Restored from trash',
+  revert: 'Reverted',
+};
+
+const SOURCE_ICONS: Record<SessionRevisionSource, string> = {
+  update: 'pencil-outline',
+  split: 'call-split',
+  stop: 'stop-circle-outline',
+  delete: 'delete-outline',
+  restore: 'delete-restore',
+  revert: 'undo-variant',
+};
+
+// Ids change together with the names shown next to them, so only the names are listed
+const DISPLAYED_FIELDS: Partial<Record<RevisableSessionField, string>> = {
+  activityNameSnapshot: 'Activity',
+  categoryNameSnapshot: 'Category',
+  startTime: 'Start',
+  endTime: 'End',
+  actualDurationMinutes: 'Duration',
+  expectedDurationMinutes: 'Expected',
+  isPlanned: 'Planned',
+  notes: 'Notes',
+};
+
+function formatFieldValue(field: RevisableSessionField, session: TimeSession | null): string {
+  const value = session?.[field] ?? null;
+  if (value === null || value === '') {
+    return '—';
+  }
+  switch (field) {
+    case 'startTime':
+    case 'endTime':
+      return format(new Date(value as string), 'MMM d, HH:mm');
+    case 'actualDurationMinutes':
+    case 'expectedDurationMinutes':
+      return formatDuration(value as number);
+    case 'isPlanned':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
+
+export default function SessionHistoryScreen() {
+  const route = useRoute<SessionHistoryRouteProp>();
+  const { sessionId } = route.params;
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [session, setSession] = useState<TimeSession | null>(null);
+  const [revisions, setRevisions] = useState<SessionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const [current, history] = await Promise.all([
+        getSessionById(sessionId),
+        getSessionRevisions(sessionId),
+      ]);
+      setSession(current);
+      setRevisions(history);
+    } catch (error) {
+      console.error('Error loading session history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory])
+  );
+
+  const handleRevert = (revision: SessionRevision) => {
+    Alert.alert(
+      'Revert Session',
+      `Restore the session as it was before this change on ${format(
+        new Date(revision.createdAt),
+        'MMM d, HH:mm'
+      )}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          onPress: async () => {
+            try {
+              await revertSessionToRevision(revision.id);
+              loadHistory();
+            } catch (error) {
+              console.error('Error reverting session:', error);
+              Alert.alert('Error', (error as Error).message || 'Failed to revert the session');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRevision = ({ item }: { item: SessionRevision }) => {
+    const changedFields = getChangedSessionFields(item.before, item.after).filter(
+      field => DISPLAYED_FIELDS[field] !== undefined
+    );
+    // Only changes to a session that still exists, from an earlier version, can be reverted
+    const canRevert = session !== null && item.before !== null && item.after !== null;
+
+    return (
+      <Card style={styles.revisionCard}>
+        <View style={styles.revisionHeader}>
+          <Icon name={SOURCE_ICONS[item.source]} size={20} color={theme.primary} />
+          <View style={styles.revisionTitle}>
+            <Text style={styles.sourceLabel}>{SOURCE_LABELS[item.source]}</Text>
+            <Text style={styles.revisionTime}>
+              {format(new Date(item.createdAt), 'MMM d, yyyy HH:mm')}
+            </Text>
+          </View>
+          {canRevert && (
+            <TouchableOpacity style={styles.revertButton} onPress={() => handleRevert(item)}>
+              <Icon name="undo" size={16} color={theme.primary} />
+              <Text style={styles.revertText}>Revert</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {item.before && item.after && changedFields.map(field => (
+          <View key={field} style={styles.changeRow}>
+            <Text style={styles.fieldLabel}>{DISPLAYED_FIELDS[field]}</Text>
+            <Text style={styles.changeText} numberOfLines={2}>
+              <Text style={styles.oldValue}>{formatFieldValue(field, item.before)}</Text>
+              {'  →  '}
+              {formatFieldValue(field, item.after)}
+            </Text>
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon name="history" size={64} color={theme.gray300} />
+      <Text style={styles.emptyTitle}>No Changes Yet</Text>
+      <Text style={styles.emptySubtitle}>Edits to this session will be listed here.</Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.listContent}
+      data={revisions}
+      keyExtractor={item => item.id}
+      renderItem={renderRevision}
+      ListHeaderComponent={
+        session ? (
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>{session.activityNameSnapshot}</Text>
+            <Text style={styles.headerSubtitle}>
+              {format(new Date(session.startTime), 'EEEE, MMM d · HH:mm')}
+              {session.actualDurationMinutes !== null &&
+                ` · ${formatDuration(session.actualDurationMinutes)}`}
+            </Text>
+          </View>
+        ) : null
+      }
+      ListEmptyComponent={!loading ? renderEmptyState : null}
+    />
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: theme.textPrimary,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginTop: 4,
+  },
+  revisionCard: {
+    marginBottom: 12,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  revisionTitle: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  sourceLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  revisionTime: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: theme.primary + '15',
+  },
+  revertText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  fieldLabel: {
+    width: 76,
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  changeText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.textPrimary,
+  },
+  oldValue: {
+    color: theme.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -76,7 +76,7 @@ export default function RoutinesScreen() {
   const handleDeleteRoutine = (routine: Routine) => {
     Alert.alert(
       'Delete Routine',
-      `Are you sure you want to delete "${routine.name}"?`,
+      `Move "${routine.name}" to the trash? You can restore it from More → Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
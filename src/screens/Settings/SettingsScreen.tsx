@@ -14,16 +14,96 @@ import { Card } from '../../components/common';
 import { AppSettings, DEFAULT_SETTINGS } from '../../types';
 import { getSetting, setSetting, getAllSettings } from '../../database/repositories/settingsRepository';
 import { scheduleRoutineStartReminders, syncLongSessionReminders } from '../../services/notificationService';
+import { parseDayStartTime, setDayStartMinutes } from '../../utils/dateUtils';
+import { getDeviceTimeZone, setHomeTimeZone, setTimeZoneView } from '../../utils/timeZoneUtils';
 
 interface SettingItem {
   key: keyof AppSettings;
   title: string;
   subtitle: string;
   icon: string;
-  type: 'switch' | 'number' | 'time';
+  type: 'switch' | 'number' | 'time' | 'choice';
 }
 
+interface SettingChoice {
+  label: string;
+  value: string | null;
+}
+
+// Night owls usually end their day a few hours after midnight
+const DAY_START_OPTIONS = ['00:00', '01:00', '02:00', '03:00', '04:00', '05:00', '06:00'];
+
+const CHOICE_OPTIONS: Partial<Record<keyof AppSettings, () => SettingChoice[]>> = {
+  timerConcurrency: () => [
+    { label: 'Parallel', value: 'parallel' },
+    { label: 'Exclusive', value: 'exclusive' },
+    { label: 'Exclusive per category', value: 'exclusive_category' },
+  ],
+  timeZoneView: () => [
+    { label: 'As experienced locally', value: 'local' },
+    { label: 'In home time zone', value: 'home' },
+  ],
+  homeTimeZone: () => [
+    { label: `Current (${getDeviceTimeZone()})`, value: getDeviceTimeZone() },
+    { label: 'Follow device', value: null },
+  ],
+};
+
+const getChoiceLabel = (key: keyof AppSettings, value: unknown): string => {
+  if (key === 'homeTimeZone' && !value) {
+    return 'Device';
+  }
+  return CHOICE_OPTIONS[key]?.().find(option => option.value === value)?.label ?? String(value);
+};
+
 const SETTINGS_CONFIG: { section: string; items: SettingItem[] }[] = [
+  {
+    section: 'Tracking',
+    items: [
+      {
+        key: 'dayStartTime',
+        title: 'Day Starts At',
+        subtitle: 'Time before this counts towards the previous day',
+        icon: 'weather-night',
+        type: 'time',
+      },
+      {
+        key: 'timerConcurrency',
+        title: 'Running Timers',
+        subtitle: 'Whether starting a timer stops the others',
+        icon: 'timer-sand',
+        type: 'choice',
+      },
+      {
+        key: 'defaultIdlePromptEnabled',
+        title: 'Idle Prompts',
+        subtitle: 'Ask about time away from the app for new timers',
+        icon: 'sleep',
+        type: 'switch',
+      },
+      {
+        key: 'idleThresholdMinutes',
+        title: 'Idle After',
+        subtitle: 'Minutes away before asking about the time',
+        icon: 'timer-pause-outline',
+        type: 'number',
+      },
+      {
+        key: 'timeZoneView',
+        title: 'Report Days',
+        subtitle: 'Group travel by the local time or the time at home',
+        icon: 'earth',
+        type: 'choice',
+      },
+      {
+        key: 'homeTimeZone',
+        title: 'Home Time Zone',
+        subtitle: 'Used when reports follow the time at home',
+        icon: 'home-clock',
+        type: 'choice',
+      },
+    ],
+  },
   {
     section: 'Notifications',
     items: [
@@ -113,6 +193,8 @@ export default function SettingsScreen() {
             loaded[key] = value === 'true' || value === '1';
           } else if (typeof defaultValue === 'number') {
             loaded[key] = parseInt(value, 10) || defaultValue;
+          } else if (defaultValue === null) {
+            loaded[key] = value || null;
           } else {
             loaded[key] = value;
           }
@@ -129,9 +211,18 @@ export default function SettingsScreen() {
 
   const updateSetting = async (key: keyof AppSettings, value: any) => {
     try {
-      await setSetting(key, String(value));
+      await setSetting(key, value === null ? '' : String(value));
       setSettings(prev => ({ ...prev, [key]: value }));
-      if (key === 'notificationsEnabled' || key === 'reminderRoutineStart') {
+      if (key === 'dayStartTime') {
+        setDayStartMinutes(parseDayStartTime(value));
+      }
+      if (key === 'timeZoneView') {
+        setTimeZoneView(value);
+      }
+      if (key === 'homeTimeZone') {
+        setHomeTimeZone(value);
+      }
+      if (key === 'notificationsEnabled' || key === 'reminderRoutineStart' || key === 'dayStartTime') {
         scheduleRoutineStartReminders().catch(err =>
           console.warn('[Routine] Failed to reschedule reminders from settings:', err)
         );
@@ -159,6 +250,8 @@ export default function SettingsScreen() {
       options = [1, 2, 5, 10, 15, 30, 60];
     } else if (key === 'longSessionThresholdMinutes') {
       options = [30, 60, 90];
+    } else if (key === 'idleThresholdMinutes') {
+      options = [5, 10, 15, 30, 60];
     } else {
       options = [30, 60, 90, 120, 180];
     }
@@ -176,6 +269,35 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleTimeSetting = (key: keyof AppSettings, currentValue: string) => {
+    Alert.alert(
+      'Select Time',
+      'Choose when a new day begins:',
+      [
+        ...DAY_START_OPTIONS.map(time => ({
+          text: time + (currentValue === time ? ' ✓' : ''),
+          onPress: () => updateSetting(key, time),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleChoiceSetting = (item: SettingItem, currentValue: unknown) => {
+    const options = CHOICE_OPTIONS[item.key]?.() ?? [];
+    Alert.alert(
+      item.title,
+      item.subtitle,
+      [
+        ...options.map(option => ({
+          text: option.label + (option.value === (currentValue ?? null) ? ' ✓' : ''),
+          onPress: () => updateSetting(item.key, option.value),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const handleThemeChange = () => {
     const options: { text: string; mode: ThemeMode }[] = [
       { text: 'Light', mode: 'light' },
@@ -249,6 +371,50 @@ export default function SettingsScreen() {
       );
     }
 
+    if (item.type === 'time') {
+      return (
+        <TouchableOpacity
+          key={item.key}
+          style={[styles.settingRow, { borderBottomColor: theme.border }]}
+          onPress={() => handleTimeSetting(item.key, value as string)}
+        >
+          <View style={[styles.settingIcon, { backgroundColor: theme.primary + '15' }]}>
+            <Icon name={item.icon} size={22} color={theme.primary} />
+          </View>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingTitle, { color: theme.textPrimary }]}>{item.title}</Text>
+            <Text style={[styles.settingSubtitle, { color: theme.textSecondary }]}>{item.subtitle}</Text>
+          </View>
+          <View style={styles.settingValue}>
+            <Text style={[styles.settingValueText, { color: theme.textSecondary }]}>{value}</Text>
+            <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.type === 'choice') {
+      return (
+        <TouchableOpacity
+          key={item.key}
+          style={[styles.settingRow, { borderBottomColor: theme.border }]}
+          onPress={() => handleChoiceSetting(item, value)}
+        >
+          <View style={[styles.settingIcon, { backgroundColor: theme.primary + '15' }]}>
+            <Icon name={item.icon} size={22} color={theme.primary} />
+          </View>
+          <View style={styles.settingText}>
+            <Text style={[styles.settingTitle, { color: theme.textPrimary }]}>{item.title}</Text>
+            <Text style={[styles.settingSubtitle, { color: theme.textSecondary }]}>{item.subtitle}</Text>
+          </View>
+          <View style={styles.settingValue}>
+            <Text style={[styles.settingValueText, { color: theme.textSecondary }]}>{getChoiceLabel(item.key, value)}</Text>
+            <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
     return null;
   };
 
@@ -264,9 +430,12 @@ export default function SettingsScreen() {
           onPress: async () => {
             try {
               for (const [key, value] of Object.entries(DEFAULT_SETTINGS)) {
-                await setSetting(key, String(value));
+                await setSetting(key, value === null ? '' : String(value));
               }
               setSettings(DEFAULT_SETTINGS);
+              setDayStartMinutes(parseDayStartTime(DEFAULT_SETTINGS.dayStartTime));
+              setTimeZoneView(DEFAULT_SETTINGS.timeZoneView);
+              setHomeTimeZone(DEFAULT_SETTINGS.homeTimeZone);
               Alert.alert('Success', 'Settings have been reset to defaults');
             } catch (error) {
               Alert.alert('Error', 'Failed to reset settings');
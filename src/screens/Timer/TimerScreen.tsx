@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, Alert } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
 import { useTimerStore } from '../../store/timerStore';
@@ -8,7 +8,15 @@ import Button from '../../components/common/Button';
 import TimerCard from '../../components/timer/TimerCard';
 
 export default function TimerScreen() {
-  const { runningTimers, loadRunningTimers, stopTimer, stopAllTimers } = useTimerStore();
+  const {
+    runningTimers,
+    loadRunningTimers,
+    stopTimer,
+    pauseTimer,
+    resumeTimer,
+    stopAllTimers,
+    updateTimerNotes,
+  } = useTimerStore();
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   const [loading, setLoading] = useState(true);
@@ -28,6 +36,15 @@ export default function TimerScreen() {
     setStopAllLoading(false);
   };
 
+  const handleNotesChange = async (timerId: string, notes: string) => {
+    try {
+      await updateTimerNotes(timerId, notes);
+    } catch (error) {
+      console.error('Error saving timer notes:', error);
+      Alert.alert('Error', 'Failed to save the note');
+    }
+  };
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.header}>
@@ -61,6 +78,9 @@ export default function TimerScreen() {
             key={timer.id}
             timer={timer}
             onStop={() => stopTimer(timer.id)}
+            onPause={() => pauseTimer(timer.id)}
+            onResume={() => resumeTimer(timer.id)}
+            onNotesChange={notes => handleNotesChange(timer.id, notes)}
           />
         ))
       )}
@@ -0,0 +1,324 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useFocusEffect } from '@react-navigation/native';
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Card, Button } from '../../components/common';
+import { TrashItem, TrashItemType } from '../../types';
+import {
+  emptyTrash,
+  getTrashItems,
+  getTrashRetentionDays,
+  purgeTrashItem,
+  restoreTrashItem,
+  saveTrashRetentionDays,
+} from '../../services/trashService';
+import { useActivityStore } from '../../store/activityStore';
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+const TYPE_ICONS: Record<TrashItemType, string> = {
+  session: 'timer-outline',
+  activity: 'shape-outline',
+  routine: 'calendar-clock',
+};
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  session: 'Session',
+  activity: 'Activity',
+  routine: 'Routine',
+};
+
+export default function TrashScreen() {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { loadActivities } = useActivityStore();
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const [trashItems, days] = await Promise.all([getTrashItems(), getTrashRetentionDays()]);
+      setItems(trashItems);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadTrash();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      setRetentionDays(await saveTrashRetentionDays(days));
+    } catch (error) {
+      console.error('Error saving trash retention:', error);
+      Alert.alert('Error', 'Failed to save the setting');
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreTrashItem(item);
+      if (item.type === 'activity') {
+        await loadActivities();
+      }
+      loadTrash();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      Alert.alert('Error', `Failed to restore "${item.title}"`);
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete "${item.title}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeTrashItem(item);
+              loadTrash();
+            } catch (error) {
+              console.error('Error purging item:', error);
+              Alert.alert('Error', `Failed to delete "${item.title}"`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${items.length} items? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              loadTrash();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Error', 'Failed to empty the trash');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getExpiryLabel = (item: TrashItem) => {
+    if (retentionDays === null) {
+      return '';
+    }
+    const daysLeft = retentionDays - differenceInCalendarDays(new Date(), new Date(item.deletedAt));
+    return daysLeft <= 1 ? ' · deleted forever within a day' : ` · deleted forever in ${daysLeft} days`;
+  };
+
+  const renderHeader = () => (
+    <Card style={styles.settingsCard}>
+      <Text style={styles.settingsTitle}>Keep deleted items for</Text>
+      <View style={styles.optionRow}>
+        {RETENTION_OPTIONS.map(days => (
+          <TouchableOpacity
+            key={days}
+            style={[styles.option, retentionDays === days && styles.optionSelected]}
+            onPress={() => handleRetentionChange(days)}
+          >
+            <Text style={[styles.optionText, retentionDays === days && styles.optionTextSelected]}>
+              {days} days
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {items.length > 0 && (
+        <Button
+          title="Empty Trash"
+          onPress={handleEmptyTrash}
+          variant="danger"
+          style={styles.emptyButton}
+        />
+      )}
+    </Card>
+  );
+
+  const renderItem = ({ item }: { item: TrashItem }) => (
+    <Card style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <Icon name={TYPE_ICONS[item.type]} size={24} color={theme.textSecondary} />
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemTitle} numberOfLines={1}>
+            {item.title}
+          </Text>
+          <Text style={styles.itemSubtitle} numberOfLines={1}>
+            {TYPE_LABELS[item.type]} · {item.subtitle}
+          </Text>
+          <Text style={styles.itemDeleted}>
+            Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+            {getExpiryLabel(item)}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.actionBtn} onPress={() => handleRestore(item)}>
+          <Icon name="restore" size={22} color={theme.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionBtn} onPress={() => handlePurge(item)}>
+          <Icon name="delete-forever-outline" size={22} color={theme.error} />
+        </TouchableOpacity>
+      </View>
+    </Card>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon name="delete-empty-outline" size={64} color={theme.gray300} />
+      <Text style={styles.emptyTitle}>Trash is Empty</Text>
+      <Text style={styles.emptySubtitle}>
+        Deleted sessions, activities and routines{'\n'}
+        can be restored from here.
+      </Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.listContent}
+      data={items}
+      keyExtractor={item => `${item.type}-${item.id}`}
+      renderItem={renderItem}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={!loading ? renderEmptyState : null}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[theme.primary]} />
+      }
+    />
+  );
+}
+
+const createStyles = (theme: ReturnType<typeof useTheme>['theme']) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  settingsCard: {
+    marginBottom: 16,
+  },
+  settingsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  optionSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '15',
+  },
+  optionText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  optionTextSelected: {
+    color: theme.primary,
+    fontWeight: '600',
+  },
+  emptyButton: {
+    marginTop: 16,
+  },
+  itemCard: {
+    marginBottom: 12,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.textPrimary,
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  itemDeleted: {
+    fontSize: 12,
+    color: theme.textTertiary,
+    marginTop: 4,
+  },
+  actionBtn: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.textPrimary,
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,237 @@
+// Auto Backup Service - Scheduled local backup snapshots with rotation
+//
+// Snapshots are plain encoded backups written to the app documents directory,
+// so they can be restored through the normal review flow or shared as files.
+
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { differenceInCalendarDays } from 'date-fns';
+import { getSetting, setSetting } from '../database/repositories/settingsRepository';
+import {
+  AutoBackupFrequency,
+  AutoBackupSettings,
+  AutoBackupStatus,
+  BackupSnapshot,
+} from '../types';
+import { createBackup } from './backupService';
+import { encodeBackup } from './backupCodec';
+
+export const BACKUP_DIRECTORY = `${RNFS.DocumentDirectoryPath}/backups`;
+export const MIN_KEEP_COUNT = 1;
+export const MAX_KEEP_COUNT = 30;
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  frequency: 'daily',
+  keepCount: 7,
+};
+
+const SNAPSHOT_PREFIX = 'auto-backup-';
+const SNAPSHOT_PATTERN = /^auto-backup-(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z\.json$/;
+
+const FREQUENCY_DAYS: Record<AutoBackupFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+const SETTING_KEYS = {
+  enabled: 'autoBackupEnabled',
+  frequency: 'autoBackupFrequency',
+  keepCount: 'autoBackupKeepCount',
+  lastSuccessAt: 'autoBackupLastSuccessAt',
+  lastFailureAt: 'autoBackupLastFailureAt',
+  lastError: 'autoBackupLastError',
+  lastManualBackupAt: 'lastManualBackupAt',
+};
+
+// ============================================
+// Settings & Status
+// ============================================
+
+const clampKeepCount = (value: number): number =>
+  Math.min(MAX_KEEP_COUNT, Math.max(MIN_KEEP_COUNT, Math.round(value)));
+
+export async function getAutoBackupSettings(): Promise<AutoBackupSettings> {
+  const [enabled, frequency, keepCount] = await Promise.all([
+    getSetting(SETTING_KEYS.enabled),
+    getSetting(SETTING_KEYS.frequency),
+    getSetting(SETTING_KEYS.keepCount),
+  ]);
+  const parsedKeepCount = keepCount === null ? NaN : parseInt(keepCount, 10);
+
+  return {
+    enabled: enabled === null ? DEFAULT_AUTO_BACKUP_SETTINGS.enabled : enabled === 'true',
+    frequency: frequency === 'weekly' || frequency === 'daily'
+      ? frequency
+      : DEFAULT_AUTO_BACKUP_SETTINGS.frequency,
+    keepCount: isNaN(parsedKeepCount)
+      ? DEFAULT_AUTO_BACKUP_SETTINGS.keepCount
+      : clampKeepCount(parsedKeepCount),
+  };
+}
+
+export async function saveAutoBackupSettings(
+  settings: AutoBackupSettings
+): Promise<AutoBackupSettings> {
+  const saved = { ...settings, keepCount: clampKeepCount(settings.keepCount) };
+  await setSetting(SETTING_KEYS.enabled, saved.enabled ? 'true' : 'false');
+  await setSetting(SETTING_KEYS.frequency, saved.frequency);
+  await setSetting(SETTING_KEYS.keepCount, String(saved.keepCount));
+  return saved;
+}
+
+export async function getAutoBackupStatus(): Promise<AutoBackupStatus> {
+  const [lastSuccessAt, lastFailureAt, lastError] = await Promise.all([
+    getSetting(SETTING_KEYS.lastSuccessAt),
+    getSetting(SETTING_KEYS.lastFailureAt),
+    getSetting(SETTING_KEYS.lastError),
+  ]);
+  return { lastSuccessAt, lastFailureAt, lastError };
+}
+
+export async function getLastManualBackupAt(): Promise<string | null> {
+  return getSetting(SETTING_KEYS.lastManualBackupAt);
+}
+
+export async function recordManualBackup(at: Date = new Date()): Promise<string> {
+  const timestamp = at.toISOString();
+  await setSetting(SETTING_KEYS.lastManualBackupAt, timestamp);
+  return timestamp;
+}
+
+/**
+ * Whether a scheduled backup should run now. Daily backups run once per
+ * calendar day and weekly ones once seven calendar days have passed, so the
+ * time of day the app happens to be opened does not push the schedule back.
+ */
+export function isAutoBackupDue(
+  settings: AutoBackupSettings,
+  lastSuccessAt: string | null,
+  now: Date = new Date()
+): boolean {
+  if (!settings.enabled) {
+    return false;
+  }
+  if (!lastSuccessAt) {
+    return true;
+  }
+  const last = new Date(lastSuccessAt);
+  if (isNaN(last.getTime())) {
+    return true;
+  }
+  return differenceInCalendarDays(now, last) >= FREQUENCY_DAYS[settings.frequency];
+}
+
+// ============================================
+// Snapshots
+// ============================================
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export function snapshotFileName(createdAt: Date): string {
+  const stamp =
+    `${createdAt.getUTCFullYear()}${pad(createdAt.getUTCMonth() + 1)}${pad(createdAt.getUTCDate())}` +
+    `T${pad(createdAt.getUTCHours())}${pad(createdAt.getUTCMinutes())}${pad(createdAt.getUTCSeconds())}Z`;
+  return `${SNAPSHOT_PREFIX}${stamp}.json`;
+}
+
+function parseSnapshotFileName(fileName: string): string | null {
+  const match = SNAPSHOT_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)).toISOString();
+}
+
+/**
+ * Snapshots in the backup directory, newest first. Files that do not follow
+ * the snapshot naming scheme are ignored and never pruned.
+ */
+export async function listBackupSnapshots(): Promise<BackupSnapshot[]> {
+  if (!(await RNFS.exists(BACKUP_DIRECTORY))) {
+    return [];
+  }
+
+  const items = await RNFS.readDir(BACKUP_DIRECTORY);
+  const snapshots: BackupSnapshot[] = [];
+  for (const item of items) {
+    const createdAt = item.isFile() ? parseSnapshotFileName(item.name) : null;
+    if (createdAt) {
+      snapshots.push({ fileName: item.name, path: item.path, createdAt, size: Number(item.size) });
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function pruneBackupSnapshots(keepCount: number): Promise<number> {
+  const snapshots = await listBackupSnapshots();
+  const stale = snapshots.slice(clampKeepCount(keepCount));
+  for (const snapshot of stale) {
+    await RNFS.unlink(snapshot.path);
+  }
+  return stale.length;
+}
+
+/**
+ * Write a full backup snapshot, prune old ones and record the outcome in
+ * settings. Failures are recorded and rethrown.
+ */
+export async function writeBackupSnapshot(
+  keepCount: number,
+  now: Date = new Date()
+): Promise<BackupSnapshot> {
+  try {
+    const backup = await createBackup();
+    const contents = encodeBackup(backup);
+    const fileName = snapshotFileName(now);
+    const path = `${BACKUP_DIRECTORY}/${fileName}`;
+
+    await RNFS.mkdir(BACKUP_DIRECTORY);
+    await RNFS.writeFile(path, contents, 'utf8');
+    await pruneBackupSnapshots(keepCount);
+    await setSetting(SETTING_KEYS.lastSuccessAt, now.toISOString());
+
+    return { fileName, path, createdAt: parseSnapshotFileName(fileName)!, size: contents.length };
+  } catch (error) {
+    await setSetting(SETTING_KEYS.lastFailureAt, now.toISOString());
+    await setSetting(SETTING_KEYS.lastError, (error as Error).message || String(error));
+    throw error;
+  }
+}
+
+let runningBackup: Promise<BackupSnapshot | null> | null = null;
+
+/**
+ * Write a snapshot when one is due. Called on launch and whenever the app
+ * returns to the foreground; overlapping calls share the same run.
+ */
+export function runAutoBackupIfDue(now: Date = new Date()): Promise<BackupSnapshot | null> {
+  if (!runningBackup) {
+    runningBackup = (async () => {
+      const settings = await getAutoBackupSettings();
+      const status = await getAutoBackupStatus();
+      if (!isAutoBackupDue(settings, status.lastSuccessAt, now)) {
+        return null;
+      }
+      return writeBackupSnapshot(settings.keepCount, now);
+    })().finally(() => {
+      runningBackup = null;
+    });
+  }
+  return runningBackup;
+}
+
+export async function readBackupSnapshot(snapshot: BackupSnapshot): Promise<string> {
+  return RNFS.readFile(snapshot.path, 'utf8');
+}
+
+export async function shareBackupSnapshot(snapshot: BackupSnapshot): Promise<void> {
+  await Share.open({
+    url: `file://${snapshot.path}`,
+    type: 'application/json',
+    filename: snapshot.fileName,
+    title: snapshot.fileName,
+    failOnCancel: false,
+  });
+}
@@ -0,0 +1,682 @@
+// Backup Codec - Validates and upgrades backup files
+//
+// Every backup is checked field by field against the schemas below before it
+// reaches the restore logic. Files written by older app versions are brought
+// up to BACKUP_VERSION by chaining the upgrade functions in BACKUP_UPGRADES.
+
+import {
+  ActivityTag,
+  BackupActivity,
+  BackupData,
+  BackupMetadata,
+  BackupRoutine,
+  BackupSession,
+  BackupTableName,
+  BackupTableStats,
+  Category,
+  Goal,
+  GoalScope,
+  GoalType,
+  Routine,
+  RoutineItem,
+  RoutineType,
+  SessionPause,
+  SessionRevision,
+  SessionRevisionSource,
+  SessionSource,
+  SessionTag,
+  Tag,
+} from '../types';
+
+export const BACKUP_VERSION = 11;
+
+export const BACKUP_TABLES: BackupTableName[] = [
+  'categories',
+  'activities',
+  'sessions',
+  'goals',
+  'routines',
+  'routineItems',
+  'tags',
+  'sessionTags',
+  'activityTags',
+  'sessionPauses',
+  'sessionRevisions',
+  'settings',
+];
+
+export const SESSION_SOURCES: readonly SessionSource[] = [
+  'timer',
+  'manual',
+  'routine',
+  'assistant',
+  'import',
+];
+const REVISION_SOURCES: readonly SessionRevisionSource[] = [
+  'update',
+  'split',
+  'stop',
+  'delete',
+  'restore',
+  'revert',
+];
+const GOAL_TYPES: readonly GoalType[] = ['min', 'max'];
+const GOAL_SCOPES: readonly GoalScope[] = ['day', 'week', 'month'];
+const ROUTINE_TYPES: readonly RoutineType[] = ['daily', 'weekly'];
+const DAY_FILTERS: readonly Routine['dayFilter'][] = ['all', 'weekdays', 'weekend'];
+
+// Only the first few problems are spelled out in the error message
+const MAX_REPORTED_ERRORS = 5;
+
+export interface BackupFieldError {
+  path: string;
+  message: string;
+}
+
+export class BackupValidationError extends Error {
+  errors: BackupFieldError[];
+
+  constructor(errors: BackupFieldError[]) {
+    const lines = errors
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(error => (error.path ? `${error.path} ${error.message}` : error.message));
+    const more = errors.length - lines.length;
+    if (more > 0) {
+      lines.push(`...and ${more} more`);
+    }
+    super(lines.join('\n'));
+    this.name = 'BackupValidationError';
+    this.errors = errors;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// SQLite CURRENT_TIMESTAMP defaults are "YYYY-MM-DD HH:MM:SS" in UTC
+export function parseBackupTimestamp(value: string | null | undefined): number {
+  if (!value) {
+    return NaN;
+  }
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? `${value.replace(' ', 'T')}Z`
+    : value;
+  return new Date(normalized).getTime();
+}
+
+// ============================================
+// Checksums
+// ============================================
+
+// JSON with object keys sorted, so checksums survive tools that reorder keys
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, current) => {
+    if (!isObject(current)) {
+      return current;
+    }
+    return Object.keys(current)
+      .sort()
+      .reduce((sorted, key) => {
+        sorted[key] = current[key];
+        return sorted;
+      }, {} as Record<string, unknown>);
+  });
+}
+
+// Polynomial rolling hash modulo the largest 32-bit prime; detects truncation
+// and accidental edits, not deliberate tampering
+function checksum(text: string): string {
+  const MODULUS = 4294967291;
+  let hash = 7;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) % MODULUS;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function computeTableStats(
+  backup: Omit<BackupData, 'metadata'>
+): Record<BackupTableName, BackupTableStats> {
+  return BACKUP_TABLES.reduce((stats, table) => {
+    const records = backup[table];
+    stats[table] = {
+      count: Array.isArray(records) ? records.length : Object.keys(records ?? {}).length,
+      checksum: checksum(canonicalJson(records ?? null)),
+    };
+    return stats;
+  }, {} as Record<BackupTableName, BackupTableStats>);
+}
+
+function verifyTableStats(raw: Record<string, any>, errors: BackupFieldError[]): void {
+  const expected = raw.metadata.tables;
+  if (!isObject(expected)) {
+    errors.push({ path: 'metadata.tables', message: 'must be an object' });
+    return;
+  }
+
+  const actual = computeTableStats(raw as Omit<BackupData, 'metadata'>);
+  for (const table of BACKUP_TABLES) {
+    const stats = expected[table];
+    // Tables added in later formats are absent from older files
+    if (stats === undefined && raw[table] === undefined) {
+      continue;
+    }
+    if (!isObject(stats)) {
+      errors.push({ path: `metadata.tables.${table}`, message: 'is required' });
+    } else if (actual[table].count !== stats.count) {
+      errors.push({
+        path: table,
+        message: `has ${actual[table].count} of ${stats.count} records; the backup is incomplete`,
+      });
+    } else if (actual[table].checksum !== stats.checksum) {
+      errors.push({
+        path: table,
+        message: 'does not match its checksum; the file may be damaged',
+      });
+    }
+  }
+}
+
+// ============================================
+// Schemas
+// ============================================
+
+interface FieldSpec {
+  type: 'string' | 'timestamp' | 'number' | 'integer' | 'boolean' | 'object';
+  nullable?: boolean;
+  optional?: boolean;
+  values?: readonly string[];
+}
+
+// Mapped over the domain type, so adding a field to a type without describing
+// it here is a compile error
+type RecordSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+const CATEGORY_SCHEMA: RecordSchema<Category> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  color: { type: 'string' },
+  icon: { type: 'string' },
+  isDefault: { type: 'boolean' },
+  displayOrder: { type: 'integer' },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+};
+
+const ACTIVITY_SCHEMA: RecordSchema<BackupActivity> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  categoryId: { type: 'string' },
+  defaultExpectedMinutes: { type: 'integer', nullable: true },
+  isPlannedDefault: { type: 'boolean' },
+  isFavorite: { type: 'boolean' },
+  displayOrder: { type: 'integer' },
+  idlePromptEnabled: { type: 'boolean' },
+  isBackground: { type: 'boolean' },
+  isArchived: { type: 'boolean' },
+  usageCount: { type: 'integer' },
+  lastUsedAt: { type: 'timestamp', nullable: true },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+  deletedAt: { type: 'timestamp', nullable: true },
+};
+
+const SESSION_SCHEMA: RecordSchema<BackupSession> = {
+  id: { type: 'string' },
+  activityId: { type: 'string', nullable: true },
+  activityNameSnapshot: { type: 'string' },
+  categoryId: { type: 'string', nullable: true },
+  categoryNameSnapshot: { type: 'string' },
+  routineId: { type: 'string', nullable: true, optional: true },
+  startTime: { type: 'timestamp' },
+  endTime: { type: 'timestamp', nullable: true },
+  actualDurationSeconds: { type: 'integer', nullable: true },
+  actualDurationMinutes: { type: 'number', nullable: true },
+  expectedDurationMinutes: { type: 'number', nullable: true },
+  isPlanned: { type: 'boolean' },
+  source: { type: 'string', values: SESSION_SOURCES },
+  isRunning: { type: 'boolean' },
+  idlePromptEnabled: { type: 'boolean' },
+  notes: { type: 'string', nullable: true },
+  timeZone: { type: 'string', nullable: true },
+  utcOffsetMinutes: { type: 'integer', nullable: true },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+  deletedAt: { type: 'timestamp', nullable: true },
+};
+
+const GOAL_SCHEMA: RecordSchema<Goal> = {
+  id: { type: 'string' },
+  activityId: { type: 'string' },
+  goalType: { type: 'string', values: GOAL_TYPES },
+  scope: { type: 'string', values: GOAL_SCOPES },
+  targetMinutes: { type: 'integer' },
+  isActive: { type: 'boolean' },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+};
+
+const ROUTINE_SCHEMA: RecordSchema<BackupRoutine> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  routineType: { type: 'string', values: ROUTINE_TYPES },
+  startTime: { type: 'string', nullable: true },
+  dayFilter: { type: 'string', values: DAY_FILTERS },
+  isActive: { type: 'boolean' },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+  deletedAt: { type: 'timestamp', nullable: true },
+};
+
+const ROUTINE_ITEM_SCHEMA: RecordSchema<RoutineItem> = {
+  id: { type: 'string' },
+  routineId: { type: 'string' },
+  activityId: { type: 'string' },
+  scheduledTime: { type: 'string', nullable: true },
+  expectedDurationMinutes: { type: 'integer', nullable: true },
+  dayOfWeek: { type: 'integer', nullable: true },
+  displayOrder: { type: 'integer' },
+};
+
+const TAG_SCHEMA: RecordSchema<Tag> = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  color: { type: 'string' },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp' },
+};
+
+const SESSION_TAG_SCHEMA: RecordSchema<SessionTag> = {
+  id: { type: 'string' },
+  sessionId: { type: 'string' },
+  tagId: { type: 'string' },
+  createdAt: { type: 'timestamp' },
+};
+
+const ACTIVITY_TAG_SCHEMA: RecordSchema<ActivityTag> = {
+  id: { type: 'string' },
+  activityId: { type: 'string' },
+  tagId: { type: 'string' },
+  createdAt: { type: 'timestamp' },
+};
+
+const SESSION_PAUSE_SCHEMA: RecordSchema<SessionPause> = {
+  id: { type: 'string' },
+  sessionId: { type: 'string' },
+  pausedAt: { type: 'timestamp' },
+  resumedAt: { type: 'timestamp', nullable: true },
+  createdAt: { type: 'timestamp' },
+};
+
+// Revision snapshots are kept as written; older ones lack later session fields
+const SESSION_REVISION_SCHEMA: RecordSchema<SessionRevision> = {
+  id: { type: 'string' },
+  sessionId: { type: 'string' },
+  source: { type: 'string', values: REVISION_SOURCES },
+  before: { type: 'object', nullable: true },
+  after: { type: 'object', nullable: true },
+  createdAt: { type: 'timestamp' },
+};
+
+const TABLE_SCHEMAS: Record<Exclude<BackupTableName, 'settings'>, RecordSchema<any>> = {
+  categories: CATEGORY_SCHEMA,
+  activities: ACTIVITY_SCHEMA,
+  sessions: SESSION_SCHEMA,
+  goals: GOAL_SCHEMA,
+  routines: ROUTINE_SCHEMA,
+  routineItems: ROUTINE_ITEM_SCHEMA,
+  tags: TAG_SCHEMA,
+  sessionTags: SESSION_TAG_SCHEMA,
+  activityTags: ACTIVITY_TAG_SCHEMA,
+  sessionPauses: SESSION_PAUSE_SCHEMA,
+  sessionRevisions: SESSION_REVISION_SCHEMA,
+};
+
+function checkField(value: unknown, spec: FieldSpec): string | null {
+  if (value === null) {
+    return spec.nullable ? null : 'must not be null';
+  }
+
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return 'must be a string';
+      }
+      if (spec.values && !spec.values.includes(value)) {
+        return `must be one of ${spec.values.join(', ')} (got "${value}")`;
+      }
+      return null;
+    case 'timestamp':
+      return typeof value === 'string' && !isNaN(parseBackupTimestamp(value))
+        ? null
+        : 'must be an ISO timestamp';
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? null : 'must be a number';
+    case 'integer':
+      return Number.isInteger(value) ? null : 'must be a whole number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'object':
+      return isObject(value) ? null : 'must be an object';
+  }
+}
+
+// Copies only the fields the schema knows about, dropping display-only extras
+function decodeRecord<T>(
+  value: unknown,
+  schema: RecordSchema<T>,
+  path: string,
+  errors: BackupFieldError[]
+): T | null {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    if (value[field] === undefined) {
+      if (!spec.optional) {
+        errors.push({ path: `${path}.${field}`, message: 'is required' });
+      }
+      continue;
+    }
+    const problem = checkField(value[field], spec);
+    if (problem) {
+      errors.push({ path: `${path}.${field}`, message: problem });
+    } else {
+      record[field] = value[field];
+    }
+  }
+  return record as T;
+}
+
+function decodeTable<T extends { id: string }>(
+  value: unknown,
+  table: BackupTableName,
+  schema: RecordSchema<T>,
+  errors: BackupFieldError[]
+): T[] {
+  if (!Array.isArray(value)) {
+    errors.push({ path: table, message: 'must be a list' });
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  const records: T[] = [];
+  value.forEach((item, index) => {
+    const record = decodeRecord(item, schema, `${table}[${index}]`, errors);
+    if (!record) {
+      return;
+    }
+    if (typeof record.id === 'string') {
+      if (seenIds.has(record.id)) {
+        errors.push({ path: `${table}[${index}].id`, message: `duplicates "${record.id}"` });
+      }
+      seenIds.add(record.id);
+    }
+    records.push(record);
+  });
+  return records;
+}
+
+function decodeSettings(value: unknown, errors: BackupFieldError[]): Record<string, string> {
+  if (!isObject(value)) {
+    errors.push({ path: 'settings', message: 'must be an object' });
+    return {};
+  }
+
+  const settings: Record<string, string> = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (typeof setting !== 'string') {
+      errors.push({ path: `settings.${key}`, message: 'must be a string' });
+    } else {
+      settings[key] = setting;
+    }
+  }
+  return settings;
+}
+
+function decodeMetadata(value: Record<string, any>, errors: BackupFieldError[]): BackupMetadata {
+  if (typeof value.createdAt !== 'string' || isNaN(parseBackupTimestamp(value.createdAt))) {
+    errors.push({ path: 'metadata.createdAt', message: 'must be an ISO timestamp' });
+  }
+  if (typeof value.appVersion !== 'string') {
+    errors.push({ path: 'metadata.appVersion', message: 'must be a string' });
+  }
+  if (value.deviceInfo !== undefined && typeof value.deviceInfo !== 'string') {
+    errors.push({ path: 'metadata.deviceInfo', message: 'must be a string' });
+  }
+
+  const metadata: BackupMetadata = {
+    version: value.version,
+    createdAt: value.createdAt,
+    appVersion: value.appVersion,
+  };
+  if (value.deviceInfo !== undefined) {
+    metadata.deviceInfo = value.deviceInfo;
+  }
+  if (value.tables !== undefined) {
+    metadata.tables = value.tables;
+  }
+  return metadata;
+}
+
+// ============================================
+// Upgrades (append only - one step per format version)
+// ============================================
+
+type BackupUpgrade = (backup: Record<string, any>) => Record<string, any>;
+
+// BACKUP_UPGRADES[n] turns a format n backup into a format n + 1 backup
+export const BACKUP_UPGRADES: Record<number, BackupUpgrade> = {
+  // Format 1 exported sessions with display-only category colors, left
+  // routines empty, and predates routine schedules
+  1: backup => ({
+    ...backup,
+    sessions: Array.isArray(backup.sessions)
+      ? backup.sessions.map((session: unknown) => {
+          if (!isObject(session)) {
+            return session;
+          }
+          const stripped = { ...session };
+          delete stripped.categoryColor;
+          delete stripped.categoryIcon;
+          return stripped;
+        })
+      : backup.sessions,
+    routines: Array.isArray(backup.routines)
+      ? backup.routines.map((routine: unknown) =>
+          isObject(routine)
+            ? { startTime: null, dayFilter: 'all', ...routine }
+            : routine
+        )
+      : [],
+    routineItems: Array.isArray(backup.routineItems) ? backup.routineItems : [],
+  }),
+  // Format 2 predates session notes
+  2: backup => ({
+    ...backup,
+    sessions: Array.isArray(backup.sessions)
+      ? backup.sessions.map((session: unknown) =>
+          isObject(session) ? { notes: null, ...session } : session
+        )
+      : backup.sessions,
+  }),
+  // Format 3 predates tags
+  3: backup => ({
+    ...backup,
+    tags: Array.isArray(backup.tags) ? backup.tags : [],
+    sessionTags: Array.isArray(backup.sessionTags) ? backup.sessionTags : [],
+    activityTags: Array.isArray(backup.activityTags) ? backup.activityTags : [],
+  }),
+  // Format 4 predates session time zones
+  4: backup => ({
+    ...backup,
+    sessions: Array.isArray(backup.sessions)
+      ? backup.sessions.map((session: unknown) =>
+          isObject(session) ? { timeZone: null, utcOffsetMinutes: null, ...session } : session
+        )
+      : backup.sessions,
+  }),
+  // Format 5 kept durations in whole minutes only
+  5: backup => ({
+    ...backup,
+    sessions: Array.isArray(backup.sessions)
+      ? backup.sessions.map((session: unknown) => {
+          if (!isObject(session) || session.actualDurationSeconds !== undefined) {
+            return session;
+          }
+          const minutes = session.actualDurationMinutes;
+          return {
+            ...session,
+            actualDurationSeconds: typeof minutes === 'number' ? Math.round(minutes * 60) : null,
+          };
+        })
+      : backup.sessions,
+  }),
+  // Format 6 predates background activities
+  6: backup => ({
+    ...backup,
+    activities: Array.isArray(backup.activities)
+      ? backup.activities.map((activity: unknown) =>
+          isObject(activity) ? { isBackground: false, ...activity } : activity
+        )
+      : backup.activities,
+  }),
+  // Format 7 predates paused timers
+  7: backup => ({
+    ...backup,
+    sessionPauses: Array.isArray(backup.sessionPauses) ? backup.sessionPauses : [],
+  }),
+  // Format 8 left out the session edit history
+  8: backup => ({
+    ...backup,
+    sessionRevisions: Array.isArray(backup.sessionRevisions) ? backup.sessionRevisions : [],
+  }),
+  // Format 9 left out the trash
+  9: backup => ({
+    ...backup,
+    sessions: Array.isArray(backup.sessions)
+      ? backup.sessions.map((session: unknown) =>
+          isObject(session) ? { deletedAt: null, ...session } : session
+        )
+      : backup.sessions,
+  }),
+  // Format 10 still left trashed activities and routines out
+  10: backup => ({
+    ...backup,
+    activities: Array.isArray(backup.activities)
+      ? backup.activities.map((activity: unknown) =>
+          isObject(activity) ? { deletedAt: null, ...activity } : activity
+        )
+      : backup.activities,
+    routines: Array.isArray(backup.routines)
+      ? backup.routines.map((routine: unknown) =>
+          isObject(routine) ? { deletedAt: null, ...routine } : routine
+        )
+      : backup.routines,
+  }),
+};
+
+export function upgradeBackup(
+  backup: Record<string, any>,
+  upgrades: Record<number, BackupUpgrade> = BACKUP_UPGRADES,
+  targetVersion: number = BACKUP_VERSION
+): Record<string, any> {
+  let current = backup;
+  let version: number = backup.metadata.version;
+
+  while (version < targetVersion) {
+    const upgrade = upgrades[version];
+    if (!upgrade) {
+      throw new Error(`No upgrade from backup format ${version}`);
+    }
+    current = upgrade(current);
+    version++;
+    current = { ...current, metadata: { ...current.metadata, version } };
+  }
+
+  return current;
+}
+
+// ============================================
+// Encode / Decode
+// ============================================
+
+export function encodeBackup(backup: BackupData): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Parse backup JSON, verify its table checksums, upgrade it to the current
+ * format and validate every field. Throws a BackupValidationError listing
+ * each problem by path (e.g. `sessions[3].source`).
+ */
+export function decodeBackup(text: string): BackupData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError([{ path: '', message: 'The backup is not valid JSON.' }]);
+  }
+
+  if (!isObject(raw) || !isObject(raw.metadata)) {
+    throw new BackupValidationError([{ path: 'metadata', message: 'is required' }]);
+  }
+
+  const version = raw.metadata.version;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BackupValidationError([
+      { path: 'metadata.version', message: 'must be a positive whole number' },
+    ]);
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupValidationError([
+      {
+        path: '',
+        message: `The backup was created by a newer version of the app (format ${version}).`,
+      },
+    ]);
+  }
+
+  const errors: BackupFieldError[] = [];
+
+  // Checksums cover the file as written, so they are checked before upgrading
+  if (raw.metadata.tables !== undefined) {
+    verifyTableStats(raw, errors);
+    if (errors.length > 0) {
+      throw new BackupValidationError(errors);
+    }
+  }
+
+  const upgraded = upgradeBackup(raw);
+
+  const backup: BackupData = {
+    metadata: decodeMetadata(upgraded.metadata, errors),
+    categories: decodeTable(upgraded.categories, 'categories', TABLE_SCHEMAS.categories, errors),
+    activities: decodeTable(upgraded.activities, 'activities', TABLE_SCHEMAS.activities, errors),
+    sessions: decodeTable(upgraded.sessions, 'sessions', TABLE_SCHEMAS.sessions, errors),
+    goals: decodeTable(upgraded.goals, 'goals', TABLE_SCHEMAS.goals, errors),
+    routines: decodeTable(upgraded.routines, 'routines', TABLE_SCHEMAS.routines, errors),
+    routineItems: decodeTable(upgraded.routineItems, 'routineItems', TABLE_SCHEMAS.routineItems, errors),
+    tags: decodeTable(upgraded.tags, 'tags', TABLE_SCHEMAS.tags, errors),
+    sessionTags: decodeTable(upgraded.sessionTags, 'sessionTags', TABLE_SCHEMAS.sessionTags, errors),
+    activityTags: decodeTable(upgraded.activityTags, 'activityTags', TABLE_SCHEMAS.activityTags, errors),
+    sessionPauses: decodeTable(upgraded.sessionPauses, 'sessionPauses', TABLE_SCHEMAS.sessionPauses, errors),
+    sessionRevisions: decodeTable(
+      upgraded.sessionRevisions,
+      'sessionRevisions',
+      TABLE_SCHEMAS.sessionRevisions,
+      errors
+    ),
+    settings: decodeSettings(upgraded.settings, errors),
+  };
+
+  if (errors.length > 0) {
+    throw new BackupValidationError(errors);
+  }
+
+  return backup;
+}
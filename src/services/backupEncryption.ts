@@ -0,0 +1,219 @@
+// Backup Encryption - Passphrase protection for backup files
+//
+// The passphrase is stretched with PBKDF2-SHA256 into separate encryption
+// and MAC keys. The encoded backup is encrypted with AES-256-CTR and the
+// header, clear metadata and ciphertext are authenticated with HMAC-SHA256
+// (encrypt-then-MAC), so any edit to the file is detected before decrypting.
+
+import { BackupData, BackupEncryptionHeader, EncryptedBackupFile } from '../types';
+import { canonicalJson, decodeBackup, encodeBackup } from './backupCodec';
+import {
+  aes256Ctr,
+  base64ToBytes,
+  bytesToBase64,
+  constantTimeEqual,
+  hmacSha256,
+  pbkdf2Sha256,
+  randomBytes,
+  utf8Decode,
+  utf8Encode,
+} from '../utils/crypto';
+
+export const ENCRYPTION_VERSION = 1;
+export const DEFAULT_KDF_ITERATIONS = 100000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Bounds for iteration counts read from a file, so a damaged or hostile
+// header cannot make the app hash for minutes
+const MIN_KDF_ITERATIONS = 1000;
+const MAX_KDF_ITERATIONS = 10000000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 16;
+const CHECK_BYTES = 16;
+const MAC_BYTES = 32;
+
+export type BackupDecryptionFailure = 'format' | 'passphrase' | 'tampered';
+
+export class BackupDecryptionError extends Error {
+  reason: BackupDecryptionFailure;
+
+  constructor(reason: BackupDecryptionFailure, message: string) {
+    super(message);
+    this.name = 'BackupDecryptionError';
+    this.reason = reason;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================
+// Keys
+// ============================================
+
+interface BackupKeys {
+  encryption: Uint8Array;
+  authentication: Uint8Array;
+  check: Uint8Array;
+}
+
+function deriveKeys(passphrase: string, salt: Uint8Array, iterations: number): BackupKeys {
+  // NFC so the same passphrase typed on different keyboards derives the same key
+  const master = pbkdf2Sha256(utf8Encode(passphrase.normalize('NFC')), salt, iterations, 32);
+  const authentication = hmacSha256(master, utf8Encode('authentication'));
+  return {
+    encryption: hmacSha256(master, utf8Encode('encryption')),
+    authentication,
+    check: hmacSha256(authentication, utf8Encode('passphrase-check')).subarray(0, CHECK_BYTES),
+  };
+}
+
+function computeMac(
+  keys: BackupKeys,
+  header: Omit<BackupEncryptionHeader, 'mac'>,
+  file: Omit<EncryptedBackupFile, 'encryption'>
+): Uint8Array {
+  const authenticated = canonicalJson({
+    encryption: header,
+    metadata: file.metadata,
+    payload: file.payload,
+  });
+  return hmacSha256(keys.authentication, utf8Encode(authenticated));
+}
+
+// ============================================
+// Encrypt
+// ============================================
+
+export function encryptBackup(
+  backup: BackupData,
+  passphrase: string,
+  iterations: number = DEFAULT_KDF_ITERATIONS
+): string {
+  if (passphrase.length === 0) {
+    throw new Error('A passphrase is required to encrypt a backup');
+  }
+
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const keys = deriveKeys(passphrase, salt, iterations);
+
+  const header: Omit<BackupEncryptionHeader, 'mac'> = {
+    version: ENCRYPTION_VERSION,
+    kdf: 'PBKDF2-SHA256',
+    iterations,
+    salt: bytesToBase64(salt),
+    cipher: 'AES-256-CTR+HMAC-SHA256',
+    iv: bytesToBase64(iv),
+    check: bytesToBase64(keys.check),
+  };
+  const body: Omit<EncryptedBackupFile, 'encryption'> = {
+    // Enough to recognise the file without the passphrase; the full metadata
+    // with table counts stays inside the encrypted payload
+    metadata: {
+      version: backup.metadata.version,
+      createdAt: backup.metadata.createdAt,
+      appVersion: backup.metadata.appVersion,
+    },
+    payload: bytesToBase64(aes256Ctr(keys.encryption, iv, utf8Encode(encodeBackup(backup)))),
+  };
+
+  const file: EncryptedBackupFile = {
+    encryption: { ...header, mac: bytesToBase64(computeMac(keys, header, body)) },
+    ...body,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// ============================================
+// Decrypt
+// ============================================
+
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    const parsed = JSON.parse(text);
+    return isObject(parsed) && isObject(parsed.encryption);
+  } catch {
+    return false;
+  }
+}
+
+function decodeBinary(value: unknown, length: number): Uint8Array | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  try {
+    const bytes = base64ToBytes(value);
+    return bytes.length === length ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+function readEncryptedFile(text: string): EncryptedBackupFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupDecryptionError('format', 'The backup is not valid JSON.');
+  }
+  if (!isObject(parsed) || !isObject(parsed.encryption)) {
+    throw new BackupDecryptionError('format', 'This backup is not encrypted.');
+  }
+
+  const header = parsed.encryption;
+  if (typeof header.version === 'number' && header.version > ENCRYPTION_VERSION) {
+    throw new BackupDecryptionError(
+      'format',
+      'The backup was encrypted by a newer version of the app.'
+    );
+  }
+
+  const valid =
+    header.version === ENCRYPTION_VERSION &&
+    header.kdf === 'PBKDF2-SHA256' &&
+    header.cipher === 'AES-256-CTR+HMAC-SHA256' &&
+    Number.isInteger(header.iterations) &&
+    header.iterations >= MIN_KDF_ITERATIONS &&
+    header.iterations <= MAX_KDF_ITERATIONS &&
+    decodeBinary(header.salt, SALT_BYTES) !== null &&
+    decodeBinary(header.iv, IV_BYTES) !== null &&
+    decodeBinary(header.check, CHECK_BYTES) !== null &&
+    decodeBinary(header.mac, MAC_BYTES) !== null &&
+    isObject(parsed.metadata) &&
+    typeof parsed.payload === 'string';
+  if (!valid) {
+    throw new BackupDecryptionError('format', 'The encryption header of this backup is damaged.');
+  }
+
+  return parsed as unknown as EncryptedBackupFile;
+}
+
+/**
+ * Verify and decrypt a passphrase-protected backup, then decode it like a
+ * plain one. Throws a BackupDecryptionError for a wrong passphrase or a
+ * modified file, and a BackupValidationError for invalid backup contents.
+ */
+export function decryptBackup(text: string, passphrase: string): BackupData {
+  const file = readEncryptedFile(text);
+  const { mac, ...header } = file.encryption;
+
+  const salt = base64ToBytes(header.salt);
+  const keys = deriveKeys(passphrase, salt, header.iterations);
+
+  if (!constantTimeEqual(keys.check, base64ToBytes(header.check))) {
+    throw new BackupDecryptionError('passphrase', 'The passphrase is incorrect.');
+  }
+
+  const expectedMac = computeMac(keys, header, { metadata: file.metadata, payload: file.payload });
+  if (!constantTimeEqual(expectedMac, base64ToBytes(mac))) {
+    throw new BackupDecryptionError(
+      'tampered',
+      'The backup has been modified or damaged since it was encrypted.'
+    );
+  }
+
+  const plaintext = aes256Ctr(keys.encryption, base64ToBytes(header.iv), base64ToBytes(file.payload));
+  return decodeBackup(utf8Decode(plaintext));
+}
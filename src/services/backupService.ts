@@ -0,0 +1,580 @@
+// Backup Service - Creating, previewing and restoring backups
+
+import { Platform } from 'react-native';
+import { SQLiteDatabase } from 'react-native-sqlite-storage';
+import { getDatabase, executeTransaction } from '../database/database';
+import { getAllCategories } from '../database/repositories/categoryRepository';
+import { getAllActivitiesForBackup } from '../database/repositories/activityRepository';
+import { getAllSessions } from '../database/repositories/sessionRepository';
+import { getAllGoals } from '../database/repositories/goalRepository';
+import { getAllRoutineItems, getAllRoutinesForBackup } from '../database/repositories/routineRepository';
+import { getAllSettings } from '../database/repositories/settingsRepository';
+import { getAllSessionPauses } from '../database/repositories/sessionPauseRepository';
+import { getAllSessionRevisions } from '../database/repositories/sessionRevisionRepository';
+import {
+  getAllActivityTags,
+  getAllSessionTags,
+  getAllTags,
+} from '../database/repositories/tagRepository';
+import {
+  ActivityTag,
+  BackupActivity,
+  BackupData,
+  BackupRoutine,
+  BackupSession,
+  BackupTableName,
+  Category,
+  Goal,
+  RestoreMode,
+  RestoreSummary,
+  RestoreTableSummary,
+  RoutineItem,
+  SessionPause,
+  SessionRevision,
+  SessionTag,
+  Tag,
+} from '../types';
+import {
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  computeTableStats,
+  parseBackupTimestamp,
+} from './backupCodec';
+
+export const APP_VERSION = '1.0.0';
+
+const SQL_TABLES: Record<BackupTableName, string> = {
+  categories: 'categories',
+  activities: 'activities',
+  sessions: 'time_sessions',
+  goals: 'goals',
+  routines: 'routines',
+  routineItems: 'routine_items',
+  tags: 'tags',
+  sessionTags: 'session_tags',
+  activityTags: 'activity_tags',
+  sessionPauses: 'session_pauses',
+  sessionRevisions: 'session_revisions',
+  settings: 'settings',
+};
+
+// Tables without an updated_at column
+const UNTIMESTAMPED_TABLES = new Set<BackupTableName>([
+  'routineItems',
+  'sessionTags',
+  'activityTags',
+  'sessionPauses',
+  'sessionRevisions',
+]);
+
+// Settings that belong to this install, never to a backup: the schema
+// version, when the app last went to the background and the backup status
+const LOCAL_SETTING_KEYS = [
+  'db_version',
+  'inactiveSince',
+  'autoBackupLastSuccessAt',
+  'autoBackupLastFailureAt',
+  'autoBackupLastError',
+  'lastManualBackupAt',
+];
+const LOCAL_SETTINGS_SQL = LOCAL_SETTING_KEYS.map(key => `'${key}'`).join(', ');
+
+const withoutLocalSettings = (settings: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(settings).filter(([key]) => !LOCAL_SETTING_KEYS.includes(key)));
+
+// ============================================
+// Creating Backups
+// ============================================
+
+export async function createBackup(): Promise<BackupData> {
+  const categories = await getAllCategories();
+  const activities = await getAllActivitiesForBackup();
+  const sessions = await getAllSessions();
+  const goals = await getAllGoals(false);
+  const routines = await getAllRoutinesForBackup();
+  const routineItems = await getAllRoutineItems();
+  const tags = await getAllTags();
+  const sessionTags = await getAllSessionTags();
+  const activityTags = await getAllActivityTags();
+  const sessionPauses = await getAllSessionPauses();
+  const sessionRevisions = await getAllSessionRevisions();
+  const settings = withoutLocalSettings(await getAllSettings());
+
+  const data = {
+    categories,
+    activities,
+    sessions,
+    goals,
+    routines,
+    routineItems,
+    tags,
+    sessionTags,
+    activityTags,
+    sessionPauses,
+    sessionRevisions,
+    settings,
+  };
+
+  return {
+    metadata: {
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      appVersion: APP_VERSION,
+      deviceInfo: Platform.OS,
+      tables: computeTableStats(data),
+    },
+    ...data,
+  };
+}
+
+// ============================================
+// Row Conversion (domain -> snake_case columns)
+// ============================================
+
+type Row = Record<string, string | number | null>;
+
+const toFlag = (value: boolean): number => (value ? 1 : 0);
+
+function categoryToRow(category: Category): Row {
+  return {
+    id: category.id,
+    name: category.name,
+    color: category.color,
+    icon: category.icon,
+    is_default: toFlag(category.isDefault),
+    display_order: category.displayOrder,
+    created_at: category.createdAt,
+    updated_at: category.updatedAt,
+  };
+}
+
+function activityToRow(activity: BackupActivity): Row {
+  return {
+    id: activity.id,
+    name: activity.name,
+    category_id: activity.categoryId,
+    default_expected_minutes: activity.defaultExpectedMinutes,
+    is_planned_default: toFlag(activity.isPlannedDefault),
+    is_favorite: toFlag(activity.isFavorite),
+    display_order: activity.displayOrder,
+    idle_prompt_enabled: toFlag(activity.idlePromptEnabled),
+    is_background: toFlag(activity.isBackground),
+    is_archived: toFlag(activity.isArchived),
+    usage_count: activity.usageCount,
+    last_used_at: activity.lastUsedAt,
+    created_at: activity.createdAt,
+    updated_at: activity.updatedAt,
+    deleted_at: activity.deletedAt,
+  };
+}
+
+function sessionToRow(session: BackupSession): Row {
+  return {
+    id: session.id,
+    activity_id: session.activityId,
+    activity_name_snapshot: session.activityNameSnapshot,
+    category_id: session.categoryId,
+    category_name_snapshot: session.categoryNameSnapshot,
+    routine_id: session.routineId ?? null,
+    start_time: session.startTime,
+    end_time: session.endTime,
+    actual_duration_minutes:
+      session.actualDurationSeconds === null ? null : Math.round(session.actualDurationSeconds / 60),
+    actual_duration_seconds: session.actualDurationSeconds,
+    expected_duration_minutes: session.expectedDurationMinutes,
+    is_planned: toFlag(session.isPlanned),
+    source: session.source,
+    is_running: toFlag(session.isRunning),
+    idle_prompt_enabled: toFlag(session.idlePromptEnabled),
+    notes: session.notes,
+    time_zone: session.timeZone,
+    utc_offset_minutes: session.utcOffsetMinutes,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+    deleted_at: session.deletedAt,
+  };
+}
+
+function goalToRow(goal: Goal): Row {
+  return {
+    id: goal.id,
+    activity_id: goal.activityId,
+    goal_type: goal.goalType,
+    scope: goal.scope,
+    target_minutes: goal.targetMinutes,
+    is_active: toFlag(goal.isActive),
+    created_at: goal.createdAt,
+    updated_at: goal.updatedAt,
+  };
+}
+
+function routineToRow(routine: BackupRoutine): Row {
+  return {
+    id: routine.id,
+    name: routine.name,
+    routine_type: routine.routineType,
+    start_time: routine.startTime ?? null,
+    day_filter: routine.dayFilter ?? 'all',
+    is_active: toFlag(routine.isActive),
+    created_at: routine.createdAt,
+    updated_at: routine.updatedAt,
+    deleted_at: routine.deletedAt,
+  };
+}
+
+function routineItemToRow(item: RoutineItem): Row {
+  return {
+    id: item.id,
+    routine_id: item.routineId,
+    activity_id: item.activityId,
+    scheduled_time: item.scheduledTime,
+    expected_duration_minutes: item.expectedDurationMinutes,
+    day_of_week: item.dayOfWeek,
+    display_order: item.displayOrder,
+  };
+}
+
+function tagToRow(tag: Tag): Row {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color,
+    created_at: tag.createdAt,
+    updated_at: tag.updatedAt,
+  };
+}
+
+function sessionTagToRow(link: SessionTag): Row {
+  return {
+    id: link.id,
+    session_id: link.sessionId,
+    tag_id: link.tagId,
+    created_at: link.createdAt,
+  };
+}
+
+function activityTagToRow(link: ActivityTag): Row {
+  return {
+    id: link.id,
+    activity_id: link.activityId,
+    tag_id: link.tagId,
+    created_at: link.createdAt,
+  };
+}
+
+function sessionPauseToRow(pause: SessionPause): Row {
+  return {
+    id: pause.id,
+    session_id: pause.sessionId,
+    paused_at: pause.pausedAt,
+    resumed_at: pause.resumedAt,
+    created_at: pause.createdAt,
+  };
+}
+
+function sessionRevisionToRow(revision: SessionRevision): Row {
+  return {
+    id: revision.id,
+    session_id: revision.sessionId,
+    source: revision.source,
+    before_json: revision.before ? JSON.stringify(revision.before) : null,
+    after_json: revision.after ? JSON.stringify(revision.after) : null,
+    created_at: revision.createdAt,
+  };
+}
+
+// ============================================
+// Restore Planning
+// ============================================
+
+type TagLinkTable = 'sessionTags' | 'activityTags';
+
+// Existing records keyed by id (settings by key), valued by updated_at. Tags
+// and tag links also have unique names and pairs that a merge must not break.
+export type ExistingRecords = Record<BackupTableName, Map<string, string | null>> & {
+  tagIdsByName: Map<string, string>;
+  tagLinks: Record<TagLinkTable, Set<string>>;
+};
+
+export interface RestoreWrite {
+  table: BackupTableName;
+  action: 'insert' | 'update';
+  row: Row;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  summary: RestoreSummary;
+  writes: RestoreWrite[];
+}
+
+function emptyTableSummary(): RestoreTableSummary {
+  return { inserted: 0, updated: 0, skipped: 0, deleted: 0 };
+}
+
+export function createEmptySummary(): RestoreSummary {
+  return BACKUP_TABLES.reduce((summary, table) => {
+    summary[table] = emptyTableSummary();
+    return summary;
+  }, {} as RestoreSummary);
+}
+
+// Tag names are unique with SQLite's NOCASE collation, which only folds ASCII
+const tagNameKey = (name: string): string => name.replace(/[A-Z]/g, c => c.toLowerCase());
+
+const tagLinkKey = (table: TagLinkTable, row: Row): string =>
+  `${table === 'sessionTags' ? row.session_id : row.activity_id}:${row.tag_id}`;
+
+function isNewer(incoming: string, existing: string | null): boolean {
+  const incomingTime = parseBackupTimestamp(incoming);
+  const existingTime = parseBackupTimestamp(existing);
+  if (isNaN(incomingTime)) {
+    return false;
+  }
+  return isNaN(existingTime) || incomingTime > existingTime;
+}
+
+function backupRows(backup: BackupData, table: Exclude<BackupTableName, 'settings'>): Row[] {
+  switch (table) {
+    case 'categories':
+      return backup.categories.map(categoryToRow);
+    case 'activities':
+      return backup.activities.map(activityToRow);
+    case 'sessions':
+      return backup.sessions.map(sessionToRow);
+    case 'goals':
+      return backup.goals.map(goalToRow);
+    case 'routines':
+      return backup.routines.map(routineToRow);
+    case 'routineItems':
+      return backup.routineItems.map(routineItemToRow);
+    case 'tags':
+      return backup.tags.map(tagToRow);
+    case 'sessionTags':
+      return backup.sessionTags.map(sessionTagToRow);
+    case 'activityTags':
+      return backup.activityTags.map(activityTagToRow);
+    case 'sessionPauses':
+      return backup.sessionPauses.map(sessionPauseToRow);
+    case 'sessionRevisions':
+      return backup.sessionRevisions.map(sessionRevisionToRow);
+  }
+}
+
+function settingRows(backup: BackupData, updatedAt: string): Row[] {
+  return Object.entries(withoutLocalSettings(backup.settings)).map(([key, value]) => ({
+    key,
+    value,
+    updated_at: updatedAt,
+  }));
+}
+
+/**
+ * Decide what a restore would write without touching the database.
+ *
+ * Replace writes every record from the backup after clearing local data.
+ * Merge matches records by id: missing records are inserted, records whose
+ * backup `updatedAt` is newer replace the local copy, everything else is
+ * skipped. Routine items and session pauses have no timestamp and follow
+ * their routine or session; tag links and revisions never change once made,
+ * so merge only adds missing ones. Settings
+ * have no timestamp in the backup either, so merge only fills in missing keys.
+ *
+ * A backup tag named like a different local tag is not written; its links
+ * are moved onto the local tag instead, and links that already exist are
+ * skipped, so no write collides with a unique name or tag pair.
+ */
+export function buildRestorePlan(
+  backup: BackupData,
+  mode: RestoreMode,
+  existing: ExistingRecords,
+  restoredAt: string = new Date().toISOString()
+): RestorePlan {
+  const summary = createEmptySummary();
+  const writes: RestoreWrite[] = [];
+
+  if (mode === 'replace') {
+    for (const table of BACKUP_TABLES) {
+      const rows = table === 'settings' ? settingRows(backup, restoredAt) : backupRows(backup, table);
+      summary[table].deleted = existing[table].size;
+      summary[table].inserted = rows.length;
+      rows.forEach(row => writes.push({ table, action: 'insert', row }));
+    }
+    return { mode, summary, writes };
+  }
+
+  const updatedRoutineIds = new Set<string>();
+  const updatedSessionIds = new Set<string>();
+  // Backup tag id -> id of the local tag with the same name
+  const tagIdMap = new Map<string, string>();
+  const tagLinks: Record<TagLinkTable, Set<string>> = {
+    sessionTags: new Set(existing.tagLinks.sessionTags),
+    activityTags: new Set(existing.tagLinks.activityTags),
+  };
+
+  for (const table of BACKUP_TABLES) {
+    if (table === 'settings') {
+      for (const row of settingRows(backup, restoredAt)) {
+        if (existing.settings.has(row.key as string)) {
+          summary.settings.skipped++;
+        } else {
+          summary.settings.inserted++;
+          writes.push({ table, action: 'insert', row });
+        }
+      }
+      continue;
+    }
+
+    for (const backupRow of backupRows(backup, table)) {
+      let row = backupRow;
+      const id = row.id as string;
+
+      if (table === 'tags') {
+        const localId = existing.tagIdsByName.get(tagNameKey(row.name as string));
+        if (localId !== undefined && localId !== id) {
+          if (!existing.tags.has(id)) {
+            tagIdMap.set(id, localId);
+          }
+          summary.tags.skipped++;
+          continue;
+        }
+      } else if (table === 'sessionTags' || table === 'activityTags') {
+        row = { ...row, tag_id: tagIdMap.get(row.tag_id as string) ?? row.tag_id };
+        const key = tagLinkKey(table, row);
+        if (!existing[table].has(id) && tagLinks[table].has(key)) {
+          summary[table].skipped++;
+          continue;
+        }
+        tagLinks[table].add(key);
+      }
+
+      if (!existing[table].has(id)) {
+        summary[table].inserted++;
+        writes.push({ table, action: 'insert', row });
+        continue;
+      }
+
+      const shouldUpdate =
+        table === 'routineItems'
+          ? updatedRoutineIds.has(row.routine_id as string)
+          : table === 'sessionPauses'
+            ? updatedSessionIds.has(row.session_id as string)
+            : !UNTIMESTAMPED_TABLES.has(table) &&
+              isNewer(row.updated_at as string, existing[table].get(id) ?? null);
+
+      if (shouldUpdate) {
+        summary[table].updated++;
+        writes.push({ table, action: 'update', row });
+        if (table === 'routines') {
+          updatedRoutineIds.add(id);
+        } else if (table === 'sessions') {
+          updatedSessionIds.add(id);
+        }
+      } else {
+        summary[table].skipped++;
+      }
+    }
+  }
+
+  return { mode, summary, writes };
+}
+
+// ============================================
+// Database Access
+// ============================================
+
+async function queryRows(db: SQLiteDatabase, sql: string): Promise<any[]> {
+  const [result] = await db.executeSql(sql);
+  const rows = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    rows.push(result.rows.item(i));
+  }
+  return rows;
+}
+
+async function loadExistingRecords(db: SQLiteDatabase): Promise<ExistingRecords> {
+  const existing = {} as ExistingRecords;
+
+  for (const table of BACKUP_TABLES) {
+    const sql =
+      table === 'settings'
+        ? `SELECT key AS id, updated_at FROM settings WHERE key NOT IN (${LOCAL_SETTINGS_SQL})`
+        : UNTIMESTAMPED_TABLES.has(table)
+          ? `SELECT id, NULL AS updated_at FROM ${SQL_TABLES[table]}`
+          : `SELECT id, updated_at FROM ${SQL_TABLES[table]}`;
+    const records = new Map<string, string | null>();
+    for (const row of await queryRows(db, sql)) {
+      records.set(row.id, row.updated_at ?? null);
+    }
+    existing[table] = records;
+  }
+
+  const tags = await queryRows(db, 'SELECT id, name FROM tags');
+  existing.tagIdsByName = new Map(tags.map(tag => [tagNameKey(tag.name), tag.id]));
+  const sessionTags = await queryRows(db, 'SELECT session_id, tag_id FROM session_tags');
+  const activityTags = await queryRows(db, 'SELECT activity_id, tag_id FROM activity_tags');
+  existing.tagLinks = {
+    sessionTags: new Set(sessionTags.map(row => tagLinkKey('sessionTags', row))),
+    activityTags: new Set(activityTags.map(row => tagLinkKey('activityTags', row))),
+  };
+
+  return existing;
+}
+
+// Plain INSERT and UPDATE: REPLACE would quietly delete a local row sharing a
+// unique value such as a tag name, and orphan the links pointing at it
+async function writeRow(db: SQLiteDatabase, write: RestoreWrite): Promise<void> {
+  const { table, row } = write;
+  const columns = Object.keys(row);
+  if (write.action === 'insert') {
+    const placeholders = columns.map(() => '?').join(', ');
+    await db.executeSql(
+      `INSERT INTO ${SQL_TABLES[table]} (${columns.join(', ')}) VALUES (${placeholders})`,
+      columns.map(column => row[column])
+    );
+    return;
+  }
+
+  const keyColumn = table === 'settings' ? 'key' : 'id';
+  const updated = columns.filter(column => column !== keyColumn);
+  await db.executeSql(
+    `UPDATE ${SQL_TABLES[table]} SET ${updated.map(column => `${column} = ?`).join(', ')} WHERE ${keyColumn} = ?`,
+    [...updated.map(column => row[column]), row[keyColumn]]
+  );
+}
+
+export async function previewRestore(
+  backup: BackupData,
+  mode: RestoreMode
+): Promise<RestoreSummary> {
+  const db = await getDatabase();
+  const existing = await loadExistingRecords(db);
+  return buildRestorePlan(backup, mode, existing).summary;
+}
+
+// All writes share one transaction, so a failure leaves local data untouched
+export async function applyRestore(
+  backup: BackupData,
+  mode: RestoreMode
+): Promise<RestoreSummary> {
+  return executeTransaction(async db => {
+    const existing = await loadExistingRecords(db);
+    const plan = buildRestorePlan(backup, mode, existing);
+
+    if (mode === 'replace') {
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await db.executeSql(
+          table === 'settings'
+            ? `DELETE FROM settings WHERE key NOT IN (${LOCAL_SETTINGS_SQL})`
+            : `DELETE FROM ${SQL_TABLES[table]}`
+        );
+      }
+    }
+
+    for (const write of plan.writes) {
+      await writeRow(db, write);
+    }
+
+    return plan.summary;
+  });
+}
@@ -0,0 +1,288 @@
+// Export Service - Spreadsheet and calendar exports of tracked sessions
+
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { getSessionsInRange } from '../database/repositories/sessionRepository';
+import { getAllRoutinesForBackup } from '../database/repositories/routineRepository';
+import {
+  ExportTimeZone,
+  SessionExportColumn,
+  SessionExportFilter,
+  SessionExportOptions,
+  SessionWithDetails,
+} from '../types';
+import { formatDate, getDayEnd, getDayStart } from '../utils/dateUtils';
+import { toReportClock } from '../utils/timeZoneUtils';
+
+export const SESSION_EXPORT_COLUMNS: { key: SessionExportColumn; label: string }[] = [
+  { key: 'activity', label: 'Activity' },
+  { key: 'category', label: 'Category' },
+  { key: 'start', label: 'Start' },
+  { key: 'end', label: 'End' },
+  { key: 'duration', label: 'Duration (min)' },
+  { key: 'planned', label: 'Planned' },
+  { key: 'source', label: 'Source' },
+  { key: 'routine', label: 'Routine' },
+  { key: 'notes', label: 'Notes' },
+];
+
+export interface ExportFile {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  rowCount: number;
+}
+
+// ============================================
+// CSV Formatting
+// ============================================
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function escapeCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(safe)) {
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+  return safe;
+}
+
+// Local times are the wall clock of the time zone view: where the session was
+// recorded (its UTC offset), or at home
+export function formatExportTimestamp(
+  value: string | null,
+  timeZone: ExportTimeZone,
+  utcOffsetMinutes: number | null = null
+): string {
+  if (!value) {
+    return '';
+  }
+  if (timeZone === 'utc') {
+    return new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+  return formatDate(toReportClock(value, utcOffsetMinutes), 'yyyy-MM-dd HH:mm:ss');
+}
+
+function columnHeader(column: SessionExportColumn, timeZone: ExportTimeZone): string {
+  const label = SESSION_EXPORT_COLUMNS.find(c => c.key === column)?.label ?? column;
+  if (column === 'start' || column === 'end') {
+    return `${label} (${timeZone === 'utc' ? 'UTC' : 'local'})`;
+  }
+  return label;
+}
+
+function columnValue(
+  session: SessionWithDetails,
+  column: SessionExportColumn,
+  timeZone: ExportTimeZone,
+  routineNames: Map<string, string>
+): string {
+  switch (column) {
+    case 'activity':
+      return session.activityNameSnapshot;
+    case 'category':
+      return session.categoryNameSnapshot;
+    case 'start':
+      return formatExportTimestamp(session.startTime, timeZone, session.utcOffsetMinutes);
+    case 'end':
+      return session.isRunning ? '' : formatExportTimestamp(session.endTime, timeZone, session.utcOffsetMinutes);
+    case 'duration':
+      return session.isRunning || session.actualDurationMinutes === null
+        ? ''
+        : String(Math.round(session.actualDurationMinutes * 100) / 100);
+    case 'planned':
+      return session.isPlanned ? 'yes' : 'no';
+    case 'source':
+      return session.source;
+    case 'routine':
+      return session.routineId ? routineNames.get(session.routineId) ?? '' : '';
+    case 'notes':
+      return session.notes ?? '';
+  }
+}
+
+export function filterSessionsForExport(
+  sessions: SessionWithDetails[],
+  options: Pick<SessionExportFilter, 'categoryIds' | 'activityIds'>
+): SessionWithDetails[] {
+  const { categoryIds, activityIds } = options;
+  return sessions.filter(session => {
+    if (categoryIds?.length && !(session.categoryId && categoryIds.includes(session.categoryId))) {
+      return false;
+    }
+    if (activityIds?.length && !(session.activityId && activityIds.includes(session.activityId))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function buildSessionsCsv(
+  sessions: SessionWithDetails[],
+  columns: SessionExportColumn[],
+  timeZone: ExportTimeZone,
+  routineNames: Map<string, string> = new Map()
+): string {
+  const lines = [columns.map(column => escapeCsvCell(columnHeader(column, timeZone))).join(',')];
+  for (const session of sessions) {
+    lines.push(
+      columns
+        .map(column => escapeCsvCell(columnValue(session, column, timeZone, routineNames)))
+        .join(',')
+    );
+  }
+  // RFC 4180 line endings; trailing newline keeps spreadsheet imports happy
+  return lines.join('\r\n') + '\r\n';
+}
+
+// ============================================
+// iCalendar Formatting
+// ============================================
+
+const ICS_PRODUCT_ID = '-//TimeBudgetTracker//Session Export//EN';
+const ICS_UID_DOMAIN = 'timebudgettracker';
+
+// RFC 5545 text values escape backslashes, separators and newlines
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatIcsTimestamp(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) {
+    return 1;
+  }
+  if (code < 0x800) {
+    return 2;
+  }
+  return code < 0x10000 ? 3 : 4;
+}
+
+// Lines longer than 75 octets continue on the next line after a single space,
+// without splitting a multi-byte character
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (length + size > 75) {
+      parts.push(current);
+      current = ' ';
+      length = 1;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+function sessionToVEvent(session: SessionWithDetails, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    // Stable UID so re-importing an export updates events instead of duplicating
+    // them; the sequence grows with every edit, so the newer copy wins
+    `UID:${session.id}@${ICS_UID_DOMAIN}`,
+    `SEQUENCE:${Math.floor(new Date(session.updatedAt).getTime() / 1000)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsTimestamp(session.startTime)}`,
+    `DTEND:${formatIcsTimestamp(session.endTime as string)}`,
+    `SUMMARY:${escapeIcsText(session.activityNameSnapshot)}`,
+  ];
+  if (session.categoryNameSnapshot) {
+    lines.push(`CATEGORIES:${escapeIcsText(session.categoryNameSnapshot)}`);
+  }
+  if (session.notes) {
+    lines.push(`DESCRIPTION:${escapeIcsText(session.notes)}`);
+  }
+  lines.push(`LAST-MODIFIED:${formatIcsTimestamp(session.updatedAt)}`, 'END:VEVENT');
+  return lines;
+}
+
+export function isCalendarExportable(session: SessionWithDetails): boolean {
+  return !session.isRunning && session.endTime !== null;
+}
+
+export function buildSessionsIcs(
+  sessions: SessionWithDetails[],
+  generatedAt: Date = new Date()
+): string {
+  const stamp = formatIcsTimestamp(generatedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  sessions
+    .filter(isCalendarExportable)
+    .forEach(session => lines.push(...sessionToVEvent(session, stamp)));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// Files
+// ============================================
+
+async function writeExportFile(
+  fileName: string,
+  contents: string,
+  mimeType: string,
+  rowCount: number
+): Promise<ExportFile> {
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, contents, 'utf8');
+  return { path, fileName, mimeType, rowCount };
+}
+
+async function loadSessionsForExport(filter: SessionExportFilter): Promise<SessionWithDetails[]> {
+  const sessions = await getSessionsInRange(getDayStart(filter.startDate), getDayEnd(filter.endDate));
+  return filterSessionsForExport(sessions, filter);
+}
+
+function exportFileName(filter: SessionExportFilter, extension: string): string {
+  return `time-sessions-${formatDate(filter.startDate)}-to-${formatDate(filter.endDate)}.${extension}`;
+}
+
+export async function exportSessionsCsv(options: SessionExportOptions): Promise<ExportFile> {
+  const filtered = await loadSessionsForExport(options);
+
+  const routineNames = new Map<string, string>();
+  if (options.columns.includes('routine')) {
+    // Sessions keep their routine after it was moved to the trash
+    const routines = await getAllRoutinesForBackup();
+    routines.forEach(routine => routineNames.set(routine.id, routine.name));
+  }
+
+  // Byte order mark so Excel opens non-ASCII activity names as UTF-8
+  const csv = '\uFEFF' + buildSessionsCsv(filtered, options.columns, options.timeZone, routineNames);
+  return writeExportFile(exportFileName(options, 'csv'), csv, 'text/csv', filtered.length);
+}
+
+export async function exportSessionsIcs(filter: SessionExportFilter): Promise<ExportFile> {
+  const finished = (await loadSessionsForExport(filter)).filter(isCalendarExportable);
+  const ics = buildSessionsIcs(finished);
+  return writeExportFile(exportFileName(filter, 'ics'), ics, 'text/calendar', finished.length);
+}
+
+export async function shareExportFile(file: ExportFile): Promise<void> {
+  await Share.open({
+    url: `file://${file.path}`,
+    type: file.mimeType,
+    filename: file.fileName,
+    title: file.fileName,
+    failOnCancel: false,
+  });
+}
@@ -0,0 +1,73 @@
+// Idle Service - Notices time away from the app while timers kept running
+//
+// The moment the app goes to the background is saved as a setting, so idle
+// time is also found when the system closed the app in the meantime. Once the
+// app is back after more than the idle threshold, running timers with idle
+// prompts enabled let the user keep, discard or reassign that time (see
+// discardIdleTime in timerStore).
+
+import {
+  deleteSetting,
+  getSetting,
+  getSettingNumber,
+  setSetting,
+} from '../database/repositories/settingsRepository';
+import { DEFAULT_SETTINGS, IdleTime, RunningTimer } from '../types';
+import { nowISO } from '../utils/dateUtils';
+
+const INACTIVE_SINCE_KEY = 'inactiveSince';
+
+// ============================================
+// App Activity
+// ============================================
+
+export async function markAppInactive(at: string = nowISO()): Promise<void> {
+  await setSetting(INACTIVE_SINCE_KEY, at);
+}
+
+// When the app went to the background; each absence is only reported once
+export async function takeInactiveSince(): Promise<string | null> {
+  const since = await getSetting(INACTIVE_SINCE_KEY);
+  if (since !== null) {
+    await deleteSetting(INACTIVE_SINCE_KEY);
+  }
+  return since || null;
+}
+
+export async function getIdleThresholdMinutes(): Promise<number> {
+  return getSettingNumber('idleThresholdMinutes', DEFAULT_SETTINGS.idleThresholdMinutes);
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Timers that ran unattended for at least the threshold. Paused timers count
+ * nothing, and a timer started while away is only idle since its start.
+ */
+export function getIdleTimers(
+  timers: RunningTimer[],
+  since: string,
+  thresholdMinutes: number,
+  now: number = Date.now()
+): RunningTimer[] {
+  const sinceMs = new Date(since).getTime();
+  return timers.filter(
+    timer =>
+      timer.idlePromptEnabled &&
+      !timer.pausedAt &&
+      now - Math.max(sinceMs, timer.startTime.getTime()) >= thresholdMinutes * 60 * 1000
+  );
+}
+
+// The idle time to ask about now that the app is back, if any
+export async function detectIdleTime(timers: RunningTimer[]): Promise<IdleTime | null> {
+  const since = await takeInactiveSince();
+  if (!since) {
+    return null;
+  }
+  const until = nowISO();
+  const idleTimers = getIdleTimers(timers, since, await getIdleThresholdMinutes(), new Date(until).getTime());
+  return idleTimers.length > 0 ? { since, until, timers: idleTimers } : null;
+}
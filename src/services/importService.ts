@@ -0,0 +1,482 @@
+// Import Service - Time entries from Toggl Track and Clockify CSV exports
+
+import { executeTransaction } from '../database/database';
+import { createCategory, getAllCategories } from '../database/repositories/categoryRepository';
+import { createActivity, getAllActivities } from '../database/repositories/activityRepository';
+import { createSession, getSessionsInRange } from '../database/repositories/sessionRepository';
+import {
+  Activity,
+  Category,
+  ImportedTimeEntry,
+  ImportRowError,
+  ParsedTimeEntryImport,
+  TimeEntryImportFormat,
+  TimeEntryImportMapping,
+  TimeEntryImportResult,
+  TimeSession,
+} from '../types';
+import { calculateDurationSeconds } from '../utils/dateUtils';
+
+export class TimeEntryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeEntryImportError';
+  }
+}
+
+export interface TimeEntryParseOptions {
+  // Slash-separated dates are month-first (Clockify's default) unless set
+  dayFirst?: boolean;
+}
+
+// Fallback name for entries without a project, tag or description
+export const UNLABELLED_IMPORT_NAME = 'Imported';
+
+// ============================================
+// CSV Parsing
+// ============================================
+
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim().length === 0);
+
+// Both trackers use the same names for the columns we read; the duration
+// columns tell their detailed reports apart.
+const REQUIRED_COLUMNS = ['start date', 'start time', 'end date', 'end time'];
+
+function detectImportFormat(headers: string[]): TimeEntryImportFormat | null {
+  if (!REQUIRED_COLUMNS.every(column => headers.includes(column))) {
+    return null;
+  }
+  if (headers.includes('duration (h)') || headers.includes('duration (decimal)')) {
+    return 'clockify';
+  }
+  return headers.includes('duration') ? 'toggl' : null;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const SEPARATED_DATE = /^(\d{1,2})([/.])(\d{1,2})\2(\d{4})$/;
+const CLOCK_TIME = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/;
+
+// Exports are written in the tracker's display time zone, which we take to
+// be the device's.
+export function parseLocalDateTime(date: string, time: string, dayFirst = false): Date | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = ISO_DATE.exec(date.trim());
+  const separated = SEPARATED_DATE.exec(date.trim());
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (separated) {
+    // Dotted dates (31.01.2026) are always day-first
+    const isDayFirst = dayFirst || separated[2] === '.';
+    const [first, second] = [Number(separated[1]), Number(separated[3])];
+    year = Number(separated[4]);
+    month = isDayFirst ? second : first;
+    day = isDayFirst ? first : second;
+  } else {
+    return null;
+  }
+
+  const clock = CLOCK_TIME.exec(time.trim());
+  if (!clock) {
+    return null;
+  }
+  let hours = Number(clock[1]);
+  const minutes = Number(clock[2]);
+  const seconds = Number(clock[3] ?? 0);
+  const meridiem = clock[4]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  const result = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Reject values the Date constructor would roll over, such as 31/02 or 25:00
+  if (
+    result.getFullYear() !== year ||
+    result.getMonth() !== month - 1 ||
+    result.getDate() !== day ||
+    result.getHours() !== hours ||
+    result.getMinutes() !== minutes
+  ) {
+    return null;
+  }
+  return result;
+}
+
+export function parseTimeEntryCsv(
+  text: string,
+  options: TimeEntryParseOptions = {}
+): ParsedTimeEntryImport {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(row => !isBlankRow(row));
+  if (headerIndex < 0) {
+    throw new TimeEntryImportError('The CSV file is empty.');
+  }
+
+  const headers = rows[headerIndex].map(header => header.trim().toLowerCase());
+  const format = detectImportFormat(headers);
+  if (!format) {
+    throw new TimeEntryImportError(
+      'Unrecognised CSV layout. Export a detailed report from Toggl Track or Clockify.'
+    );
+  }
+
+  const read = (row: string[], column: string): string => {
+    const index = headers.indexOf(column);
+    return index >= 0 ? (row[index] ?? '').trim() : '';
+  };
+
+  const entries: ImportedTimeEntry[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    if (isBlankRow(row)) {
+      return;
+    }
+    const rowNumber = headerIndex + offset + 2;
+    const start = parseLocalDateTime(read(row, 'start date'), read(row, 'start time'), options.dayFirst);
+    const end = parseLocalDateTime(read(row, 'end date'), read(row, 'end time'), options.dayFirst);
+
+    if (!start) {
+      errors.push({ row: rowNumber, message: 'Invalid start date or time' });
+      return;
+    }
+    if (!end) {
+      errors.push({ row: rowNumber, message: 'Invalid end date or time' });
+      return;
+    }
+    if (end <= start) {
+      errors.push({ row: rowNumber, message: 'Entry ends before it starts' });
+      return;
+    }
+
+    entries.push({
+      row: rowNumber,
+      project: read(row, 'project'),
+      client: read(row, 'client'),
+      description: read(row, 'description'),
+      tags: read(row, 'tags')
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(tag => tag.length > 0),
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      durationSeconds: calculateDurationSeconds(start, end),
+    });
+  });
+
+  return { format, entries, errors };
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+// The first tag names the activity; untagged entries fall back to the project
+export function getActivityLabel(entry: ImportedTimeEntry): string {
+  return entry.tags[0] || entry.project || entry.description || UNLABELLED_IMPORT_NAME;
+}
+
+export function getProjectName(entry: ImportedTimeEntry): string {
+  return entry.project || UNLABELLED_IMPORT_NAME;
+}
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+export function getImportKeys(entries: ImportedTimeEntry[]): {
+  projects: string[];
+  activityLabels: string[];
+} {
+  return {
+    projects: uniqueSorted(entries.map(getProjectName)),
+    activityLabels: uniqueSorted(entries.map(getActivityLabel)),
+  };
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Pre-fills the mapping with categories and activities whose names match
+export function suggestImportMapping(
+  entries: ImportedTimeEntry[],
+  categories: Category[],
+  activities: Activity[]
+): TimeEntryImportMapping {
+  const { projects, activityLabels } = getImportKeys(entries);
+  const mapping: TimeEntryImportMapping = {
+    categoryByProject: {},
+    activityByLabel: {},
+    createMissing: true,
+  };
+
+  projects.forEach(project => {
+    mapping.categoryByProject[project] =
+      categories.find(category => sameName(category.name, project))?.id ?? null;
+  });
+  activityLabels.forEach(label => {
+    const matches = activities.filter(activity => sameName(activity.name, label));
+    mapping.activityByLabel[label] = (matches.find(a => !a.isArchived) ?? matches[0])?.id ?? null;
+  });
+
+  return mapping;
+}
+
+// ============================================
+// Planning
+// ============================================
+
+// Ids are null for categories and activities the import will create
+export interface PlannedImportSession {
+  entry: ImportedTimeEntry;
+  activityId: string | null;
+  activityName: string;
+  categoryId: string | null;
+  categoryName: string;
+  isPlanned: boolean;
+}
+
+export interface TimeEntryImportPlan {
+  sessions: PlannedImportSession[];
+  duplicates: ImportedTimeEntry[];
+  unmapped: ImportedTimeEntry[];
+  newCategories: string[];
+  newActivities: { name: string; categoryId: string | null; categoryName: string }[];
+}
+
+// Two sessions are the same entry when the activity and start minute match
+function duplicateKey(activityName: string, startTime: string): string {
+  return `${activityName.trim().toLowerCase()}|${Math.floor(Date.parse(startTime) / 60000)}`;
+}
+
+export function planTimeEntryImport(
+  entries: ImportedTimeEntry[],
+  mapping: TimeEntryImportMapping,
+  categories: Category[],
+  activities: Activity[],
+  existingSessions: TimeSession[]
+): TimeEntryImportPlan {
+  const plan: TimeEntryImportPlan = {
+    sessions: [],
+    duplicates: [],
+    unmapped: [],
+    newCategories: [],
+    newActivities: [],
+  };
+  const seen = new Set(
+    existingSessions.map(session => duplicateKey(session.activityNameSnapshot, session.startTime))
+  );
+
+  const resolveCategory = (project: string): Category | { name: string } | null => {
+    const mappedId = mapping.categoryByProject[project];
+    const mapped = mappedId ? categories.find(category => category.id === mappedId) : undefined;
+    if (mapped) {
+      return mapped;
+    }
+    if (!mapping.createMissing) {
+      return null;
+    }
+    const existing = categories.find(category => sameName(category.name, project));
+    if (existing) {
+      return existing;
+    }
+    if (!plan.newCategories.some(name => sameName(name, project))) {
+      plan.newCategories.push(project);
+    }
+    return { name: project };
+  };
+
+  const resolveSession = (entry: ImportedTimeEntry): PlannedImportSession | null => {
+    const label = getActivityLabel(entry);
+    const mappedId = mapping.activityByLabel[label];
+    const mapped = mappedId ? activities.find(activity => activity.id === mappedId) : undefined;
+    if (mapped) {
+      const category = categories.find(c => c.id === mapped.categoryId);
+      return {
+        entry,
+        activityId: mapped.id,
+        activityName: mapped.name,
+        categoryId: mapped.categoryId,
+        categoryName: category?.name ?? '',
+        isPlanned: mapped.isPlannedDefault,
+      };
+    }
+    if (!mapping.createMissing) {
+      return null;
+    }
+
+    const category = resolveCategory(getProjectName(entry));
+    if (!category) {
+      return null;
+    }
+    const categoryId = 'id' in category ? category.id : null;
+    const existing = categoryId
+      ? activities.find(a => a.categoryId === categoryId && sameName(a.name, label))
+      : undefined;
+    if (existing) {
+      return {
+        entry,
+        activityId: existing.id,
+        activityName: existing.name,
+        categoryId,
+        categoryName: category.name,
+        isPlanned: existing.isPlannedDefault,
+      };
+    }
+
+    if (
+      !plan.newActivities.some(
+        a => sameName(a.name, label) && sameName(a.categoryName, category.name)
+      )
+    ) {
+      plan.newActivities.push({ name: label, categoryId, categoryName: category.name });
+    }
+    return {
+      entry,
+      activityId: null,
+      activityName: label,
+      categoryId,
+      categoryName: category.name,
+      isPlanned: true,
+    };
+  };
+
+  for (const entry of entries) {
+    const session = resolveSession(entry);
+    if (!session) {
+      plan.unmapped.push(entry);
+      continue;
+    }
+    const key = duplicateKey(session.activityName, entry.startTime);
+    if (seen.has(key)) {
+      plan.duplicates.push(entry);
+      continue;
+    }
+    seen.add(key);
+    plan.sessions.push(session);
+  }
+
+  return plan;
+}
+
+// ============================================
+// Preview & Apply
+// ============================================
+
+async function getSessionsNear(entries: ImportedTimeEntry[]): Promise<TimeSession[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+  const starts = entries.map(entry => Date.parse(entry.startTime));
+  // Widen by a minute on each side; duplicates match to the minute
+  return getSessionsInRange(
+    new Date(Math.min(...starts) - 60000),
+    new Date(Math.max(...starts) + 60000)
+  );
+}
+
+export async function previewTimeEntryImport(
+  entries: ImportedTimeEntry[],
+  mapping: TimeEntryImportMapping
+): Promise<TimeEntryImportPlan> {
+  const [categories, activities, existingSessions] = await Promise.all([
+    getAllCategories(),
+    getAllActivities(true),
+    getSessionsNear(entries),
+  ]);
+  return planTimeEntryImport(entries, mapping, categories, activities, existingSessions);
+}
+
+export async function applyTimeEntryImport(
+  plan: TimeEntryImportPlan
+): Promise<TimeEntryImportResult> {
+  const nameKey = (...names: string[]) => names.map(name => name.trim().toLowerCase()).join('|');
+
+  return executeTransaction(async () => {
+    const categoryIds = new Map<string, string>();
+    for (const name of plan.newCategories) {
+      const category = await createCategory({ name });
+      categoryIds.set(nameKey(name), category.id);
+    }
+
+    const activityIds = new Map<string, string>();
+    for (const planned of plan.newActivities) {
+      const activity = await createActivity({
+        name: planned.name,
+        categoryId: planned.categoryId ?? (categoryIds.get(nameKey(planned.categoryName)) as string),
+      });
+      activityIds.set(nameKey(planned.name, planned.categoryName), activity.id);
+    }
+
+    for (const session of plan.sessions) {
+      await createSession({
+        activityId:
+          session.activityId ?? activityIds.get(nameKey(session.activityName, session.categoryName)),
+        activityNameSnapshot: session.activityName,
+        categoryId: session.categoryId ?? categoryIds.get(nameKey(session.categoryName)),
+        categoryNameSnapshot: session.categoryName,
+        startTime: session.entry.startTime,
+        endTime: session.entry.endTime,
+        actualDurationSeconds: session.entry.durationSeconds,
+        expectedDurationMinutes: null,
+        isPlanned: session.isPlanned,
+        source: 'import',
+        isRunning: false,
+      });
+    }
+
+    return {
+      imported: plan.sessions.length,
+      duplicates: plan.duplicates.length,
+      unmapped: plan.unmapped.length,
+      createdCategories: plan.newCategories.length,
+      createdActivities: plan.newActivities.length,
+    };
+  });
+}
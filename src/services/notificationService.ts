@@ -14,7 +14,7 @@ import { getRunningSession } from '../database/repositories/sessionRepository';
 import { getRoutineSchedules, RoutineSchedule, getRoutineWithItems } from '../database/repositories/routineRepository';
 import { RoutineWithItems, TimeSession } from '../types';
 import * as sessionRepository from '../database/repositories/sessionRepository';
-import { nowISO } from '../utils/dateUtils';
+import { nowISO, getLogicalDate } from '../utils/dateUtils';
 import { executeQuery } from '../database/database';
 // Note: useRoutineExecutionStore is dynamically imported below to avoid circular dependency
 
@@ -347,7 +347,8 @@ function isDayAllowed(date: Date, filter: RoutineSchedule['dayFilter']): boolean
     return true;
   }
 
-  const day = date.getDay(); // 0 Sunday
+  // A routine before the day start time runs on the previous logical day
+  const day = getLogicalDate(date).getDay(); // 0 Sunday
   const isWeekend = day === 0 || day === 6;
   if (filter === 'weekdays') {
     return !isWeekend;
@@ -0,0 +1,134 @@
+// Trash Service - Lists, restores and purges soft-deleted records
+//
+// Sessions, activities and routines are moved to the trash instead of being
+// deleted. Items stay there until purged by hand or until they are older
+// than the retention period.
+
+import { format, subDays } from 'date-fns';
+import { getSetting, setSetting } from '../database/repositories/settingsRepository';
+import {
+  getDeletedSessions,
+  purgeSession,
+  restoreSession,
+} from '../database/repositories/sessionRepository';
+import {
+  getDeletedActivities,
+  purgeActivity,
+  restoreActivity,
+} from '../database/repositories/activityRepository';
+import {
+  getDeletedRoutines,
+  purgeRoutine,
+  restoreRoutine,
+} from '../database/repositories/routineRepository';
+import { TrashItem, TrashItemType } from '../types';
+import { formatDuration } from '../utils/dateUtils';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const RETENTION_SETTING_KEY = 'trashRetentionDays';
+
+// ============================================
+// Settings
+// ============================================
+
+const clampRetentionDays = (value: number): number =>
+  Math.min(MAX_TRASH_RETENTION_DAYS, Math.max(MIN_TRASH_RETENTION_DAYS, Math.round(value)));
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = await getSetting(RETENTION_SETTING_KEY);
+  const parsed = value === null ? NaN : parseInt(value, 10);
+  return isNaN(parsed) ? DEFAULT_TRASH_RETENTION_DAYS : clampRetentionDays(parsed);
+}
+
+export async function saveTrashRetentionDays(days: number): Promise<number> {
+  const saved = clampRetentionDays(days);
+  await setSetting(RETENTION_SETTING_KEY, String(saved));
+  return saved;
+}
+
+// ============================================
+// Trash Items
+// ============================================
+
+/** Everything in the trash, most recently deleted first. */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  const [sessions, activities, routines] = await Promise.all([
+    getDeletedSessions(),
+    getDeletedActivities(),
+    getDeletedRoutines(),
+  ]);
+
+  const items: TrashItem[] = [
+    ...sessions.map(session => ({
+      id: session.id,
+      type: 'session' as const,
+      title: session.activityNameSnapshot,
+      subtitle: `${format(new Date(session.startTime), 'MMM d, HH:mm')} · ${
+        session.actualDurationMinutes !== null ? formatDuration(session.actualDurationMinutes) : 'ongoing'
+      }`,
+      deletedAt: session.deletedAt,
+    })),
+    ...activities.map(activity => ({
+      id: activity.id,
+      type: 'activity' as const,
+      title: activity.name,
+      subtitle: activity.categoryName ?? 'Activity',
+      deletedAt: activity.deletedAt,
+    })),
+    ...routines.map(routine => ({
+      id: routine.id,
+      type: 'routine' as const,
+      title: routine.name,
+      subtitle: `${routine.itemCount} ${routine.itemCount === 1 ? 'step' : 'steps'}`,
+      deletedAt: routine.deletedAt,
+    })),
+  ];
+
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+const RESTORERS: Record<TrashItemType, (id: string) => Promise<boolean>> = {
+  session: restoreSession,
+  activity: restoreActivity,
+  routine: restoreRoutine,
+};
+
+const PURGERS: Record<TrashItemType, (id: string) => Promise<boolean>> = {
+  session: purgeSession,
+  activity: purgeActivity,
+  routine: purgeRoutine,
+};
+
+export async function restoreTrashItem(item: Pick<TrashItem, 'id' | 'type'>): Promise<boolean> {
+  return RESTORERS[item.type](item.id);
+}
+
+export async function purgeTrashItem(item: Pick<TrashItem, 'id' | 'type'>): Promise<boolean> {
+  return PURGERS[item.type](item.id);
+}
+
+export async function emptyTrash(): Promise<number> {
+  const items = await getTrashItems();
+  for (const item of items) {
+    await purgeTrashItem(item);
+  }
+  return items.length;
+}
+
+/**
+ * Permanently remove items that have been in the trash longer than the
+ * retention period. Runs on launch; returns how many items were purged.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  const cutoff = subDays(now, retentionDays).toISOString();
+
+  const expired = (await getTrashItems()).filter(item => item.deletedAt < cutoff);
+  for (const item of expired) {
+    await purgeTrashItem(item);
+  }
+  return expired.length;
+}
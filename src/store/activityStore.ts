@@ -4,6 +4,7 @@ import { create } from 'zustand';
 import { Activity, ActivityWithCategory, Category, CreateActivityInput, UpdateActivityInput } from '../types';
 import * as activityRepository from '../database/repositories/activityRepository';
 import * as categoryRepository from '../database/repositories/categoryRepository';
+import { useUndoStore } from './undoStore';
 
 interface ActivityState {
   // State
@@ -112,6 +113,17 @@ export const useActivityStore = create<ActivityState>((set, get) => ({
       if (result) {
         await get().loadActivities();
         await get().loadFavorites();
+
+        useUndoStore.getState().record({
+          label: 'Activity archived',
+          undo: async () => {
+            await activityRepository.unarchiveActivity(id);
+          },
+          onUndone: async () => {
+            await get().loadActivities();
+            await get().loadFavorites();
+          },
+        });
       }
       
       return result;
@@ -4,3 +4,4 @@ export { useTimerStore } from './timerStore';
 export { useActivityStore } from './activityStore';
 export { useSessionStore } from './sessionStore';
 export { useRoutineExecutionStore } from './routineExecutionStore';
+export { useUndoStore } from './undoStore';
@@ -467,14 +467,14 @@ export const useRoutineExecutionStore = create<RoutineExecutionState>((set, get)
         id: string;
         start_time: string;
         end_time: string | null;
-        actual_duration_minutes: number | null;
+        actual_duration_seconds: number | null;
         activity_id: string | null;
         activity_name_snapshot: string;
         is_running: number;
       }>(
-        `SELECT id, start_time, end_time, actual_duration_minutes, activity_id, activity_name_snapshot, is_running 
+        `SELECT id, start_time, end_time, actual_duration_seconds, activity_id, activity_name_snapshot, is_running 
          FROM time_sessions 
-         WHERE routine_id = ? AND start_time >= ?
+         WHERE routine_id = ? AND start_time >= ? AND deleted_at IS NULL
          ORDER BY start_time ASC`,
         [routineSession.routineId, runStartTime]
       );
@@ -482,8 +482,8 @@ export const useRoutineExecutionStore = create<RoutineExecutionState>((set, get)
       const completedOccurrencesSeconds = allRoutineSessions
         .filter(session => session.is_running === 0 && session.end_time !== null)
         .reduce((sum, session) => {
-          const durationSeconds = session.actual_duration_minutes !== null
-            ? session.actual_duration_minutes * 60
+          const durationSeconds = session.actual_duration_seconds !== null
+            ? session.actual_duration_seconds
             : session.end_time
               ? calculateDurationSeconds(session.start_time, session.end_time)
               : 0;
@@ -495,8 +495,8 @@ export const useRoutineExecutionStore = create<RoutineExecutionState>((set, get)
         if (session.is_running === 1) {
           continue;
         }
-        const durationSeconds = session.actual_duration_minutes !== null
-          ? session.actual_duration_minutes * 60
+        const durationSeconds = session.actual_duration_seconds !== null
+          ? session.actual_duration_seconds
           : session.end_time
             ? calculateDurationSeconds(session.start_time, session.end_time)
             : 0;
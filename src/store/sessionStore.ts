@@ -4,7 +4,10 @@ import { create } from 'zustand';
 import { TimeSession, SessionWithDetails, CreateSessionInput, UpdateSessionInput, DailyStats, CategoryTimeBreakdown, ActivityTimeBreakdown, GoalCompliance } from '../types';
 import * as sessionRepository from '../database/repositories/sessionRepository';
 import * as goalRepository from '../database/repositories/goalRepository';
+import { getPausesForSessions, moveSessionPauses } from '../database/repositories/sessionPauseRepository';
 import { getDayStart, getDayEnd, formatDate } from '../utils/dateUtils';
+import { detectSessionOverlaps } from '../utils/overlapUtils';
+import { useUndoStore } from './undoStore';
 
 interface SessionState {
   // State
@@ -116,8 +119,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         sessionsCount: act.sessionsCount,
       }));
       
-      // Check for overlaps (if total > 24h or sessions overlap in time)
-      const hasOverlaps = totalMinutes > 24 * 60;
+      // Parallel timers cover the same stretch of the day more than once
+      const pausesBySession = await getPausesForSessions(sessions.map(s => s.id));
+      const overlaps = detectSessionOverlaps(sessions, pausesBySession, { from: dayStart, to: dayEnd });
       
       // Get goal compliance for daily goals
       const dailyGoals = await goalRepository.getDailyGoals();
@@ -152,7 +156,8 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         unplannedMinutes,
         categoryBreakdown,
         activityBreakdown,
-        hasOverlaps,
+        hasOverlaps: overlaps.intervals.length > 0,
+        overlaps,
         goalCompliance,
       };
       
@@ -194,12 +199,23 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   updateSession: async (id, updates) => {
     set({ error: null });
     try {
+      const before = await sessionRepository.getSessionById(id);
       const session = await sessionRepository.updateSession(id, updates);
       
       if (session) {
         await get().loadTodaySessions();
         await get().loadRecentSessions();
       }
+
+      if (before && session) {
+        useUndoStore.getState().record({
+          label: 'Session updated',
+          undo: async () => {
+            await sessionRepository.restoreSessionSnapshot(id, before);
+          },
+          onUndone: refreshSessions,
+        });
+      }
       
       return session;
     } catch (error) {
@@ -216,6 +232,14 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       if (result) {
         await get().loadTodaySessions();
         await get().loadRecentSessions();
+
+        useUndoStore.getState().record({
+          label: 'Session moved to trash',
+          undo: async () => {
+            await sessionRepository.restoreSession(id);
+          },
+          onUndone: refreshSessions,
+        });
       }
       
       return result;
@@ -228,6 +252,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   splitSession: async (sessionId, splitTime, secondActivityId, secondActivityName, secondCategoryId, secondCategoryName) => {
     set({ error: null });
     try {
+      const original = await sessionRepository.getSessionById(sessionId);
       const result = await sessionRepository.splitSession(
         sessionId,
         splitTime,
@@ -239,6 +264,18 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       
       await get().loadTodaySessions();
       await get().loadRecentSessions();
+
+      if (original) {
+        useUndoStore.getState().record({
+          label: 'Session split',
+          undo: async () => {
+            await moveSessionPauses(result.second.id, sessionId);
+            await sessionRepository.discardSession(result.second.id);
+            await sessionRepository.restoreSessionSnapshot(sessionId, original);
+          },
+          onUndone: refreshSessions,
+        });
+      }
       
       return result;
     } catch (error) {
@@ -260,3 +297,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     set({ error: null });
   },
 }));
+
+async function refreshSessions() {
+  const { loadTodaySessions, loadRecentSessions } = useSessionStore.getState();
+  await loadTodaySessions();
+  await loadRecentSessions();
+}
@@ -2,10 +2,22 @@
 
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import { RunningTimer, ActivityWithCategory, TimeSession } from '../types';
+import {
+  RunningTimer,
+  ActivityWithCategory,
+  TimeSession,
+  TimerConcurrency,
+  IdleTime,
+  SessionPause,
+  DEFAULT_SETTINGS,
+} from '../types';
 import * as sessionRepository from '../database/repositories/sessionRepository';
 import * as activityRepository from '../database/repositories/activityRepository';
-import { nowISO, calculateDurationMinutes } from '../utils/dateUtils';
+import * as tagRepository from '../database/repositories/tagRepository';
+import * as sessionPauseRepository from '../database/repositories/sessionPauseRepository';
+import * as settingsRepository from '../database/repositories/settingsRepository';
+import { executeTransaction } from '../database/database';
+import { nowISO, calculateDurationMinutes, calculateDurationSeconds } from '../utils/dateUtils';
 import {
   scheduleTimerWarning,
   cancelTimerNotifications,
@@ -16,6 +28,7 @@ import {
   stopInactivityMonitor,
   cancelInactivityNotification,
 } from '../services/notificationService';
+import { useUndoStore } from './undoStore';
 
 interface TimerState {
   // State
@@ -28,12 +41,135 @@ interface TimerState {
   startTimer: (activity: ActivityWithCategory, isPlanned?: boolean, expectedMinutes?: number | null) => Promise<RunningTimer>;
   startQuickTimer: (activityName: string, categoryId: string, categoryName: string, categoryColor: string, isPlanned?: boolean) => Promise<RunningTimer>;
   startManualTimer: (activityName: string, categoryId: string, categoryName: string, categoryColor: string, expectedMinutes: number, isPlanned?: boolean) => Promise<RunningTimer>;
+  pauseTimer: (timerId: string) => Promise<void>;
+  resumeTimer: (timerId: string) => Promise<void>;
   stopTimer: (timerId: string) => Promise<TimeSession | null>;
+  switchTimer: (fromTimerId: string, toActivity: ActivityWithCategory) => Promise<RunningTimer>;
+  discardIdleTime: (idle: IdleTime, assignTo?: ActivityWithCategory | null) => Promise<TimeSession | null>;
   stopAllTimers: () => Promise<number>;
+  updateTimerNotes: (timerId: string, notes: string) => Promise<void>;
   getTimerDuration: (timerId: string) => number;
   clearError: () => void;
 }
 
+// Seconds the timer has been running, leaving out the time it was paused
+export function getTimerElapsedSeconds(timer: RunningTimer, now: number = Date.now()): number {
+  const end = timer.pausedAt ? timer.pausedAt.getTime() : now;
+  return Math.max(0, Math.floor((end - timer.startTime.getTime()) / 1000) - timer.pausedSeconds);
+}
+
+// A running timer counts from a later start for every second it was paused,
+// so notifications based on the elapsed time still fire at the right moment
+const getEffectiveStart = (timer: RunningTimer): Date =>
+  new Date(timer.startTime.getTime() + timer.pausedSeconds * 1000);
+
+async function getPauseState(sessionId: string): Promise<Pick<RunningTimer, 'pausedAt' | 'pausedSeconds'>> {
+  const pauses = await sessionPauseRepository.getSessionPauses(sessionId);
+  const open = pauses.find(pause => pause.resumedAt === null);
+  return {
+    pausedAt: open ? new Date(open.pausedAt) : null,
+    pausedSeconds: pauses.reduce(
+      (sum, pause) =>
+        pause.resumedAt ? sum + calculateDurationSeconds(pause.pausedAt, pause.resumedAt) : sum,
+      0
+    ),
+  };
+}
+
+// Warnings and check-ins count from the effective start
+async function scheduleTimerReminders(timer: RunningTimer): Promise<void> {
+  const effectiveStart = getEffectiveStart(timer);
+  if (timer.expectedDurationMinutes && timer.expectedDurationMinutes > 0) {
+    await scheduleTimerWarning(timer.sessionId, timer.activityName, timer.expectedDurationMinutes, effectiveStart);
+  }
+  await scheduleLongSessionReminder(timer.sessionId, timer.activityName, effectiveStart, timer.expectedDurationMinutes);
+}
+
+// Idle time leaves each session as a pause, from the later of the session start and `since`
+async function addIdlePauses(idle: IdleTime): Promise<SessionPause[]> {
+  const sinceMs = new Date(idle.since).getTime();
+  const pauses: SessionPause[] = [];
+  for (const timer of idle.timers) {
+    const from = new Date(Math.max(sinceMs, timer.startTime.getTime())).toISOString();
+    pauses.push(await sessionPauseRepository.addPause(timer.sessionId, from, idle.until));
+  }
+  return pauses;
+}
+
+async function getTimerConcurrency(): Promise<TimerConcurrency> {
+  const value = await settingsRepository.getSetting('timerConcurrency');
+  return value === 'exclusive' || value === 'exclusive_category' ? value : DEFAULT_SETTINGS.timerConcurrency;
+}
+
+/**
+ * Timers that a new timer in `categoryId` stops under the concurrency policy.
+ * Background timers neither stop nor get stopped, and routine timers are left
+ * to the routine that runs them.
+ */
+export function getConflictingTimers(
+  timers: RunningTimer[],
+  policy: TimerConcurrency,
+  categoryId: string,
+  isBackground: boolean
+): RunningTimer[] {
+  if (policy === 'parallel' || isBackground) {
+    return [];
+  }
+  return timers.filter(
+    t =>
+      !t.isBackground &&
+      !t.routineId &&
+      (policy === 'exclusive' || t.categoryId === categoryId)
+  );
+}
+
+interface StoppedTimer {
+  timer: RunningTimer;
+  sliceIds: string[];
+}
+
+// Stops the timers in the way of a new one at its start time. Meant to run in
+// the transaction that creates the new session; reminders are cancelled after.
+async function stopConflictingTimers(conflicting: RunningTimer[], startTime: string): Promise<StoppedTimer[]> {
+  const stopped: StoppedTimer[] = [];
+  for (const timer of conflicting) {
+    const result = await sessionRepository.stopSessionWithSlices(timer.sessionId, startTime);
+    if (result?.stopped) {
+      stopped.push({ timer, sliceIds: result.slices.map(slice => slice.id) });
+    }
+  }
+  return stopped;
+}
+
+async function cancelStoppedReminders(stopped: StoppedTimer[]): Promise<void> {
+  for (const { timer } of stopped) {
+    await cancelTimerNotifications(timer.sessionId);
+    await cancelLongSessionReminder(timer.sessionId);
+  }
+}
+
+// Starting a timer that stopped others can be taken back: the new session is
+// discarded and the stopped timers run on as if nothing happened
+function recordStoppedTimersUndo(activityName: string, sessionId: string, stopped: StoppedTimer[]): void {
+  if (stopped.length === 0) {
+    return;
+  }
+  useUndoStore.getState().record({
+    label: `Started ${activityName}, stopped ${stopped.map(({ timer }) => timer.activityName).join(', ')}`,
+    undo: async () => {
+      await sessionRepository.discardSession(sessionId);
+      for (const { timer, sliceIds } of stopped) {
+        await sessionRepository.resumeStoppedSession(timer.sessionId, sliceIds);
+      }
+    },
+    onUndone: async () => {
+      await cancelTimerNotifications(sessionId);
+      await cancelLongSessionReminder(sessionId);
+      await useTimerStore.getState().loadRunningTimers();
+    },
+  });
+}
+
 export const useTimerStore = create<TimerState>((set, get) => ({
   runningTimers: [],
   isLoading: false,
@@ -44,7 +180,11 @@ export const useTimerStore = create<TimerState>((set, get) => ({
     try {
       const sessions = await sessionRepository.getRunningSession();
       
-      const timers: RunningTimer[] = sessions.map(session => ({
+      const pauseStates = await Promise.all(sessions.map(session => getPauseState(session.id)));
+      const activities = await Promise.all(
+        sessions.map(session => (session.activityId ? activityRepository.getActivityById(session.activityId) : null))
+      );
+      const timers: RunningTimer[] = sessions.map((session, index) => ({
         id: uuidv4(), // Local timer ID
         sessionId: session.id,
         activityId: session.activityId,
@@ -57,12 +197,21 @@ export const useTimerStore = create<TimerState>((set, get) => ({
         expectedDurationMinutes: session.expectedDurationMinutes,
         isPlanned: session.isPlanned,
         idlePromptEnabled: session.idlePromptEnabled,
+        notes: session.notes,
+        isBackground: activities[index]?.isBackground ?? false,
+        ...pauseStates[index],
       }));
       
       set({ runningTimers: timers, isLoading: false });
 
       try {
-        await syncLongSessionReminders(sessions);
+        // Paused timers get their reminders back when they resume
+        await syncLongSessionReminders(
+          sessions
+            .map((session, index) => ({ session, timer: timers[index] }))
+            .filter(({ timer }) => !timer.pausedAt)
+            .map(({ session, timer }) => ({ ...session, startTime: getEffectiveStart(timer).toISOString() }))
+        );
       } catch (error) {
         console.warn('[Long Session] Failed to sync reminders:', error);
       }
@@ -101,24 +250,39 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       }
       
       const startTime = nowISO();
+      const conflicting = getConflictingTimers(
+        runningTimers,
+        await getTimerConcurrency(),
+        activity.categoryId,
+        activity.isBackground
+      );
       
-      // Create session in database
-      const session = await sessionRepository.createSession({
-        activityId: activity.id,
-        activityNameSnapshot: activity.name,
-        categoryId: activity.categoryId,
-        categoryNameSnapshot: activityWithCategory.categoryName,
-        startTime,
-        isPlanned: isPlanned ?? activity.isPlannedDefault,
-        expectedDurationMinutes: expectedMinutes ?? activity.defaultExpectedMinutes,
-        source: 'timer',
-        isRunning: true,
-        idlePromptEnabled: activity.idlePromptEnabled,
+      // Timers in the way stop exactly when the new one starts, or not at all
+      const { session, stopped } = await executeTransaction(async () => {
+        const stoppedTimers = await stopConflictingTimers(conflicting, startTime);
+
+        // Create session in database
+        const created = await sessionRepository.createSession({
+          activityId: activity.id,
+          activityNameSnapshot: activity.name,
+          categoryId: activity.categoryId,
+          categoryNameSnapshot: activityWithCategory.categoryName,
+          startTime,
+          isPlanned: isPlanned ?? activity.isPlannedDefault,
+          expectedDurationMinutes: expectedMinutes ?? activity.defaultExpectedMinutes,
+          source: 'timer',
+          isRunning: true,
+          idlePromptEnabled: activity.idlePromptEnabled,
+        });
+
+        // Sessions start with the activity's default tags
+        await tagRepository.applyActivityTagsToSession(activity.id, created.id);
+
+        // Update activity usage
+        await activityRepository.incrementActivityUsage(activity.id);
+        return { session: created, stopped: stoppedTimers };
       });
       
-      // Update activity usage
-      await activityRepository.incrementActivityUsage(activity.id);
-      
       // Create running timer
       const timer: RunningTimer = {
         id: uuidv4(),
@@ -132,11 +296,17 @@ export const useTimerStore = create<TimerState>((set, get) => ({
         expectedDurationMinutes: expectedMinutes ?? activity.defaultExpectedMinutes,
         isPlanned: isPlanned ?? activity.isPlannedDefault,
         idlePromptEnabled: activity.idlePromptEnabled,
+        notes: null,
+        isBackground: activity.isBackground,
+        pausedAt: null,
+        pausedSeconds: 0,
       };
       
       set(state => ({
-        runningTimers: [...state.runningTimers, timer],
+        runningTimers: [...state.runningTimers.filter(t => !conflicting.some(c => c.id === t.id)), timer],
       }));
+      await cancelStoppedReminders(stopped);
+      recordStoppedTimersUndo(activity.name, session.id, stopped);
       
       // Schedule notifications if expected duration is set
       const finalExpectedMinutes = expectedMinutes ?? activity.defaultExpectedMinutes;
@@ -187,18 +357,28 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       }
       
       const startTime = nowISO();
+      const conflicting = getConflictingTimers(runningTimers, await getTimerConcurrency(), categoryId, false);
+      const idlePromptEnabled = await settingsRepository.getSettingBoolean(
+        'defaultIdlePromptEnabled',
+        DEFAULT_SETTINGS.defaultIdlePromptEnabled
+      );
       
-      // Create session in database without activity reference
-      const session = await sessionRepository.createSession({
-        activityId: null,
-        activityNameSnapshot: activityName,
-        categoryId,
-        categoryNameSnapshot: categoryName,
-        startTime,
-        isPlanned,
-        source: 'timer',
-        isRunning: true,
-        idlePromptEnabled: true,
+      const { session, stopped } = await executeTransaction(async () => {
+        const stoppedTimers = await stopConflictingTimers(conflicting, startTime);
+
+        // Create session in database without activity reference
+        const created = await sessionRepository.createSession({
+          activityId: null,
+          activityNameSnapshot: activityName,
+          categoryId,
+          categoryNameSnapshot: categoryName,
+          startTime,
+          isPlanned,
+          source: 'timer',
+          isRunning: true,
+          idlePromptEnabled,
+        });
+        return { session: created, stopped: stoppedTimers };
       });
       
       // Create running timer
@@ -213,12 +393,18 @@ export const useTimerStore = create<TimerState>((set, get) => ({
         startTime: new Date(startTime),
         expectedDurationMinutes: null,
         isPlanned,
-        idlePromptEnabled: true,
+        idlePromptEnabled,
+        notes: null,
+        isBackground: false,
+        pausedAt: null,
+        pausedSeconds: 0,
       };
       
       set(state => ({
-        runningTimers: [...state.runningTimers, timer],
+        runningTimers: [...state.runningTimers.filter(t => !conflicting.some(c => c.id === t.id)), timer],
       }));
+      await cancelStoppedReminders(stopped);
+      recordStoppedTimersUndo(activityName, session.id, stopped);
 
       await scheduleLongSessionReminder(
         session.id,
@@ -254,19 +440,29 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       }
       
       const startTime = nowISO();
+      const conflicting = getConflictingTimers(runningTimers, await getTimerConcurrency(), categoryId, false);
+      const idlePromptEnabled = await settingsRepository.getSettingBoolean(
+        'defaultIdlePromptEnabled',
+        DEFAULT_SETTINGS.defaultIdlePromptEnabled
+      );
       
-      // Create session in database as a running timer
-      const session = await sessionRepository.createSession({
-        activityId: null,
-        activityNameSnapshot: activityName,
-        categoryId,
-        categoryNameSnapshot: categoryName,
-        startTime,
-        isPlanned,
-        expectedDurationMinutes: expectedMinutes,
-        source: 'manual',
-        isRunning: true,
-        idlePromptEnabled: true,
+      const { session, stopped } = await executeTransaction(async () => {
+        const stoppedTimers = await stopConflictingTimers(conflicting, startTime);
+
+        // Create session in database as a running timer
+        const created = await sessionRepository.createSession({
+          activityId: null,
+          activityNameSnapshot: activityName,
+          categoryId,
+          categoryNameSnapshot: categoryName,
+          startTime,
+          isPlanned,
+          expectedDurationMinutes: expectedMinutes,
+          source: 'manual',
+          isRunning: true,
+          idlePromptEnabled,
+        });
+        return { session: created, stopped: stoppedTimers };
       });
       
       // Create running timer
@@ -281,12 +477,18 @@ export const useTimerStore = create<TimerState>((set, get) => ({
         startTime: new Date(startTime),
         expectedDurationMinutes: expectedMinutes,
         isPlanned,
-        idlePromptEnabled: true,
+        idlePromptEnabled,
+        notes: null,
+        isBackground: false,
+        pausedAt: null,
+        pausedSeconds: 0,
       };
       
       set(state => ({
-        runningTimers: [...state.runningTimers, timer],
+        runningTimers: [...state.runningTimers.filter(t => !conflicting.some(c => c.id === t.id)), timer],
       }));
+      await cancelStoppedReminders(stopped);
+      recordStoppedTimersUndo(activityName, session.id, stopped);
       
       // Schedule notifications for timer warnings
       if (expectedMinutes > 0) {
@@ -320,6 +522,65 @@ export const useTimerStore = create<TimerState>((set, get) => ({
     }
   },
 
+  pauseTimer: async (timerId) => {
+    set({ error: null });
+    try {
+      const timer = get().runningTimers.find(t => t.id === timerId);
+      if (!timer) {
+        throw new Error('Timer not found');
+      }
+      if (timer.pausedAt) {
+        return;
+      }
+
+      const pause = await sessionRepository.pauseSession(timer.sessionId);
+      if (!pause) {
+        throw new Error('Session is not running');
+      }
+
+      // Warnings would fire while nothing is being tracked
+      await cancelTimerNotifications(timer.sessionId);
+      await cancelLongSessionReminder(timer.sessionId);
+
+      set(state => ({
+        runningTimers: state.runningTimers.map(t =>
+          t.id === timerId ? { ...t, pausedAt: new Date(pause.pausedAt) } : t
+        ),
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  resumeTimer: async (timerId) => {
+    set({ error: null });
+    try {
+      const timer = get().runningTimers.find(t => t.id === timerId);
+      if (!timer) {
+        throw new Error('Timer not found');
+      }
+
+      const pause = await sessionRepository.resumePausedSession(timer.sessionId);
+      const resumed: RunningTimer = {
+        ...timer,
+        pausedAt: null,
+        pausedSeconds:
+          timer.pausedSeconds +
+          (pause?.resumedAt ? calculateDurationSeconds(pause.pausedAt, pause.resumedAt) : 0),
+      };
+
+      set(state => ({
+        runningTimers: state.runningTimers.map(t => (t.id === timerId ? resumed : t)),
+      }));
+
+      await scheduleTimerReminders(resumed);
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   stopTimer: async (timerId) => {
     set({ error: null });
     try {
@@ -335,7 +596,8 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       await cancelLongSessionReminder(timer.sessionId);
       
       // Stop session in database
-      const session = await sessionRepository.stopSession(timer.sessionId);
+      const result = await sessionRepository.stopSessionWithSlices(timer.sessionId);
+      const session = result?.stopped ?? null;
       
       // Remove from running timers
       set(state => ({
@@ -347,6 +609,17 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       if (remainingTimers.length === 0) {
         await startInactivityMonitor(false);
       }
+
+      if (session) {
+        const sliceIds = result!.slices.map(slice => slice.id);
+        useUndoStore.getState().record({
+          label: `${timer.activityName} stopped`,
+          undo: async () => {
+            await sessionRepository.resumeStoppedSession(timer.sessionId, sliceIds);
+          },
+          onUndone: () => get().loadRunningTimers(),
+        });
+      }
       
       return session;
     } catch (error) {
@@ -355,6 +628,191 @@ export const useTimerStore = create<TimerState>((set, get) => ({
     }
   },
 
+  switchTimer: async (fromTimerId, toActivity) => {
+    set({ error: null });
+    try {
+      const { runningTimers } = get();
+      const fromTimer = runningTimers.find(t => t.id === fromTimerId);
+      if (!fromTimer) {
+        throw new Error('Timer not found');
+      }
+
+      // The timer being stopped may be for the same activity
+      const existingTimer = runningTimers.find(
+        t => t.id !== fromTimerId && t.activityName.toLowerCase() === toActivity.name.toLowerCase()
+      );
+      if (existingTimer) {
+        const error = new Error(`Timer for "${toActivity.name}" is already running`);
+        set({ error: error.message });
+        throw error;
+      }
+
+      // One timestamp for both ends, so no gap or overlap appears between them
+      const switchTime = nowISO();
+      const expectedMinutes = toActivity.defaultExpectedMinutes;
+      // The timer switched to follows the concurrency policy like a newly started one
+      const conflicting = getConflictingTimers(
+        runningTimers.filter(t => t.id !== fromTimerId),
+        await getTimerConcurrency(),
+        toActivity.categoryId,
+        toActivity.isBackground
+      );
+
+      const { stopped, session, stoppedTimers } = await executeTransaction(async () => {
+        const result = await sessionRepository.stopSessionWithSlices(fromTimer.sessionId, switchTime);
+        if (!result?.stopped) {
+          throw new Error(`Timer for "${fromTimer.activityName}" is no longer running`);
+        }
+        const others = await stopConflictingTimers(conflicting, switchTime);
+        const next = await sessionRepository.createSession({
+          activityId: toActivity.id,
+          activityNameSnapshot: toActivity.name,
+          categoryId: toActivity.categoryId,
+          categoryNameSnapshot: toActivity.categoryName,
+          startTime: switchTime,
+          isPlanned: toActivity.isPlannedDefault,
+          expectedDurationMinutes: expectedMinutes,
+          source: 'timer',
+          isRunning: true,
+          idlePromptEnabled: toActivity.idlePromptEnabled,
+        });
+        await tagRepository.applyActivityTagsToSession(toActivity.id, next.id);
+        await activityRepository.incrementActivityUsage(toActivity.id);
+        return { stopped: result, session: next, stoppedTimers: others };
+      });
+
+      const timer: RunningTimer = {
+        id: uuidv4(),
+        sessionId: session.id,
+        activityId: toActivity.id,
+        activityName: toActivity.name,
+        categoryId: toActivity.categoryId,
+        categoryName: toActivity.categoryName,
+        categoryColor: toActivity.categoryColor,
+        startTime: new Date(switchTime),
+        expectedDurationMinutes: expectedMinutes,
+        isPlanned: toActivity.isPlannedDefault,
+        idlePromptEnabled: toActivity.idlePromptEnabled,
+        notes: null,
+        isBackground: toActivity.isBackground,
+        pausedAt: null,
+        pausedSeconds: 0,
+      };
+
+      set(state => ({
+        runningTimers: state.runningTimers
+          .filter(t => !conflicting.some(c => c.id === t.id))
+          .map(t => (t.id === fromTimerId ? timer : t)),
+      }));
+
+      // Notifications move over to the new session
+      await cancelTimerNotifications(fromTimer.sessionId);
+      await cancelLongSessionReminder(fromTimer.sessionId);
+      await cancelStoppedReminders(stoppedTimers);
+      if (expectedMinutes && expectedMinutes > 0) {
+        await scheduleTimerWarning(session.id, toActivity.name, expectedMinutes, new Date(switchTime));
+      }
+      await scheduleLongSessionReminder(session.id, toActivity.name, new Date(switchTime), expectedMinutes);
+
+      const sliceIds = stopped.slices.map(slice => slice.id);
+      useUndoStore.getState().record({
+        label: `Switched to ${toActivity.name}`,
+        undo: async () => {
+          await sessionRepository.discardSession(session.id);
+          await sessionRepository.resumeStoppedSession(fromTimer.sessionId, sliceIds);
+          for (const other of stoppedTimers) {
+            await sessionRepository.resumeStoppedSession(other.timer.sessionId, other.sliceIds);
+          }
+        },
+        onUndone: async () => {
+          await cancelTimerNotifications(session.id);
+          await cancelLongSessionReminder(session.id);
+          await get().loadRunningTimers();
+        },
+      });
+
+      return timer;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  discardIdleTime: async (idle, assignTo = null) => {
+    set({ error: null });
+    try {
+      // Timers stopped while the prompt was open keep their time
+      const { runningTimers } = get();
+      const timers = idle.timers.filter(timer => runningTimers.some(t => t.sessionId === timer.sessionId));
+
+      const { pauses, session } = await executeTransaction(async () => {
+        const added = await addIdlePauses({ ...idle, timers });
+        if (!assignTo) {
+          return { pauses: added, session: null };
+        }
+        // The idle time is split off into a session of its own
+        const assigned = await sessionRepository.createSession({
+          activityId: assignTo.id,
+          activityNameSnapshot: assignTo.name,
+          categoryId: assignTo.categoryId,
+          categoryNameSnapshot: assignTo.categoryName,
+          startTime: idle.since,
+          endTime: idle.until,
+          actualDurationSeconds: calculateDurationSeconds(idle.since, idle.until),
+          isPlanned: assignTo.isPlannedDefault,
+          source: 'manual',
+          isRunning: false,
+          idlePromptEnabled: assignTo.idlePromptEnabled,
+        });
+        await tagRepository.applyActivityTagsToSession(assignTo.id, assigned.id);
+        await activityRepository.incrementActivityUsage(assignTo.id);
+        return { pauses: added, session: assigned };
+      });
+
+      const pausedSeconds = new Map(
+        pauses.map(pause => [pause.sessionId, calculateDurationSeconds(pause.pausedAt, pause.resumedAt!)])
+      );
+      set(state => ({
+        runningTimers: state.runningTimers.map(t =>
+          pausedSeconds.has(t.sessionId)
+            ? { ...t, pausedSeconds: t.pausedSeconds + pausedSeconds.get(t.sessionId)! }
+            : t
+        ),
+      }));
+
+      // Reminders move later by the time taken out
+      const rescheduleReminders = async () => {
+        for (const timer of get().runningTimers.filter(t => pausedSeconds.has(t.sessionId))) {
+          await cancelTimerNotifications(timer.sessionId);
+          await cancelLongSessionReminder(timer.sessionId);
+          await scheduleTimerReminders(timer);
+        }
+      };
+      await rescheduleReminders();
+
+      useUndoStore.getState().record({
+        label: assignTo ? `Idle time assigned to ${assignTo.name}` : 'Idle time discarded',
+        undo: async () => {
+          for (const pause of pauses) {
+            await sessionPauseRepository.deletePause(pause.id);
+          }
+          if (session) {
+            await sessionRepository.discardSession(session.id);
+          }
+        },
+        onUndone: async () => {
+          await get().loadRunningTimers();
+          await rescheduleReminders();
+        },
+      });
+
+      return session;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   stopAllTimers: async () => {
     set({ error: null });
     try {
@@ -378,6 +836,26 @@ export const useTimerStore = create<TimerState>((set, get) => ({
     }
   },
 
+  updateTimerNotes: async (timerId, notes) => {
+    set({ error: null });
+    try {
+      const timer = get().runningTimers.find(t => t.id === timerId);
+      if (!timer) {
+        throw new Error('Timer not found');
+      }
+
+      const session = await sessionRepository.updateSession(timer.sessionId, { notes });
+      set(state => ({
+        runningTimers: state.runningTimers.map(t =>
+          t.id === timerId ? { ...t, notes: session?.notes ?? null } : t
+        ),
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   getTimerDuration: (timerId) => {
     const { runningTimers } = get();
     const timer = runningTimers.find(t => t.id === timerId);
@@ -386,7 +864,7 @@ export const useTimerStore = create<TimerState>((set, get) => ({
       return 0;
     }
     
-    return Math.floor((Date.now() - timer.startTime.getTime()) / 1000);
+    return getTimerElapsedSeconds(timer);
   },
 
   clearError: () => {
@@ -0,0 +1,97 @@
+// Undo Store - Short-lived undo for destructive actions
+//
+// Actions that change or remove data record an inverse operation here. The
+// most recent one is offered in the undo snackbar until it expires or another
+// action replaces it.
+
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { executeTransaction } from '../database/database';
+
+export const UNDO_TIMEOUT_MS = 6000;
+
+export interface UndoableAction {
+  label: string;
+  // Inverse operation; replayed inside a single database transaction
+  undo: () => Promise<void>;
+  // Refreshes in-memory state once the inverse has been committed
+  onUndone?: () => Promise<void> | void;
+}
+
+interface PendingUndo extends UndoableAction {
+  id: string;
+}
+
+interface UndoState {
+  // State
+  pending: PendingUndo | null;
+  isUndoing: boolean;
+  // Bumped after every successful undo so screens with local state can reload
+  undoCount: number;
+  error: string | null;
+
+  // Actions
+  record: (action: UndoableAction) => void;
+  undo: () => Promise<boolean>;
+  dismiss: () => void;
+}
+
+let expiryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function clearExpiry() {
+  if (expiryTimeout) {
+    clearTimeout(expiryTimeout);
+    expiryTimeout = null;
+  }
+}
+
+export const useUndoStore = create<UndoState>((set, get) => ({
+  pending: null,
+  isUndoing: false,
+  undoCount: 0,
+  error: null,
+
+  record: (action) => {
+    clearExpiry();
+    const id = uuidv4();
+    set({ pending: { ...action, id }, error: null });
+
+    expiryTimeout = setTimeout(() => {
+      expiryTimeout = null;
+      // Leave a newer action alone
+      if (get().pending?.id === id) {
+        set({ pending: null });
+      }
+    }, UNDO_TIMEOUT_MS);
+  },
+
+  undo: async () => {
+    const { pending, isUndoing } = get();
+    if (!pending || isUndoing) {
+      return false;
+    }
+
+    clearExpiry();
+    set({ isUndoing: true, error: null });
+    try {
+      await executeTransaction(() => pending.undo());
+      set(state => ({ pending: null, isUndoing: false, undoCount: state.undoCount + 1 }));
+    } catch (error) {
+      console.error(`Failed to undo "${pending.label}":`, error);
+      set({ pending: null, isUndoing: false, error: (error as Error).message });
+      return false;
+    }
+
+    try {
+      await pending.onUndone?.();
+    } catch (error) {
+      console.error('Failed to refresh after undo:', error);
+    }
+    return true;
+  },
+
+  dismiss: () => {
+    clearExpiry();
+    set({ pending: null });
+  },
+}));
@@ -33,6 +33,7 @@ export interface Activity {
   isFavorite: boolean;
   displayOrder: number;
   idlePromptEnabled: boolean;
+  isBackground: boolean; // runs alongside other timers, whatever the concurrency setting
   isArchived: boolean;
   usageCount: number;
   lastUsedAt: string | null;
@@ -47,6 +48,7 @@ export interface CreateActivityInput {
   isPlannedDefault?: boolean;
   isFavorite?: boolean;
   idlePromptEnabled?: boolean;
+  isBackground?: boolean;
 }
 
 export interface UpdateActivityInput {
@@ -57,6 +59,7 @@ export interface UpdateActivityInput {
   isFavorite?: boolean;
   displayOrder?: number;
   idlePromptEnabled?: boolean;
+  isBackground?: boolean;
   isArchived?: boolean;
 }
 
@@ -70,7 +73,7 @@ export interface ActivityWithCategory extends Activity {
 // ============================================
 // Time Session Types
 // ============================================
-export type SessionSource = 'timer' | 'manual' | 'routine' | 'assistant';
+export type SessionSource = 'timer' | 'manual' | 'routine' | 'assistant' | 'import';
 
 export interface TimeSession {
   id: string;
@@ -81,12 +84,16 @@ export interface TimeSession {
   routineId?: string | null;
   startTime: string;
   endTime: string | null;
-  actualDurationMinutes: number | null;
+  actualDurationSeconds: number | null;
+  actualDurationMinutes: number | null; // actualDurationSeconds / 60, not rounded
   expectedDurationMinutes: number | null;
   isPlanned: boolean;
   source: SessionSource;
   isRunning: boolean;
   idlePromptEnabled: boolean;
+  notes: string | null;
+  timeZone: string | null; // IANA zone the session was captured in
+  utcOffsetMinutes: number | null; // offset from UTC at the start, e.g. 120 for UTC+2
   createdAt: string;
   updatedAt: string;
 }
@@ -99,12 +106,15 @@ export interface CreateSessionInput {
   routineId?: string | null;
   startTime: string;
   endTime?: string | null;
+  actualDurationSeconds?: number | null; // wins over actualDurationMinutes
   actualDurationMinutes?: number | null;
   expectedDurationMinutes?: number | null;
   isPlanned?: boolean;
   source: SessionSource;
   isRunning?: boolean;
   idlePromptEnabled?: boolean;
+  notes?: string | null;
+  timeZone?: string | null; // defaults to the device zone
 }
 
 export interface UpdateSessionInput {
@@ -115,10 +125,12 @@ export interface UpdateSessionInput {
   routineId?: string | null;
   startTime?: string;
   endTime?: string | null;
+  actualDurationSeconds?: number | null; // wins over actualDurationMinutes
   actualDurationMinutes?: number | null;
   expectedDurationMinutes?: number | null;
   isPlanned?: boolean;
   isRunning?: boolean;
+  notes?: string | null;
 }
 
 // Session with full category info for display
@@ -127,6 +139,134 @@ export interface SessionWithDetails extends TimeSession {
   categoryIcon?: string;
 }
 
+// What caused a session to change
+export type SessionRevisionSource = 'update' | 'split' | 'stop' | 'delete' | 'restore' | 'revert';
+
+// One entry in a session's append-only edit history. `before` is null when
+// the change brought the session into existence (a split-off or day slice,
+// or a restore from the trash); `after` is null when it was deleted.
+export interface SessionRevision {
+  id: string;
+  sessionId: string;
+  source: SessionRevisionSource;
+  before: TimeSession | null;
+  after: TimeSession | null;
+  createdAt: string;
+}
+
+// A stretch of a timer session during which it was paused. Paused time does
+// not count towards the session's duration.
+export interface SessionPause {
+  id: string;
+  sessionId: string;
+  pausedAt: string;
+  resumedAt: string | null; // null while the timer is still paused
+  createdAt: string;
+}
+
+// ============================================
+// Overlap Types
+// ============================================
+
+// A stretch of time covered by more than one session
+export interface OverlapInterval {
+  start: string;
+  end: string;
+  sessionIds: string[];
+  minutes: number;
+}
+
+export interface OverlapReport {
+  intervals: OverlapInterval[];
+  overlappingSessionIds: string[];
+  // Time covered by at least one session
+  wallClockMinutes: number;
+  // Every session's length added up, so parallel time counts more than once
+  summedMinutes: number;
+  doubleCountedMinutes: number;
+}
+
+// ============================================
+// Session Query Types
+// ============================================
+
+// Every criterion is optional and they are combined with AND. Empty id or
+// source lists are treated as "no restriction".
+export interface SessionQueryFilter {
+  // Sessions starting at or after `from` and before `to`
+  from?: Date | string;
+  to?: Date | string;
+  activityIds?: string[];
+  categoryIds?: string[];
+  sources?: SessionSource[];
+  isPlanned?: boolean;
+  isRunning?: boolean;
+  // null matches sessions that were not started from a routine
+  routineId?: string | null;
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  // Case-insensitive substring of the session notes
+  notesContain?: string;
+}
+
+export type SessionSortField = 'startTime' | 'duration' | 'activityName';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SessionQueryOptions {
+  sortBy?: SessionSortField;
+  sortDirection?: SortDirection;
+  limit?: number;
+  // nextCursor of the previous page; the sort must stay the same between pages
+  cursor?: string | null;
+}
+
+export interface SessionPage {
+  sessions: SessionWithDetails[];
+  // null when there are no more sessions
+  nextCursor: string | null;
+}
+
+export type SessionGroupBy = 'activity' | 'category' | 'day' | 'source' | 'planned';
+
+export interface SessionGroupTotal {
+  // Activity or category id, yyyy-MM-dd day, source, or 'planned' / 'unplanned'
+  key: string | null;
+  label: string;
+  totalMinutes: number;
+  sessionsCount: number;
+}
+
+// ============================================
+// Tag Types
+// ============================================
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTagInput {
+  name: string;
+  color?: string;
+}
+
+// Link rows carry their own id so backups can merge them like other records
+export interface SessionTag {
+  id: string;
+  sessionId: string;
+  tagId: string;
+  createdAt: string;
+}
+
+export interface ActivityTag {
+  id: string;
+  activityId: string;
+  tagId: string;
+  createdAt: string;
+}
+
 // ============================================
 // Goal Types
 // ============================================
@@ -211,6 +351,17 @@ export interface RunningTimer {
   expectedDurationMinutes: number | null;
   isPlanned: boolean;
   idlePromptEnabled: boolean;
+  notes: string | null;
+  isBackground: boolean; // never stopped by, and never stops, other timers
+  pausedAt: Date | null; // set while the timer is paused
+  pausedSeconds: number; // length of the pauses that have ended
+}
+
+// Time away from the app while timers kept running
+export interface IdleTime {
+  since: string; // when the app went to the background
+  until: string; // when it came back
+  timers: RunningTimer[]; // running timers that ask about idle time
 }
 
 // ============================================
@@ -224,6 +375,7 @@ export interface DailyStats {
   categoryBreakdown: CategoryTimeBreakdown[];
   activityBreakdown: ActivityTimeBreakdown[];
   hasOverlaps: boolean;
+  overlaps: OverlapReport;
   goalCompliance: GoalCompliance[];
 }
 
@@ -250,6 +402,15 @@ export interface ActivityTimeBreakdown {
   sessionsCount: number;
 }
 
+// A session with several tags counts towards each of them
+export interface TagTimeBreakdown {
+  tagId: string;
+  tagName: string;
+  tagColor: string;
+  totalMinutes: number;
+  sessionsCount: number;
+}
+
 export interface WeeklyStats {
   startDate: string;
   endDate: string;
@@ -290,9 +451,31 @@ export interface ReviewIssue {
   suggestedAction?: string;
 }
 
+// ============================================
+// Trash Types
+// ============================================
+export type Trashed<T> = T & { deletedAt: string };
+
+export type TrashItemType = 'session' | 'activity' | 'routine';
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  title: string;
+  subtitle: string;
+  deletedAt: string;
+}
+
 // ============================================
 // Settings Types
 // ============================================
+// local = the wall-clock time each session was captured in; home = the home time zone
+export type TimeZoneView = 'local' | 'home';
+
+// What starting a timer does to the timers already running: nothing, stop
+// them all, or stop those of the same category
+export type TimerConcurrency = 'parallel' | 'exclusive' | 'exclusive_category';
+
 export interface AppSettings {
   defaultIdlePromptEnabled: boolean;
   idleThresholdMinutes: number;
@@ -306,6 +489,10 @@ export interface AppSettings {
   longSessionThresholdMinutes: number;
   noTimerReminderEnabled: boolean;
   noTimerReminderMinutes: number;
+  dayStartTime: string; // HH:mm; earlier times still count to the previous day
+  timeZoneView: TimeZoneView;
+  homeTimeZone: string | null; // IANA zone; null follows the device
+  timerConcurrency: TimerConcurrency;
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -321,29 +508,192 @@ export const DEFAULT_SETTINGS: AppSettings = {
   longSessionThresholdMinutes: 60,
   noTimerReminderEnabled: true,
   noTimerReminderMinutes: 5,
+  dayStartTime: '00:00',
+  timeZoneView: 'local',
+  homeTimeZone: null,
+  timerConcurrency: 'parallel',
 };
 
 // ============================================
 // Backup Types
 // ============================================
+export type BackupTableName =
+  | 'categories'
+  | 'activities'
+  | 'sessions'
+  | 'goals'
+  | 'routines'
+  | 'routineItems'
+  | 'tags'
+  | 'sessionTags'
+  | 'activityTags'
+  | 'sessionPauses'
+  | 'sessionRevisions'
+  | 'settings';
+
+export interface BackupTableStats {
+  count: number;
+  checksum: string;
+}
+
 export interface BackupMetadata {
   version: number;
   createdAt: string;
   appVersion: string;
   deviceInfo?: string;
+  // Per-table row counts and checksums; absent in format 1 backups
+  tables?: Record<BackupTableName, BackupTableStats>;
 }
 
+// Records in the trash are backed up too, with the time they were deleted
+export type BackupSession = TimeSession & { deletedAt: string | null };
+export type BackupActivity = Activity & { deletedAt: string | null };
+export type BackupRoutine = Routine & { deletedAt: string | null };
+
 export interface BackupData {
   metadata: BackupMetadata;
   categories: Category[];
-  activities: Activity[];
-  sessions: TimeSession[];
+  activities: BackupActivity[];
+  sessions: BackupSession[];
   goals: Goal[];
-  routines: Routine[];
+  routines: BackupRoutine[];
   routineItems: RoutineItem[];
+  tags: Tag[];
+  sessionTags: SessionTag[];
+  activityTags: ActivityTag[];
+  sessionPauses: SessionPause[];
+  sessionRevisions: SessionRevision[];
   settings: Record<string, string>;
 }
 
+// Stored in the clear next to the metadata of a passphrase-protected backup;
+// binary values are base64
+export interface BackupEncryptionHeader {
+  version: number;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  cipher: 'AES-256-CTR+HMAC-SHA256';
+  iv: string;
+  // Tells a wrong passphrase apart from a damaged file
+  check: string;
+  mac: string;
+}
+
+export interface EncryptedBackupFile {
+  encryption: BackupEncryptionHeader;
+  metadata: Pick<BackupMetadata, 'version' | 'createdAt' | 'appVersion'>;
+  payload: string;
+}
+
+export type AutoBackupFrequency = 'daily' | 'weekly';
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  frequency: AutoBackupFrequency;
+  // Number of snapshot files kept; older ones are deleted after each backup
+  keepCount: number;
+}
+
+export interface AutoBackupStatus {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+// A backup file written to the documents directory
+export interface BackupSnapshot {
+  fileName: string;
+  path: string;
+  createdAt: string;
+  size: number;
+}
+
+// replace = wipe local data first; merge = keep the newer copy of each record
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreTableSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  deleted: number;
+}
+
+export type RestoreSummary = Record<BackupTableName, RestoreTableSummary>;
+
+// ============================================
+// Export Types
+// ============================================
+export type SessionExportColumn =
+  | 'activity'
+  | 'category'
+  | 'start'
+  | 'end'
+  | 'duration'
+  | 'planned'
+  | 'source'
+  | 'routine'
+  | 'notes';
+
+// local = device time zone as wall-clock time; utc = ISO 8601 with Z suffix
+export type ExportTimeZone = 'local' | 'utc';
+
+// Whole days, both ends inclusive; empty id lists mean no filter
+export interface SessionExportFilter {
+  startDate: Date;
+  endDate: Date;
+  categoryIds?: string[];
+  activityIds?: string[];
+}
+
+export interface SessionExportOptions extends SessionExportFilter {
+  columns: SessionExportColumn[];
+  timeZone: ExportTimeZone;
+}
+
+// ============================================
+// Import Types
+// ============================================
+export type TimeEntryImportFormat = 'toggl' | 'clockify';
+
+// One row of a third-party tracker export, with times resolved to ISO strings
+export interface ImportedTimeEntry {
+  row: number;
+  project: string;
+  client: string;
+  description: string;
+  tags: string[];
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedTimeEntryImport {
+  format: TimeEntryImportFormat;
+  entries: ImportedTimeEntry[];
+  errors: ImportRowError[];
+}
+
+// Keys are project names and activity labels from the file; null means unmapped
+export interface TimeEntryImportMapping {
+  categoryByProject: Record<string, string | null>;
+  activityByLabel: Record<string, string | null>;
+  createMissing: boolean;
+}
+
+export interface TimeEntryImportResult {
+  imported: number;
+  duplicates: number;
+  unmapped: number;
+  createdCategories: number;
+  createdActivities: number;
+}
+
 // ============================================
 // Navigation Types
 // ============================================
@@ -353,6 +703,8 @@ export type RootStackParamList = {
   EditActivity: { activityId?: string; categoryId?: string };
   ManualAdd: { categoryId?: string };
   SessionDetail: { sessionId: string };
+  SessionHistory: { sessionId: string };
+  History: undefined;
   Goals: undefined;
   GoalDetail: { goalId: string };
   CreateGoal: { activityId?: string };
@@ -363,7 +715,10 @@ export type RootStackParamList = {
   AddRoutineActivity: { routineId: string; itemId?: string };
   Review: { date?: string };
   Backup: undefined;
+  Export: undefined;
+  Import: undefined;
   Settings: undefined;
+  Trash: undefined;
 };
 
 export type MainTabParamList = {
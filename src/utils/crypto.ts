@@ -0,0 +1,411 @@
+// Crypto Utility Functions
+//
+// Pure JavaScript SHA-256, HMAC, PBKDF2 and AES-256-CTR so encrypted backups
+// work offline on every platform without native modules. Only what backup
+// encryption needs is implemented; the algorithms follow FIPS 180-4,
+// RFC 2104, RFC 8018 and FIPS 197 / SP 800-38A.
+
+/* eslint-disable no-bitwise */
+
+// ============================================
+// Bytes, UTF-8 & Base64
+// ============================================
+
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  const codes: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const extra = byte >= 0xf0 ? 3 : byte >= 0xe0 ? 2 : byte >= 0xc0 ? 1 : 0;
+    let code = extra === 0 ? byte : byte & (0x3f >> extra);
+    for (let j = 1; j <= extra; j++) {
+      code = (code << 6) | (bytes[i + j] & 0x3f);
+    }
+    codes.push(code);
+    i += extra + 1;
+  }
+
+  // String.fromCodePoint has an argument limit, so convert in chunks
+  let text = '';
+  for (let start = 0; start < codes.length; start += 8192) {
+    text += String.fromCodePoint(...codes.slice(start, start + 8192));
+  }
+  return text;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 0x3f] + BASE64_ALPHABET[(chunk >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 0x3f] : '=';
+  }
+  return output;
+}
+
+export function base64ToBytes(text: string): Uint8Array {
+  const clean = text.replace(/[=]+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(clean) || clean.length % 4 === 1) {
+    throw new Error('Invalid base64 data');
+  }
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+// Compares without stopping at the first difference, so timing does not
+// reveal how much of a MAC matched
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  // Provided by react-native-get-random-values in the app and by Node in tests
+  const source = (globalThis as { crypto?: { getRandomValues(array: Uint8Array): Uint8Array } })
+    .crypto;
+  if (!source?.getRandomValues) {
+    throw new Error('No secure random number generator is available');
+  }
+  return source.getRandomValues(new Uint8Array(length));
+}
+
+// ============================================
+// SHA-256
+// ============================================
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_INITIAL = Uint32Array.from([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+// Runs one block through the compression function; w[0..15] holds the block
+function compressWords(state: Uint32Array, w: Uint32Array): void {
+  for (let i = 16; i < 64; i++) {
+    const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+    const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+  for (let i = 0; i < 64; i++) {
+    const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+    const choice = (e & f) ^ (~e & g);
+    const t1 = (h + s1 + choice + SHA256_K[i] + w[i]) | 0;
+    const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+    const majority = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (s0 + majority) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] += a;
+  state[1] += b;
+  state[2] += c;
+  state[3] += d;
+  state[4] += e;
+  state[5] += f;
+  state[6] += g;
+  state[7] += h;
+}
+
+function compress(state: Uint32Array, block: Uint8Array, offset: number, w: Uint32Array): void {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  compressWords(state, w);
+}
+
+// Hashes `data` starting from a state that has already absorbed
+// `prefixLength` bytes (a multiple of the 64-byte block size)
+function digestFrom(initial: Uint32Array, prefixLength: number, data: Uint8Array): Uint8Array {
+  const state = initial.slice();
+  const w = new Uint32Array(64);
+  const fullLength = data.length - (data.length % 64);
+  for (let offset = 0; offset < fullLength; offset += 64) {
+    compress(state, data, offset, w);
+  }
+
+  const remaining = data.length - fullLength;
+  const tail = new Uint8Array(remaining < 56 ? 64 : 128);
+  tail.set(data.subarray(fullLength));
+  tail[remaining] = 0x80;
+  const bitLength = (prefixLength + data.length) * 8;
+  const tailView = new DataView(tail.buffer);
+  tailView.setUint32(tail.length - 8, Math.floor(bitLength / 0x100000000));
+  tailView.setUint32(tail.length - 4, bitLength >>> 0);
+  for (let offset = 0; offset < tail.length; offset += 64) {
+    compress(state, tail, offset, w);
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+  return digestFrom(SHA256_INITIAL, 0, data);
+}
+
+// ============================================
+// HMAC-SHA256 & PBKDF2
+// ============================================
+
+interface HmacKey {
+  inner: Uint32Array;
+  outer: Uint32Array;
+}
+
+// Absorbs the padded key once so PBKDF2 iterations only hash the message
+function prepareHmacKey(key: Uint8Array): HmacKey {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const w = new Uint32Array(64);
+  const inner = SHA256_INITIAL.slice();
+  const outer = SHA256_INITIAL.slice();
+  compress(inner, block.map(byte => byte ^ 0x36), 0, w);
+  compress(outer, block.map(byte => byte ^ 0x5c), 0, w);
+  return { inner, outer };
+}
+
+function hmacWithKey(key: HmacKey, data: Uint8Array): Uint8Array {
+  return digestFrom(key.outer, 64, digestFrom(key.inner, 64, data));
+}
+
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return hmacWithKey(prepareHmacKey(key), data);
+}
+
+// Both HMAC passes of an iteration hash a single 32-byte digest, so they are
+// run as one padded block each, straight on 32-bit words
+function hmacDigestWords(key: HmacKey, message: Uint32Array, output: Uint32Array, w: Uint32Array): void {
+  const inner = key.inner.slice();
+  w.set(message);
+  w.fill(0, 8, 16);
+  w[8] = 0x80000000;
+  w[15] = (64 + 32) * 8;
+  compressWords(inner, w);
+
+  output.set(key.outer);
+  w.set(inner);
+  w.fill(0, 8, 16);
+  w[8] = 0x80000000;
+  w[15] = (64 + 32) * 8;
+  compressWords(output, w);
+}
+
+export function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Uint8Array {
+  const key = prepareHmacKey(password);
+  const output = new Uint8Array(length);
+  const w = new Uint32Array(64);
+  const u = new Uint32Array(8);
+  const t = new Uint32Array(8);
+
+  for (let block = 1; block * 32 - 32 < length; block++) {
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    new DataView(saltBlock.buffer).setUint32(salt.length, block);
+
+    const first = new DataView(hmacWithKey(key, saltBlock).buffer);
+    for (let j = 0; j < 8; j++) {
+      u[j] = first.getUint32(j * 4);
+    }
+    t.set(u);
+    for (let i = 1; i < iterations; i++) {
+      hmacDigestWords(key, u, u, w);
+      for (let j = 0; j < 8; j++) {
+        t[j] ^= u[j];
+      }
+    }
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    t.forEach((word, j) => digestView.setUint32(j * 4, word));
+    const offset = (block - 1) * 32;
+    output.set(digest.subarray(0, Math.min(32, length - offset)), offset);
+  }
+  return output;
+}
+
+// ============================================
+// AES-256-CTR
+// ============================================
+
+const xtime = (value: number) => ((value << 1) ^ (value & 0x80 ? 0x1b : 0)) & 0xff;
+
+const SBOX = (() => {
+  const box = new Uint8Array(256);
+  const rotl8 = (value: number, bits: number) => ((value << bits) | (value >> (8 - bits))) & 0xff;
+  // Walk the multiplicative group with generator 3 and its inverse together
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) {
+      q ^= 0x09;
+    }
+    box[p] = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+  } while (p !== 1);
+  box[0] = 0x63;
+  return box;
+})();
+
+const AES_ROUNDS = 14;
+
+function expandAesKey(key: Uint8Array): Uint8Array {
+  if (key.length !== 32) {
+    throw new Error('AES-256 requires a 32-byte key');
+  }
+  const words = new Uint8Array(16 * (AES_ROUNDS + 1));
+  words.set(key);
+  let rcon = 1;
+  for (let i = 32; i < words.length; i += 4) {
+    let t = [words[i - 4], words[i - 3], words[i - 2], words[i - 1]];
+    if (i % 32 === 0) {
+      t = [SBOX[t[1]] ^ rcon, SBOX[t[2]], SBOX[t[3]], SBOX[t[0]]];
+      rcon = xtime(rcon);
+    } else if (i % 32 === 16) {
+      t = t.map(byte => SBOX[byte]);
+    }
+    for (let j = 0; j < 4; j++) {
+      words[i + j] = words[i - 32 + j] ^ t[j];
+    }
+  }
+  return words;
+}
+
+function encryptBlock(roundKeys: Uint8Array, input: Uint8Array, output: Uint8Array): void {
+  const state = new Uint8Array(16);
+  const shifted = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    state[i] = input[i] ^ roundKeys[i];
+  }
+
+  for (let round = 1; round <= AES_ROUNDS; round++) {
+    // SubBytes and ShiftRows; the state is stored column by column
+    for (let column = 0; column < 4; column++) {
+      for (let row = 0; row < 4; row++) {
+        shifted[column * 4 + row] = SBOX[state[((column + row) % 4) * 4 + row]];
+      }
+    }
+    if (round < AES_ROUNDS) {
+      for (let column = 0; column < 16; column += 4) {
+        const [a0, a1, a2, a3] = shifted.subarray(column, column + 4);
+        const all = a0 ^ a1 ^ a2 ^ a3;
+        shifted[column] = a0 ^ all ^ xtime(a0 ^ a1);
+        shifted[column + 1] = a1 ^ all ^ xtime(a1 ^ a2);
+        shifted[column + 2] = a2 ^ all ^ xtime(a2 ^ a3);
+        shifted[column + 3] = a3 ^ all ^ xtime(a3 ^ a0);
+      }
+    }
+    for (let i = 0; i < 16; i++) {
+      state[i] = shifted[i] ^ roundKeys[round * 16 + i];
+    }
+  }
+  output.set(state);
+}
+
+// Counter mode encrypts and decrypts with the same operation. The 16-byte
+// IV is the initial counter block, incremented as a big-endian integer.
+export function aes256Ctr(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  if (iv.length !== 16) {
+    throw new Error('AES-CTR requires a 16-byte IV');
+  }
+  const roundKeys = expandAesKey(key);
+  const counter = iv.slice();
+  const keystream = new Uint8Array(16);
+  const output = new Uint8Array(data.length);
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    encryptBlock(roundKeys, counter, keystream);
+    const end = Math.min(offset + 16, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ keystream[i - offset];
+    }
+    for (let i = 15; i >= 0; i--) {
+      counter[i] = (counter[i] + 1) & 0xff;
+      if (counter[i] !== 0) {
+        break;
+      }
+    }
+  }
+  return output;
+}
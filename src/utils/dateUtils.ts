@@ -4,11 +4,8 @@ import {
   format,
   parseISO,
   startOfDay,
-  endOfDay,
   startOfWeek,
-  endOfWeek,
   startOfMonth,
-  endOfMonth,
   addDays,
   addWeeks,
   addMonths,
@@ -17,11 +14,9 @@ import {
   subMonths,
   differenceInMinutes,
   differenceInSeconds,
-  isToday,
-  isYesterday,
-  isThisWeek,
-  isThisMonth,
   isSameDay,
+  isSameWeek,
+  isSameMonth,
   isBefore,
   isAfter,
   isWithinInterval,
@@ -52,18 +47,19 @@ export function formatDateTime(date: Date | string): string {
 }
 
 export function formatDisplayDate(date: Date | string): string {
-  const d = typeof date === 'string' ? parseISO(date) : date;
+  const d = getLogicalDate(date);
+  const today = getLogicalDate();
   
-  if (isToday(d)) {
+  if (isSameDay(d, today)) {
     return 'Today';
   }
-  if (isYesterday(d)) {
+  if (isSameDay(d, subDays(today, 1))) {
     return 'Yesterday';
   }
-  if (isThisWeek(d, { weekStartsOn: 1 })) {
+  if (isSameWeek(d, today, { weekStartsOn: 1 })) {
     return format(d, 'EEEE'); // Day name
   }
-  if (isThisMonth(d)) {
+  if (isSameMonth(d, today)) {
     return format(d, 'EEEE, MMM d');
   }
   return format(d, 'MMM d, yyyy');
@@ -74,8 +70,10 @@ export function formatDuration(minutes: number): string {
     return '< 1m';
   }
   
-  const hours = Math.floor(minutes / 60);
-  const mins = Math.round(minutes % 60);
+  // Round first so that 119.6 minutes reads 2h rather than 1h 60m
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const mins = total % 60;
   
   if (hours === 0) {
     return `${mins}m`;
@@ -87,8 +85,9 @@ export function formatDuration(minutes: number): string {
 }
 
 export function formatDurationLong(minutes: number): string {
-  const hours = Math.floor(minutes / 60);
-  const mins = Math.round(minutes % 60);
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const mins = total % 60;
   
   if (hours === 0) {
     return `${mins} minute${mins !== 1 ? 's' : ''}`;
@@ -112,38 +111,94 @@ export function formatTimerDisplay(seconds: number): string {
   return `${pad(minutes)}:${pad(secs)}`;
 }
 
+// ============================================
+// Logical Day
+// ============================================
+
+// Night owls can let the day start after midnight, e.g. at 04:00, so that
+// time worked at 01:30 still belongs to the evening before. Every day, week
+// and month boundary below starts at this time instead of local midnight.
+export const MAX_DAY_START_MINUTES = 12 * 60;
+
+let dayStartMinutes = 0;
+
+export function getDayStartMinutes(): number {
+  return dayStartMinutes;
+}
+
+export function setDayStartMinutes(minutes: number): void {
+  dayStartMinutes = Number.isFinite(minutes)
+    ? Math.min(Math.max(Math.round(minutes), 0), MAX_DAY_START_MINUTES)
+    : 0;
+}
+
+/**
+ * Parse a "day starts at" setting in HH:mm format into minutes after
+ * midnight. Anything malformed or out of range falls back to midnight.
+ */
+export function parseDayStartTime(value: string | null | undefined): number {
+  const match = value ? /^(\d{1,2}):(\d{2})$/.exec(value.trim()) : null;
+  if (!match) {
+    return 0;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const total = hours * 60 + minutes;
+  return minutes < 60 && total <= MAX_DAY_START_MINUTES ? total : 0;
+}
+
+export function formatDayStartTime(minutes: number = dayStartMinutes): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * The calendar date (at local midnight) of the logical day a moment belongs
+ * to. Before the day start time this is the previous calendar date.
+ */
+export function getLogicalDate(date: Date | string = new Date()): Date {
+  const d = typeof date === 'string' ? parseISO(date) : date;
+  const calendarDate = startOfDay(d);
+  return d < atDayStartTime(calendarDate) ? subDays(calendarDate, 1) : calendarDate;
+}
+
+// The moment a logical day begins, given its calendar date
+function atDayStartTime(calendarDate: Date): Date {
+  return new Date(
+    calendarDate.getFullYear(),
+    calendarDate.getMonth(),
+    calendarDate.getDate(),
+    0,
+    dayStartMinutes
+  );
+}
+
 // ============================================
 // Date Calculations
 // ============================================
 
 export function getDayStart(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return startOfDay(d);
+  return atDayStartTime(getLogicalDate(date));
 }
 
 export function getDayEnd(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return endOfDay(d);
+  return new Date(addDays(getDayStart(date), 1).getTime() - 1);
 }
 
 export function getWeekStart(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return startOfWeek(d, { weekStartsOn: 1 }); // Monday
+  return atDayStartTime(startOfWeek(getLogicalDate(date), { weekStartsOn: 1 })); // Monday
 }
 
 export function getWeekEnd(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return endOfWeek(d, { weekStartsOn: 1 }); // Sunday
+  return new Date(addWeeks(getWeekStart(date), 1).getTime() - 1); // Sunday
 }
 
 export function getMonthStart(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return startOfMonth(d);
+  return atDayStartTime(startOfMonth(getLogicalDate(date)));
 }
 
 export function getMonthEnd(date: Date | string = new Date()): Date {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return endOfMonth(d);
+  return new Date(addMonths(getMonthStart(date), 1).getTime() - 1);
 }
 
 export function calculateDurationMinutes(startTime: Date | string, endTime: Date | string): number {
@@ -209,19 +264,15 @@ export function getWeeksInRange(startDate: Date, endDate: Date): Date[] {
 // ============================================
 
 export function isDateToday(date: Date | string): boolean {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return isToday(d);
+  return isSameDay(getLogicalDate(date), getLogicalDate());
 }
 
 export function isDateYesterday(date: Date | string): boolean {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return isYesterday(d);
+  return isSameDay(getLogicalDate(date), subDays(getLogicalDate(), 1));
 }
 
 export function isSameDayCheck(date1: Date | string, date2: Date | string): boolean {
-  const d1 = typeof date1 === 'string' ? parseISO(date1) : date1;
-  const d2 = typeof date2 === 'string' ? parseISO(date2) : date2;
-  return isSameDay(d1, d2);
+  return isSameDay(getLogicalDate(date1), getLogicalDate(date2));
 }
 
 export function isDateBefore(date1: Date | string, date2: Date | string): boolean {
@@ -0,0 +1,189 @@
+// Interval Utilities - Attributes session time to the days, weeks and months it falls in
+//
+// A session is shared out in proportion to how much of its span lies in each
+// period, so a sleep session from 23:00 to 07:00 counts one hour towards the
+// first day and seven towards the second. Period boundaries are the local day
+// start time (midnight unless configured), which keeps days of 23 or 25 hours
+// right on DST changes.
+
+import { SessionPause, TimeSession } from '../types';
+import {
+  getDayStart,
+  getWeekStart,
+  getMonthStart,
+  getNextDay,
+  getNextWeek,
+  getNextMonth,
+} from './dateUtils';
+
+export type AttributionPeriod = 'day' | 'week' | 'month';
+
+type TimedSession = Pick<TimeSession, 'startTime' | 'endTime' | 'actualDurationMinutes'>;
+
+export interface PeriodShare {
+  periodStart: Date;
+  periodEnd: Date;
+  minutes: number;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const PERIOD_BOUNDS: Record<AttributionPeriod, { start: (date: Date) => Date; next: (date: Date) => Date }> = {
+  day: { start: getDayStart, next: getNextDay },
+  week: { start: getWeekStart, next: getNextWeek },
+  month: { start: getMonthStart, next: getNextMonth },
+};
+
+const toTime = (value: Date | string): number =>
+  typeof value === 'string' ? new Date(value).getTime() : value.getTime();
+
+function getSpan(session: TimedSession, now: Date): { start: number; end: number; minutes: number } {
+  const start = toTime(session.startTime);
+  const end = Math.max(start, session.endTime ? toTime(session.endTime) : now.getTime());
+  return {
+    start,
+    end,
+    // The recorded duration wins; it can differ from the span after idle time was trimmed
+    minutes: session.actualDurationMinutes ?? (end - start) / MS_PER_MINUTE,
+  };
+}
+
+/**
+ * Minutes of the session that fall inside [from, to). A session without any
+ * length counts fully in the range it starts in.
+ */
+export function getClippedMinutes(
+  session: TimedSession,
+  from: Date | string,
+  to: Date | string,
+  now: Date = new Date()
+): number {
+  const span = getSpan(session, now);
+  const rangeStart = toTime(from);
+  const rangeEnd = toTime(to);
+
+  if (span.end === span.start) {
+    return span.start >= rangeStart && span.start < rangeEnd ? span.minutes : 0;
+  }
+  const overlap = Math.min(span.end, rangeEnd) - Math.max(span.start, rangeStart);
+  return overlap > 0 ? (span.minutes * overlap) / (span.end - span.start) : 0;
+}
+
+/**
+ * Exact minutes of the session in each period it touches, unrounded so that
+ * totals over many sessions add up to their summed durations.
+ */
+export function getPeriodShares(
+  session: TimedSession,
+  period: AttributionPeriod,
+  now: Date = new Date()
+): PeriodShare[] {
+  const bounds = PERIOD_BOUNDS[period];
+  const span = getSpan(session, now);
+
+  const shares: PeriodShare[] = [];
+  let periodStart = bounds.start(new Date(span.start));
+  do {
+    const periodEnd = bounds.next(periodStart);
+    shares.push({
+      periodStart,
+      periodEnd,
+      minutes: getClippedMinutes(session, periodStart, periodEnd, now),
+    });
+    periodStart = periodEnd;
+  } while (periodStart.getTime() < span.end);
+
+  return shares;
+}
+
+/**
+ * Split a session into the periods it touches. Shares are whole minutes and
+ * always add up to the session's rounded duration.
+ */
+export function splitSessionByPeriod(
+  session: TimedSession,
+  period: AttributionPeriod,
+  now: Date = new Date()
+): PeriodShare[] {
+  const span = getSpan(session, now);
+  const shares = getPeriodShares(session, period, now);
+
+  // Largest remainder rounding, so no minute is lost or invented
+  const total = Math.round(span.minutes);
+  const rounded = shares.map(share => Math.floor(share.minutes));
+  let remaining = total - rounded.reduce((sum, minutes) => sum + minutes, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share.minutes - rounded[index] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) {
+      break;
+    }
+    rounded[index]++;
+    remaining--;
+  }
+
+  return shares
+    .map((share, index) => ({
+      periodStart: share.periodStart,
+      periodEnd: share.periodEnd,
+      minutes: rounded[index],
+    }))
+    .filter(share => share.minutes > 0);
+}
+
+// ============================================
+// Pauses
+// ============================================
+
+/**
+ * Seconds of the pauses that fall inside [from, to). A pause that has not
+ * ended yet lasts until `to`.
+ */
+export function getPausedSeconds(
+  pauses: Pick<SessionPause, 'pausedAt' | 'resumedAt'>[],
+  from: Date | string,
+  to: Date | string
+): number {
+  const rangeStart = toTime(from);
+  const rangeEnd = toTime(to);
+  const pausedMs = pauses.reduce((sum, pause) => {
+    const start = Math.max(toTime(pause.pausedAt), rangeStart);
+    const end = Math.min(pause.resumedAt ? toTime(pause.resumedAt) : rangeEnd, rangeEnd);
+    return end > start ? sum + (end - start) : sum;
+  }, 0);
+  return Math.round(pausedMs / 1000);
+}
+
+/**
+ * The stretches of a session between its pauses, each a copy of the session
+ * with narrowed times. A pause that has not ended yet lasts until the end.
+ */
+export function splitAtPauses<T extends Pick<TimeSession, 'startTime' | 'endTime'>>(
+  session: T,
+  pauses: Pick<SessionPause, 'pausedAt' | 'resumedAt'>[]
+): T[] {
+  const end = session.endTime ? toTime(session.endTime) : Infinity;
+  const sorted = [...pauses].sort((a, b) => toTime(a.pausedAt) - toTime(b.pausedAt));
+
+  const pieces: T[] = [];
+  let startTime = session.startTime;
+  for (const pause of sorted) {
+    if (toTime(pause.pausedAt) >= end) {
+      break;
+    }
+    if (toTime(pause.pausedAt) > toTime(startTime)) {
+      pieces.push({ ...session, startTime, endTime: pause.pausedAt });
+    }
+    if (!pause.resumedAt) {
+      return pieces;
+    }
+    if (toTime(pause.resumedAt) > toTime(startTime)) {
+      startTime = pause.resumedAt;
+    }
+  }
+  if (toTime(startTime) < end) {
+    pieces.push({ ...session, startTime });
+  }
+  return pieces;
+}
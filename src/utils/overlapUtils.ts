@@ -0,0 +1,122 @@
+// Overlap Utilities - Finds where sessions of parallel timers cover the same time
+
+import { OverlapInterval, OverlapReport, SessionPause, TimeSession } from '../types';
+import { splitAtPauses } from './intervalUtils';
+import { toReportSession } from './timeZoneUtils';
+
+type OverlapSession = Pick<TimeSession, 'id' | 'startTime' | 'endTime'>;
+
+interface OverlapOptions {
+  // Only time inside [from, to) is considered, e.g. a single day
+  from?: Date | string;
+  to?: Date | string;
+  // End of sessions that are still running
+  now?: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const toTime = (value: Date | string): number =>
+  typeof value === 'string' ? new Date(value).getTime() : value.getTime();
+
+const toMinutes = (ms: number): number => Math.round(ms / MS_PER_MINUTE);
+
+const sameIds = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * Sweep over the session boundaries and report every stretch of time covered
+ * by two or more sessions. Sessions that only touch (one ends as the next
+ * starts) do not overlap. Adjacent stretches with the same sessions are
+ * merged into one interval.
+ */
+export function detectOverlaps(
+  sessions: OverlapSession[],
+  options: OverlapOptions = {}
+): OverlapReport {
+  const now = (options.now ?? new Date()).getTime();
+  const from = options.from !== undefined ? toTime(options.from) : -Infinity;
+  const to = options.to !== undefined ? toTime(options.to) : Infinity;
+
+  const events: { time: number; delta: 1 | -1; id: string }[] = [];
+  for (const session of sessions) {
+    const start = Math.max(toTime(session.startTime), from);
+    const end = Math.min(session.endTime ? toTime(session.endTime) : now, to);
+    if (end > start) {
+      events.push({ time: start, delta: 1, id: session.id });
+      events.push({ time: end, delta: -1, id: session.id });
+    }
+  }
+  // Ends sort before starts at the same instant so touching sessions stay apart
+  events.sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+  const active = new Set<string>();
+  const intervals: { start: number; end: number; sessionIds: string[] }[] = [];
+  let wallClockMs = 0;
+  let summedMs = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (event.delta === 1) {
+      active.add(event.id);
+    } else {
+      active.delete(event.id);
+    }
+
+    const next = events[i + 1];
+    if (!next || next.time === event.time || active.size === 0) {
+      continue;
+    }
+
+    const span = next.time - event.time;
+    wallClockMs += span;
+    summedMs += span * active.size;
+
+    if (active.size > 1) {
+      const sessionIds = [...active].sort();
+      const last = intervals[intervals.length - 1];
+      if (last && last.end === event.time && sameIds(last.sessionIds, sessionIds)) {
+        last.end = next.time;
+      } else {
+        intervals.push({ start: event.time, end: next.time, sessionIds });
+      }
+    }
+  }
+
+  const overlapIntervals: OverlapInterval[] = intervals.map(interval => ({
+    start: new Date(interval.start).toISOString(),
+    end: new Date(interval.end).toISOString(),
+    sessionIds: interval.sessionIds,
+    minutes: toMinutes(interval.end - interval.start),
+  }));
+
+  const wallClockMinutes = toMinutes(wallClockMs);
+  const summedMinutes = toMinutes(summedMs);
+
+  return {
+    intervals: overlapIntervals,
+    overlappingSessionIds: [...new Set(intervals.flatMap(interval => interval.sessionIds))],
+    wallClockMinutes,
+    summedMinutes,
+    doubleCountedMinutes: summedMinutes - wallClockMinutes,
+  };
+}
+
+/**
+ * Overlaps between finished sessions, counting only the time they were not
+ * paused, on the report clock. Running sessions are left out like in the
+ * totals, which only count finished time.
+ */
+export function detectSessionOverlaps(
+  sessions: Pick<TimeSession, 'id' | 'startTime' | 'endTime' | 'isRunning' | 'utcOffsetMinutes'>[],
+  pausesBySession: Map<string, SessionPause[]>,
+  options: OverlapOptions = {}
+): OverlapReport {
+  return detectOverlaps(
+    sessions
+      .filter(session => !session.isRunning)
+      .flatMap(session => splitAtPauses(session, pausesBySession.get(session.id) ?? []))
+      .map(toReportSession),
+    options
+  );
+}
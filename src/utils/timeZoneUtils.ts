@@ -0,0 +1,180 @@
+// Time Zone Utilities - Capture zones on sessions and choose the clock reports use
+//
+// Every session remembers the IANA zone and UTC offset it was captured in.
+// Reports either use the clock the user lived by at the time ("local", so a
+// session keeps its day after travelling) or the home zone for everything.
+// Day boundaries from dateUtils are built on the device clock; the helpers
+// below translate between that clock and the reporting clock.
+
+import { TimeZoneView } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+let timeZoneView: TimeZoneView = 'local';
+let homeTimeZone: string | null = null;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const toDate = (value: Date | string): Date => (typeof value === 'string' ? new Date(value) : value);
+
+// ============================================
+// Zones and Offsets
+// ============================================
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given moment, e.g. 120 for
+ * Europe/Berlin in summer. Unknown zones fall back to the device offset.
+ */
+export function getUtcOffsetMinutes(date: Date | string, timeZone: string = getDeviceTimeZone()): number {
+  const d = toDate(date);
+  if (timeZone === getDeviceTimeZone() || !isValidTimeZone(timeZone)) {
+    return -d.getTimezoneOffset();
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(d)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour % 24, // some engines print midnight as 24
+    parts.minute,
+    parts.second
+  );
+  const wholeSeconds = Math.floor(d.getTime() / 1000) * 1000;
+  return Math.round((wallClock - wholeSeconds) / MS_PER_MINUTE);
+}
+
+// ============================================
+// Report Preferences
+// ============================================
+
+export function getTimeZoneView(): TimeZoneView {
+  return timeZoneView;
+}
+
+export function setTimeZoneView(view: TimeZoneView): void {
+  timeZoneView = view === 'home' ? 'home' : 'local';
+}
+
+// Without a saved home zone the device zone is home
+export function getHomeTimeZone(): string {
+  return homeTimeZone ?? getDeviceTimeZone();
+}
+
+export function setHomeTimeZone(timeZone: string | null): void {
+  homeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+// ============================================
+// Clock Conversion
+// ============================================
+
+// A date on the device clock showing the same wall-clock time as `utcMs + offset`
+function deviceDateAtWallClock(utcMs: number, offsetMinutes: number): Date {
+  const wall = new Date(utcMs + offsetMinutes * MS_PER_MINUTE);
+  return new Date(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds(),
+    wall.getUTCMilliseconds()
+  );
+}
+
+/**
+ * Move a session timestamp onto the device clock so that dateUtils groups it
+ * by the day it belongs to in the current view: the wall-clock time it was
+ * captured at, or the time at home. Unchanged when the clocks agree.
+ */
+export function toReportClock(time: string, utcOffsetMinutes: number | null): string {
+  const instant = new Date(time);
+  const offset =
+    timeZoneView === 'local'
+      ? utcOffsetMinutes ?? -instant.getTimezoneOffset()
+      : getUtcOffsetMinutes(instant, getHomeTimeZone());
+  if (offset === -instant.getTimezoneOffset()) {
+    return time;
+  }
+  return deviceDateAtWallClock(instant.getTime(), offset).toISOString();
+}
+
+// Copy of a session with its times moved onto the report clock
+export function toReportSession<T extends { startTime: string; endTime: string | null; utcOffsetMinutes: number | null }>(
+  session: T
+): T {
+  return {
+    ...session,
+    startTime: toReportClock(session.startTime, session.utcOffsetMinutes),
+    endTime: session.endTime ? toReportClock(session.endTime, session.utcOffsetMinutes) : null,
+  };
+}
+
+/**
+ * Turn a range boundary built on the device clock into the value SQL compares
+ * session times with. The local view compares wall-clock times, written like
+ * UTC timestamps; the home view compares the moment that wall-clock time
+ * happens at home.
+ */
+export function toReportBound(date: Date | string): string {
+  const d = toDate(date);
+  const wallClockMs = Date.UTC(
+    d.getFullYear(),
+    d.getMonth(),
+    d.getDate(),
+    d.getHours(),
+    d.getMinutes(),
+    d.getSeconds(),
+    d.getMilliseconds()
+  );
+
+  if (timeZoneView === 'local') {
+    return new Date(wallClockMs).toISOString();
+  }
+
+  const timeZone = getHomeTimeZone();
+  if (timeZone === getDeviceTimeZone()) {
+    return d.toISOString();
+  }
+  // Two passes settle the offset when the boundary is near a DST change
+  let instant = wallClockMs - getUtcOffsetMinutes(new Date(wallClockMs), timeZone) * MS_PER_MINUTE;
+  instant = wallClockMs - getUtcOffsetMinutes(new Date(instant), timeZone) * MS_PER_MINUTE;
+  return new Date(instant).toISOString();
+}